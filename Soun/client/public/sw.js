@@ -0,0 +1,52 @@
+// Service worker for Web Push study reminders.
+// The server sends { title, body, url, tag } for high priority notifications.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (error) {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || 'Soun';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || '',
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      tag: data.tag,
+      renotify: !!data.tag,
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+// Focus an open tab on the notification's page, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      for (const client of windows) {
+        if (client.url === url && 'focus' in client) {
+          return client.focus();
+        }
+      }
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing && 'navigate' in existing) {
+        return existing.navigate(url).then((client) => client && client.focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CourseGradeAnalytics, ExamScoreCategory, GradeWeights, RequiredScore } from "@/lib/types";
+
+export const EXAM_CATEGORIES: Array<{ value: ExamScoreCategory; label: string }> = [
+  { value: "assignment", label: "Assignments" },
+  { value: "quiz", label: "Quizzes" },
+  { value: "test", label: "Tests" },
+  { value: "midterm", label: "Midterms" },
+  { value: "exam", label: "Exams" },
+  { value: "final", label: "Final" },
+  { value: "project", label: "Projects" },
+];
+
+const categoryLabel = (category: ExamScoreCategory) =>
+  EXAM_CATEGORIES.find(option => option.value === category)?.label || category;
+
+function signed(value: number): string {
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+/**
+ * One course's trend line, weighted and projected grade, grade weights and the
+ * "what do I need on the final" calculator
+ */
+export function CourseGrades({ courses }: { courses: CourseGradeAnalytics[] }) {
+  const [courseId, setCourseId] = useState(courses[0]?.courseId || "");
+  const course = courses.find(option => option.courseId === courseId) || courses[0];
+
+  if (!course) {
+    return (
+      <p className="text-muted-foreground text-center py-8">
+        Record exam scores to see your course grades.
+      </p>
+    );
+  }
+
+  const chartData = course.trend.points.map(point => ({
+    ...point,
+    label: new Date(`${point.date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <Select value={course.courseId} onValueChange={setCourseId}>
+        <SelectTrigger className="w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {courses.map(option => (
+            <SelectItem key={option.courseId} value={option.courseId}>{option.courseName}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-muted/50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2">Current Grade</h3>
+          <p className="text-3xl font-bold">{course.currentGrade}%</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {course.weights ? "Weighted by your grading scheme" : "Every score counts equally"}
+          </p>
+        </div>
+        <div className="bg-muted/50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2">Projected Final Grade</h3>
+          <p className="text-3xl font-bold">{course.projectedGrade}%</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Remaining work at your trend of {course.trend.nextScore}%
+          </p>
+        </div>
+        <div className="bg-muted/50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2">Trend</h3>
+          <p className={`text-3xl font-bold ${course.trend.slopePerMonth > 0 ? "text-green-600" : course.trend.slopePerMonth < 0 ? "text-red-600" : ""}`}>
+            {signed(course.trend.slopePerMonth)}
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">percentage points per month</p>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1 text-sm">
+          <span className="font-medium">Grade earned so far</span>
+          <span className="text-muted-foreground">{course.gradedWeight}% of the course</span>
+        </div>
+        <Progress value={course.gradedWeight} />
+      </div>
+
+      {chartData.length > 1 && (
+        <div className="h-[250px] w-full" data-testid="chart-course-trend">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" />
+              <YAxis domain={[0, 100]} />
+              <Tooltip
+                labelFormatter={(_, payload) => payload?.[0]?.payload?.examName || ""}
+                formatter={(value) => `${value}%`}
+              />
+              <Legend />
+              <Line dataKey="percentage" name="Score" stroke="hsl(var(--primary))" strokeWidth={2} />
+              <Line dataKey="fitted" name="Trend" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">By Category</h3>
+        {course.categories.map(grade => (
+          <div key={grade.category} className="flex items-center justify-between text-sm">
+            <span>{categoryLabel(grade.category)}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">
+                {grade.averageScore === null ? "Not graded yet" : `${grade.averageScore}% over ${grade.count}`}
+              </span>
+              {grade.weight !== null && <Badge variant="outline">{grade.weight}% of grade</Badge>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <GradeWeightsEditor course={course} />
+      <RequiredScoreCalculator course={course} />
+    </div>
+  );
+}
+
+function GradeWeightsEditor({ course }: { course: CourseGradeAnalytics }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const initial: Record<string, string> = {};
+    Object.entries(course.weights || {}).forEach(([category, weight]) => {
+      initial[category] = String(weight);
+    });
+    setWeights(initial);
+  }, [course.courseId, course.weights]);
+
+  const total = Object.values(weights).reduce((sum, weight) => sum + (Number(weight) || 0), 0);
+
+  const onSaved = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/exam-scores/analytics'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/exam-scores/required'] });
+    toast({ title: "Grade weights updated", description });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload: GradeWeights = {};
+      Object.entries(weights).forEach(([category, weight]) => {
+        if (Number(weight) > 0) payload[category as ExamScoreCategory] = Number(weight);
+      });
+      return apiRequest('PUT', `/api/exam-scores/weights/${encodeURIComponent(course.courseId)}`, { weights: payload });
+    },
+    onSuccess: () => onSaved(`${course.courseName} grades now follow your weights.`),
+    onError: () => toast({ title: "Failed to save weights", description: "Weights must add up to 100%.", variant: "destructive" })
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/exam-scores/weights/${encodeURIComponent(course.courseId)}`),
+    onSuccess: () => onSaved(`Every ${course.courseName} score counts equally again.`),
+  });
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Grade Weights</h3>
+        <span className={`text-xs ${Math.abs(total - 100) < 0.5 ? "text-green-600" : "text-muted-foreground"}`}>
+          Total {total}%
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Enter how much each category counts toward the course grade, as on your syllabus.
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {EXAM_CATEGORIES.map(option => (
+          <div key={option.value} className="space-y-1">
+            <Label htmlFor={`weight-${option.value}`} className="text-xs">{option.label}</Label>
+            <Input
+              id={`weight-${option.value}`}
+              type="number"
+              min="0"
+              max="100"
+              value={weights[option.value] || ""}
+              onChange={(e) => setWeights({ ...weights, [option.value]: e.target.value })}
+              placeholder="0"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={Math.abs(total - 100) >= 0.5 || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Weights"}
+        </Button>
+        {course.weights && (
+          <Button size="sm" variant="outline" onClick={() => clearMutation.mutate()} disabled={clearMutation.isPending}>
+            Count Scores Equally
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function RequiredScoreCalculator({ course }: { course: CourseGradeAnalytics }) {
+  const weightedCategories = course.weights
+    ? EXAM_CATEGORIES.filter(option => course.weights![option.value])
+    : EXAM_CATEGORIES;
+  const [targetGrade, setTargetGrade] = useState("90");
+  const [category, setCategory] = useState<ExamScoreCategory>("final");
+  const selectedCategory = weightedCategories.some(option => option.value === category)
+    ? category
+    : weightedCategories[weightedCategories.length - 1]?.value;
+  const target = Number(targetGrade);
+  const validTarget = targetGrade !== "" && target >= 0 && target <= 100;
+
+  const { data: required } = useQuery<RequiredScore>({
+    queryKey: ['/api/exam-scores/required', course.courseId, selectedCategory, target],
+    queryFn: async () => {
+      const params = new URLSearchParams({ courseId: course.courseId, targetGrade: String(target), category: selectedCategory! });
+      const res = await apiRequest('GET', `/api/exam-scores/required?${params}`);
+      return res.json();
+    },
+    enabled: validTarget && !!selectedCategory,
+  });
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <h3 className="text-sm font-medium">What Do I Need?</h3>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="target-grade" className="text-xs">Target course grade (%)</Label>
+          <Input
+            id="target-grade"
+            type="number"
+            min="0"
+            max="100"
+            className="w-32"
+            value={targetGrade}
+            onChange={(e) => setTargetGrade(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">On the next</Label>
+          <Select value={selectedCategory} onValueChange={(value) => setCategory(value as ExamScoreCategory)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {weightedCategories.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {required && validTarget && (
+        <div className="bg-muted/50 p-3 rounded-lg text-sm" data-testid="text-required-score">
+          {required.secured ? (
+            <p>You'll reach {required.targetGrade}% whatever you score.</p>
+          ) : required.achievable ? (
+            <p>
+              You need <span className="font-bold">{required.requiredPercentage}%</span> on your next{" "}
+              {required.category} to finish with {required.targetGrade}%.
+            </p>
+          ) : (
+            <p>
+              {required.targetGrade}% is out of reach: it would take {required.requiredPercentage}% on your next{" "}
+              {required.category}.
+            </p>
+          )}
+          {course.weights && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Categories not graded yet are assumed to come in at your trend of {course.trend.nextScore}%.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,10 @@ import { z } from "zod";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-import { PlusCircle, BarChart2, BookOpen } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlusCircle, BarChart2, BookOpen, TrendingUp } from "lucide-react";
+import { CourseGrades, EXAM_CATEGORIES } from "./course-grades";
+import type { ExamScoreAnalytics, ExamScoreCategory } from "@/lib/types";
 
 // Form schema for adding a new exam score
 const examScoreSchema = z.object({
@@ -26,6 +29,7 @@ const examScoreSchema = z.object({
   maxScore: z.string().min(1, "Maximum score is required"),
   date: z.string().min(1, "Date is required"),
   feedback: z.string().optional(),
+  category: z.enum(EXAM_CATEGORIES.map(option => option.value) as [ExamScoreCategory, ...ExamScoreCategory[]]),
 });
 
 export function ExamScores() {
@@ -34,7 +38,7 @@ export function ExamScores() {
   const queryClient = useQueryClient();
   
   // Query to get exam score analytics
-  const { data: analyticsData, isLoading: analyticsLoading } = useQuery({
+  const { data: analyticsData, isLoading: analyticsLoading } = useQuery<ExamScoreAnalytics>({
     queryKey: ['/api/exam-scores/analytics'],
   });
   
@@ -50,6 +54,7 @@ export function ExamScores() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/exam-scores'] });
       queryClient.invalidateQueries({ queryKey: ['/api/exam-scores/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/exam-scores/required'] });
       setAddExamOpen(false);
       toast({
         title: "Exam score added",
@@ -77,6 +82,7 @@ export function ExamScores() {
       maxScore: "100",
       date: new Date().toISOString().split('T')[0],
       feedback: "",
+      category: "exam",
     },
   });
   
@@ -106,6 +112,10 @@ export function ExamScores() {
               <BarChart2 className="h-4 w-4" />
               <span>Overview</span>
             </TabsTrigger>
+            <TabsTrigger value="grades" className="flex items-center gap-1">
+              <TrendingUp className="h-4 w-4" />
+              <span>Course Grades</span>
+            </TabsTrigger>
             <TabsTrigger value="history" className="flex items-center gap-1">
               <BookOpen className="h-4 w-4" />
               <span>Score History</span>
@@ -128,9 +138,9 @@ export function ExamScores() {
                   <div className="bg-muted/50 p-4 rounded-lg">
                     <h3 className="text-sm font-medium text-muted-foreground mb-2">Average Score</h3>
                     <p className="text-3xl font-bold">{analyticsData?.averageScore || "--"}%</p>
-                    {analyticsData?.improvement > 0 && (
-                      <p className="text-sm text-green-500 mt-1">
-                        +{analyticsData.improvement}% from previous exams
+                    {analyticsData && analyticsData.improvement !== 0 && (
+                      <p className={`text-sm mt-1 ${analyticsData.improvement > 0 ? "text-green-500" : "text-red-500"}`}>
+                        {analyticsData.improvement > 0 ? "+" : ""}{analyticsData.improvement} points along your score trend
                       </p>
                     )}
                   </div>
@@ -173,18 +183,18 @@ export function ExamScores() {
                   </div>
                 </div>
                 
-                {analyticsData?.recentExams?.length > 0 && (
+                {analyticsData && analyticsData.recentExams.length > 0 && (
                   <div>
                     <h3 className="text-sm font-medium mb-3">Recent Exams</h3>
                     <div className="space-y-3">
-                      {analyticsData.recentExams.map((exam: any) => (
+                      {analyticsData.recentExams.map((exam) => (
                         <div key={exam.id} className="bg-muted/50 p-3 rounded-lg flex justify-between items-center">
                           <div>
                             <h4 className="font-medium">{exam.examName}</h4>
                             <p className="text-sm text-muted-foreground">{exam.courseName}</p>
                           </div>
                           <div className="text-right">
-                            <p className="font-bold">{exam.score}/{exam.maxScore}</p>
+                            <p className="font-bold">{exam.score}/{exam.maxScore} ({exam.percentage}%)</p>
                             <p className="text-xs text-muted-foreground">{new Date(exam.date).toLocaleDateString()}</p>
                           </div>
                         </div>
@@ -196,6 +206,14 @@ export function ExamScores() {
             )}
           </TabsContent>
           
+          <TabsContent value="grades">
+            {analyticsLoading ? (
+              <Skeleton className="h-[300px] w-full" />
+            ) : (
+              <CourseGrades courses={analyticsData?.coursePerformance || []} />
+            )}
+          </TabsContent>
+          
           <TabsContent value="history">
             {scoresLoading ? (
               <div className="space-y-2">
@@ -347,19 +365,43 @@ export function ExamScores() {
                 />
               </div>
               
-              <FormField
-                control={form.control}
-                name="date"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Exam Date</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Exam Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Counts Toward</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {EXAM_CATEGORIES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               
               <FormField
                 control={form.control}
@@ -7,6 +7,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useTextToSpeech } from "@/hooks/use-text-to-speech";
 import { VoiceSettingsDialog } from "@/components/voice/voice-settings-dialog";
+import { UnderstandingFeedback } from "@/components/voice/understanding-feedback";
 
 interface VoiceAssistantProps {
   courseId?: string;
@@ -24,6 +25,7 @@ export function VoiceAssistant({ courseId, courseName }: VoiceAssistantProps = {
     message: string;
     timestamp: Date;
     courseContext?: string;
+    interactionId?: string | null;
   }>>([]);
 
   const recognitionRef = useRef<any>(null);
@@ -99,7 +101,8 @@ export function VoiceAssistant({ courseId, courseName }: VoiceAssistantProps = {
           type: 'assistant',
           message: data.response,
           timestamp: new Date(),
-          courseContext: data.courseContext
+          courseContext: data.courseContext,
+          interactionId: data.interactionId
         }
       ]);
 
@@ -199,6 +202,9 @@ export function VoiceAssistant({ courseId, courseName }: VoiceAssistantProps = {
                     📚 {entry.courseContext}
                   </div>
                 )}
+                {entry.type === 'assistant' && entry.interactionId && (
+                  <UnderstandingFeedback key={entry.interactionId} interactionId={entry.interactionId} />
+                )}
               </div>
             ))
           )}
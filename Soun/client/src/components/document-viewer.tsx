@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   Card,
   CardHeader,
@@ -27,9 +27,16 @@ interface DocumentViewerProps {
     metadata: string | null;
   } | null;
   isLoading: boolean;
+  // Passage to scroll to and highlight, as a character range of document.content
+  highlight?: {
+    startOffset: number;
+    endOffset: number;
+    slide?: number;
+  } | null;
 }
 
 interface Slide {
+  slideNumber?: number;
   title: string;
   content: string;
   notes?: string;
@@ -37,18 +44,26 @@ interface Slide {
   image?: string;
 }
 
-export function DocumentViewer({ document, isLoading }: DocumentViewerProps) {
+// Uploads store the validated MIME type; older records used the bare extension
+const PPTX_FILE_TYPES = [
+  "pptx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.ms-powerpoint",
+];
+
+export function DocumentViewer({ document, isLoading, highlight }: DocumentViewerProps) {
   const [currentTab, setCurrentTab] = useState("content");
   const [currentSlide, setCurrentSlide] = useState(0);
   const [slides, setSlides] = useState<Slide[]>([]);
+  const highlightRef = useRef<HTMLElement>(null);
   const { toast } = useToast();
 
   // Parse metadata for PowerPoint presentations
   useEffect(() => {
-    if (document?.metadata && document.fileType === "pptx") {
+    if (document?.metadata && PPTX_FILE_TYPES.includes(document.fileType)) {
       try {
         const data = JSON.parse(document.metadata);
-        if (data.type === "pptx" && Array.isArray(data.slides)) {
+        if ((data.type === "pptx" || data.type === "ppt") && Array.isArray(data.slides)) {
           setSlides(data.slides);
           // Reset current slide when loading a new presentation
           setCurrentSlide(0);
@@ -67,6 +82,21 @@ export function DocumentViewer({ document, isLoading }: DocumentViewerProps) {
     }
   }, [document, toast]);
 
+  // Show the highlighted passage in the text view, keeping the slide view in step
+  useEffect(() => {
+    if (!highlight) return;
+    setCurrentTab("content");
+    if (highlight.slide) {
+      setCurrentSlide(highlight.slide - 1);
+    }
+  }, [document?.id, highlight]);
+
+  useEffect(() => {
+    if (highlight && currentTab === "content") {
+      highlightRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [document?.content, highlight, currentTab]);
+
   const goToNextSlide = () => {
     if (currentSlide < slides.length - 1) {
       setCurrentSlide((prev) => prev + 1);
@@ -156,7 +186,7 @@ export function DocumentViewer({ document, isLoading }: DocumentViewerProps) {
         {/* Slide content */}
         <div className="pt-16 pb-10 px-10 bg-white rounded-md border min-h-[400px]">
           <h2 className="text-2xl font-bold mb-6 text-center">{slide.title}</h2>
-          <p className="text-lg mb-6">{slide.content}</p>
+          {!slide.bullets?.length && <p className="text-lg mb-6">{slide.content}</p>}
 
           {slide.bullets && slide.bullets.length > 0 && (
             <ul className="space-y-3 my-6">
@@ -199,9 +229,27 @@ export function DocumentViewer({ document, isLoading }: DocumentViewerProps) {
       );
     }
 
+    const content = document.content;
+    const hasHighlight = highlight
+      && highlight.startOffset >= 0
+      && highlight.endOffset <= content.length
+      && highlight.startOffset < highlight.endOffset;
+
     return (
       <div className="p-4 bg-muted rounded-md">
-        <pre className="whitespace-pre-wrap text-sm">{document.content}</pre>
+        <pre className="whitespace-pre-wrap text-sm">
+          {hasHighlight ? (
+            <>
+              {content.slice(0, highlight.startOffset)}
+              <mark ref={highlightRef} className="bg-yellow-200 rounded-sm">
+                {content.slice(highlight.startOffset, highlight.endOffset)}
+              </mark>
+              {content.slice(highlight.endOffset)}
+            </>
+          ) : (
+            content
+          )}
+        </pre>
       </div>
     );
   };
@@ -223,12 +271,12 @@ export function DocumentViewer({ document, isLoading }: DocumentViewerProps) {
       </CardHeader>
       <CardContent className="pt-4">
         <Tabs
-          defaultValue={currentTab}
+          value={currentTab}
           onValueChange={setCurrentTab}
           className="w-full"
         >
           <TabsList className="mb-4">
-            {document.fileType === "pptx" && (
+            {PPTX_FILE_TYPES.includes(document.fileType) && (
               <TabsTrigger value="slides">
                 <PresentationIcon className="h-4 w-4 mr-2" /> Slides
               </TabsTrigger>
@@ -238,7 +286,7 @@ export function DocumentViewer({ document, isLoading }: DocumentViewerProps) {
             </TabsTrigger>
           </TabsList>
 
-          {document.fileType === "pptx" && (
+          {PPTX_FILE_TYPES.includes(document.fileType) && (
             <TabsContent value="slides" className="mt-0">
               {renderPowerPointView()}
             </TabsContent>
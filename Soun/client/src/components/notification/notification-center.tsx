@@ -13,6 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Notification, NotificationType, formatNotification, getNotificationIcon } from '@/lib/notifications';
+import type { Notification as StoredNotification } from '@shared/schema';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
@@ -20,100 +21,55 @@ interface NotificationCenterProps {
   onOpenChange?: (open: boolean) => void;
 }
 
+// A stored notification as /api/notifications sends it, dates serialized
+type NotificationResponse = Omit<StoredNotification, 'timestamp' | 'readAt'> & {
+  timestamp: string;
+  readAt: string | null;
+};
+
 export function NotificationCenter({ onOpenChange }: NotificationCenterProps) {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
   
-  // Query to get notifications
+  // Query to get notifications; the server generates them, so poll to pick up new reminders
   const { data: notifications = [], isLoading } = useQuery<Notification[]>({
     queryKey: ['/api/notifications'],
     queryFn: async () => {
-      try {
-        // In a real implementation, this would fetch from the API
-        // const response = await fetch('/api/notifications');
-        // if (!response.ok) throw new Error('Failed to fetch notifications');
-        // return await response.json();
-        
-        // For now, return mock data
-        return [
-          {
-            id: '1',
-            type: 'session_reminder',
-            title: 'Study Session Reminder',
-            message: 'Your Database Systems session starts in 30 minutes',
-            timestamp: new Date(Date.now() - 1000 * 60 * 5), // 5 minutes ago
-            read: false,
-            relatedId: 'session-1',
-            priority: 'high'
-          },
-          {
-            id: '2',
-            type: 'assignment_due',
-            title: 'Assignment Due Soon',
-            message: 'Your Data Structures assignment is due tomorrow',
-            timestamp: new Date(Date.now() - 1000 * 60 * 30), // 30 minutes ago
-            read: false,
-            relatedId: 'assignment-1',
-            priority: 'medium'
-          },
-          {
-            id: '3',
-            type: 'achievement',
-            title: 'Achievement Unlocked',
-            message: 'Study Streak: You\'ve completed 5 days of studying in a row!',
-            timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2), // 2 hours ago
-            read: true,
-            priority: 'low'
-          },
-          {
-            id: '4',
-            type: 'suggestion',
-            title: 'Study Suggestion',
-            message: 'We recommend reviewing Database Normalization before your upcoming exam',
-            timestamp: new Date(Date.now() - 1000 * 60 * 60 * 5), // 5 hours ago
-            read: true,
-            priority: 'medium'
-          }
-        ] as Notification[];
-      } catch (error) {
-        console.error("Error fetching notifications:", error);
-        return [];
-      }
-    }
+      const response = await fetch('/api/notifications', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch notifications');
+      const items: NotificationResponse[] = await response.json();
+      return items.map(item => ({
+        id: String(item.id),
+        type: item.type as NotificationType,
+        title: item.title,
+        message: item.message,
+        timestamp: new Date(item.timestamp),
+        read: item.read,
+        actionUrl: item.actionUrl || undefined,
+        relatedId: item.relatedId || undefined,
+        priority: item.priority as Notification['priority'],
+      }));
+    },
+    refetchInterval: 60 * 1000,
   });
   
   // Mark notification as read
   const markAsRead = useMutation({
     mutationFn: async (notificationId: string) => {
-      try {
-        // In a real implementation, call the API
-        // return apiRequest("POST", `/api/notifications/${notificationId}/read`, {});
-        
-        // For now, simulate success
-        return new Promise(resolve => setTimeout(resolve, 300));
-      } catch (error) {
-        console.error("Error marking notification as read:", error);
-        throw error;
-      }
+      return apiRequest("POST", `/api/notifications/${notificationId}/read`, {});
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+    onError: (error) => {
+      console.error("Error marking notification as read:", error);
     }
   });
   
   // Mark all notifications as read
   const markAllAsRead = useMutation({
     mutationFn: async () => {
-      try {
-        // In a real implementation, call the API
-        // return apiRequest("POST", "/api/notifications/mark-all-read", {});
-        
-        // For now, simulate success
-        return new Promise(resolve => setTimeout(resolve, 500));
-      } catch (error) {
-        console.error("Error marking all notifications as read:", error);
-        throw error;
-      }
+      return apiRequest("POST", "/api/notifications/mark-all-read", {});
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
@@ -121,6 +77,13 @@ export function NotificationCenter({ onOpenChange }: NotificationCenterProps) {
         title: "Success",
         description: "All notifications marked as read"
       });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not mark notifications as read",
+        variant: "destructive",
+      });
     }
   });
   
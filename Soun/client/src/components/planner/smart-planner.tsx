@@ -12,11 +12,12 @@ import {
   Star, CheckCircle, AlertTriangle
 } from 'lucide-react';
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import { format } from 'date-fns';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { StudySuggestion, StudySuggestions, useStudySuggestions } from './study-suggestions';
 import { useStudySessionNotifications, requestNotificationPermission } from '@/lib/notifications';
 import { useMotivation } from '@/context/motivation-context';
+import type { Assessment, Deadline } from '@shared/schema';
 
 // Types
 export interface StudySession {
@@ -30,7 +31,7 @@ export interface StudySession {
   isPriority: boolean;
   status: 'scheduled' | 'completed' | 'missed';
   completionRate?: number;
-  type?: 'session' | 'deadline' | 'exam';
+  type?: 'session' | 'deadline' | 'exam' | 'test';
   courseId?: string;
 }
 
@@ -52,6 +53,7 @@ interface SmartPlannerProps {
 
 export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
   const [date, setDate] = useState<Date | undefined>(initialDate);
+  const [month, setMonth] = useState<Date>(initialDate);
   const [activeTab, setActiveTab] = useState('calendar');
   const { toast } = useToast();
   const { notifyStudySuggestion } = useStudySessionNotifications();
@@ -65,13 +67,11 @@ export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
     queryKey: ['/api/study-sessions', formattedDate],
     queryFn: async () => {
       try {
-        // In a real implementation, fetch from API
-        // const response = await fetch(`/api/study-sessions?date=${formattedDate}`);
-        // if (!response.ok) throw new Error('Failed to fetch sessions');
-        // return await response.json();
-
-        // Return empty array - no test data
-        return [];
+        const response = await fetch(`/api/study-sessions?date=${formattedDate}`, {
+          credentials: 'include'
+        });
+        if (!response.ok) throw new Error('Failed to fetch sessions');
+        return await response.json();
       } catch (error) {
         console.error("Error fetching study sessions:", error);
         return [];
@@ -80,6 +80,66 @@ export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
     enabled: !!formattedDate
   });
 
+  // Exams, tests and deadlines for the month on display: listed with the selected day's sessions
+  // and marked on the calendar
+  const monthFrom = format(startOfMonth(month), 'yyyy-MM-dd');
+  const monthTo = format(endOfMonth(month), 'yyyy-MM-dd');
+  const fetchPlanned = async (path: string) => {
+    const response = await fetch(`${path}?from=${monthFrom}&to=${monthTo}`, { credentials: 'include' });
+    if (!response.ok) throw new Error(`Failed to fetch ${path}`);
+    return response.json();
+  };
+
+  const { data: exams = [] } = useQuery<Assessment[]>({
+    queryKey: ['/api/exams', monthFrom],
+    queryFn: () => fetchPlanned('/api/exams')
+  });
+
+  const { data: tests = [] } = useQuery<Assessment[]>({
+    queryKey: ['/api/tests', monthFrom],
+    queryFn: () => fetchPlanned('/api/tests')
+  });
+
+  const { data: deadlines = [] } = useQuery<Deadline[]>({
+    queryKey: ['/api/deadlines', monthFrom],
+    queryFn: () => fetchPlanned('/api/deadlines')
+  });
+
+  const plannedEvents: StudySession[] = [
+    ...[...exams, ...tests].map(assessment => ({
+      id: assessment.id,
+      title: assessment.title,
+      subject: assessment.subject,
+      startTime: assessment.startTime.slice(0, 5),
+      endTime: assessment.endTime.slice(0, 5),
+      date: assessment.date,
+      notes: [assessment.location, assessment.notes].filter(Boolean).join(' • ') || undefined,
+      isPriority: true,
+      status: 'scheduled' as const,
+      type: assessment.type === 'test' ? 'test' as const : 'exam' as const,
+      courseId: assessment.courseId || undefined
+    })),
+    ...deadlines.map(deadline => ({
+      id: deadline.id,
+      title: deadline.title,
+      subject: deadline.subject,
+      startTime: deadline.dueTime.slice(0, 5),
+      endTime: deadline.dueTime.slice(0, 5),
+      date: deadline.dueDate,
+      notes: deadline.description || undefined,
+      isPriority: deadline.isPriority,
+      status: 'scheduled' as const,
+      type: 'deadline' as const,
+      courseId: deadline.courseId || undefined
+    }))
+  ];
+
+  const dayItems = [
+    ...sessions,
+    ...plannedEvents.filter(event => event.date === formattedDate)
+  ].sort((a, b) => String(a.startTime).localeCompare(String(b.startTime)));
+  const toDay = (value: string) => new Date(`${value}T00:00:00`);
+
   // Query to get study metrics
   const { data: metrics, isLoading: metricsLoading } = useQuery<StudyMetric>({
     queryKey: ['/api/study-metrics'],
@@ -237,6 +297,16 @@ export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
                       mode="single"
                       selected={date}
                       onSelect={setDate}
+                      month={month}
+                      onMonthChange={setMonth}
+                      modifiers={{
+                        exam: [...exams, ...tests].map(assessment => toDay(assessment.date)),
+                        deadline: deadlines.map(deadline => toDay(deadline.dueDate))
+                      }}
+                      modifiersClassNames={{
+                        exam: 'bg-purple-100 text-purple-700',
+                        deadline: 'bg-orange-100 text-orange-700'
+                      }}
                       className="rounded-md border"
                     />
                     <div className="mt-4 text-center">
@@ -269,9 +339,9 @@ export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
                 <div className="md:col-span-2">
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="font-medium">
-                      {sessions.length === 0 
-                        ? 'No sessions scheduled' 
-                        : `${sessions.length} session${sessions.length !== 1 ? 's' : ''} for this day`}
+                      {dayItems.length === 0 
+                        ? 'Nothing scheduled' 
+                        : `${dayItems.length} item${dayItems.length !== 1 ? 's' : ''} for this day`}
                     </h3>
                     <Button size="sm">
                       <PlusCircle className="h-4 w-4 mr-1.5" />
@@ -283,7 +353,7 @@ export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
                     <div className="flex justify-center py-8">
                       <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
                     </div>
-                  ) : sessions.length === 0 ? (
+                  ) : dayItems.length === 0 ? (
                     <div className="text-center py-8 border rounded-lg">
                       <Calendar className="h-10 w-10 mx-auto text-muted-foreground opacity-30" />
                       <p className="mt-2 text-muted-foreground">No study sessions for this day</p>
@@ -293,9 +363,9 @@ export function SmartPlanner({ initialDate = new Date() }: SmartPlannerProps) {
                     </div>
                   ) : (
                     <div className="space-y-3">
-                      {sessions.map((session) => (
+                      {dayItems.map((session) => (
                         <SessionCard 
-                          key={session.id} 
+                          key={`${session.type || 'session'}-${session.id}`} 
                           session={session} 
                           onComplete={() => completeSession.mutate(session.id)}
                           isCompleting={completeSession.isPending}
@@ -448,6 +518,13 @@ function SessionCard({ session, onComplete, isCompleting }: SessionCardProps) {
           icon: <Brain className="h-4 w-4 text-purple-500" />,
           label: 'Exam'
         };
+      case 'test':
+        return {
+          bg: 'bg-purple-50 border-purple-200',
+          text: 'text-purple-700',
+          icon: <Brain className="h-4 w-4 text-purple-500" />,
+          label: 'Test'
+        };
       case 'deadline':
         return {
           bg: 'bg-orange-50 border-orange-200',
@@ -504,7 +581,7 @@ function SessionCard({ session, onComplete, isCompleting }: SessionCardProps) {
                 <span className="ml-1">{typeStyle.label}</span>
               </Badge>
             )}
-            {(session.type === 'exam' || session.type === 'deadline') && daysUntil !== null && daysUntil > 0 && (
+            {(session.type === 'exam' || session.type === 'test' || session.type === 'deadline') && daysUntil !== null && daysUntil > 0 && (
               <Badge variant="outline" className="ml-auto">
                 {daysUntil} day{daysUntil !== 1 ? 's' : ''} left
               </Badge>
@@ -556,14 +633,14 @@ function SessionCard({ session, onComplete, isCompleting }: SessionCardProps) {
         </div>
       )}
 
-      {(session.type === 'exam' || session.type === 'deadline') && (
+      {(session.type === 'exam' || session.type === 'test' || session.type === 'deadline') && (
         <div className="mt-3 flex justify-end gap-2">
           {session.courseId && (
             <Button size="sm" variant="outline">
               View Course
             </Button>
           )}
-          {session.type === 'exam' && (
+          {(session.type === 'exam' || session.type === 'test') && (
             <Button size="sm">
               Prepare
             </Button>
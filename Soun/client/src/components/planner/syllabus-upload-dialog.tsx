@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { AlertTriangle, BookOpen, CalendarDays, FileText, Trash2, UploadIcon } from 'lucide-react';
+import type { SyllabusDraft, SyllabusSchedule } from '@shared/schema';
+
+interface SyllabusUploadDialogProps {
+  courseId?: string;
+  courses: { id: number; courseId: string; name: string }[];
+}
+
+interface ConfirmResponse {
+  created: { assignments: number; exams: number; studySessions: number };
+  skipped: string[];
+}
+
+export function SyllabusUploadDialog({ courseId, courses }: SyllabusUploadDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedCourseId, setSelectedCourseId] = useState(courseId || '');
+  const [file, setFile] = useState<File | null>(null);
+  const [termStart, setTermStart] = useState('');
+  const [draft, setDraft] = useState<SyllabusDraft | null>(null);
+  const [schedule, setSchedule] = useState<SyllabusSchedule | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setTermStart('');
+    setDraft(null);
+    setSchedule(null);
+  };
+
+  // Upload the file; the server answers with a draft schedule to review
+  const uploadSyllabus = useMutation({
+    mutationFn: async (): Promise<SyllabusDraft> => {
+      const formData = new FormData();
+      formData.append('file', file!);
+      formData.append('courseId', selectedCourseId);
+      if (termStart) formData.append('termStart', termStart);
+
+      const res = await fetch('/api/syllabus/upload', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ error: 'Upload failed' }));
+        throw new Error(errorData.error || 'Upload failed');
+      }
+      return res.json();
+    },
+    onSuccess: (created) => {
+      setDraft(created);
+      setSchedule(created.schedule);
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Could not upload syllabus",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const confirmDraft = useMutation({
+    mutationFn: async (): Promise<ConfirmResponse> => {
+      const res = await apiRequest("POST", `/api/syllabus/drafts/${draft!.id}/confirm`, {
+        schedule,
+        termStart: termStart || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      const { created, skipped } = result;
+      toast({
+        title: "Syllabus added to your planner",
+        description: `${created.studySessions} study sessions, ${created.exams} exams and ${created.assignments} assignments created` +
+          (skipped.length > 0 ? `; ${skipped.length} items skipped without a date` : ''),
+      });
+      setIsOpen(false);
+      reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/study-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/exams'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tests'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not create the schedule",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateSchedule = (changes: Partial<SyllabusSchedule>) => {
+    setSchedule(current => current ? { ...current, ...changes } : current);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <UploadIcon className="h-4 w-4 mr-2" />
+          Upload Syllabus
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{schedule ? "Review Syllabus Schedule" : "Upload Syllabus"}</DialogTitle>
+          <DialogDescription>
+            {schedule
+              ? "Check what we found before it is added to your planner. Remove anything that's wrong and fill in missing dates."
+              : "Upload your course syllabus to automatically generate a study plan."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!schedule ? (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Course</label>
+              <select
+                value={selectedCourseId}
+                onChange={(e) => setSelectedCourseId(e.target.value)}
+                className="w-full p-2 border rounded"
+                disabled={!!courseId}
+              >
+                <option value="">Select a course</option>
+                {courses.map((course) => (
+                  <option key={course.id} value={course.courseId}>
+                    {course.name} ({course.courseId})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Syllabus file</label>
+              <Input
+                type="file"
+                accept=".pdf,.docx,.doc,.pptx,.ppt,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+              <p className="text-xs text-muted-foreground">PDF, Word or PowerPoint</p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">First day of term (optional)</label>
+              <Input type="date" value={termStart} onChange={(e) => setTermStart(e.target.value)} />
+              <p className="text-xs text-muted-foreground">Used when the schedule lists weeks without dates</p>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => uploadSyllabus.mutate()}
+                disabled={!file || !selectedCourseId || uploadSyllabus.isPending}
+              >
+                {uploadSyllabus.isPending ? "Reading syllabus..." : "Upload"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            {draft && draft.warnings.length > 0 && (
+              <div className="rounded border border-yellow-300 bg-yellow-50 p-3 space-y-1">
+                {draft.warnings.map((warning, index) => (
+                  <p key={index} className="flex items-start text-sm text-yellow-800">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {schedule.weeks.some(week => !week.startDate) && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">First day of term</label>
+                <Input type="date" value={termStart} onChange={(e) => setTermStart(e.target.value)} />
+              </div>
+            )}
+
+            <section className="space-y-2">
+              <h3 className="flex items-center font-medium">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Weekly topics
+                <Badge variant="secondary" className="ml-2">{schedule.weeks.length}</Badge>
+              </h3>
+              {schedule.weeks.length === 0 && (
+                <p className="text-sm text-muted-foreground">No weekly schedule found</p>
+              )}
+              {schedule.weeks.map((week, index) => (
+                <div key={week.week} className="flex items-start justify-between rounded border p-2">
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      Week {week.week}
+                      {week.startDate && <span className="ml-2 text-muted-foreground">{week.startDate}</span>}
+                    </p>
+                    {week.topics.length > 0 && <p>{week.topics.join(', ')}</p>}
+                    {week.readings.length > 0 && (
+                      <p className="text-muted-foreground">Readings: {week.readings.join('; ')}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateSchedule({ weeks: schedule.weeks.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="flex items-center font-medium">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Exams and tests
+                <Badge variant="secondary" className="ml-2">{schedule.exams.length}</Badge>
+              </h3>
+              {schedule.exams.map((exam, index) => (
+                <div key={index} className="flex items-center gap-2 rounded border p-2">
+                  <div className="flex-1 text-sm">
+                    <p className="font-medium">{exam.title}</p>
+                    <p className="text-muted-foreground">
+                      {exam.type === 'test' ? 'Test' : 'Exam'}
+                      {exam.startTime && ` · ${exam.startTime}${exam.endTime ? `–${exam.endTime}` : ''}`}
+                      {exam.location && ` · ${exam.location}`}
+                    </p>
+                  </div>
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={exam.date || ''}
+                    onChange={(e) => updateSchedule({
+                      exams: schedule.exams.map((item, i) => i === index ? { ...item, date: e.target.value || null } : item)
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateSchedule({ exams: schedule.exams.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="flex items-center font-medium">
+                <FileText className="h-4 w-4 mr-2" />
+                Assignment deadlines
+                <Badge variant="secondary" className="ml-2">{schedule.assignments.length}</Badge>
+              </h3>
+              {schedule.assignments.map((assignment, index) => (
+                <div key={index} className="flex items-center gap-2 rounded border p-2">
+                  <p className="flex-1 text-sm font-medium">{assignment.title}</p>
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={assignment.dueDate || ''}
+                    onChange={(e) => updateSchedule({
+                      assignments: schedule.assignments.map((item, i) => i === index ? { ...item, dueDate: e.target.value || null } : item)
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateSchedule({ assignments: schedule.assignments.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </section>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={reset}>Start over</Button>
+              <Button onClick={() => confirmDraft.mutate()} disabled={confirmDraft.isPending}>
+                {confirmDraft.isPending ? "Adding..." : "Add to planner"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+import { Badge } from "@/components/ui/badge";
+import type { DeliveryAnalysis } from "@/context/presentation-context";
+
+// Comfortable presentation pace in words per minute, as the server grades it
+const SLOW_WPM = 110;
+const FAST_WPM = 160;
+
+const SECTION_STATUS: Record<DeliveryAnalysis['sections'][number]['status'], { label: string; className: string }> = {
+  under: { label: "Short", className: "bg-yellow-100 text-yellow-800" },
+  on_time: { label: "On time", className: "bg-green-100 text-green-800" },
+  over: { label: "Over", className: "bg-red-100 text-red-800" },
+  missed: { label: "Not detected", className: "bg-gray-100 text-gray-700" }
+};
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Pace over time with the comfortable band, filler words, long pauses and section changes,
+ * followed by each section's time against the plan
+ */
+export function DeliveryReport({ analysis }: { analysis: DeliveryAnalysis }) {
+  const data = analysis.timeline.map(point => ({ ...point, time: (point.start + point.end) / 2 }));
+  const sectionStarts = analysis.sections.filter(section => section.start !== null && section.start > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">{analysis.wordCount} words</Badge>
+        <Badge variant="outline">
+          {analysis.fillers.total} filler word(s) · {analysis.fillers.perMinute}/min
+        </Badge>
+        {analysis.pauses && (
+          <Badge variant="outline">
+            {analysis.pauses.long.length} long pause(s) · longest {analysis.pauses.longest}s
+          </Badge>
+        )}
+        {analysis.speakingSeconds !== null && (
+          <Badge variant="outline">
+            Speaking {Math.round((analysis.speakingSeconds / Math.max(analysis.durationSeconds, 1)) * 100)}% of the time
+          </Badge>
+        )}
+      </div>
+
+      {data.length > 1 && (
+        <div className="h-56" data-testid="chart-delivery-timeline">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[0, analysis.durationSeconds]}
+                tickFormatter={formatDuration}
+              />
+              <YAxis yAxisId="wpm" width={40} />
+              <YAxis yAxisId="fillers" orientation="right" allowDecimals={false} width={30} />
+              <ReferenceArea yAxisId="wpm" y1={SLOW_WPM} y2={FAST_WPM} fill="hsl(var(--primary))" fillOpacity={0.08} />
+              {analysis.pauses?.long.map((pause, i) => (
+                <ReferenceArea key={`pause-${i}`} yAxisId="wpm" x1={pause.start} x2={pause.end} fill="#f59e0b" fillOpacity={0.2} />
+              ))}
+              {sectionStarts.map(section => (
+                <ReferenceLine
+                  key={section.sectionId}
+                  yAxisId="wpm"
+                  x={section.start!}
+                  stroke="#94a3b8"
+                  strokeDasharray="4 4"
+                  label={{ value: section.title, position: "insideTopLeft", fontSize: 11 }}
+                />
+              ))}
+              <Tooltip
+                labelFormatter={(time) => formatDuration(Number(time))}
+                formatter={(value, name) => [value, name === "wordsPerMinute" ? "Words per minute" : "Filler words"]}
+              />
+              <Bar yAxisId="fillers" dataKey="fillerCount" fill="#f87171" barSize={8} />
+              <Line yAxisId="wpm" dataKey="wordsPerMinute" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {analysis.sections.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">
+            Section timing
+            {analysis.sectionSource === 'transcript' && (
+              <span className="font-normal text-muted-foreground"> (estimated from what you said)</span>
+            )}
+          </h4>
+          {analysis.sections.map(section => (
+            <div key={section.sectionId} className="flex items-center justify-between text-sm">
+              <span className="truncate">{section.title || "Untitled section"}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-muted-foreground">
+                  {formatDuration(section.actualSeconds)} / {formatDuration(section.plannedSeconds)}
+                </span>
+                <Badge className={SECTION_STATUS[section.status].className}>{SECTION_STATUS[section.status].label}</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useSpeechRecognition } from "@/hooks/use-speech-recognition";
+import { usePresentation, type PracticeRecording, type PracticeTake } from "@/context/presentation-context";
+import { DeliveryReport, formatDuration } from "./delivery-report";
+import { ChevronDown, ChevronRight, Clock, Mic, SkipForward, Square, Trash2, Loader2 } from "lucide-react";
+
+export function PracticeRecorder() {
+  const { outlineSections, recordings, addRecording, removeRecording } = usePresentation();
+  const { toast } = useToast();
+  const { transcript, isSupported, startListening, stopListening, resetTranscript } = useSpeechRecognition({ continuous: true });
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [liveTranscript, setLiveTranscript] = useState("");
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef<number>(0);
+  const segmentsRef = useRef<PracticeTake['segments']>([]);
+  const sectionMarksRef = useRef<PracticeTake['sectionMarks']>([]);
+
+  const plannedMinutes = outlineSections.reduce((sum, section) => sum + section.time, 0);
+
+  const secondsIn = () => (Date.now() - startedAtRef.current) / 1000;
+
+  // Recognition reports one finished phrase at a time; keep when each ended so pace can be plotted
+  useEffect(() => {
+    if (!transcript || !isRecording) return;
+    segmentsRef.current.push({ text: transcript.trim(), end: secondsIn() });
+    setLiveTranscript(segmentsRef.current.map(segment => segment.text).join(" "));
+    resetTranscript();
+  }, [transcript, isRecording, resetTranscript]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      setElapsed((Date.now() - startedAtRef.current) / 1000);
+    }, 500);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const finishRecording = async (audio: Blob | null) => {
+    const duration = secondsIn();
+    setIsSaving(true);
+    try {
+      const recording = await addRecording({
+        date: new Date().toISOString(),
+        duration,
+        audio,
+        transcript: segmentsRef.current.map(segment => segment.text).join(" ").trim(),
+        segments: segmentsRef.current,
+        sectionMarks: sectionMarksRef.current
+      });
+      setExpandedId(recording.id);
+      toast({
+        title: "Practice saved",
+        description: recording.id.startsWith("local-")
+          ? "Saved on this page only; it couldn't be analysed or stored with your presentation."
+          : `${formatDuration(recording.duration)} at ${recording.wordsPerMinute ?? 0} words per minute.`,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      segmentsRef.current = [];
+      sectionMarksRef.current = outlineSections.length > 0 ? [{ sectionId: outlineSections[0].id, start: 0 }] : [];
+      setSectionIndex(0);
+      setLiveTranscript("");
+      resetTranscript();
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType || "audio/webm" });
+        finishRecording(blob.size > 0 ? blob : null);
+      };
+
+      mediaRecorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      recorder.start();
+      if (isSupported) startListening();
+      setIsRecording(true);
+    } catch (error) {
+      console.error("Error starting practice recording:", error);
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access to record a practice run.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const stopRecording = () => {
+    if (!mediaRecorderRef.current || !isRecording) return;
+    stopListening();
+    mediaRecorderRef.current.stop();
+    setIsRecording(false);
+  };
+
+  // Marking section changes times each section exactly; without marks they are estimated from the transcript
+  const nextSection = () => {
+    const next = sectionIndex + 1;
+    if (next >= outlineSections.length) return;
+    sectionMarksRef.current.push({ sectionId: outlineSections[next].id, start: secondsIn() });
+    setSectionIndex(next);
+  };
+
+  const handleDelete = async (recording: PracticeRecording) => {
+    try {
+      await removeRecording(recording.id);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to delete the recording.", variant: "destructive" });
+    }
+  };
+
+  const paceBadge = (status: PracticeRecording['paceStatus']) => {
+    if (!status) return null;
+    const labels = { slow: "Too slow", good: "Good pace", fast: "Too fast" };
+    return (
+      <Badge variant={status === 'good' ? "default" : "secondary"}>{labels[status]}</Badge>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-lg p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-3xl font-mono" data-testid="text-practice-timer">{formatDuration(elapsed)}</div>
+            <div className="text-sm text-muted-foreground flex items-center gap-1">
+              <Clock className="h-4 w-4" />
+              Planned: {plannedMinutes} min
+            </div>
+          </div>
+          {isRecording ? (
+            <div className="flex gap-2">
+              {sectionIndex < outlineSections.length - 1 && (
+                <Button variant="outline" onClick={nextSection} data-testid="button-next-section">
+                  <SkipForward className="h-4 w-4 mr-2" />
+                  Next Section
+                </Button>
+              )}
+              <Button variant="destructive" onClick={stopRecording} data-testid="button-stop-practice">
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            </div>
+          ) : (
+            <Button onClick={startRecording} disabled={isSaving} data-testid="button-start-practice">
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mic className="h-4 w-4 mr-2" />}
+              {isSaving ? "Saving..." : "Start Practice"}
+            </Button>
+          )}
+        </div>
+
+        {plannedMinutes > 0 && (
+          <Progress value={Math.min(100, (elapsed / (plannedMinutes * 60)) * 100)} />
+        )}
+
+        {isRecording && outlineSections[sectionIndex] && (
+          <p className="text-sm">
+            Now presenting: <span className="font-medium">{outlineSections[sectionIndex].title}</span>
+            <span className="text-muted-foreground"> ({outlineSections[sectionIndex].time} min planned)</span>
+          </p>
+        )}
+
+        {!isSupported && (
+          <p className="text-sm text-muted-foreground">
+            Speech recognition isn't available in this browser, so pace and filler words can't be measured. Pauses are still measured from the audio.
+          </p>
+        )}
+
+        {(isRecording || liveTranscript) && (
+          <div className="bg-muted/50 rounded p-3 text-sm max-h-40 overflow-y-auto">
+            {liveTranscript || <span className="text-muted-foreground">Listening...</span>}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-medium">Practice history</h3>
+        {recordings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No practice runs yet. Record one to see your pace and timing.</p>
+        ) : (
+          recordings.map(recording => (
+            <div key={recording.id} className="border rounded-lg p-4 space-y-2" data-testid={`practice-${recording.id}`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">{new Date(recording.date).toLocaleString()}</span>
+                  <Badge variant="outline">{formatDuration(recording.duration)}</Badge>
+                  {recording.wordsPerMinute !== undefined && (
+                    <span className="text-sm text-muted-foreground">{recording.wordsPerMinute} wpm</span>
+                  )}
+                  {paceBadge(recording.paceStatus)}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(recording)} aria-label="Delete recording">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {recording.audioUrl && <audio controls src={recording.audioUrl} className="w-full" />}
+
+              {recording.feedback?.tips?.length > 0 && (
+                <ul className="text-sm list-disc pl-5 space-y-1">
+                  {recording.feedback.tips.map((tip: string, i: number) => <li key={i}>{tip}</li>)}
+                </ul>
+              )}
+
+              {recording.analysis && (
+                <div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="px-0"
+                    onClick={() => setExpandedId(expandedId === recording.id ? null : recording.id)}
+                  >
+                    {expandedId === recording.id ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                    Delivery analysis
+                  </Button>
+                  {expandedId === recording.id && <DeliveryReport analysis={recording.analysis} />}
+                </div>
+              )}
+
+              {recording.transcript && (
+                <p className="text-sm text-muted-foreground line-clamp-3">{recording.transcript}</p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
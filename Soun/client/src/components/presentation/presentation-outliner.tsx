@@ -0,0 +1,194 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePresentation, type OutlineSection } from "@/context/presentation-context";
+import { ArrowDown, ArrowUp, Clock, FileText, Lightbulb, Plus, Trash2 } from "lucide-react";
+
+// Share of the talk an introduction or conclusion should take at most
+const MAX_FRAMING_SHARE = 0.2;
+// Notes are shorthand, so far fewer words than the ~130 a minute of speech needs
+const MIN_NOTE_WORDS_PER_MINUTE = 10;
+
+/**
+ * Structural tips for each section: empty notes, sections with no time, and framing
+ * sections that take too much of the talk
+ */
+function reviewOutline(sections: OutlineSection[]): OutlineSection[] {
+  const totalTime = sections.reduce((sum, section) => sum + section.time, 0);
+
+  return sections.map((section, index) => {
+    const suggestions: string[] = [];
+    const words = section.content.trim().split(/\s+/).filter(Boolean).length;
+    const title = section.title.toLowerCase();
+    const isFraming = index === 0 || index === sections.length - 1 || /intro|conclu|summary/.test(title);
+
+    if (!section.title.trim()) {
+      suggestions.push("Give this section a title so the audience knows where they are.");
+    }
+    if (words === 0) {
+      suggestions.push("Add notes for what you will say here.");
+    } else if (words < MIN_NOTE_WORDS_PER_MINUTE * section.time) {
+      suggestions.push(`Your notes are brief for ${section.time} minute(s); add key points, an example or a transition.`);
+    }
+    if (section.time <= 0) {
+      suggestions.push("Plan some time for this section.");
+    } else if (isFraming && totalTime > 0 && section.time / totalTime > MAX_FRAMING_SHARE) {
+      suggestions.push("Keep introductions and conclusions short so the main points get most of the time.");
+    }
+    if (index === sections.length - 1 && !/conclu|summary|wrap|takeaway/.test(title)) {
+      suggestions.push("End with a conclusion that restates your main message.");
+    }
+
+    return { ...section, suggestions };
+  });
+}
+
+export function PresentationOutliner() {
+  const { title, setTitle, outlineSections, setOutlineSections, regenerateFullText } = usePresentation();
+  const { toast } = useToast();
+
+  const totalTime = outlineSections.reduce((sum, section) => sum + section.time, 0);
+
+  const updateSection = (id: string, changes: Partial<OutlineSection>) => {
+    setOutlineSections(outlineSections.map(section => section.id === id ? { ...section, ...changes } : section));
+  };
+
+  const addSection = () => {
+    setOutlineSections([
+      ...outlineSections,
+      { id: `${Date.now()}`, title: "New Section", content: "", time: 2, suggestions: [] }
+    ]);
+  };
+
+  const removeSection = (id: string) => {
+    setOutlineSections(outlineSections.filter(section => section.id !== id));
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= outlineSections.length) return;
+    const reordered = [...outlineSections];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setOutlineSections(reordered);
+  };
+
+  const handleReview = () => {
+    const reviewed = reviewOutline(outlineSections);
+    setOutlineSections(reviewed);
+    const tipCount = reviewed.reduce((sum, section) => sum + section.suggestions.length, 0);
+    toast({
+      title: tipCount === 0 ? "Outline looks good" : "Outline reviewed",
+      description: tipCount === 0 ? "No structural issues found." : `${tipCount} suggestion(s) added to your sections.`,
+    });
+  };
+
+  const handleGenerateText = () => {
+    regenerateFullText();
+    toast({
+      title: "Full text updated",
+      description: "Your outline was copied to the Text Revision tab.",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="presentation-title">Presentation title</Label>
+        <Input
+          id="presentation-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="What is your presentation called?"
+          data-testid="input-presentation-title"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Clock className="h-4 w-4" />
+          Planned length: <span className="font-medium text-foreground">{totalTime} min</span>
+          <span>across {outlineSections.length} section(s)</span>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleReview}>
+            <Lightbulb className="h-4 w-4 mr-2" />
+            Review Structure
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleGenerateText}>
+            <FileText className="h-4 w-4 mr-2" />
+            Build Full Text
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {outlineSections.map((section, index) => (
+          <div key={section.id} className="border rounded-lg p-4 space-y-3" data-testid={`outline-section-${section.id}`}>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{index + 1}</Badge>
+              <Input
+                value={section.title}
+                onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                placeholder="Section title"
+                className="font-medium"
+              />
+              <div className="flex items-center gap-1 shrink-0">
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={section.time}
+                  onChange={(e) => updateSection(section.id, { time: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-20"
+                  aria-label="Planned minutes"
+                />
+                <span className="text-sm text-muted-foreground">min</span>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => moveSection(index, -1)} disabled={index === 0} aria-label="Move up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === outlineSections.length - 1}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => removeSection(section.id)} aria-label="Delete section">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <Textarea
+              value={section.content}
+              onChange={(e) => updateSection(section.id, { content: e.target.value })}
+              placeholder="Key points, examples and transitions for this section..."
+              rows={4}
+            />
+
+            {section.suggestions.length > 0 && (
+              <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-400">
+                {section.suggestions.map((suggestion, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <Lightbulb className="h-4 w-4 mt-0.5 shrink-0" />
+                    {suggestion}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button variant="outline" onClick={addSection} className="w-full">
+        <Plus className="h-4 w-4 mr-2" />
+        Add Section
+      </Button>
+    </div>
+  );
+}
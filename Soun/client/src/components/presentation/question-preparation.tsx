@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { usePresentation, type Question } from "@/context/presentation-context";
+import { Loader2, Plus, Sparkles, Star, Trash2 } from "lucide-react";
+
+type QuestionFilter = 'all' | 'favorites' | 'unanswered' | Question['difficulty'];
+
+const DIFFICULTY_STYLES: Record<Question['difficulty'], string> = {
+  basic: "bg-green-100 text-green-800",
+  intermediate: "bg-yellow-100 text-yellow-800",
+  advanced: "bg-red-100 text-red-800"
+};
+
+export function QuestionPreparation() {
+  const { title, outlineSections, questions, setQuestions } = usePresentation();
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<QuestionFilter>('all');
+  const [newText, setNewText] = useState("");
+  const [newDifficulty, setNewDifficulty] = useState<Question['difficulty']>('intermediate');
+
+  const generateQuestions = useMutation({
+    mutationFn: async (): Promise<Question[]> => {
+      const res = await apiRequest("POST", "/api/presentations/questions/generate", {
+        title,
+        outline: outlineSections,
+        count: 8
+      });
+      const data = await res.json();
+      return data.questions;
+    },
+    onSuccess: (generated) => {
+      // Keep what the student already prepared; skip questions they already have
+      const known = new Set(questions.map(q => q.text.trim().toLowerCase()));
+      const fresh = generated.filter(q => !known.has(q.text.trim().toLowerCase()));
+      setQuestions([...questions, ...fresh]);
+      toast({
+        title: "Questions generated",
+        description: fresh.length > 0 ? `${fresh.length} new question(s) to prepare for.` : "No new questions this time.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to generate questions. Please try again.", variant: "destructive" });
+    }
+  });
+
+  const updateQuestion = (id: string, changes: Partial<Question>) => {
+    setQuestions(questions.map(q => q.id === id ? { ...q, ...changes } : q));
+  };
+
+  const addQuestion = () => {
+    if (!newText.trim()) return;
+    setQuestions([
+      ...questions,
+      {
+        id: `manual-${Date.now()}`,
+        text: newText.trim(),
+        category: "General",
+        difficulty: newDifficulty,
+        preparedAnswer: "",
+        source: "manual",
+        isFavorite: false
+      }
+    ]);
+    setNewText("");
+  };
+
+  const visible = questions.filter(q => {
+    if (filter === 'all') return true;
+    if (filter === 'favorites') return q.isFavorite;
+    if (filter === 'unanswered') return !q.preparedAnswer.trim();
+    return q.difficulty === filter;
+  });
+  const answeredCount = questions.filter(q => q.preparedAnswer.trim()).length;
+  const canGenerate = outlineSections.some(section => section.title.trim() || section.content.trim());
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+        <Button
+          onClick={() => generateQuestions.mutate()}
+          disabled={generateQuestions.isPending || !canGenerate}
+          data-testid="button-generate-questions"
+        >
+          {generateQuestions.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          Generate From Outline
+        </Button>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            {answeredCount} of {questions.length} answered
+          </span>
+          <Select value={filter} onValueChange={(value) => setFilter(value as QuestionFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All questions</SelectItem>
+              <SelectItem value="favorites">Favorites</SelectItem>
+              <SelectItem value="unanswered">Unanswered</SelectItem>
+              <SelectItem value="basic">Basic</SelectItem>
+              <SelectItem value="intermediate">Intermediate</SelectItem>
+              <SelectItem value="advanced">Advanced</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addQuestion()}
+          placeholder="Add a question you expect to be asked..."
+        />
+        <Select value={newDifficulty} onValueChange={(value) => setNewDifficulty(value as Question['difficulty'])}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="basic">Basic</SelectItem>
+            <SelectItem value="intermediate">Intermediate</SelectItem>
+            <SelectItem value="advanced">Advanced</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={addQuestion} disabled={!newText.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {questions.length === 0
+            ? "No questions yet. Generate some from your outline or add your own."
+            : "No questions match this filter."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map(question => (
+            <div key={question.id} className="border rounded-lg p-4 space-y-3" data-testid={`question-${question.id}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-2">
+                  <p className="font-medium">{question.text}</p>
+                  <div className="flex gap-2">
+                    <Badge className={DIFFICULTY_STYLES[question.difficulty]}>{question.difficulty}</Badge>
+                    <Badge variant="outline">{question.category}</Badge>
+                    {question.source === 'manual' && <Badge variant="secondary">Your question</Badge>}
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateQuestion(question.id, { isFavorite: !question.isFavorite })}
+                    aria-label={question.isFavorite ? "Remove from favorites" : "Add to favorites"}
+                  >
+                    <Star className={`h-4 w-4 ${question.isFavorite ? "fill-yellow-400 text-yellow-400" : ""}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setQuestions(questions.filter(q => q.id !== question.id))}
+                    aria-label="Delete question"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={question.preparedAnswer}
+                onChange={(e) => updateQuestion(question.id, { preparedAnswer: e.target.value })}
+                placeholder="Prepare your answer..."
+                rows={3}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
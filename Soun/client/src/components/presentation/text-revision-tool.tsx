@@ -0,0 +1,181 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { usePresentation, type Suggestion } from "@/context/presentation-context";
+import { Check, FileText, Loader2, Wand2, X } from "lucide-react";
+
+const TYPE_LABELS: Record<Suggestion['type'], string> = {
+  grammar: "Grammar",
+  clarity: "Clarity",
+  academic: "Academic tone",
+  conciseness: "Conciseness"
+};
+
+/**
+ * Where the suggestion's original text is now. The text may have been edited since it was
+ * analyzed, so fall back to searching for it.
+ */
+function locate(text: string, suggestion: Suggestion): number {
+  if (text.slice(suggestion.startIndex, suggestion.endIndex) === suggestion.original) {
+    return suggestion.startIndex;
+  }
+  return text.indexOf(suggestion.original);
+}
+
+export function TextRevisionTool() {
+  const { fullText, setFullText, textSuggestions, setTextSuggestions, regenerateFullText } = usePresentation();
+  const { toast } = useToast();
+
+  const analyzeText = useMutation({
+    mutationFn: async (): Promise<Suggestion[]> => {
+      const res = await apiRequest("POST", "/api/presentations/revise", { text: fullText });
+      const data = await res.json();
+      return data.suggestions;
+    },
+    onSuccess: (suggestions) => {
+      setTextSuggestions(suggestions);
+      toast({
+        title: "Analysis complete",
+        description: suggestions.length > 0 ? `${suggestions.length} suggestion(s) found.` : "No issues found in your text.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to analyze your text. Please try again.", variant: "destructive" });
+    }
+  });
+
+  // Replace the text and shift the positions of the suggestions after it
+  const applyTo = (text: string, suggestions: Suggestion[], suggestion: Suggestion) => {
+    const start = locate(text, suggestion);
+    if (start === -1) return null;
+
+    const end = start + suggestion.original.length;
+    const delta = suggestion.suggested.length - suggestion.original.length;
+    const nextText = text.slice(0, start) + suggestion.suggested + text.slice(end);
+    const nextSuggestions = suggestions.map(s => {
+      if (s.id === suggestion.id) return { ...s, applied: true, startIndex: start, endIndex: start + suggestion.suggested.length };
+      if (s.startIndex >= end) return { ...s, startIndex: s.startIndex + delta, endIndex: s.endIndex + delta };
+      return s;
+    });
+    return { text: nextText, suggestions: nextSuggestions };
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const result = applyTo(fullText, textSuggestions, suggestion);
+    if (!result) {
+      toast({
+        title: "Text has changed",
+        description: "This part of the text was edited since the analysis. Run the analysis again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setFullText(result.text);
+    setTextSuggestions(result.suggestions);
+  };
+
+  const applyAll = () => {
+    let text = fullText;
+    let suggestions = textSuggestions;
+    let skipped = 0;
+    // Later suggestions first, so earlier positions stay valid
+    const pending = textSuggestions.filter(s => !s.applied).sort((a, b) => b.startIndex - a.startIndex);
+    pending.forEach(suggestion => {
+      const result = applyTo(text, suggestions, suggestion);
+      if (!result) {
+        skipped++;
+        return;
+      }
+      text = result.text;
+      suggestions = result.suggestions;
+    });
+    setFullText(text);
+    setTextSuggestions(suggestions);
+    if (skipped > 0) {
+      toast({ title: "Some suggestions skipped", description: `${skipped} no longer matched your text.` });
+    }
+  };
+
+  const dismissSuggestion = (id: string) => {
+    setTextSuggestions(textSuggestions.filter(s => s.id !== id));
+  };
+
+  const pending = textSuggestions.filter(s => !s.applied);
+  const wordCount = fullText.trim().split(/\s+/).filter(Boolean).length;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {wordCount} words · about {Math.max(1, Math.round(wordCount / 130))} min spoken
+          </span>
+          <Button variant="outline" size="sm" onClick={regenerateFullText}>
+            <FileText className="h-4 w-4 mr-2" />
+            Copy From Outline
+          </Button>
+        </div>
+        <Textarea
+          value={fullText}
+          onChange={(e) => setFullText(e.target.value)}
+          placeholder="Write or paste your presentation text, or copy it from your outline..."
+          rows={18}
+          data-testid="textarea-full-text"
+        />
+        <Button
+          onClick={() => analyzeText.mutate()}
+          disabled={analyzeText.isPending || !fullText.trim()}
+          className="w-full"
+          data-testid="button-analyze-text"
+        >
+          {analyzeText.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+          Analyze Text
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium">Suggestions ({pending.length})</h3>
+          {pending.length > 1 && (
+            <Button variant="outline" size="sm" onClick={applyAll}>
+              Apply All
+            </Button>
+          )}
+        </div>
+
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {textSuggestions.length > 0 ? "All suggestions applied." : "Analyze your text to get suggestions."}
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto pr-1">
+            {pending.map(suggestion => (
+              <div key={suggestion.id} className="border rounded-lg p-3 space-y-2" data-testid={`suggestion-${suggestion.id}`}>
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline">{TYPE_LABELS[suggestion.type]}</Badge>
+                  <div className="flex">
+                    <Button variant="ghost" size="icon" onClick={() => applySuggestion(suggestion)} aria-label="Apply suggestion">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => dismissSuggestion(suggestion.id)} aria-label="Dismiss suggestion">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="text-sm">
+                  <span className="line-through text-red-600">{suggestion.original}</span>
+                  {" → "}
+                  <span className="text-green-700">{suggestion.suggested || <em>(remove)</em>}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{suggestion.explanation}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useQuestionTimer } from "@/hooks/use-question-timer";
 import { Loader2, CheckCircle, XCircle, Brain, Target, Shuffle, TrendingUp } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 
@@ -36,6 +37,7 @@ export function InterleavedPracticeQuiz({ subject, topics, approaches, courseId,
   const [showResults, setShowResults] = useState(false);
   const [quizResults, setQuizResults] = useState<any>(null);
   const { toast } = useToast();
+  const questionTimer = useQuestionTimer();
 
   // Generate interleaved practice quiz
   const generateQuizMutation = useMutation({
@@ -56,6 +58,7 @@ export function InterleavedPracticeQuiz({ subject, topics, approaches, courseId,
       return response.json();
     },
     onSuccess: () => {
+      questionTimer.restart();
       toast({
         title: "Interleaved Practice Ready!",
         description: "Practice discriminating between different approaches and methods.",
@@ -65,13 +68,15 @@ export function InterleavedPracticeQuiz({ subject, topics, approaches, courseId,
 
   // Submit quiz answers
   const submitQuizMutation = useMutation({
-    mutationFn: async (answers: { questionId: string; answer: string }[]) => {
+    mutationFn: async (answers: { questionId: string; answer: string; timeSpent: number }[]) => {
       const response = await fetch('/api/quiz/evaluate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           questions: generateQuizMutation.data?.questions,
-          userAnswers: answers 
+          userAnswers: answers,
+          sessionId: generateQuizMutation.data?.sessionId,
+          courseId: generateQuizMutation.data?.courseId || courseId
         })
       });
       
@@ -115,13 +120,15 @@ export function InterleavedPracticeQuiz({ subject, topics, approaches, courseId,
   };
 
   const handleNext = () => {
+    questionTimer.lap(currentQuestion?.id);
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
     } else {
       // Submit quiz
       const answers = questions.map(q => ({
         questionId: q.id,
-        answer: userAnswers[q.id] || ''
+        answer: userAnswers[q.id] || '',
+        timeSpent: questionTimer.secondsSpent(q.id)
       }));
       submitQuizMutation.mutate(answers);
     }
@@ -129,6 +136,7 @@ export function InterleavedPracticeQuiz({ subject, topics, approaches, courseId,
 
   const handlePrevious = () => {
     if (currentQuestionIndex > 0) {
+      questionTimer.lap(currentQuestion?.id);
       setCurrentQuestionIndex(prev => prev - 1);
     }
   };
@@ -7,6 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useQuestionTimer } from "@/hooks/use-question-timer";
 import { Loader2, CheckCircle, XCircle, Brain, Target } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 
@@ -59,6 +60,7 @@ export function PostExplanationQuiz({
   const [showResults, setShowResults] = useState(false);
   const [quizResults, setQuizResults] = useState<any>(null);
   const { toast } = useToast();
+  const questionTimer = useQuestionTimer();
 
   // Generate quiz questions
   const generateQuizMutation = useMutation({
@@ -75,7 +77,8 @@ export function PostExplanationQuiz({
         body: JSON.stringify({ 
           topic: quizTopic, 
           explanation: quizExplanation,
-          documentId: quizDocumentId 
+          documentId: quizDocumentId,
+          courseId: courseId || selectedDocument?.courseId
         })
       });
       
@@ -89,6 +92,7 @@ export function PostExplanationQuiz({
     onSuccess: (data) => {
       console.log('🎉 Quiz generation success!', data);
       setShowDocumentSelector(false);
+      questionTimer.restart();
       toast({
         title: "Quiz Ready!",
         description: "Answer the questions to test your understanding.",
@@ -106,13 +110,15 @@ export function PostExplanationQuiz({
 
   // Submit quiz answers
   const submitQuizMutation = useMutation({
-    mutationFn: async (answers: { questionId: string; answer: string }[]) => {
+    mutationFn: async (answers: { questionId: string; answer: string; timeSpent: number }[]) => {
       const response = await fetch('/api/quiz/evaluate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           questions: generateQuizMutation.data?.questions,
-          userAnswers: answers 
+          userAnswers: answers,
+          sessionId: generateQuizMutation.data?.sessionId,
+          courseId: generateQuizMutation.data?.courseId || courseId
         })
       });
       
@@ -142,13 +148,15 @@ export function PostExplanationQuiz({
   };
 
   const handleNext = () => {
+    questionTimer.lap(currentQuestion?.id);
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
     } else {
       // Submit quiz
       const answers = questions.map(q => ({
         questionId: q.id,
-        answer: userAnswers[q.id] || ''
+        answer: userAnswers[q.id] || '',
+        timeSpent: questionTimer.secondsSpent(q.id)
       }));
       submitQuizMutation.mutate(answers);
     }
@@ -156,6 +164,7 @@ export function PostExplanationQuiz({
 
   const handlePrevious = () => {
     if (currentQuestionIndex > 0) {
+      questionTimer.lap(currentQuestion?.id);
       setCurrentQuestionIndex(prev => prev - 1);
     }
   };
@@ -6,11 +6,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { Search, FileText, BookOpen, Target } from 'lucide-react';
+import { Search, FileText, BookOpen, Target, ExternalLink } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
 interface SearchResult {
+  chunkId: number;
   documentId: number;
   title: string;
   filename: string;
@@ -18,6 +19,48 @@ interface SearchResult {
   relevantContent: string;
   relevanceScore: number;
   summary: string;
+  startOffset: number;
+  endOffset: number;
+  page?: number;
+  slide?: number;
+  headingPath?: string[];
+}
+
+interface Citation {
+  marker: number;
+  chunkId: number;
+  documentId: number;
+  title: string;
+  filename: string;
+  courseId: string;
+  excerpt: string;
+  startOffset: number;
+  endOffset: number;
+  page?: number;
+  slide?: number;
+  headingPath?: string[];
+}
+
+// Enough to open a document at a passage; both search results and citations carry it
+export interface PassageLocation {
+  documentId: number;
+  startOffset: number;
+  endOffset: number;
+  page?: number;
+  slide?: number;
+}
+
+interface CrossFileSearchProps {
+  onOpenPassage?: (passage: PassageLocation) => void;
+}
+
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function formatLocation(result: Pick<SearchResult, 'page' | 'slide' | 'headingPath'>): string | null {
+  if (result.page) return `Page ${result.page}`;
+  if (result.slide) return `Slide ${result.slide}`;
+  if (result.headingPath?.length) return result.headingPath.join(' › ');
+  return null;
 }
 
 interface CrossFileSearchResult {
@@ -25,10 +68,11 @@ interface CrossFileSearchResult {
   totalDocuments: number;
   relevantDocuments: SearchResult[];
   synthesizedAnswer: string;
+  citations: Citation[];
   sources: string[];
 }
 
-export function CrossFileSearch() {
+export function CrossFileSearch({ onOpenPassage }: CrossFileSearchProps) {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<CrossFileSearchResult | null>(null);
   const { toast } = useToast();
@@ -72,6 +116,38 @@ export function CrossFileSearch() {
     }
   };
 
+  // Turns the [n] markers of the answer into links to the cited passages
+  const renderAnswer = (answer: string, citations: Citation[]) => {
+    const byMarker = new Map(citations.map(citation => [citation.marker, citation] as [number, Citation]));
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+
+    answer.replace(CITATION_MARKER, (match, numbers: string, offset: number) => {
+      parts.push(answer.slice(lastIndex, offset));
+      numbers.split(',').forEach(n => {
+        const citation = byMarker.get(parseInt(n.trim(), 10));
+        if (!citation) return;
+        parts.push(
+          <button
+            key={`${offset}-${citation.marker}`}
+            type="button"
+            onClick={() => onOpenPassage?.(citation)}
+            disabled={!onOpenPassage}
+            title={`${citation.title}${formatLocation(citation) ? ` – ${formatLocation(citation)}` : ''}`}
+            className="align-super text-xs font-medium text-blue-700 hover:underline mx-0.5"
+          >
+            [{citation.marker}]
+          </button>
+        );
+      });
+      lastIndex = offset + match.length;
+      return match;
+    });
+    parts.push(answer.slice(lastIndex));
+
+    return parts;
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -111,7 +187,7 @@ export function CrossFileSearch() {
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold">Search Results</h3>
                 <Badge variant="secondary">
-                  {results.relevantDocuments.length} of {results.totalDocuments} documents
+                  {results.relevantDocuments.length} passages from {results.totalDocuments} documents
                 </Badge>
               </div>
               
@@ -119,18 +195,33 @@ export function CrossFileSearch() {
                 <div className="space-y-3">
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h4 className="font-medium text-blue-900 mb-2">AI Summary</h4>
-                    <p className="text-blue-800 leading-relaxed">
-                      {results.synthesizedAnswer}
+                    <p className="text-blue-800 leading-relaxed whitespace-pre-line">
+                      {renderAnswer(results.synthesizedAnswer, results.citations || [])}
                     </p>
                   </div>
                   
-                  {results.sources.length > 0 && (
-                    <div className="flex flex-wrap gap-2">
+                  {results.citations?.length > 0 && (
+                    <div className="space-y-1">
                       <span className="text-sm text-muted-foreground">Sources:</span>
-                      {results.sources.map((source, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          {source}
-                        </Badge>
+                      {results.citations.map((citation) => (
+                        <button
+                          key={citation.marker}
+                          type="button"
+                          onClick={() => onOpenPassage?.(citation)}
+                          disabled={!onOpenPassage}
+                          className="flex w-full items-start gap-2 text-left text-xs hover:bg-muted/50 rounded p-1"
+                        >
+                          <Badge variant="outline" className="text-xs shrink-0">
+                            [{citation.marker}]
+                          </Badge>
+                          <span>
+                            <span className="font-medium">{citation.title}</span>
+                            {formatLocation(citation) && (
+                              <span className="text-muted-foreground"> · {formatLocation(citation)}</span>
+                            )}
+                            <span className="block text-muted-foreground line-clamp-1">{citation.excerpt}</span>
+                          </span>
+                        </button>
                       ))}
                     </div>
                   )}
@@ -145,18 +236,25 @@ export function CrossFileSearch() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-5 w-5" />
-                  Relevant Documents
+                  Relevant Passages
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-96">
                   <div className="space-y-4">
                     {results.relevantDocuments.map((doc, index) => (
-                      <div key={doc.documentId}>
+                      <div key={doc.chunkId}>
                         <div className="space-y-3">
                           <div className="flex items-start justify-between">
                             <div className="space-y-1">
-                              <h4 className="font-medium text-sm">{doc.title}</h4>
+                              <div className="flex items-center gap-2">
+                                <h4 className="font-medium text-sm">{doc.title}</h4>
+                                {formatLocation(doc) && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {formatLocation(doc)}
+                                  </Badge>
+                                )}
+                              </div>
                               <div className="flex items-center gap-2 text-xs text-muted-foreground">
                                 <BookOpen className="h-3 w-3" />
                                 <span>{doc.courseId}</span>
@@ -164,6 +262,12 @@ export function CrossFileSearch() {
                                 <span>Relevance: {Math.round(doc.relevanceScore * 100)}%</span>
                               </div>
                             </div>
+                            {onOpenPassage && (
+                              <Button variant="ghost" size="sm" onClick={() => onOpenPassage(doc)}>
+                                <ExternalLink className="h-3 w-3 mr-1" />
+                                Open
+                              </Button>
+                            )}
                           </div>
                           
                           <div className="bg-gray-50 rounded-lg p-3">
@@ -1,179 +1,110 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Target, TrendingUp, Brain, Clock, Star, Mic } from 'lucide-react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { Target, TrendingUp, Star, Mic, MicOff, Loader2, FileText } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useReadAloudRecorder, type ReadAloudTake } from '@/hooks/use-read-aloud-recorder';
+import { useToast } from '@/hooks/use-toast';
+import { VocalAssessmentResults } from './vocal-assessment-results';
+import type { VocalChallenge, VocalChallengeRecommendation, VocalChallengeResult, VocalWeakness } from '@/lib/types';
 
-interface VocalChallenge {
-  id: string;
-  type: 'speed_explanation' | 'concept_teaching' | 'problem_solving' | 'memory_recall' | 'peer_teaching';
-  title: string;
-  description: string;
-  difficulty: 1 | 2 | 3 | 4 | 5;
-  timeLimit: number; // seconds
-  subject: string;
-  topic: string;
-  prompt: string;
-  successCriteria: {
-    minClarity: number;
-    minCompleteness: number;
-    maxTime?: number;
-    specificRequirements: string[];
-  };
-  rewards: {
-    xp: number;
-    badges: string[];
-    unlocks?: string[];
-  };
-}
+const WEAKNESS_LABELS: Record<VocalWeakness, string> = {
+  accuracy: 'Accuracy',
+  pace_slow: 'Pace (too slow)',
+  pace_fast: 'Pace (too fast)',
+  fluency: 'Fluency',
+  volume: 'Volume'
+};
+
+const getDifficultyColor = (diff: number) => {
+  const colors = ['green', 'blue', 'yellow', 'orange', 'red'];
+  return colors[diff - 1] || 'gray';
+};
+
+const getDifficultyLabel = (diff: number) => {
+  const labels = ['Beginner', 'Easy', 'Medium', 'Hard', 'Expert'];
+  return labels[diff - 1] || 'Unknown';
+};
 
-interface ChallengeProgress {
-  challengeId: string;
-  attempts: number;
-  bestScore: number;
-  completed: boolean;
-  completedAt?: Date;
-  feedback: string[];
+interface AdaptiveVocalChallengesProps {
+  courseId?: string; // Course code; challenges come from its documents when given
 }
 
-export function AdaptiveVocalChallenges() {
+export function AdaptiveVocalChallenges({ courseId }: AdaptiveVocalChallengesProps) {
   const [selectedDifficulty, setSelectedDifficulty] = useState<number>(3);
   const [activeChallenge, setActiveChallenge] = useState<VocalChallenge | null>(null);
-  const [isAttempting, setIsAttempting] = useState(false);
-  const [challengeProgress, setChallengeProgress] = useState<ChallengeProgress[]>([]);
+  const [result, setResult] = useState<VocalChallengeResult | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isRecording, liveTranscript, take, start, stop, reset } = useReadAloudRecorder();
 
-  // Fetch adaptive challenges based on user performance
-  const { data: challenges, isLoading } = useQuery<VocalChallenge[]>({
-    queryKey: ['/api/vocal-challenges/adaptive', selectedDifficulty],
+  // Challenges at this level, ranked by the server from past attempts
+  const { data: recommendation, isLoading } = useQuery<VocalChallengeRecommendation>({
+    queryKey: ['/api/vocal-challenges/adaptive', selectedDifficulty, courseId],
     queryFn: async () => {
-      // In production, this would fetch from your API
-      return generateAdaptiveChallenges(selectedDifficulty);
+      const query = courseId ? `?courseId=${encodeURIComponent(courseId)}` : '';
+      const response = await fetch(`/api/vocal-challenges/adaptive/${selectedDifficulty}${query}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch challenges');
+      return response.json();
     }
   });
 
   const attemptChallengeMutation = useMutation({
-    mutationFn: async (data: { challengeId: string; audioBlob: Blob; transcript: string }) => {
-      // Submit challenge attempt for evaluation
+    mutationFn: async (data: { challengeId: string; take: ReadAloudTake }): Promise<VocalChallengeResult> => {
       const formData = new FormData();
       formData.append('challengeId', data.challengeId);
-      formData.append('audio', data.audioBlob);
-      formData.append('transcript', data.transcript);
-      
+      formData.append('transcript', data.take.transcript);
+      formData.append('duration', String(data.take.duration));
+      formData.append('segments', JSON.stringify(data.take.segments));
+      if (data.take.audio) formData.append('audioFile', data.take.audio, 'challenge.webm');
+
       const response = await fetch('/api/vocal-challenges/attempt', {
         method: 'POST',
-        body: formData
+        body: formData,
+        credentials: 'include'
       });
-      
+      if (!response.ok) {
+        throw new Error((await response.json().catch(() => null))?.error || 'Failed to score attempt');
+      }
       return response.json();
     },
-    onSuccess: (result) => {
-      // Update progress and show results
-      console.log('Challenge completed:', result);
-      setIsAttempting(false);
+    onSuccess: (attempt) => {
+      setResult(attempt);
+      queryClient.invalidateQueries({ queryKey: ['/api/vocal-challenges/adaptive'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Attempt not scored", description: error.message, variant: "destructive" });
     }
   });
 
-  const generateAdaptiveChallenges = (difficulty: number): VocalChallenge[] => {
-    const baseChallenges: VocalChallenge[] = [
-      {
-        id: `speed_${difficulty}`,
-        type: 'speed_explanation',
-        title: '60-Second Concept Master',
-        description: 'Explain a complex concept clearly in under 60 seconds',
-        difficulty: difficulty as 1 | 2 | 3 | 4 | 5,
-        timeLimit: difficulty > 3 ? 45 : 60,
-        subject: 'mathematics',
-        topic: 'Calculus Integration',
-        prompt: 'Explain integration by parts method and when to use it',
-        successCriteria: {
-          minClarity: 70 + (difficulty * 5),
-          minCompleteness: 60 + (difficulty * 8),
-          maxTime: difficulty > 3 ? 45 : 60,
-          specificRequirements: [
-            'Mention the formula',
-            'Provide an example',
-            'Explain when to use this method'
-          ]
-        },
-        rewards: {
-          xp: 50 * difficulty,
-          badges: difficulty >= 4 ? ['Speed Teacher', 'Clarity Master'] : ['Quick Explainer'],
-          unlocks: difficulty >= 5 ? ['Expert Challenges'] : undefined
-        }
-      },
-      {
-        id: `teaching_${difficulty}`,
-        type: 'concept_teaching',
-        title: 'Teach Like a Pro',
-        description: 'Explain a concept as if teaching a complete beginner',
-        difficulty: difficulty as 1 | 2 | 3 | 4 | 5,
-        timeLimit: 120 + (difficulty * 30),
-        subject: 'physics',
-        topic: 'Newton\'s Laws',
-        prompt: 'Teach Newton\'s second law to someone who has never heard of it',
-        successCriteria: {
-          minClarity: 80,
-          minCompleteness: 75 + (difficulty * 5),
-          specificRequirements: [
-            'Use simple language',
-            'Provide real-world examples',
-            'Build understanding step by step',
-            'Check for understanding'
-          ]
-        },
-        rewards: {
-          xp: 75 * difficulty,
-          badges: ['Natural Teacher', 'Clarity Champion'],
-          unlocks: difficulty >= 4 ? ['Advanced Teaching Challenges'] : undefined
-        }
-      },
-      {
-        id: `memory_${difficulty}`,
-        type: 'memory_recall',
-        title: 'Instant Recall Challenge',
-        description: 'Recall and explain key facts without notes',
-        difficulty: difficulty as 1 | 2 | 3 | 4 | 5,
-        timeLimit: 90,
-        subject: 'chemistry',
-        topic: 'Periodic Table Trends',
-        prompt: 'Explain atomic radius trends across periods and groups',
-        successCriteria: {
-          minClarity: 70,
-          minCompleteness: 80,
-          specificRequirements: [
-            'No reference materials',
-            'Accurate facts only',
-            'Logical explanation flow'
-          ]
-        },
-        rewards: {
-          xp: 60 * difficulty,
-          badges: ['Memory Master', 'Fact Recall Pro'],
-        }
-      }
-    ];
-
-    return baseChallenges.filter(c => c.difficulty <= difficulty);
-  };
+  // Submit each finished take once
+  useEffect(() => {
+    if (take && activeChallenge) {
+      attemptChallengeMutation.mutate({ challengeId: activeChallenge.id, take });
+      reset();
+    }
+  }, [take]);
 
   const startChallenge = (challenge: VocalChallenge) => {
     setActiveChallenge(challenge);
-    setIsAttempting(true);
+    setResult(null);
   };
 
-  const getDifficultyColor = (diff: number) => {
-    const colors = ['green', 'blue', 'yellow', 'orange', 'red'];
-    return colors[diff - 1] || 'gray';
+  const startRecording = async () => {
+    try {
+      setResult(null);
+      await start();
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast({ title: "Microphone unavailable", description: "Allow microphone access to record.", variant: "destructive" });
+    }
   };
 
-  const getDifficultyLabel = (diff: number) => {
-    const labels = ['Beginner', 'Easy', 'Medium', 'Hard', 'Expert'];
-    return labels[diff - 1] || 'Unknown';
-  };
+  const nextChallenge = result?.nextChallengeId
+    ? recommendation?.challenges.find(challenge => challenge.id === result.nextChallengeId)
+    : undefined;
 
   if (isLoading) {
     return (
@@ -200,6 +131,19 @@ export function AdaptiveVocalChallenges() {
             Personalized challenges that adapt to your vocal learning progress
           </p>
         </CardHeader>
+        {courseId && recommendation?.source === 'built_in' && (
+          <CardContent className="text-sm text-muted-foreground">
+            This course has no challenges at this level yet, so these are general drills. Upload course documents to practise their key terms and ideas.
+          </CardContent>
+        )}
+        {recommendation && recommendation.weaknesses.length > 0 && (
+          <CardContent className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">Working on:</span>
+            {recommendation.weaknesses.map(weakness => (
+              <Badge key={weakness} variant="secondary">{WEAKNESS_LABELS[weakness]}</Badge>
+            ))}
+          </CardContent>
+        )}
       </Card>
 
       {/* Difficulty Selector */}
@@ -218,6 +162,7 @@ export function AdaptiveVocalChallenges() {
                 size="sm"
                 variant={selectedDifficulty === diff ? "default" : "outline"}
                 onClick={() => setSelectedDifficulty(diff)}
+                disabled={isRecording}
               >
                 {diff}
               </Button>
@@ -229,145 +174,129 @@ export function AdaptiveVocalChallenges() {
 
       {/* Available Challenges */}
       <div className="grid gap-4">
-        {challenges?.map((challenge) => {
-          const progress = challengeProgress.find(p => p.challengeId === challenge.id);
-          
-          return (
-            <Card key={challenge.id}>
-              <CardContent className="pt-4">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <h3 className="font-medium">{challenge.title}</h3>
-                      <Badge variant="outline" className={`text-${getDifficultyColor(challenge.difficulty)}-600`}>
-                        Level {challenge.difficulty}
-                      </Badge>
-                      <Badge variant="secondary">
-                        <Clock className="h-3 w-3 mr-1" />
-                        {challenge.timeLimit}s
+        {recommendation?.challenges.map((challenge) => (
+          <Card
+            key={challenge.id}
+            className={challenge.id === recommendation.recommendedId ? "border-2 border-primary" : undefined}
+          >
+            <CardContent className="pt-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <h3 className="font-medium">{challenge.title}</h3>
+                    <Badge variant="outline" className={`text-${getDifficultyColor(challenge.difficulty)}-600`}>
+                      Level {challenge.difficulty}
+                    </Badge>
+                    <Badge variant="secondary" className="capitalize">{challenge.type.replace('_', ' ')}</Badge>
+                    {challenge.id === recommendation.recommendedId && (
+                      <Badge>
+                        <TrendingUp className="h-3 w-3 mr-1" />
+                        Recommended
                       </Badge>
-                    </div>
-                    
-                    <p className="text-sm text-muted-foreground mb-3">
-                      {challenge.description}
-                    </p>
-                    
-                    <div className="space-y-2">
-                      <div>
-                        <span className="text-xs font-medium">Subject:</span>
-                        <Badge variant="outline" className="ml-2 text-xs">
-                          {challenge.subject}
-                        </Badge>
-                      </div>
-                      
-                      <div>
-                        <span className="text-xs font-medium">Topic:</span>
-                        <span className="text-xs ml-2 text-muted-foreground">
-                          {challenge.topic}
-                        </span>
-                      </div>
-                      
-                      <div>
-                        <span className="text-xs font-medium">Challenge:</span>
-                        <p className="text-xs mt-1 p-2 bg-blue-50 rounded">
-                          {challenge.prompt}
-                        </p>
-                      </div>
-                    </div>
-
-                    {/* Progress Indicator */}
-                    {progress && (
-                      <div className="mt-3 pt-3 border-t">
-                        <div className="flex items-center justify-between text-xs">
-                          <span>Attempts: {progress.attempts}</span>
-                          <span>Best Score: {progress.bestScore}%</span>
-                          {progress.completed && (
-                            <Badge variant="default" className="text-xs">
-                              <Star className="h-3 w-3 mr-1" />
-                              Completed
-                            </Badge>
-                          )}
-                        </div>
-                      </div>
                     )}
+                  </div>
 
-                    {/* Rewards Preview */}
+                  <p className="text-sm text-muted-foreground mb-3">{challenge.focus}</p>
+                  <p className="text-xs p-2 bg-blue-50 rounded">{challenge.text}</p>
+                  {challenge.source && (
+                    <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
+                      <FileText className="h-3 w-3" />
+                      From {challenge.source.documentTitle}
+                    </p>
+                  )}
+
+                  {challenge.attempts > 0 && (
                     <div className="mt-3 pt-3 border-t">
-                      <div className="flex items-center gap-4 text-xs">
-                        <span className="flex items-center gap-1">
-                          <TrendingUp className="h-3 w-3" />
-                          {challenge.rewards.xp} XP
-                        </span>
-                        <span className="flex items-center gap-1">
-                          <Star className="h-3 w-3" />
-                          {challenge.rewards.badges.length} badges
-                        </span>
+                      <div className="flex items-center justify-between text-xs">
+                        <span>Attempts: {challenge.attempts}</span>
+                        <span>Best Score: {challenge.bestScore}%</span>
+                        {challenge.mastered && (
+                          <Badge variant="default" className="text-xs">
+                            <Star className="h-3 w-3 mr-1" />
+                            Mastered
+                          </Badge>
+                        )}
                       </div>
                     </div>
-                  </div>
-                  
-                  <Button 
-                    onClick={() => startChallenge(challenge)}
-                    disabled={isAttempting}
-                  >
-                    <Mic className="h-4 w-4 mr-2" />
-                    {progress?.completed ? 'Retry' : 'Start'}
-                  </Button>
+                  )}
                 </div>
-              </CardContent>
-            </Card>
-          );
-        })}
+
+                <Button
+                  onClick={() => startChallenge(challenge)}
+                  disabled={isRecording || attemptChallengeMutation.isPending}
+                >
+                  <Mic className="h-4 w-4 mr-2" />
+                  {challenge.attempts > 0 ? 'Retry' : 'Start'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* Active Challenge Interface */}
-      {activeChallenge && isAttempting && (
+      {activeChallenge && (
         <Card className="border-2 border-blue-500">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Mic className="h-5 w-5 text-red-500 animate-pulse" />
+              <Mic className={isRecording ? "h-5 w-5 text-red-500 animate-pulse" : "h-5 w-5"} />
               Active Challenge: {activeChallenge.title}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h4 className="font-medium mb-2">Your Challenge:</h4>
-                <p>{activeChallenge.prompt}</p>
+                <h4 className="font-medium mb-2">{activeChallenge.mode === 'explain' ? 'Answer aloud:' : 'Read aloud:'}</h4>
+                <p>{activeChallenge.text}</p>
+                <p className="text-xs text-muted-foreground mt-2">{activeChallenge.focus}</p>
               </div>
 
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="font-medium">Time Limit:</span>
-                  <span className="ml-2">{activeChallenge.timeLimit} seconds</span>
-                </div>
-                <div>
-                  <span className="font-medium">Min. Clarity:</span>
-                  <span className="ml-2">{activeChallenge.successCriteria.minClarity}%</span>
+              {liveTranscript && !result && (
+                <div className="bg-gray-50 border rounded-lg p-3">
+                  <h4 className="font-medium mb-1">Your Speech:</h4>
+                  <p className="text-sm">{liveTranscript}</p>
                 </div>
-              </div>
-
-              <div>
-                <h4 className="font-medium text-sm mb-2">Requirements:</h4>
-                <ul className="text-xs space-y-1">
-                  {activeChallenge.successCriteria.specificRequirements.map((req, index) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <span className="text-blue-600">•</span>
-                      {req}
-                    </li>
-                  ))}
-                </ul>
-              </div>
+              )}
 
               <div className="flex gap-2">
-                <Button onClick={() => setIsAttempting(false)} variant="outline">
-                  Cancel
+                <Button
+                  onClick={() => setActiveChallenge(null)}
+                  variant="outline"
+                  disabled={isRecording || attemptChallengeMutation.isPending}
+                >
+                  Close
                 </Button>
-                <Button className="flex-1">
-                  <Mic className="h-4 w-4 mr-2" />
-                  Start Recording
+                <Button
+                  className="flex-1"
+                  variant={isRecording ? "destructive" : "default"}
+                  onClick={isRecording ? stop : startRecording}
+                  disabled={attemptChallengeMutation.isPending}
+                >
+                  {attemptChallengeMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : isRecording ? (
+                    <MicOff className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Mic className="h-4 w-4 mr-2" />
+                  )}
+                  {attemptChallengeMutation.isPending ? 'Scoring...' : isRecording ? 'Stop Recording' : 'Start Recording'}
                 </Button>
               </div>
+
+              {result && (
+                <div className="space-y-4 pt-2 border-t">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{result.passed ? 'Challenge passed!' : 'Not quite there yet'}</span>
+                    <Badge variant={result.passed ? "default" : "secondary"}>{result.scores.overall}%</Badge>
+                  </div>
+                  <VocalAssessmentResults assessment={result} />
+                  {nextChallenge && nextChallenge.id !== activeChallenge.id && (
+                    <Button variant="outline" onClick={() => startChallenge(nextChallenge)}>
+                      Next: {nextChallenge.title}
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -150,6 +150,7 @@ export function SelfTestComponent({ availableTopics, userDocuments, weakAreas =
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           questions: generateTestMutation.data?.questions,
+          sessionId: generateTestMutation.data?.sessionId ?? undefined,
           userAnswers: answers,
           testConfig,
           totalTime: testStartTime ? Date.now() - testStartTime.getTime() : 0
@@ -0,0 +1,97 @@
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import type { AlignedWord, VocalAssessment } from "@/lib/types";
+
+const WORD_STYLES: Record<AlignedWord['op'], string> = {
+  match: "text-green-700",
+  substitution: "text-yellow-700 underline decoration-dotted",
+  deletion: "text-red-600 line-through",
+  insertion: "text-gray-500 italic"
+};
+
+function ScoreBar({ label, value }: { label: string; value: number | null }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm font-medium">{label}</span>
+        <span className="text-sm">{value === null ? "n/a" : `${value}%`}</span>
+      </div>
+      <Progress value={value ?? 0} className={value === null ? "opacity-40" : undefined} />
+    </div>
+  );
+}
+
+/**
+ * Component scores, the target text marked word by word against what was heard (or the key
+ * ideas an explanation covered), and the server's feedback for one vocal attempt
+ */
+export function VocalAssessmentResults({ assessment }: { assessment: VocalAssessment }) {
+  const { scores } = assessment;
+  const explaining = assessment.mode === 'explain';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <ScoreBar label={explaining ? "Coverage" : "Accuracy"} value={scores.accuracy} />
+        <ScoreBar label="Pace" value={scores.pace} />
+        <ScoreBar label="Fluency" value={scores.fluency} />
+        <ScoreBar label="Volume" value={scores.volume} />
+      </div>
+
+      <div className="border rounded-lg p-4 bg-gradient-to-r from-blue-50 to-green-50">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">Overall Score</span>
+          <Badge variant={scores.overall >= 80 ? "default" : scores.overall >= 60 ? "secondary" : "destructive"}>
+            {scores.overall}%
+          </Badge>
+        </div>
+        <Progress value={scores.overall} className="mt-2" />
+      </div>
+
+      <div className="border rounded-lg p-3">
+        <h4 className="font-medium mb-1">{explaining ? "Key ideas:" : "Word by word:"}</h4>
+        <p className="text-sm leading-relaxed" data-testid="text-vocal-alignment">
+          {assessment.alignment.map((word, index) => (
+            <span key={index} className={WORD_STYLES[word.op]} title={word.op === 'substitution' ? `Heard "${word.spoken}"` : undefined}>
+              {word.op === 'insertion' ? `[${word.spoken}]` : word.expected}{' '}
+            </span>
+          ))}
+        </p>
+        <p className="text-xs text-muted-foreground mt-2">
+          {explaining
+            ? "Green ideas came up in your explanation; struck-through ones didn't."
+            : "Green was read correctly, yellow was heard differently, struck-through words were missed and bracketed words were added."}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <span className="font-medium">Words per minute:</span> {assessment.wordsPerMinute ?? "n/a"}
+        </div>
+        <div>
+          <span className="font-medium">Long pauses:</span> {assessment.pauses.long}
+        </div>
+        <div>
+          <span className="font-medium">Filler words:</span> {assessment.pauses.fillers}
+        </div>
+        <div>
+          <span className="font-medium">Repeated words:</span> {assessment.pauses.repeats}
+        </div>
+      </div>
+
+      {assessment.feedback.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Improvement Suggestions:</h4>
+          <ul className="space-y-1">
+            {assessment.feedback.map((tip, index) => (
+              <li key={index} className="text-sm flex items-start gap-2">
+                <span className="text-blue-600">•</span>
+                {tip}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
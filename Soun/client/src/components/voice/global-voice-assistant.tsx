@@ -3,13 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Mic, Volume2, VolumeX, X, Square, MessageSquare, Zap, Wifi, WifiOff } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/context/auth-context";
 import { useTextToSpeech } from "@/hooks/use-text-to-speech";
+import { streamVoiceCommand } from "@/lib/voice-stream";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { PostExplanationQuiz } from "@/components/quiz/post-explanation-quiz";
 import { MultiModalResponse } from "@/components/voice/multi-modal-response";
+import { UnderstandingFeedback } from "@/components/voice/understanding-feedback";
 import { AnimatePresence, motion } from "framer-motion";
 import { useSpeechRecognitionCoordinator } from "@/context/speech-recognition-context";
 
@@ -118,6 +119,7 @@ export function GlobalVoiceAssistant() {
     timestamp: Date;
     courseContext?: string;
     contextSwitch?: any;
+    interactionId?: string | null; // Set on replies the server recorded, for understanding feedback
     semanticContext?: {
       strugglingTopics?: string[];
       recommendations?: string[];
@@ -184,7 +186,9 @@ export function GlobalVoiceAssistant() {
     silenceThreshold: 0.01,
     pauseCount: 0
   });
-  const { speak, cancel, speaking } = useTextToSpeech();
+  const { speak, speakQueued, cancel, speaking } = useTextToSpeech();
+  // Lets the user interrupt a reply that is still streaming
+  const streamAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast(); // Hook for toast notifications
 
   const updateCacheStats = () => {
@@ -631,59 +635,6 @@ export function GlobalVoiceAssistant() {
     return `I've recorded your request: "${command}". I'll process it fully when we're back online.`;
   };
 
-  // Auto-detect course context from command
-  const detectCourseFromCommand = (command: string): string | null => {
-    const lowerCommand = command.toLowerCase();
-
-    // Common course patterns
-    const coursePatterns = [
-      // Direct course mentions
-      /(?:course|class|subject)\s+([a-zA-Z0-9\-_]+)/i,
-      /([a-zA-Z0-9\-_]+)\s+(?:course|class)/i,
-
-      // Subject keywords that might map to courses
-      /(?:about|in|for|regarding)\s+([a-zA-Z\s]+?)(?:\s|$|\.|\?|!)/i,
-
-      // Academic subjects
-      /(?:mathematics?|math|calculus|algebra|geometry)/i,
-      /(?:physics|chemistry|biology|science)/i,
-      /(?:history|geography|literature|english)/i,
-      /(?:computer science|programming|coding|software)/i,
-      /(?:business|economics|finance|accounting)/i,
-      /(?:entrepreneurship|management|marketing)/i,
-      /(?:psychology|sociology|philosophy)/i,
-    ];
-
-    // Check for direct course ID patterns first
-    for (const pattern of coursePatterns.slice(0, 2)) {
-      const match = command.match(pattern);
-      if (match && match[1]) {
-        // Check if it looks like a course ID (contains numbers or is short)
-        const potential = match[1].trim();
-        if (/\d/.test(potential) || potential.length <= 8) {
-          return potential;
-        }
-      }
-    }
-
-    // Map common subject names to potential course IDs (this could be enhanced with user's actual courses)
-    const subjectToCourseMap: Record<string, string> = {
-      'entrepreneurship': '011274',
-      'business': '011274',
-      'technological entrepreneurship': '011274',
-      'tech entrepreneurship': '011274',
-      // Add more mappings as needed based on user's courses
-    };
-
-    for (const [subject, courseId] of Object.entries(subjectToCourseMap)) {
-      if (lowerCommand.includes(subject)) {
-        return courseId;
-      }
-    }
-
-    return null;
-  };
-
   // Process voice commands with automatic context switching
   const processVoiceCommand = useMutation({
     mutationFn: async (transcript: string) => {
@@ -720,18 +671,31 @@ export function GlobalVoiceAssistant() {
 
       const sessionId = Date.now().toString(); // Generate simple session ID
       
-      const response = await apiRequest('POST', '/api/voice/process', {
+      // Stream the reply so speech starts with the first sentence instead of after the whole answer
+      streamAbortRef.current?.abort();
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
+      let streamedText = '';
+      const result = await streamVoiceCommand({
         command: transcript,
+        courseId: courseContext || null,
         sessionId,
         currentPath,
         currentUrl,
         userId: user?.id,
         semanticContext: semanticContext || {},
         processedText: processedText
+      }, {
+        onToken: (text) => {
+          streamedText += text;
+          setResponse(streamedText);
+        },
+        onSentence: (text) => speakQueued(text)
+      }, abortController.signal).finally(() => {
+        if (streamAbortRef.current === abortController) streamAbortRef.current = null;
       });
 
-      const result = await response.json();
-
       // Cache the response for future use
       if (result.response) {
         responseCache.cacheVoiceResponse(transcript, result.response, courseContext);
@@ -742,9 +706,9 @@ export function GlobalVoiceAssistant() {
       setProcessingLatency(latency);
       updateCacheStats();
 
-      return result;
+      return { ...result, streamed: true };
     },
-    onSuccess: async (data, transcript) => {
+    onSuccess: async (data: any, transcript) => {
       if (data.response) {
         setResponse(data.response);
       }
@@ -765,6 +729,7 @@ export function GlobalVoiceAssistant() {
         timestamp: new Date(),
         courseContext: data.courseContext,
         contextSwitch: data.contextSwitch,
+        interactionId: data.interactionId,
         semanticContext: data.semanticContext
       };
 
@@ -809,8 +774,8 @@ export function GlobalVoiceAssistant() {
       let navigated = false;
       for (const [page, regex] of Object.entries(navigationCommands)) {
         if (regex.test(transcript)) {
-          // Speak the response first
-          if (data.response) {
+          // Speak the response first, unless it was already spoken while streaming
+          if (data.response && !data.streamed) {
             speak(data.response);
           }
 
@@ -963,12 +928,15 @@ export function GlobalVoiceAssistant() {
         }, 2000);
       }
 
-      // Speak the response using voice settings
-      if (data.response) {
+      // Speak the response using voice settings; streamed replies were spoken sentence by sentence
+      if (data.response && !data.streamed) {
         speak(data.response);
       }
     },
     onError: (error) => {
+      // The user interrupted the reply; there's nothing to report
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
       console.error("Voice processing error:", error);
       const errorMessage = "Sorry, I couldn't process your request right now. Please try again.";
       setResponse(errorMessage);
@@ -976,29 +944,6 @@ export function GlobalVoiceAssistant() {
     }
   });
 
-  // Calculate confidence for context switching
-  const calculateContextSwitchConfidence = (command: string, detectedCourse: string): number => {
-    const lowerCommand = command.toLowerCase();
-    let confidence = 0.5; // Base confidence
-
-    // Higher confidence for explicit course mentions
-    if (lowerCommand.includes('course') || lowerCommand.includes('class')) {
-      confidence += 0.3;
-    }
-
-    // Higher confidence for specific course ID patterns
-    if (/\d/.test(detectedCourse)) {
-      confidence += 0.2;
-    }
-
-    // Higher confidence for subject-specific terms
-    const subjectTerms = ['explain', 'about', 'homework', 'assignment', 'exam', 'test', 'quiz'];
-    const foundTerms = subjectTerms.filter(term => lowerCommand.includes(term));
-    confidence += foundTerms.length * 0.1;
-
-    return Math.min(confidence, 0.95); // Cap at 95%
-  };
-
   // Helper functions for background learning analysis
   const extractTopicFromCommand = (command: string): string => {
     const lowerCommand = command.toLowerCase();
@@ -1039,7 +984,19 @@ export function GlobalVoiceAssistant() {
     return 2; // Default moderate difficulty
   };
 
+  // Stop the current reply: cancel its generation and silence what was already queued
+  const interruptResponse = () => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+    cancel();
+  };
+
   const processCommand = (command: string) => {
+    if (/^\s*(stop|cancel|be quiet|that's enough)\W*$/i.test(command)) {
+      interruptResponse();
+      return;
+    }
+
     if (command.trim()) {
       if (isOfflineMode) {
         handleOfflineCommand(command);
@@ -1218,7 +1175,7 @@ export function GlobalVoiceAssistant() {
   };
 
   const stopSpeaking = () => {
-    cancel();
+    interruptResponse();
     setIsSpeaking(false);
   };
 
@@ -1360,7 +1317,7 @@ export function GlobalVoiceAssistant() {
 
                         {entry.contextSwitch && (
                           <div className="text-xs text-blue-600 mt-1 break-words">
-                            🔄 Context switch detected
+                            🔄 Switched to {entry.contextSwitch.courseName || entry.contextSwitch.detectedCourse}
                           </div>
                         )}
                         {entry.type === 'assistant' && entry.semanticContext && (
@@ -1368,6 +1325,9 @@ export function GlobalVoiceAssistant() {
                             💡 AI context applied
                           </div>
                         )}
+                        {entry.type === 'assistant' && entry.interactionId && (
+                          <UnderstandingFeedback key={entry.interactionId} interactionId={entry.interactionId} />
+                        )}
                       </div>
                     ))
                   )}
@@ -1426,12 +1386,12 @@ export function GlobalVoiceAssistant() {
 
                     <Button
                       onClick={() => {
-                        cancel();
+                        interruptResponse();
                         setResponse("");
                       }}
                       variant="outline"
                       size="icon"
-                      disabled={!isSpeaking}
+                      disabled={!isSpeaking && !processVoiceCommand.isPending}
                       className="h-11 w-11 md:h-10 md:w-10 touch-manipulation"
                     >
                       <VolumeX className="h-4 w-4" />
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+
+interface UnderstandingFeedbackProps {
+  interactionId: string;
+}
+
+/**
+ * "Did that make sense?" rating for one assistant reply, stored as the interaction's
+ * immediate understanding (1-5) for the voice analytics dashboard
+ */
+export function UnderstandingFeedback({ interactionId }: UnderstandingFeedbackProps) {
+  const [rating, setRating] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const feedbackMutation = useMutation({
+    mutationFn: (understanding: number) =>
+      apiRequest("POST", `/api/voice/interactions/${encodeURIComponent(interactionId)}/feedback`, { understanding }),
+    onSuccess: (_, understanding) => {
+      setRating(understanding);
+      queryClient.invalidateQueries({ queryKey: ['/api/voice/analytics/dashboard'] });
+    },
+    onError: () => {
+      toast({ title: "Feedback not saved", description: "Please try again.", variant: "destructive" });
+    }
+  });
+
+  if (rating !== null) {
+    return <p className="text-xs text-gray-500 mt-1">Thanks for the feedback!</p>;
+  }
+
+  return (
+    <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+      <span>Did that make sense?</span>
+      {[1, 2, 3, 4, 5].map(value => (
+        <Button
+          key={value}
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0 text-xs"
+          onClick={() => feedbackMutation.mutate(value)}
+          disabled={feedbackMutation.isPending}
+          title={value === 1 ? "Not at all" : value === 5 ? "Completely" : undefined}
+        >
+          {value}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -60,7 +60,7 @@ export function VoiceAnalyticsDashboard() {
 
   // Fetch analytics data
   const { data: insights, isLoading: insightsLoading } = useQuery<{ insights: AnalyticsInsight[] }>({
-    queryKey: ['/api/voice/analytics/insights', user?.id, selectedTimeframe],
+    queryKey: [`/api/voice/analytics/insights?timeframe=${selectedTimeframe}`, user?.id],
     enabled: !!user?.id
   });
 
@@ -4,11 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Mic, Play, SkipForward, Square, RotateCcw, Brain, Target, Zap } from "lucide-react";
+import { Mic, Play, SkipForward, Square, RotateCcw, Brain, Target, Zap, CalendarClock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTextToSpeech } from "@/hooks/use-text-to-speech";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 
 interface VoiceFlashcardResponse {
@@ -30,6 +30,12 @@ interface VoiceFlashcardResponse {
   nextAction?: 'continue' | 'end' | 'repeat';
 }
 
+interface DueCourseCount {
+  courseId: string | null;
+  flashcards: number;
+  quizItems: number;
+}
+
 interface VoiceFlashcardsProps {
   sessionId?: string;
   onSessionEnd?: () => void;
@@ -45,12 +51,22 @@ export function VoiceFlashcards({ sessionId: initialSessionId, onSessionEnd }: V
   const { speak, speaking } = useTextToSpeech();
   const { toast } = useToast();
 
+  const courseId = window.location.pathname.match(/\/courses\/([^\/]+)/)?.[1];
+
+  const { data: dueCounts = [] } = useQuery<DueCourseCount[]>({
+    queryKey: ["/api/reviews/due-counts"],
+  });
+  const dueCardCount = dueCounts
+    .filter(count => !courseId || count.courseId === courseId)
+    .reduce((sum, count) => sum + count.flashcards, 0);
+
   // Start new flashcard session
   const startSessionMutation = useMutation({
     mutationFn: async (data: { 
-      command: string; 
+      command?: string; 
       sessionType: string; 
-      courseId?: string 
+      courseId?: string;
+      dueOnly?: boolean;
     }) => {
       const response = await apiRequest("POST", "/api/flashcards/start-voice-session", data);
       return response.json();
@@ -95,6 +111,7 @@ export function VoiceFlashcards({ sessionId: initialSessionId, onSessionEnd }: V
       if (data.nextAction === 'end') {
         setIsActive(false);
         setSessionId(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/reviews/due-counts"] });
         onSessionEnd?.();
       }
     },
@@ -174,7 +191,16 @@ export function VoiceFlashcards({ sessionId: initialSessionId, onSessionEnd }: V
     startSessionMutation.mutate({
       command: `start ${type} flashcard session`,
       sessionType: type,
-      courseId: window.location.pathname.match(/\/courses\/([^\/]+)/)?.[1]
+      courseId
+    });
+  };
+
+  const handleStartDueReview = () => {
+    setSessionType('review');
+    startSessionMutation.mutate({
+      sessionType: 'review',
+      dueOnly: true,
+      courseId
     });
   };
 
@@ -239,6 +265,17 @@ export function VoiceFlashcards({ sessionId: initialSessionId, onSessionEnd }: V
           </div>
           
           <div className="grid gap-3">
+            <Button 
+              onClick={handleStartDueReview}
+              disabled={startSessionMutation.isPending || dueCardCount === 0}
+              variant="secondary"
+              className="w-full justify-start"
+            >
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Review Due Cards
+              <Badge variant="outline" className="ml-auto">{dueCardCount} due today</Badge>
+            </Button>
+
             <Button 
               onClick={() => handleStartSession('practice')}
               disabled={startSessionMutation.isPending}
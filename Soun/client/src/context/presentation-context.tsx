@@ -1,77 +1,89 @@
-import React, { createContext, useState, useContext, ReactNode } from "react";
+import React, { createContext, useState, useContext, useEffect, useRef, useCallback, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  DeliveryAnalysis,
+  OutlineSection,
+  Presentation,
+  PresentationPractice,
+  PresentationQuestion,
+  TextSuggestion
+} from "@shared/schema";
 
-// Type definitions
-export interface OutlineSection {
-  id: string;
-  title: string;
-  content: string;
-  time: number;
-  suggestions: string[];
-}
-
-export interface Question {
-  id: string;
-  text: string;
-  category: string;
-  difficulty: 'basic' | 'intermediate' | 'advanced';
-  preparedAnswer: string;
-  source: 'generated' | 'manual';
-  isFavorite: boolean;
-}
-
-export interface Suggestion {
-  id: string;
-  original: string;
-  suggested: string;
-  type: "grammar" | "clarity" | "academic" | "conciseness";
-  explanation: string;
-  startIndex: number;
-  endIndex: number;
-  applied: boolean;
-}
+// Type definitions - the saved shapes live in the shared schema
+export type { DeliveryAnalysis, OutlineSection };
+export type Question = PresentationQuestion;
+export type Suggestion = TextSuggestion;
 
 export interface PracticeRecording {
   id: string;
   date: string;
   duration: number;
-  audioUrl: string | null;
+  audioUrl: string | null; // Only for recordings made in this visit; uploaded audio is analysed, not kept
   transcript: string;
   feedback: any | null;
+  analysis: DeliveryAnalysis | null;
   wordsPerMinute?: number;
   paceStatus?: 'slow' | 'good' | 'fast' | null;
 }
 
+// A finished run-through, sent to the server for delivery analysis
+export interface PracticeTake {
+  date: string;
+  duration: number;
+  audio: Blob | null;
+  transcript: string;
+  segments: Array<{ text: string; end: number }>; // Recognized phrases and when they ended, in seconds
+  sectionMarks: Array<{ sectionId: string; start: number }>; // When the student moved on to each section
+}
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface PresentationWorkspace {
+  presentation: Presentation | null;
+  practices: PresentationPractice[];
+}
+
 interface PresentationContextType {
+  // The course the workspace belongs to; null on the page outside a course
+  courseId: string | null;
+  openWorkspace: (courseId: string | null) => void;
+  isLoading: boolean;
+  saveStatus: SaveStatus;
+
   // Presentation metadata
   title: string;
   setTitle: (title: string) => void;
-  
+
   // Outline data
   outlineSections: OutlineSection[];
   setOutlineSections: (sections: OutlineSection[]) => void;
-  
+
   // Complete presentation text
   fullText: string;
   setFullText: (text: string) => void;
-  
+
   // Text revision data
   textSuggestions: Suggestion[];
   setTextSuggestions: (suggestions: Suggestion[]) => void;
-  
+
   // Questions
   questions: Question[];
   setQuestions: (questions: Question[]) => void;
-  
+
   // Practice recordings
   recordings: PracticeRecording[];
   setRecordings: (recordings: PracticeRecording[]) => void;
-  
+  addRecording: (take: PracticeTake) => Promise<PracticeRecording>;
+  removeRecording: (id: string) => Promise<void>;
+
   // Helper functions
   regenerateFullText: () => void;
   clearAll: () => void;
 }
 
 // Initial values
+const DEFAULT_TITLE = "My Presentation";
 const initialOutlineSections: OutlineSection[] = [
   { id: "1", title: "Introduction", content: "", time: 2, suggestions: [] },
   { id: "2", title: "Main Points", content: "", time: 8, suggestions: [] },
@@ -79,42 +91,220 @@ const initialOutlineSections: OutlineSection[] = [
   { id: "4", title: "Conclusion", content: "", time: 2, suggestions: [] }
 ];
 
+// Edits are saved this long after the last change
+const AUTOSAVE_DELAY_MS = 1000;
+
+const workspaceUrl = (courseId: string | null) =>
+  courseId ? `/api/presentations/workspace?courseId=${encodeURIComponent(courseId)}` : '/api/presentations/workspace';
+
+const toRecording = (practice: PresentationPractice): PracticeRecording => ({
+  id: String(practice.id),
+  date: new Date(practice.recordedAt).toISOString(),
+  duration: practice.duration,
+  audioUrl: null,
+  transcript: practice.transcript,
+  feedback: practice.feedback,
+  analysis: practice.analysis ?? null,
+  wordsPerMinute: practice.wordsPerMinute ?? undefined,
+  paceStatus: (practice.paceStatus as PracticeRecording['paceStatus']) ?? null
+});
+
 // Create the context
 export const PresentationContext = createContext<PresentationContextType | undefined>(undefined);
 
 // Provider component
 export function PresentationProvider({ children }: { children: ReactNode }) {
-  const [title, setTitle] = useState<string>("My Presentation");
+  // undefined until the presentation page opens a workspace
+  const [courseId, setCourseId] = useState<string | null | undefined>(undefined);
+  const [title, setTitle] = useState<string>(DEFAULT_TITLE);
   const [outlineSections, setOutlineSections] = useState<OutlineSection[]>(initialOutlineSections);
   const [fullText, setFullText] = useState<string>("");
   const [textSuggestions, setTextSuggestions] = useState<Suggestion[]>([]);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [recordings, setRecordings] = useState<PracticeRecording[]>([]);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+
+  const presentationIdRef = useRef<number | null>(null);
+  // What the server has, so loading a workspace doesn't immediately save it back
+  const lastSavedRef = useRef<string>("");
+  const hydratedForRef = useRef<string | null | undefined>(undefined);
+  const [hydrated, setHydrated] = useState(false);
+
+  const { data: workspace, isLoading } = useQuery<PresentationWorkspace>({
+    queryKey: ['/api/presentations/workspace', courseId],
+    queryFn: async () => {
+      const res = await apiRequest('GET', workspaceUrl(courseId ?? null));
+      return res.json();
+    },
+    enabled: courseId !== undefined,
+    // A cached copy would be older than the edits autosaved since, so always load fresh
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const snapshot = () => JSON.stringify({ title, outline: outlineSections, fullText, textSuggestions, questions });
+
+  // Reopening the same workspace keeps unsaved edits; switching course loads the other one
+  const openWorkspace = useCallback((nextCourseId: string | null) => {
+    if (hydratedForRef.current !== undefined && hydratedForRef.current !== nextCourseId) {
+      hydratedForRef.current = undefined;
+      setHydrated(false);
+    }
+    setCourseId(nextCourseId);
+  }, []);
+
+  // Load the saved presentation (or a fresh outline) once per workspace
+  useEffect(() => {
+    if (!workspace || courseId === undefined || hydratedForRef.current === courseId) return;
+
+    const saved = workspace.presentation;
+    const next = {
+      title: saved?.title ?? DEFAULT_TITLE,
+      outline: saved?.outline ?? initialOutlineSections,
+      fullText: saved?.fullText ?? "",
+      textSuggestions: saved?.textSuggestions ?? [],
+      questions: saved?.questions ?? []
+    };
+    setTitle(next.title);
+    setOutlineSections(next.outline);
+    setFullText(next.fullText);
+    setTextSuggestions(next.textSuggestions);
+    setQuestions(next.questions);
+    setRecordings(workspace.practices.map(toRecording));
+
+    presentationIdRef.current = saved?.id ?? null;
+    lastSavedRef.current = JSON.stringify(next);
+    hydratedForRef.current = courseId;
+    setHydrated(true);
+    setSaveStatus(saved ? 'saved' : 'idle');
+  }, [workspace, courseId]);
+
+  const save = useCallback(async (body: string): Promise<number | null> => {
+    setSaveStatus('saving');
+    try {
+      const res = await apiRequest('PUT', '/api/presentations/workspace', { ...JSON.parse(body), courseId });
+      const presentation: Presentation = await res.json();
+      presentationIdRef.current = presentation.id;
+      lastSavedRef.current = body;
+      setSaveStatus('saved');
+      return presentation.id;
+    } catch (error) {
+      console.error('Failed to save presentation:', error);
+      setSaveStatus('error');
+      return null;
+    }
+  }, [courseId]);
+
+  // Autosave edits
+  useEffect(() => {
+    if (!hydrated) return;
+    const body = snapshot();
+    if (body === lastSavedRef.current) return;
+
+    const timeout = setTimeout(() => { save(body); }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [hydrated, title, outlineSections, fullText, textSuggestions, questions, save]);
+
+  const uploadPractice = async (presentationId: number, take: PracticeTake, withAudio: boolean) => {
+    const formData = new FormData();
+    formData.append('duration', String(take.duration));
+    formData.append('transcript', take.transcript);
+    formData.append('segments', JSON.stringify(take.segments));
+    formData.append('sectionMarks', JSON.stringify(take.sectionMarks));
+    if (withAudio && take.audio) formData.append('audioFile', take.audio, 'practice');
+
+    return fetch(`/api/presentations/${presentationId}/practices`, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+  };
+
+  // Practice recordings need a saved presentation to belong to, and the analysis reads its outline
+  const addRecording = async (take: PracticeTake): Promise<PracticeRecording> => {
+    const body = snapshot();
+    const presentationId = presentationIdRef.current !== null && body === lastSavedRef.current
+      ? presentationIdRef.current
+      : await save(body);
+    const audioUrl = take.audio ? URL.createObjectURL(take.audio) : null;
+    let saved: PracticeRecording = {
+      id: `local-${Date.now()}`,
+      date: take.date,
+      duration: take.duration,
+      audioUrl,
+      transcript: take.transcript,
+      feedback: null,
+      analysis: null
+    };
+
+    if (presentationId !== null) {
+      try {
+        let res = await uploadPractice(presentationId, take, true);
+        // Audio the server can't decode still leaves the transcript to analyse
+        if (res.status === 415) res = await uploadPractice(presentationId, take, false);
+        if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+        const practice: PresentationPractice = await res.json();
+        saved = { ...toRecording(practice), audioUrl };
+      } catch (error) {
+        console.error('Failed to save practice recording:', error);
+      }
+    }
+
+    setRecordings(prev => [saved, ...prev]);
+    return saved;
+  };
+
+  const removeRecording = async (id: string) => {
+    const recording = recordings.find(r => r.id === id);
+    if (recording?.audioUrl) URL.revokeObjectURL(recording.audioUrl);
+    setRecordings(prev => prev.filter(r => r.id !== id));
+
+    const practiceId = Number(id);
+    if (presentationIdRef.current !== null && Number.isInteger(practiceId)) {
+      await apiRequest('DELETE', `/api/presentations/${presentationIdRef.current}/practices/${practiceId}`);
+    }
+  };
 
   // Function to regenerate full text from outline sections
   const regenerateFullText = () => {
     let generatedText = `# ${title}\n\n`;
-    
+
     outlineSections.forEach(section => {
       generatedText += `## ${section.title}\n\n${section.content}\n\n`;
     });
-    
+
     setFullText(generatedText.trim());
   };
 
-  // Function to clear all data
+  // Function to clear all data, including the saved copy
   const clearAll = () => {
-    setTitle("My Presentation");
+    setTitle(DEFAULT_TITLE);
     setOutlineSections(initialOutlineSections);
     setFullText("");
     setTextSuggestions([]);
     setQuestions([]);
+    recordings.forEach(r => r.audioUrl && URL.revokeObjectURL(r.audioUrl));
     setRecordings([]);
+
+    if (presentationIdRef.current !== null && courseId !== undefined) {
+      presentationIdRef.current = null;
+      lastSavedRef.current = JSON.stringify({
+        title: DEFAULT_TITLE, outline: initialOutlineSections, fullText: "", textSuggestions: [], questions: []
+      });
+      setSaveStatus('idle');
+      apiRequest('DELETE', workspaceUrl(courseId)).catch(error => {
+        console.error('Failed to delete presentation:', error);
+      });
+    }
   };
 
   return (
     <PresentationContext.Provider
       value={{
+        courseId: courseId ?? null,
+        openWorkspace,
+        isLoading: courseId !== undefined && (isLoading || !hydrated),
+        saveStatus,
         title,
         setTitle,
         outlineSections,
@@ -127,6 +317,8 @@ export function PresentationProvider({ children }: { children: ReactNode }) {
         setQuestions,
         recordings,
         setRecordings,
+        addRecording,
+        removeRecording,
         regenerateFullText,
         clearAll
       }}
@@ -143,4 +335,4 @@ export function usePresentation() {
     throw new Error("usePresentation must be used within a PresentationProvider");
   }
   return context;
-}
\ No newline at end of file
+}
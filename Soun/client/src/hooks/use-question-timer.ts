@@ -0,0 +1,30 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Accumulates how long each quiz question is on screen. Call lap() with the question that is
+ * being left whenever the student moves on, goes back or submits.
+ */
+export function useQuestionTimer() {
+  const shownAtRef = useRef(Date.now());
+  const totalsRef = useRef<Record<string, number>>({}); // questionId -> milliseconds
+
+  const restart = useCallback(() => {
+    shownAtRef.current = Date.now();
+    totalsRef.current = {};
+  }, []);
+
+  const lap = useCallback((questionId: string | undefined) => {
+    const now = Date.now();
+    if (questionId) {
+      totalsRef.current[questionId] = (totalsRef.current[questionId] || 0) + (now - shownAtRef.current);
+    }
+    shownAtRef.current = now;
+  }, []);
+
+  // Whole seconds, the unit quiz attempts are stored in
+  const secondsSpent = useCallback((questionId: string) => {
+    return Math.round((totalsRef.current[questionId] || 0) / 1000);
+  }, []);
+
+  return { restart, lap, secondsSpent };
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSpeechRecognition } from '@/hooks/use-speech-recognition';
+
+export interface ReadAloudTake {
+  audio: Blob | null;
+  transcript: string;
+  duration: number; // seconds
+  segments: Array<{ text: string; end: number }>; // Recognized phrases and when they ended
+}
+
+/**
+ * Records audio and transcribes it at the same time. The take is ready once both the recorder
+ * and speech recognition have finished, so the last phrase isn't lost.
+ */
+export function useReadAloudRecorder() {
+  const { transcript, isListening, isSupported, startListening, stopListening, resetTranscript } =
+    useSpeechRecognition({ continuous: true });
+  const [isRecording, setIsRecording] = useState(false);
+  const [liveTranscript, setLiveTranscript] = useState('');
+  const [take, setTake] = useState<ReadAloudTake | null>(null);
+  const [recordedAudio, setRecordedAudio] = useState<{ blob: Blob | null; duration: number } | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const segmentsRef = useRef<ReadAloudTake['segments']>([]);
+  const startedAtRef = useRef(0);
+
+  useEffect(() => {
+    if (!transcript || !startedAtRef.current) return;
+    segmentsRef.current.push({ text: transcript.trim(), end: (Date.now() - startedAtRef.current) / 1000 });
+    setLiveTranscript(segmentsRef.current.map(segment => segment.text).join(' '));
+    resetTranscript();
+  }, [transcript, resetTranscript]);
+
+  useEffect(() => {
+    if (!recordedAudio || isListening) return;
+    setTake({
+      audio: recordedAudio.blob,
+      transcript: segmentsRef.current.map(segment => segment.text).join(' ').trim(),
+      duration: recordedAudio.duration,
+      segments: segmentsRef.current
+    });
+    setRecordedAudio(null);
+    startedAtRef.current = 0;
+  }, [recordedAudio, isListening]);
+
+  const start = useCallback(async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    chunksRef.current = [];
+    segmentsRef.current = [];
+    setLiveTranscript('');
+    setTake(null);
+    resetTranscript();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+      setRecordedAudio({ blob: blob.size > 0 ? blob : null, duration: (Date.now() - startedAtRef.current) / 1000 });
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    recorder.start();
+    if (isSupported) startListening();
+    setIsRecording(true);
+  }, [isSupported, startListening, resetTranscript]);
+
+  const stop = useCallback(() => {
+    if (!recorderRef.current || !isRecording) return;
+    stopListening();
+    recorderRef.current.stop();
+    setIsRecording(false);
+  }, [isRecording, stopListening]);
+
+  const reset = useCallback(() => {
+    setTake(null);
+    setLiveTranscript('');
+  }, []);
+
+  return { isRecording, isSupported, liveTranscript, take, start, stop, reset };
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import * as tts from '@/lib/text-to-speech';
 import { useVoiceSettings } from '@/context/voice-settings-context';
 
@@ -6,6 +6,8 @@ export function useTextToSpeech() {
   const [speaking, setSpeaking] = useState(false);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
+  // Utterances queued with speakQueued that haven't finished yet
+  const queuedCountRef = useRef(0);
   const { voiceSettings, updateVoiceSettings } = useVoiceSettings();
 
   // Get available voices and apply saved settings
@@ -160,6 +162,7 @@ export function useTextToSpeech() {
   }) => {
     if (!text.trim()) return;
 
+    queuedCountRef.current = 0;
     setSpeaking(true);
 
     // Use voice settings with optional overrides
@@ -172,9 +175,30 @@ export function useTextToSpeech() {
     });
   }, [selectedVoice]);
 
+  // Speak after whatever is already playing, e.g. each sentence of a streamed reply
+  const speakQueued = useCallback((text: string) => {
+    if (!text.trim()) return;
+
+    queuedCountRef.current += 1;
+    setSpeaking(true);
+
+    tts.speak(text, {
+      voice: selectedVoice,
+      rate: voiceSettings.rate,
+      pitch: voiceSettings.pitch,
+      volume: voiceSettings.volume,
+      queue: true,
+      onEnd: () => {
+        queuedCountRef.current = Math.max(0, queuedCountRef.current - 1);
+        if (queuedCountRef.current === 0) setSpeaking(false);
+      }
+    });
+  }, [selectedVoice, voiceSettings.rate, voiceSettings.pitch, voiceSettings.volume]);
+
   // Cancel speaking
   const cancel = useCallback(() => {
     if (typeof window !== 'undefined' && window.speechSynthesis) {
+      queuedCountRef.current = 0;
       window.speechSynthesis.cancel();
       setSpeaking(false);
     }
@@ -188,6 +212,7 @@ export function useTextToSpeech() {
 
   return {
     speak,
+    speakQueued,
     cancel,
     speaking,
     voices,
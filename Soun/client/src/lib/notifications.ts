@@ -69,7 +69,84 @@ export function showBrowserNotification(
   }
 }
 
-// Schedule a study session reminder
+// Check if the browser can receive Web Push while the app is closed
+export function checkPushSupport(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && checkNotificationSupport();
+}
+
+// VAPID keys are URL-safe base64; the Push API wants raw bytes
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const output = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i);
+  }
+  return output;
+}
+
+// Register the service worker and send this browser's push subscription to the server.
+// Returns false when push isn't supported, permission was refused or the server has no VAPID keys.
+export async function subscribeToPush(): Promise<boolean> {
+  if (!checkPushSupport() || !(await requestNotificationPermission())) {
+    return false;
+  }
+
+  try {
+    const keyResponse = await fetch('/api/push/public-key', { credentials: 'include' });
+    if (!keyResponse.ok) {
+      return false;
+    }
+    const { publicKey } = await keyResponse.json();
+
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+
+    const response = await fetch('/api/push/subscriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(subscription.toJSON()),
+      credentials: 'include',
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error subscribing to push notifications:', error);
+    return false;
+  }
+}
+
+// Stop push delivery to this browser
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!checkPushSupport()) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) {
+      return;
+    }
+
+    await fetch('/api/push/subscriptions', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+      credentials: 'include',
+    });
+    await subscription.unsubscribe();
+  } catch (error) {
+    console.error('Error unsubscribing from push notifications:', error);
+  }
+}
+
+// Schedule a study session reminder in this tab. Reminders that must arrive with the tab
+// closed are generated on the server and listed at /api/notifications.
 export function scheduleSessionReminder(
   sessionTitle: string,
   sessionTime: Date,
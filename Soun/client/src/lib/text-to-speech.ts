@@ -62,14 +62,17 @@ export const speak = (text: string, options?: {
   voice?: SpeechSynthesisVoice | null; // Specific voice to use
   onEnd?: () => void; // Callback when speech ends
   skipPreprocessing?: boolean; // Skip natural text preprocessing
+  queue?: boolean; // Play after the current speech instead of interrupting it
 }) => {
   if (!isSpeechSynthesisSupported()) {
     console.warn('Speech synthesis is not supported in this browser');
     return;
   }
 
-  // Cancel any ongoing speech
-  window.speechSynthesis.cancel();
+  // Cancel any ongoing speech, unless this text continues it
+  if (!options?.queue) {
+    window.speechSynthesis.cancel();
+  }
 
   // Preprocess text for more natural speech unless explicitly skipped
   const processedText = options?.skipPreprocessing ? text : preprocessTextForNaturalSpeech(text);
@@ -170,3 +170,115 @@ export interface QuizSession {
   status: string; // 'in_progress', 'completed', 'abandoned'
   feedback: string | null;
 }
+
+// Vocal assessment types
+export type VocalWeakness = 'accuracy' | 'pace_slow' | 'pace_fast' | 'fluency' | 'volume';
+
+export interface AlignedWord {
+  op: 'match' | 'substitution' | 'deletion' | 'insertion';
+  expected: string | null;
+  spoken: string | null;
+}
+
+export interface VocalAssessment {
+  mode: 'read' | 'explain';
+  targetText: string;
+  transcript: string;
+  alignment: AlignedWord[];
+  errors: { substitutions: number; deletions: number; insertions: number; wordErrorRate: number };
+  wordsPerMinute: number | null;
+  speakingSeconds: number;
+  pauses: { long: number; expected: number; fillers: number; repeats: number };
+  volume: { averageDb: number; peakDb: number; variationDb: number } | null;
+  scores: { accuracy: number; pace: number | null; fluency: number; volume: number | null; overall: number };
+  weaknesses: VocalWeakness[];
+  missedWords: string[];
+  feedback: string[];
+  attemptId: number;
+}
+
+export interface VocalChallenge {
+  id: string;
+  type: 'pronunciation' | 'pacing' | 'fluency' | 'projection' | 'term' | 'definition' | 'teach_back';
+  mode: 'read' | 'explain';
+  difficulty: number;
+  title: string;
+  text: string;
+  focus: string;
+  source?: { courseId: string; documentId: number; documentTitle: string };
+  attempts: number;
+  bestScore: number | null;
+  mastered: boolean;
+}
+
+export interface VocalChallengeRecommendation {
+  challenges: VocalChallenge[];
+  recommendedId: string | null;
+  weaknesses: VocalWeakness[];
+  courseId: string | null;
+  source: 'course' | 'built_in';
+}
+
+export interface VocalChallengeResult extends VocalAssessment {
+  challengeId: string;
+  passed: boolean;
+  nextChallengeId: string | null;
+}
+
+// Exam score analytics types
+export type ExamScoreCategory = 'assignment' | 'quiz' | 'test' | 'midterm' | 'exam' | 'final' | 'project';
+
+export type GradeWeights = Partial<Record<ExamScoreCategory, number>>;
+
+export interface CourseGradeAnalytics {
+  courseId: string;
+  courseName: string;
+  examCount: number;
+  averageScore: number;
+  trend: {
+    points: Array<{
+      examId: number;
+      examName: string;
+      date: string;
+      category: ExamScoreCategory;
+      percentage: number;
+      fitted: number;
+    }>;
+    slopePerMonth: number;
+    change: number;
+    nextScore: number;
+  };
+  weights: GradeWeights | null;
+  categories: Array<{ category: ExamScoreCategory; weight: number | null; averageScore: number | null; count: number }>;
+  currentGrade: number;
+  projectedGrade: number;
+  gradedWeight: number;
+}
+
+export interface ExamScoreAnalytics {
+  averageScore: number;
+  totalExams: number;
+  improvement: number;
+  coursePerformance: CourseGradeAnalytics[];
+  recentExams: Array<{
+    id: number;
+    courseName: string;
+    examName: string;
+    score: string;
+    maxScore: string;
+    percentage: number;
+    date: string;
+  }>;
+}
+
+export interface RequiredScore {
+  courseId: string;
+  category: ExamScoreCategory;
+  targetGrade: number;
+  currentGrade: number;
+  projectedGrade: number;
+  requiredPercentage: number;
+  requiredScore: number | null;
+  achievable: boolean;
+  secured: boolean;
+}
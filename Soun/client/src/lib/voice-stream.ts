@@ -0,0 +1,104 @@
+/**
+ * Client for the streaming voice endpoint (/api/voice/stream, Server-Sent Events over POST)
+ */
+
+export interface VoiceContextSwitch {
+  detectedCourse: string;
+  courseName: string;
+  switchedFrom: string | null;
+  confidence: number;
+  matchedTerms: string[];
+}
+
+export interface VoiceStreamResult {
+  response: string;
+  interactionId: string | null; // For understanding feedback; null when the exchange wasn't recorded
+  courseContext: string | null;
+  action: string;
+  data: any;
+  // Set when the server moved the reply to another of the user's courses
+  contextSwitch: VoiceContextSwitch | null;
+}
+
+export interface VoiceStreamHandlers {
+  onToken?: (text: string) => void;
+  onSentence?: (text: string, index: number) => void;
+}
+
+/**
+ * Send a voice command and receive the reply as it is generated.
+ * Abort the signal to cancel; the promise then rejects with an AbortError.
+ */
+export const streamVoiceCommand = async (
+  body: Record<string, unknown>,
+  handlers: VoiceStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<VoiceStreamResult> => {
+  const res = await fetch('/api/voice/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'include',
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: VoiceStreamResult | null = null;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+      if (!event) continue;
+
+      switch (event.name) {
+        case 'token':
+          handlers.onToken?.(event.data.text);
+          break;
+        case 'sentence':
+          handlers.onSentence?.(event.data.text, event.data.index);
+          break;
+        case 'done':
+          result = event.data;
+          break;
+        case 'error':
+          throw new Error(event.data.error || 'Voice stream failed');
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error('Voice stream ended before the reply was complete');
+  }
+  return result;
+};
+
+const parseEvent = (block: string): { name: string; data: any } | null => {
+  let name = 'message';
+  const dataLines: string[] = [];
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) name = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+  });
+
+  if (dataLines.length === 0) return null;
+  try {
+    return { name, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+};
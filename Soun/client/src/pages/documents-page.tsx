@@ -72,7 +72,7 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { DocumentAnalysisViewer } from "@/components/document/document-analysis-viewer";
-import { CrossFileSearch } from "@/components/search/cross-file-search";
+import { CrossFileSearch, type PassageLocation } from "@/components/search/cross-file-search";
 import { EnhancedDocumentProcessor } from "@/components/document/enhanced-document-processor";
 
 const fileTypeIcons: Record<string, React.ReactNode> = {
@@ -114,6 +114,8 @@ type UploadFormValues = z.infer<typeof uploadSchema>;
 
 export default function DocumentsPage() {
   const [selectedDoc, setSelectedDoc] = useState<Document | null>(null);
+  const [highlightedPassage, setHighlightedPassage] = useState<PassageLocation | null>(null);
+  const [activeTab, setActiveTab] = useState("all");
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [expandedCourses, setExpandedCourses] = useState<Set<string>>(new Set(['uncategorized']));
   const { toast } = useToast();
@@ -309,6 +311,23 @@ export default function DocumentsPage() {
 
   const handleSelectDocument = (doc: Document) => {
     setSelectedDoc(doc);
+    setHighlightedPassage(null);
+  };
+
+  // Opens a search hit or citation in the viewer with the passage highlighted
+  const handleOpenPassage = (passage: PassageLocation) => {
+    const doc = (documents as Document[]).find(d => d.id === passage.documentId);
+    if (!doc) {
+      toast({
+        title: "Document not found",
+        description: "The cited document may have been deleted.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSelectedDoc(doc);
+    setHighlightedPassage(passage);
+    setActiveTab("all");
   };
 
   const toggleCourseExpansion = (courseId: string) => {
@@ -451,7 +470,7 @@ export default function DocumentsPage() {
         </Dialog>
       </div>
 
-      <Tabs defaultValue="all" className="w-full">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="all">All Documents</TabsTrigger>
           <TabsTrigger value="enhanced">Enhanced Processing</TabsTrigger>
@@ -663,6 +682,7 @@ export default function DocumentsPage() {
               <DocumentViewer 
                 document={documentDetail || selectedDoc} 
                 isLoading={isLoadingDoc}
+                highlight={highlightedPassage}
               />
             </div>
           </div>
@@ -678,7 +698,7 @@ export default function DocumentsPage() {
         </TabsContent>
 
         <TabsContent value="search" className="mt-6">
-          <CrossFileSearch documents={documents} />
+          <CrossFileSearch onOpenPassage={handleOpenPassage} />
         </TabsContent>
 
         <TabsContent value="upload" className="mt-6">
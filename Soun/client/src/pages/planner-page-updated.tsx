@@ -13,12 +13,13 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { CalendarIcon, PlusIcon, UploadIcon, ExternalLink, Bell, BookOpen, FileText, Clock } from "lucide-react";
+import { CalendarIcon, PlusIcon, ExternalLink, Bell, BookOpen, FileText, Clock } from "lucide-react";
 import { CalendarIntegrationButton, CalendarEventIndicator } from "@/components/planner/calendar-integration";
 import { CalendarEvent } from "@/lib/calendar-integration";
 import { SmartPlanner } from "@/components/planner/smart-planner";
+import { SyllabusUploadDialog } from "@/components/planner/syllabus-upload-dialog";
 import { NotificationCenter } from "@/components/notification/notification-center";
-import { requestNotificationPermission } from "@/lib/notifications";
+import { requestNotificationPermission, subscribeToPush } from "@/lib/notifications";
 import { format } from "date-fns";
 
 // Study session form schema
@@ -77,7 +78,6 @@ export default function PlannerPage() {
   const courseId = params.courseId;
   
   const [date, setDate] = useState<Date | undefined>(new Date());
-  const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [isSessionOpen, setIsSessionOpen] = useState(false);
   const [isExamOpen, setIsExamOpen] = useState(false);
   const [isTestOpen, setIsTestOpen] = useState(false);
@@ -166,6 +166,10 @@ export default function PlannerPage() {
       // Check if browser supports notifications
       if ('Notification' in window) {
         setNotificationPermission(Notification.permission);
+        // Keep this browser registered for push reminders; a no-op when already subscribed
+        if (Notification.permission === 'granted') {
+          subscribeToPush();
+        }
       }
     };
     
@@ -201,7 +205,7 @@ export default function PlannerPage() {
   // Create exam mutation
   const createExam = useMutation({
     mutationFn: async (examData: ExamValues) => {
-      return apiRequest("POST", "/api/exams", examData);
+      return apiRequest("POST", "/api/exams", { ...examData, courseId });
     },
     onSuccess: () => {
       toast({
@@ -225,7 +229,7 @@ export default function PlannerPage() {
   // Create test mutation
   const createTest = useMutation({
     mutationFn: async (testData: TestValues) => {
-      return apiRequest("POST", "/api/tests", testData);
+      return apiRequest("POST", "/api/tests", { ...testData, courseId });
     },
     onSuccess: () => {
       toast({
@@ -249,7 +253,7 @@ export default function PlannerPage() {
   // Create deadline mutation
   const createDeadline = useMutation({
     mutationFn: async (deadlineData: DeadlineValues) => {
-      return apiRequest("POST", "/api/deadlines", deadlineData);
+      return apiRequest("POST", "/api/deadlines", { ...deadlineData, courseId });
     },
     onSuccess: () => {
       toast({
@@ -270,33 +274,6 @@ export default function PlannerPage() {
     }
   });
 
-  // Upload syllabus mutation
-  const uploadSyllabus = useMutation({
-    mutationFn: async (fileType: string) => {
-      return apiRequest("POST", "/api/syllabus/upload", { fileType });
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Syllabus has been uploaded and processed",
-      });
-      setIsUploadOpen(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/study-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/study-suggestions'] });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Could not upload syllabus",
-        variant: "destructive",
-      });
-    }
-  });
-  
-  const onUpload = (fileType: string) => {
-    uploadSyllabus.mutate(fileType);
-  };
-
   const handleStudySessionSubmit = (data: StudySessionValues) => {
     createStudySession.mutate(data);
   };
@@ -332,6 +309,9 @@ export default function PlannerPage() {
               onClick={async () => {
                 const permission = await requestNotificationPermission();
                 setNotificationPermission(permission ? 'granted' : 'denied');
+                if (permission) {
+                  subscribeToPush();
+                }
               }}
               className="bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100 hover:text-amber-800"
             >
@@ -842,51 +822,7 @@ export default function PlannerPage() {
             </DialogContent>
           </Dialog>
           
-          <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline">
-                <UploadIcon className="h-4 w-4 mr-2" />
-                Upload Syllabus
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Upload Syllabus</DialogTitle>
-                <DialogDescription>
-                  Upload your course syllabus to automatically generate a study plan.
-                </DialogDescription>
-              </DialogHeader>
-              
-              <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Select File Type</label>
-                  <div className="grid grid-cols-3 gap-2">
-                    <Button 
-                      variant="outline" 
-                      className="justify-start font-normal"
-                      onClick={() => onUpload('pdf')}
-                    >
-                      PDF
-                    </Button>
-                    <Button 
-                      variant="outline" 
-                      className="justify-start font-normal"
-                      onClick={() => onUpload('docx')}
-                    >
-                      Word
-                    </Button>
-                    <Button 
-                      variant="outline" 
-                      className="justify-start font-normal"
-                      onClick={() => onUpload('pptx')}
-                    >
-                      PowerPoint
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <SyllabusUploadDialog courseId={courseId} courses={courses} />
         </div>
       </div>
       
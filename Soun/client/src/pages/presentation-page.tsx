@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useRoute } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,11 +7,33 @@ import { PresentationOutliner } from "@/components/presentation/presentation-out
 import { PracticeRecorder } from "@/components/presentation/practice-recorder";
 import { QuestionPreparation } from "@/components/presentation/question-preparation";
 import { TextRevisionTool } from "@/components/presentation/text-revision-tool";
-import { BookOpen, Mic, Presentation, FileText, HelpCircle } from "lucide-react";
+import { usePresentation } from "@/context/presentation-context";
+import { Mic, Presentation, FileText, HelpCircle, Loader2, RotateCcw } from "lucide-react";
 import { PageLayout } from "@/components/layout/page-layout";
 
+const SAVE_STATUS_LABELS = {
+  idle: "Not saved yet",
+  saving: "Saving...",
+  saved: "All changes saved",
+  error: "Couldn't save - changes are kept on this page"
+};
+
 export default function PresentationPage() {
   const [activeTab, setActiveTab] = useState("outline");
+  const [, params] = useRoute("/courses/:courseId/presentation");
+  const courseId = params?.courseId ?? null;
+  const { openWorkspace, isLoading, saveStatus, clearAll } = usePresentation();
+
+  // Each course has its own presentation; the page outside a course has one too
+  useEffect(() => {
+    openWorkspace(courseId);
+  }, [courseId, openWorkspace]);
+
+  const handleStartOver = () => {
+    if (window.confirm("Delete this presentation's outline, questions and practice history?")) {
+      clearAll();
+    }
+  };
 
   return (
     <PageLayout>
@@ -22,84 +45,100 @@ export default function PresentationPage() {
               Create, practice, and perfect your academic presentations
             </p>
           </div>
+          <div className="flex items-center gap-3 mt-4 md:mt-0">
+            <span className="text-sm text-muted-foreground" data-testid="text-save-status">
+              {SAVE_STATUS_LABELS[saveStatus]}
+            </span>
+            <Button variant="outline" size="sm" onClick={handleStartOver} disabled={isLoading}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Start Over
+            </Button>
+          </div>
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            <TabsTrigger value="outline" className="flex items-center gap-2">
-              <Presentation className="h-4 w-4" />
-              <span className="hidden md:inline">Presentation</span> Outline
-            </TabsTrigger>
-            <TabsTrigger value="practice" className="flex items-center gap-2">
-              <Mic className="h-4 w-4" />
-              <span className="hidden md:inline">Speech</span> Practice
-            </TabsTrigger>
-            <TabsTrigger value="questions" className="flex items-center gap-2">
-              <HelpCircle className="h-4 w-4" />
-              <span className="hidden md:inline">Prepare</span> Questions
-            </TabsTrigger>
-            <TabsTrigger value="revision" className="flex items-center gap-2">
-              <FileText className="h-4 w-4" />
-              <span className="hidden md:inline">Text</span> Revision
-            </TabsTrigger>
-          </TabsList>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading your presentation...
+          </div>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+            <TabsList className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <TabsTrigger value="outline" className="flex items-center gap-2">
+                <Presentation className="h-4 w-4" />
+                <span className="hidden md:inline">Presentation</span> Outline
+              </TabsTrigger>
+              <TabsTrigger value="practice" className="flex items-center gap-2">
+                <Mic className="h-4 w-4" />
+                <span className="hidden md:inline">Speech</span> Practice
+              </TabsTrigger>
+              <TabsTrigger value="questions" className="flex items-center gap-2">
+                <HelpCircle className="h-4 w-4" />
+                <span className="hidden md:inline">Prepare</span> Questions
+              </TabsTrigger>
+              <TabsTrigger value="revision" className="flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                <span className="hidden md:inline">Text</span> Revision
+              </TabsTrigger>
+            </TabsList>
 
-          <TabsContent value="outline" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Presentation Outline</CardTitle>
-                <CardDescription>
-                  Create and structure your presentation outline. Organize your ideas into a clear and effective flow.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <PresentationOutliner />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            <TabsContent value="outline" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Presentation Outline</CardTitle>
+                  <CardDescription>
+                    Create and structure your presentation outline. Organize your ideas into a clear and effective flow.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PresentationOutliner />
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-          <TabsContent value="practice" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Practice & Feedback</CardTitle>
-                <CardDescription>
-                  Record your presentation, receive feedback on your delivery, and track your progress.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <PracticeRecorder />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            <TabsContent value="practice" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Practice & Feedback</CardTitle>
+                  <CardDescription>
+                    Record your presentation, receive feedback on your delivery, and track your progress.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PracticeRecorder />
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-          <TabsContent value="questions" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Question Preparation</CardTitle>
-                <CardDescription>
-                  Generate potential questions from your audience and prepare strong answers.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <QuestionPreparation />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            <TabsContent value="questions" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Question Preparation</CardTitle>
+                  <CardDescription>
+                    Generate potential questions from your audience and prepare strong answers.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <QuestionPreparation />
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-          <TabsContent value="revision" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Text Revision Assistant</CardTitle>
-                <CardDescription>
-                  Improve your presentation text with suggestions for clarity, grammar, and academic language.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <TextRevisionTool />
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+            <TabsContent value="revision" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Text Revision Assistant</CardTitle>
+                  <CardDescription>
+                    Improve your presentation text with suggestions for clarity, grammar, and academic language.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TextRevisionTool />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
     </PageLayout>
   );
@@ -12,6 +12,12 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Check, Volume2, Mic, Bell, Moon, Sun, Monitor } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { subscribeToPush, unsubscribeFromPush } from "@/lib/notifications";
+import type { NotificationPreferences } from "@shared/schema";
+
+type NotificationCategory = 'assignmentReminders' | 'studyReminders' | 'achievements' | 'progressReports';
 
 export default function SettingsPage() {
   const { toast } = useToast();
@@ -31,9 +37,36 @@ export default function SettingsPage() {
 
   // UI settings
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('system');
-  const [notifications, setNotifications] = useState(true);
   const [autoPlay, setAutoPlay] = useState(true);
 
+  // Notification toggles are stored on the server, which checks them before sending a push
+  const { data: notificationPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/notification-preferences'],
+    queryFn: async () => {
+      const response = await fetch('/api/notification-preferences', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch notification preferences');
+      return response.json();
+    },
+  });
+  const notifications = notificationPreferences?.enabled ?? true;
+
+  const updatePreferences = useMutation({
+    mutationFn: async (updates: Partial<NotificationPreferences>) => {
+      const res = await apiRequest("PUT", "/api/notification-preferences", updates);
+      return res.json();
+    },
+    onSuccess: (saved: NotificationPreferences) => {
+      queryClient.setQueryData(['/api/notification-preferences'], saved);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not save notification settings",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Filter voices by language
   useEffect(() => {
     if (voices.length > 0) {
@@ -100,12 +133,29 @@ export default function SettingsPage() {
   };
 
   // Handle notification toggle
-  const toggleNotifications = () => {
-    setNotifications(!notifications);
-    toast({
-      title: `Notifications ${!notifications ? 'Enabled' : 'Disabled'}`,
-      description: `You will ${!notifications ? 'now' : 'no longer'} receive notifications`,
-    });
+  const toggleNotifications = async () => {
+    const enabled = !notifications;
+    updatePreferences.mutate({ enabled });
+
+    if (enabled) {
+      const subscribed = await subscribeToPush();
+      toast({
+        title: "Notifications Enabled",
+        description: subscribed
+          ? "You will now receive notifications, even when Soun is closed"
+          : "You will now receive notifications while Soun is open",
+      });
+    } else {
+      await unsubscribeFromPush();
+      toast({
+        title: "Notifications Disabled",
+        description: "You will no longer receive notifications",
+      });
+    }
+  };
+
+  const toggleCategory = (category: NotificationCategory, checked: boolean) => {
+    updatePreferences.mutate({ [category]: checked });
   };
 
   // Handle auto-play voice toggle
@@ -392,22 +442,38 @@ export default function SettingsPage() {
                 <h3 className="text-sm font-medium mb-3">Notification Categories</h3>
                 <div className="space-y-4">
                   <div className="flex items-center space-x-2">
-                    <Switch id="notify-assignments" defaultChecked />
+                    <Switch
+                      id="notify-assignments"
+                      checked={notificationPreferences?.assignmentReminders ?? true}
+                      onCheckedChange={(checked) => toggleCategory('assignmentReminders', checked)}
+                    />
                     <Label htmlFor="notify-assignments" className="flex-1">Assignment Reminders</Label>
                   </div>
 
                   <div className="flex items-center space-x-2">
-                    <Switch id="notify-study" defaultChecked />
+                    <Switch
+                      id="notify-study"
+                      checked={notificationPreferences?.studyReminders ?? true}
+                      onCheckedChange={(checked) => toggleCategory('studyReminders', checked)}
+                    />
                     <Label htmlFor="notify-study" className="flex-1">Study Session Reminders</Label>
                   </div>
 
                   <div className="flex items-center space-x-2">
-                    <Switch id="notify-achievements" defaultChecked />
+                    <Switch
+                      id="notify-achievements"
+                      checked={notificationPreferences?.achievements ?? true}
+                      onCheckedChange={(checked) => toggleCategory('achievements', checked)}
+                    />
                     <Label htmlFor="notify-achievements" className="flex-1">Achievement Unlocks</Label>
                   </div>
 
                   <div className="flex items-center space-x-2">
-                    <Switch id="notify-progress" defaultChecked />
+                    <Switch
+                      id="notify-progress"
+                      checked={notificationPreferences?.progressReports ?? true}
+                      onCheckedChange={(checked) => toggleCategory('progressReports', checked)}
+                    />
                     <Label htmlFor="notify-progress" className="flex-1">Weekly Progress Reports</Label>
                   </div>
                 </div>
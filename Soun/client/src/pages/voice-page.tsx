@@ -81,72 +81,23 @@ export default function VoicePage() {
     refetchOnWindowFocus: false
   });
 
-  // Auto-detect course context from command (similar to global assistant)
-  const detectCourseFromCommand = (command: string): string | null => {
-    const lowerCommand = command.toLowerCase();
-
-    const coursePatterns = [
-      /(?:course|class|subject)\s+([a-zA-Z0-9\-_]+)/i,
-      /([a-zA-Z0-9\-_]+)\s+(?:course|class)/i,
-    ];
-
-    for (const pattern of coursePatterns) {
-      const match = command.match(pattern);
-      if (match && match[1]) {
-        const potential = match[1].trim();
-        if (/\d/.test(potential) || potential.length <= 8) {
-          return potential;
-        }
-      }
-    }
-
-    const subjectToCourseMap: Record<string, string> = {
-      'entrepreneurship': '011274',
-      'business': '011274',
-      'technological entrepreneurship': '011274',
-      'tech entrepreneurship': '011274',
-    };
-
-    for (const [subject, courseId] of Object.entries(subjectToCourseMap)) {
-      if (lowerCommand.includes(subject)) {
-        return courseId;
-      }
-    }
-
-    return null;
-  };
-
   // Process voice command mutation with context switching
   const processCommandMutation = useMutation({
     mutationFn: async (text: string) => {
       const currentPath = window.location.pathname;
       const pageBasedCourseId = currentPath.match(/\/courses\/([^\/]+)/)?.[1] || null;
-      const commandDetectedCourseId = detectCourseFromCommand(text);
-      const finalCourseId = commandDetectedCourseId || pageBasedCourseId;
-
-      if (commandDetectedCourseId && commandDetectedCourseId !== pageBasedCourseId) {
-        toast({
-          title: "Context Switched",
-          description: `Switched to ${commandDetectedCourseId} course context`,
-        });
-      }
 
       const response = await fetch("/api/voice/process", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           command: text,
-          courseId: finalCourseId,
-          contextSwitch: commandDetectedCourseId ? {
-            detectedCourse: commandDetectedCourseId,
-            switchedFrom: pageBasedCourseId,
-            confidence: 0.8
-          } : null,
+          // The server switches to another of the user's courses when the command is about it
+          courseId: pageBasedCourseId,
           context: {
             path: currentPath,
             page: currentPath.split('/')[1] || 'voice',
-            timestamp: new Date().toISOString(),
-            autoDetectedCourse: !!commandDetectedCourseId
+            timestamp: new Date().toISOString()
           }
         }),
       });
@@ -158,6 +109,13 @@ export default function VoicePage() {
       return await response.json();
     },
     onSuccess: (data) => {
+      if (data.contextSwitch) {
+        toast({
+          title: "Context Switched",
+          description: `Switched to ${data.contextSwitch.courseName} (${Math.round(data.contextSwitch.confidence * 100)}% match)`,
+        });
+      }
+
       const assistantMessage: ChatMessage = {
         id: `assistant-${Date.now()}`,
         sender: 'assistant',
@@ -0,0 +1,63 @@
+import type { NextFunction, Request, Response } from 'express';
+import { accessGrantService, type Permission } from './services/access-grant-service';
+
+// Session type augmentation
+declare module 'express-session' {
+  interface SessionData {
+    userId?: number;
+  }
+}
+
+/**
+ * Where a route finds the user whose data it acts on
+ */
+export type TargetUserSource = (req: Request) => unknown;
+
+export const userIdFromParam = (name: string = 'userId'): TargetUserSource => req => req.params[name];
+export const userIdFromBody = (name: string = 'userId'): TargetUserSource => req => req.body?.[name];
+export const userIdFromQuery = (name: string = 'userId'): TargetUserSource => req => req.query[name];
+
+// Authentication middleware
+export function requireAuth(req: any, res: any, next: any) {
+  if (!req.session?.userId) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  next();
+}
+
+/**
+ * Ownership policy for routes that take a userId from the URL, query or body. The session user must be
+ * that user, or hold a tutor/teacher grant from them that covers the permission. A missing userId
+ * means the session user's own data. Handlers read the checked id from res.locals.targetUserId.
+ */
+export function requireUserAccess(source: TargetUserSource, permission: Permission = 'read') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const sessionUserId = req.session?.userId;
+    if (!sessionUserId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const requested = source(req);
+    const targetUserId = requested === undefined || requested === null || requested === ''
+      ? sessionUserId
+      : Number(requested);
+
+    if (!Number.isInteger(targetUserId) || targetUserId <= 0) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    if (targetUserId !== sessionUserId) {
+      try {
+        if (!await accessGrantService.can(sessionUserId, targetUserId, permission)) {
+          return res.status(403).json({ error: "You don't have access to this user's data" });
+        }
+      } catch (error) {
+        console.error("Access check error:", error);
+        return res.status(500).json({ error: 'Failed to check access' });
+      }
+    }
+
+    res.locals.targetUserId = targetUserId;
+    next();
+  };
+}
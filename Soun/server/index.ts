@@ -3,7 +3,8 @@ import { createServer } from "http";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
-import registerRoutes from "./routes-clean";
+import registerRoutes from "./routes";
+import { notificationService } from "./services/notification-service";
 import { setupVite, serveStatic, log } from "./vite";
 
 const PostgresSessionStore = connectPg(session);
@@ -88,5 +89,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Reminders are generated here rather than in the browser so they still arrive when no tab is open
+    notificationService.start();
   });
 })();
@@ -0,0 +1,317 @@
+import { Router } from 'express';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { courses, documents, studyLevel, insertExamScoreSchema, examScoreCategories } from '../../shared/schema';
+import { storage } from '../storage';
+import { gradeAnalyticsService } from '../services/grade-analytics-service';
+import { z } from 'zod';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+// Dashboard and progress routes
+router.get("/api/user/stats", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const stats = await storage.getUserStats(res.locals.targetUserId);
+    res.json(stats);
+  } catch (error) {
+    console.error("User stats error:", error);
+    res.status(500).json({ error: "Failed to get user stats" });
+  }
+});
+
+router.get("/api/progress/weekly", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const progress = await storage.getWeeklyProgress(res.locals.targetUserId);
+    res.json(progress);
+  } catch (error) {
+    console.error("Weekly progress error:", error);
+    res.status(500).json({ error: "Failed to get weekly progress" });
+  }
+});
+
+router.get("/api/progress/subjects", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const distribution = await storage.getSubjectDistribution(res.locals.targetUserId);
+    res.json(distribution);
+  } catch (error) {
+    console.error("Subject distribution error:", error);
+    res.status(500).json({ error: "Failed to get subject distribution" });
+  }
+});
+
+router.get("/api/progress/summary", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const summary = await storage.getProgressSummary(res.locals.targetUserId);
+    res.json(summary);
+  } catch (error) {
+    console.error("Progress summary error:", error);
+    res.status(500).json({ error: "Failed to get progress summary" });
+  }
+});
+
+router.get("/api/achievements", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const achievements = await storage.getAchievements(res.locals.targetUserId);
+    res.json(achievements);
+  } catch (error) {
+    console.error("Achievements error:", error);
+    res.status(500).json({ error: "Failed to get achievements" });
+  }
+});
+
+// Recent courses and documents for the dashboard
+router.get("/api/user/recent-activity", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+
+    const userCourses = await db
+      .select({
+        id: courses.id,
+        courseId: courses.courseId,
+        name: courses.name,
+        instructor: courses.instructor,
+        semester: courses.semester,
+        year: courses.year,
+        documentCount: sql<number>`cast(count(${documents.id}) as int)`
+      })
+      .from(courses)
+      .leftJoin(documents, and(eq(documents.courseId, courses.courseId), eq(documents.userId, userId)))
+      .where(eq(courses.userId, userId))
+      .groupBy(courses.id, courses.courseId, courses.name, courses.instructor, courses.semester, courses.year)
+      .orderBy(desc(courses.year), desc(courses.semester))
+      .limit(10);
+
+    const recentDocs = await db
+      .select({
+        id: documents.id,
+        title: documents.title,
+        courseId: documents.courseId,
+        courseName: courses.name,
+        uploadDate: documents.uploadDate
+      })
+      .from(documents)
+      .innerJoin(courses, and(eq(documents.courseId, courses.courseId), eq(courses.userId, userId)))
+      .where(eq(documents.userId, userId))
+      .orderBy(desc(documents.uploadDate))
+      .limit(10);
+
+    const [mastery] = await db
+      .select({ avgMastery: sql<number>`avg(${studyLevel.masteryLevel})` })
+      .from(studyLevel)
+      .where(eq(studyLevel.userId, userId));
+
+    res.json({
+      courses: userCourses,
+      documents: recentDocs,
+      progress: {
+        totalCourses: userCourses.length,
+        totalDocuments: userCourses.reduce((sum, course) => sum + course.documentCount, 0),
+        averageMastery: Math.round(Number(mastery?.avgMastery) || 0)
+      }
+    });
+  } catch (error) {
+    console.error("Recent activity fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch recent activity" });
+  }
+});
+
+// Topic mastery grouped by course
+router.get("/api/user/mastery", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+
+    const levels = await db
+      .select({
+        courseId: courses.courseId,
+        courseName: courses.name,
+        topic: studyLevel.topic,
+        masteryLevel: studyLevel.masteryLevel,
+        lastUpdated: studyLevel.lastUpdated,
+        questionsAttempted: studyLevel.questionsAttempted,
+        questionsCorrect: studyLevel.questionsCorrect
+      })
+      .from(studyLevel)
+      .innerJoin(courses, and(eq(studyLevel.courseId, courses.courseId), eq(courses.userId, userId)))
+      .where(eq(studyLevel.userId, userId))
+      .orderBy(desc(studyLevel.lastUpdated));
+
+    const byCourse: Record<string, typeof levels> = {};
+    levels.forEach(level => {
+      (byCourse[level.courseId] = byCourse[level.courseId] || []).push(level);
+    });
+
+    const coursesData = Object.keys(byCourse).map(courseId => {
+      const courseLevels = byCourse[courseId];
+      const attempted = courseLevels.reduce((sum, level) => sum + level.questionsAttempted, 0);
+      const correct = courseLevels.reduce((sum, level) => sum + level.questionsCorrect, 0);
+      return {
+        courseId,
+        courseName: courseLevels[0].courseName,
+        averageMastery: Math.round(courseLevels.reduce((sum, level) => sum + level.masteryLevel, 0) / courseLevels.length),
+        topicsStudied: courseLevels.length,
+        accuracy: attempted > 0 ? Math.round((correct / attempted) * 100) : 0,
+        totalQuestionAttempts: attempted,
+        masteryLevels: courseLevels.map(level => ({
+          topic: level.topic,
+          masteryLevel: level.masteryLevel,
+          lastUpdated: level.lastUpdated
+        }))
+      };
+    });
+
+    const mostStudiedCourse = coursesData.reduce<typeof coursesData[number] | null>(
+      (best, course) => !best || course.topicsStudied > best.topicsStudied ? course : best,
+      null
+    );
+
+    res.json({
+      overallMastery: levels.length > 0
+        ? Math.round(levels.reduce((sum, level) => sum + level.masteryLevel, 0) / levels.length)
+        : 0,
+      topicsStudied: levels.length,
+      courses: coursesData,
+      mostStudiedCourse
+    });
+  } catch (error) {
+    console.error("Mastery data fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch mastery data" });
+  }
+});
+
+// Mastery totals with projected potential and improvement factors
+router.get("/api/user/mastery-stats", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const stats = await storage.getStudyLevelSummary(res.locals.targetUserId);
+    res.json(stats);
+  } catch (error) {
+    console.error("Mastery stats fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch mastery statistics" });
+  }
+});
+
+// Exam score routes
+const examScoreBodySchema = insertExamScoreSchema.omit({ userId: true }).extend({
+  score: z.coerce.string(),
+  maxScore: z.coerce.string(),
+});
+
+// Percent of the course grade per category; together they make up the whole grade
+const gradeWeightsSchema = z.object({
+  weights: z.record(z.enum(examScoreCategories), z.number().min(0).max(100))
+    .refine(weights => Math.abs(Object.values(weights).reduce((sum, weight) => sum + (weight || 0), 0) - 100) < 0.5, {
+      message: "Weights must add up to 100",
+    }),
+});
+
+const requiredScoreQuerySchema = z.object({
+  courseId: z.string().min(1),
+  targetGrade: z.coerce.number().min(0).max(100),
+  category: z.enum(examScoreCategories).default("final"),
+  maxScore: z.coerce.number().positive().optional(),
+});
+
+router.get("/api/exam-scores", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+    const scores = courseId
+      ? await storage.getExamScoresByCourse(userId, courseId)
+      : await storage.getExamScores(userId);
+    res.json(scores);
+  } catch (error) {
+    console.error("Exam scores fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch exam scores" });
+  }
+});
+
+router.get("/api/exam-scores/analytics", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const analytics = await storage.getExamScoreAnalytics(res.locals.targetUserId);
+    res.json(analytics);
+  } catch (error) {
+    console.error("Exam analytics fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch exam analytics" });
+  }
+});
+
+// What the next score in a category must be for the course grade to reach a target
+router.get("/api/exam-scores/required", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const result = requiredScoreQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { courseId, targetGrade, category, maxScore } = result.data;
+    const analytics = await storage.getExamScoreAnalytics(res.locals.targetUserId);
+    const course = analytics.coursePerformance.find(performance => performance.courseId === courseId);
+    if (!course) {
+      return res.status(404).json({ error: "No exam scores recorded for this course" });
+    }
+
+    const required = gradeAnalyticsService.requiredScore(course, category, targetGrade, maxScore);
+    if (!required) {
+      return res.status(400).json({ error: `"${category}" has no weight in this course's grading` });
+    }
+    res.json(required);
+  } catch (error) {
+    console.error("Required score error:", error);
+    res.status(500).json({ error: "Failed to calculate required score" });
+  }
+});
+
+router.get("/api/exam-scores/weights/:courseId", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const weights = await gradeAnalyticsService.getWeights(res.locals.targetUserId);
+    res.json({ courseId: req.params.courseId, weights: weights.get(req.params.courseId) || null });
+  } catch (error) {
+    console.error("Grade weights fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch grade weights" });
+  }
+});
+
+router.put("/api/exam-scores/weights/:courseId", requireAuth, async (req, res) => {
+  try {
+    const result = gradeWeightsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const weights = await gradeAnalyticsService.setWeights(req.session.userId!, req.params.courseId, result.data.weights);
+    res.json({ courseId: req.params.courseId, weights });
+  } catch (error) {
+    console.error("Grade weights save error:", error);
+    res.status(500).json({ error: "Failed to save grade weights" });
+  }
+});
+
+router.delete("/api/exam-scores/weights/:courseId", requireAuth, async (req, res) => {
+  try {
+    const cleared = await gradeAnalyticsService.clearWeights(req.session.userId!, req.params.courseId);
+    if (!cleared) {
+      return res.status(404).json({ error: "No grade weights set for this course" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Grade weights delete error:", error);
+    res.status(500).json({ error: "Failed to clear grade weights" });
+  }
+});
+
+router.post("/api/exam-scores", requireAuth, async (req, res) => {
+  try {
+    const result = examScoreBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const examScore = await storage.createExamScore({ ...result.data, userId: req.session.userId! });
+    res.status(201).json(examScore);
+  } catch (error) {
+    console.error("Add exam score error:", error);
+    res.status(500).json({ error: "Failed to add exam score" });
+  }
+});
+
+export default router;
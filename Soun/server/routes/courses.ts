@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { courses, insertCourseSchema } from '../../shared/schema';
+import { storage } from '../storage';
+import { courseDetectionService } from '../services/course-detection-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+// Course routes
+router.get("/api/courses", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const userCourses = await db
+      .select()
+      .from(courses)
+      .where(eq(courses.userId, userId))
+      .orderBy(desc(courses.id));
+
+    res.json(userCourses);
+  } catch (error) {
+    console.error("Get courses error:", error);
+    res.status(500).json({ error: "Failed to get courses" });
+  }
+});
+
+router.post("/api/courses", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = insertCourseSchema.safeParse({
+      ...req.body,
+      userId
+    });
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const newCourses = await db
+      .insert(courses)
+      .values(result.data)
+      .returning();
+    courseDetectionService.invalidate(userId);
+
+    res.json(newCourses[0]);
+  } catch (error) {
+    console.error("Create course error:", error);
+    res.status(500).json({ error: "Failed to create course" });
+  }
+});
+
+router.get("/api/courses/:courseId", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const { courseId } = req.params;
+
+    const course = await db
+      .select()
+      .from(courses)
+      .where(and(
+        eq(courses.userId, userId),
+        eq(courses.courseId, courseId)
+      ))
+      .limit(1);
+
+    if (course.length === 0) {
+      return res.status(404).json({ error: "Course not found" });
+    }
+
+    res.json(course[0]);
+  } catch (error) {
+    console.error("Get course error:", error);
+    res.status(500).json({ error: "Failed to get course" });
+  }
+});
+
+// Current semester, upcoming courses and prerequisite links for the curriculum view
+router.get("/api/curriculum-overview", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const overview = await storage.getCurriculumOverview(res.locals.targetUserId);
+    res.json(overview);
+  } catch (error) {
+    console.error("Curriculum overview fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch curriculum overview" });
+  }
+});
+
+export default router;
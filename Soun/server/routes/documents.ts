@@ -0,0 +1,515 @@
+import { Router } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { documents, courses, users } from '../../shared/schema';
+import { z } from 'zod';
+import fs from 'fs/promises';
+import { documentAnalysisService } from '../services/document-analysis-service';
+import { documentIndexService } from '../services/document-index-service';
+import { crossFileSearchService } from '../services/cross-file-search-service';
+import { courseDetectionService } from '../services/course-detection-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+import { studyGuideService } from '../services/study-guide-service';
+import { upload, saveCourseDocument } from './uploads';
+
+const router = Router();
+
+const documentUploadSchema = z.object({
+  courseId: z.string().min(1),
+  title: z.string().optional(),
+});
+
+const explainRequestSchema = z.object({
+  topic: z.string().trim().min(1),
+  studentLevel: z.enum(['beginner', 'intermediate', 'advanced']).default('intermediate'),
+});
+
+const examplesRequestSchema = z.object({
+  topic: z.string().trim().min(1),
+  explanation: z.string().min(1),
+  exampleCount: z.coerce.number().int().min(1).max(10).default(3),
+});
+
+const studyGuideRequestSchema = z.object({
+  documentIds: z.array(z.coerce.number().int().positive()).min(1),
+  courseId: z.string().optional(),
+  title: z.string().optional(),
+});
+
+const summaryRequestSchema = z.object({
+  length: z.enum(['short', 'medium', 'long']).default('medium'),
+});
+
+const voiceAnnotationRequestSchema = z.object({
+  voiceNote: z.string().trim().min(1),
+  position: z.any().optional(),
+  type: z.enum(['note', 'question', 'summary', 'highlight']).default('note'),
+});
+
+// The document when it exists and belongs to the user
+async function getOwnedDocument(userId: number, documentId: number) {
+  if (isNaN(documentId)) return undefined;
+  const [document] = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
+  return document;
+}
+
+// Document routes
+router.get("/api/documents", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const userDocuments = await db
+      .select()
+      .from(documents)
+      .where(eq(documents.userId, userId))
+      .orderBy(desc(documents.uploadDate));
+
+    res.json(userDocuments);
+  } catch (error) {
+    console.error("Get documents error:", error);
+    res.status(500).json({ error: "Failed to get documents" });
+  }
+});
+
+router.get("/api/courses/:courseId/documents", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const { courseId } = req.params;
+
+    const courseDocuments = await db
+      .select()
+      .from(documents)
+      .where(and(
+        eq(documents.userId, userId),
+        eq(documents.courseId, courseId)
+      ))
+      .orderBy(desc(documents.uploadDate));
+
+    res.json(courseDocuments);
+  } catch (error) {
+    console.error("Get course documents error:", error);
+    res.status(500).json({ error: "Failed to get course documents" });
+  }
+});
+
+router.post("/api/courses/:courseId/documents", requireAuth, upload.single('file'), async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const userId = req.session.userId!;
+    const { title, tags } = req.body;
+
+    console.log('Upload request:', { 
+      courseId, 
+      userId, 
+      hasFile: !!req.file,
+      filename: req.file?.originalname,
+      mimetype: req.file?.mimetype
+    });
+
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    // Verify course exists and belongs to user
+    const [course] = await db
+      .select()
+      .from(courses)
+      .where(and(
+        eq(courses.courseId, courseId),
+        eq(courses.userId, userId)
+      ));
+
+    if (!course) {
+      console.error('Course not found:', { courseId, userId });
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    console.log('Course found:', course.name);
+
+    // Parse and validate tags
+    let parsedTags: string[] = [];
+    try {
+      parsedTags = tags ? JSON.parse(tags) : [];
+      if (!Array.isArray(parsedTags)) {
+        parsedTags = [];
+      }
+    } catch (error) {
+      console.warn('Invalid tags format, using empty array');
+    }
+
+    const saved = await saveCourseDocument(userId, course, req.file, title, parsedTags);
+    if (!saved.document) {
+      return res.status(415).json({ error: saved.error });
+    }
+    const newDocument = saved.document;
+
+    res.json(newDocument);
+  } catch (error) {
+    console.error("Upload document error:", error);
+
+    // Clean up uploaded file on error to prevent orphaned files
+    if (req.file?.path) {
+      try {
+        await fs.unlink(req.file.path);
+      } catch (unlinkError) {
+        console.error("Failed to clean up uploaded file:", unlinkError);
+      }
+    }
+
+    res.status(500).json({ error: "Failed to upload document" });
+  }
+});
+
+// Upload to a course picked in the form rather than the URL
+router.post("/api/documents/upload", requireAuth, upload.single('file'), async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const result = documentUploadSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const [course] = await db
+      .select()
+      .from(courses)
+      .where(and(eq(courses.courseId, result.data.courseId), eq(courses.userId, userId)));
+
+    if (!course) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    const saved = await saveCourseDocument(userId, course, req.file, result.data.title, []);
+    if (!saved.document) {
+      return res.status(415).json({ error: saved.error });
+    }
+
+    res.json(saved.document);
+  } catch (error) {
+    console.error("Upload document error:", error);
+    res.status(500).json({ error: "Failed to upload document" });
+  }
+});
+
+router.get("/api/documents/:id", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const document = await getOwnedDocument(res.locals.targetUserId, parseInt(req.params.id));
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    res.json(document);
+  } catch (error) {
+    console.error("Get document error:", error);
+    res.status(500).json({ error: "Failed to get document" });
+  }
+});
+
+router.get("/api/documents/:id/analysis", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const document = await getOwnedDocument(res.locals.targetUserId, parseInt(req.params.id));
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    res.json({ analysis: document.metadata ? JSON.parse(document.metadata) : null });
+  } catch (error) {
+    console.error("Document analysis fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch document analysis" });
+  }
+});
+
+router.post("/api/documents/:id/explain", requireAuth, async (req, res) => {
+  try {
+    const result = explainRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const document = await getOwnedDocument(req.session.userId!, parseInt(req.params.id));
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const { topic, studentLevel } = result.data;
+    const explanation = await documentAnalysisService.generateTeachingExplanation(document.content || '', topic, studentLevel);
+
+    res.json({ explanation, topic, level: studentLevel });
+  } catch (error) {
+    console.error("Explanation generation error:", error);
+    res.status(500).json({ error: "Failed to generate explanation" });
+  }
+});
+
+// Examples tailored to the student's school and program
+router.post("/api/documents/:id/examples", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = examplesRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const document = await getOwnedDocument(userId, parseInt(req.params.id));
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    const userProfile = user ? {
+      name: `${user.firstName} ${user.lastName}`.trim() || user.username,
+      school: user.school,
+      program: user.program,
+      year: user.year
+    } : undefined;
+
+    const { topic, explanation, exampleCount } = result.data;
+    const examples = await documentAnalysisService.generatePersonalizedExamples(
+      topic,
+      explanation,
+      userProfile,
+      document.content || undefined,
+      exampleCount
+    );
+
+    res.json(examples);
+  } catch (error) {
+    console.error("Example generation error:", error);
+    res.status(500).json({ error: "Failed to generate examples" });
+  }
+});
+
+// Study guide routes
+router.post("/api/documents/study-guide", requireAuth, async (req, res) => {
+  try {
+    const result = studyGuideRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { documentIds, courseId, title } = result.data;
+    const studyGuide = await studyGuideService.generateStudyGuide(req.session.userId!, documentIds, courseId, title);
+
+    res.json({ message: "Study guide generated successfully", studyGuide });
+  } catch (error) {
+    console.error("Study guide generation error:", error);
+    res.status(500).json({ error: "Failed to generate study guide" });
+  }
+});
+
+router.post("/api/documents/:id/generate-study-guide", requireAuth, async (req, res) => {
+  try {
+    const documentId = parseInt(req.params.id);
+    const result = studyGuideRequestSchema.safeParse({ documentIds: [documentId], ...req.body });
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { documentIds, courseId, title } = result.data;
+    const studyGuide = await studyGuideService.generateStudyGuide(req.session.userId!, documentIds, courseId, title);
+
+    res.json({ message: "Study guide generated successfully", studyGuide });
+  } catch (error) {
+    console.error("Study guide generation error:", error);
+    res.status(500).json({ error: "Failed to generate study guide" });
+  }
+});
+
+router.post("/api/documents/:id/summary", requireAuth, async (req, res) => {
+  try {
+    const result = summaryRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const document = await getOwnedDocument(req.session.userId!, parseInt(req.params.id));
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const summary = await studyGuideService.generateDocumentSummary(document.id, result.data.length);
+    res.json({ message: "Document summary generated successfully", summary });
+  } catch (error) {
+    console.error("Document summary error:", error);
+    res.status(500).json({ error: "Failed to generate document summary" });
+  }
+});
+
+router.post("/api/documents/:id/voice-annotation", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = voiceAnnotationRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const document = await getOwnedDocument(userId, parseInt(req.params.id));
+    if (!document) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const { voiceNote, position, type } = result.data;
+    const annotation = await studyGuideService.createVoiceAnnotation(userId, document.id, voiceNote, position, type);
+
+    res.json({ message: "Voice annotation created successfully", annotation });
+  } catch (error) {
+    console.error("Voice annotation error:", error);
+    res.status(500).json({ error: "Failed to create voice annotation" });
+  }
+});
+
+// Document download endpoint
+router.get("/api/documents/:id/download", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const documentId = parseInt(req.params.id);
+
+    if (isNaN(documentId)) {
+      return res.status(400).json({ error: "Invalid document ID" });
+    }
+
+    // Get document and verify ownership
+    const document = await db
+      .select()
+      .from(documents)
+      .where(and(
+        eq(documents.id, documentId),
+        eq(documents.userId, userId)
+      ))
+      .limit(1);
+
+    if (document.length === 0) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const doc = document[0];
+
+    // Check if file exists on disk
+    if (!doc.filePath || !await fs.access(doc.filePath).then(() => true).catch(() => false)) {
+      return res.status(404).json({ error: "File not found on disk" });
+    }
+
+    // Set proper headers for file download
+    res.setHeader('Content-Type', doc.fileType);
+    res.setHeader('Content-Disposition', `attachment; filename="${doc.filename}"`);
+
+    // Stream the file
+    const fileBuffer = await fs.readFile(doc.filePath);
+    res.send(fileBuffer);
+
+  } catch (error) {
+    console.error("Download document error:", error);
+    res.status(500).json({ error: "Failed to download document" });
+  }
+});
+
+// Document delete endpoint
+router.delete("/api/documents/:id", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const documentId = parseInt(req.params.id);
+
+    if (isNaN(documentId)) {
+      return res.status(400).json({ error: "Invalid document ID" });
+    }
+
+    // Get document and verify ownership
+    const document = await db
+      .select()
+      .from(documents)
+      .where(and(
+        eq(documents.id, documentId),
+        eq(documents.userId, userId)
+      ))
+      .limit(1);
+
+    if (document.length === 0) {
+      return res.status(404).json({ error: "Document not found or you don't have permission to delete it" });
+    }
+
+    const doc = document[0];
+
+    // Delete physical file from disk
+    if (doc.filePath) {
+      try {
+        await fs.unlink(doc.filePath);
+        console.log(`Deleted file from disk: ${doc.filePath}`);
+      } catch (unlinkError: any) {
+        // Log the error but continue with database deletion
+        // File might already be deleted or path might be invalid
+        console.error("Failed to delete file from disk:", unlinkError.message);
+      }
+    }
+
+    await documentIndexService.removeDocument(documentId);
+
+    // Delete document record from database
+    await db
+      .delete(documents)
+      .where(eq(documents.id, documentId));
+    courseDetectionService.invalidate(userId);
+
+    console.log(`Deleted document ${documentId} (${doc.title}) for user ${userId}`);
+
+    res.json({ 
+      success: true, 
+      message: "Document deleted successfully",
+      deletedDocument: {
+        id: doc.id,
+        title: doc.title,
+        filename: doc.filename
+      }
+    });
+
+  } catch (error) {
+    console.error("Delete document error:", error);
+    res.status(500).json({ error: "Failed to delete document" });
+  }
+});
+
+// Cross-file search routes
+router.post("/api/search/documents", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const { query, courseId, maxResults } = req.body;
+
+    if (!query || typeof query !== 'string' || !query.trim()) {
+      return res.status(400).json({ error: "Query is required" });
+    }
+
+    const limit = Math.min(Math.max(parseInt(maxResults) || 5, 1), 20);
+    const result = await crossFileSearchService.searchAcrossFiles(userId, query.trim(), courseId || undefined, limit);
+
+    res.json(result);
+  } catch (error) {
+    console.error("Document search error:", error);
+    res.status(500).json({ error: "Failed to search documents" });
+  }
+});
+
+router.get("/api/search/topic", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const topic = typeof req.query.topic === 'string' ? req.query.topic.trim() : '';
+    const excludeCourseId = typeof req.query.excludeCourseId === 'string' ? req.query.excludeCourseId : undefined;
+
+    if (!topic) {
+      return res.status(400).json({ error: "Topic is required" });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.maxResults as string) || 5, 1), 20);
+    const results = await crossFileSearchService.findTopicAcrossFiles(userId, topic, excludeCourseId, limit);
+
+    res.json(results);
+  } catch (error) {
+    console.error("Topic search error:", error);
+    res.status(500).json({ error: "Failed to search topic" });
+  }
+});
+
+export default router;
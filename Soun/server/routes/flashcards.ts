@@ -0,0 +1,405 @@
+import { Router } from 'express';
+import { eq, and } from 'drizzle-orm';
+import { db } from '../db';
+import { documents, courses, insertFlashcardDeckSchema, insertFlashcardSchema } from '../../shared/schema';
+import { z } from 'zod';
+import { flashcardService } from '../services/flashcard-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+// Flashcard deck routes
+const flashcardBodySchema = insertFlashcardSchema.pick({
+  front: true,
+  back: true,
+  difficulty: true,
+  category: true,
+  source: true,
+});
+
+const createDeckBodySchema = insertFlashcardDeckSchema.omit({ userId: true }).extend({
+  cards: z.array(flashcardBodySchema).optional(),
+});
+
+const updateDeckBodySchema = insertFlashcardDeckSchema.pick({
+  name: true,
+  description: true,
+  courseId: true,
+}).partial();
+
+const generateFromDocumentSchema = z.object({
+  documentId: z.coerce.number().int().positive(),
+  count: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const generateFromVoiceSchema = z.object({
+  command: z.string().trim().min(1),
+  courseId: z.string().optional(),
+});
+
+const deckFromDocumentSchema = z.object({
+  documentId: z.coerce.number().int().positive(),
+  count: z.coerce.number().int().min(1).max(50).default(10),
+  name: z.string().trim().min(1).optional(),
+});
+
+const voiceAnswerSchema = z.object({
+  sessionId: z.string().min(1),
+  answer: z.string().trim().min(1),
+});
+
+const startVoiceSessionSchema = z.object({
+  deckId: z.coerce.number().int().positive().optional(),
+  dueOnly: z.boolean().optional(),
+  command: z.string().trim().min(1).optional(),
+  sessionType: z.enum(['practice', 'review', 'challenge']).default('practice'),
+  courseId: z.string().optional(),
+});
+
+router.get("/api/flashcard-decks", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+    const decks = await flashcardService.getDecks(res.locals.targetUserId, courseId);
+    res.json(decks);
+  } catch (error) {
+    console.error("Get flashcard decks error:", error);
+    res.status(500).json({ error: "Failed to get flashcard decks" });
+  }
+});
+
+router.post("/api/flashcard-decks", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = createDeckBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { cards, ...deckData } = result.data;
+
+    const [course] = await db
+      .select()
+      .from(courses)
+      .where(and(eq(courses.courseId, deckData.courseId), eq(courses.userId, userId)));
+    if (!course) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    if (deckData.documentId) {
+      const [doc] = await db
+        .select({ id: documents.id })
+        .from(documents)
+        .where(and(eq(documents.id, deckData.documentId), eq(documents.userId, userId)));
+      if (!doc) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+    }
+
+    const deck = await flashcardService.createDeck({ ...deckData, userId }, cards || []);
+    res.status(201).json(deck);
+  } catch (error) {
+    console.error("Create flashcard deck error:", error);
+    res.status(500).json({ error: "Failed to create flashcard deck" });
+  }
+});
+
+router.post("/api/flashcard-decks/from-document", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = deckFromDocumentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+    const { documentId, count, name } = result.data;
+
+    const [doc] = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
+    if (!doc) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const deck = await flashcardService.createDeckFromDocument(userId, documentId, count, name);
+    res.status(201).json(deck);
+  } catch (error) {
+    console.error("Create deck from document error:", error);
+    res.status(500).json({ error: "Failed to create flashcard deck from document" });
+  }
+});
+
+router.get("/api/flashcard-decks/:id", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const deckId = parseInt(req.params.id);
+    if (isNaN(deckId)) {
+      return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    const deck = await flashcardService.getDeck(res.locals.targetUserId, deckId);
+    if (!deck) {
+      return res.status(404).json({ error: "Deck not found" });
+    }
+
+    res.json(deck);
+  } catch (error) {
+    console.error("Get flashcard deck error:", error);
+    res.status(500).json({ error: "Failed to get flashcard deck" });
+  }
+});
+
+router.patch("/api/flashcard-decks/:id", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const deckId = parseInt(req.params.id);
+    if (isNaN(deckId)) {
+      return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    const result = updateDeckBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    if (result.data.courseId) {
+      const [course] = await db
+        .select()
+        .from(courses)
+        .where(and(eq(courses.courseId, result.data.courseId), eq(courses.userId, userId)));
+      if (!course) {
+        return res.status(404).json({ error: "Course not found or access denied" });
+      }
+    }
+
+    const deck = await flashcardService.updateDeck(userId, deckId, result.data);
+    if (!deck) {
+      return res.status(404).json({ error: "Deck not found" });
+    }
+
+    res.json(deck);
+  } catch (error) {
+    console.error("Update flashcard deck error:", error);
+    res.status(500).json({ error: "Failed to update flashcard deck" });
+  }
+});
+
+router.delete("/api/flashcard-decks/:id", requireAuth, async (req, res) => {
+  try {
+    const deckId = parseInt(req.params.id);
+    if (isNaN(deckId)) {
+      return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    const deleted = await flashcardService.deleteDeck(req.session.userId!, deckId);
+    if (!deleted) {
+      return res.status(404).json({ error: "Deck not found" });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete flashcard deck error:", error);
+    res.status(500).json({ error: "Failed to delete flashcard deck" });
+  }
+});
+
+router.post("/api/flashcard-decks/:id/cards", requireAuth, async (req, res) => {
+  try {
+    const deckId = parseInt(req.params.id);
+    if (isNaN(deckId)) {
+      return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    const result = z.array(flashcardBodySchema).min(1).safeParse(req.body.cards);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const cards = await flashcardService.addCards(req.session.userId!, deckId, result.data);
+    if (!cards) {
+      return res.status(404).json({ error: "Deck not found" });
+    }
+
+    res.status(201).json(cards);
+  } catch (error) {
+    console.error("Add flashcards error:", error);
+    res.status(500).json({ error: "Failed to add flashcards" });
+  }
+});
+
+router.patch("/api/flashcards/:id", requireAuth, async (req, res) => {
+  try {
+    const cardId = parseInt(req.params.id);
+    if (isNaN(cardId)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const result = flashcardBodySchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const card = await flashcardService.updateCard(req.session.userId!, cardId, result.data);
+    if (!card) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    res.json(card);
+  } catch (error) {
+    console.error("Update flashcard error:", error);
+    res.status(500).json({ error: "Failed to update flashcard" });
+  }
+});
+
+router.delete("/api/flashcards/:id", requireAuth, async (req, res) => {
+  try {
+    const cardId = parseInt(req.params.id);
+    if (isNaN(cardId)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const deleted = await flashcardService.deleteCard(req.session.userId!, cardId);
+    if (!deleted) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete flashcard error:", error);
+    res.status(500).json({ error: "Failed to delete flashcard" });
+  }
+});
+
+// One-off flashcards that aren't saved to a deck
+router.post("/api/flashcards/generate-from-document", requireAuth, async (req, res) => {
+  try {
+    const result = generateFromDocumentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const flashcards = await flashcardService.generateFlashcardsFromDocument(
+      result.data.documentId,
+      req.session.userId!,
+      result.data.count
+    );
+    res.json({ flashcards });
+  } catch (error) {
+    console.error("Flashcard generation error:", error);
+    res.status(500).json({ error: "Failed to generate flashcards" });
+  }
+});
+
+router.post("/api/flashcards/generate-from-voice", requireAuth, async (req, res) => {
+  try {
+    const result = generateFromVoiceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const flashcards = await flashcardService.generateFlashcardsFromVoiceCommand(
+      req.session.userId!,
+      result.data.command,
+      result.data.courseId
+    );
+    res.json({ flashcards });
+  } catch (error) {
+    console.error("Voice flashcard generation error:", error);
+    res.status(500).json({ error: "Failed to generate flashcards from voice command" });
+  }
+});
+
+// Voice flashcard session routes
+router.post("/api/flashcards/start-voice-session", requireAuth, async (req, res) => {
+  try {
+    const parsed = startVoiceSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid input", details: parsed.error.issues });
+    }
+    const { deckId, dueOnly, command, sessionType, courseId } = parsed.data;
+    const userId = req.session.userId!;
+
+    if (dueOnly) {
+      const result = await flashcardService.startDueSession(userId, courseId);
+      if (!result) {
+        return res.status(404).json({ error: "No flashcards are due for review" });
+      }
+      return res.json(result);
+    }
+
+    // A saved deck keeps its review history; otherwise cards are generated for this session only
+    if (deckId !== undefined) {
+      const result = await flashcardService.startDeckSession(userId, deckId, sessionType);
+      if (!result) {
+        return res.status(404).json({ error: "Deck not found or has no flashcards" });
+      }
+      return res.json(result);
+    }
+
+    if (!command) {
+      return res.status(400).json({ error: "A deck ID, dueOnly or command is required" });
+    }
+
+    const generated = await flashcardService.generateFlashcardsFromVoiceCommand(userId, command, courseId);
+    if (generated.length === 0) {
+      return res.status(400).json({ error: "No flashcards could be generated" });
+    }
+
+    const result = await flashcardService.startVoiceSession(userId, generated, sessionType, courseId);
+    res.json(result);
+  } catch (error) {
+    console.error("Voice session start error:", error);
+    res.status(500).json({ error: "Failed to start voice flashcard session" });
+  }
+});
+
+router.post("/api/flashcards/process-voice-answer", requireAuth, async (req, res) => {
+  try {
+    const result = voiceAnswerSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+    const { sessionId, answer } = result.data;
+
+    const owner = flashcardService.getSessionOwner(sessionId);
+    if (owner !== null && owner !== req.session.userId) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const response = await flashcardService.processVoiceAnswer(sessionId, answer);
+    res.json(response);
+  } catch (error) {
+    console.error("Voice answer processing error:", error);
+    res.status(500).json({ error: "Failed to process voice answer" });
+  }
+});
+
+router.get("/api/flashcards/next-question/:sessionId", requireAuth, async (req, res) => {
+  try {
+    const owner = flashcardService.getSessionOwner(req.params.sessionId);
+    if (owner !== null && owner !== req.session.userId) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const response = flashcardService.getNextQuestion(req.params.sessionId);
+    res.json(response);
+  } catch (error) {
+    console.error("Next question error:", error);
+    res.status(500).json({ error: "Failed to get next question" });
+  }
+});
+
+router.get("/api/flashcards/session-stats/:sessionId", requireAuth, async (req, res) => {
+  try {
+    const owner = flashcardService.getSessionOwner(req.params.sessionId);
+    const stats = owner === req.session.userId ? flashcardService.getSessionStats(req.params.sessionId) : null;
+    if (!stats) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json(stats);
+  } catch (error) {
+    console.error("Session stats error:", error);
+    res.status(500).json({ error: "Failed to get session stats" });
+  }
+});
+
+export default router;
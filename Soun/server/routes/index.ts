@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import authRoutes from './auth';
+import courseRoutes from './courses';
+import documentRoutes from './documents';
+import voiceRoutes from './voice';
+import vocalRoutes from './vocal';
+import quizRoutes from './quiz';
+import flashcardRoutes from './flashcards';
+import reviewRoutes from './reviews';
+import plannerRoutes from './planner';
+import notificationRoutes from './notifications';
+import analyticsRoutes from './analytics';
+import learningPathRoutes from './learning-path';
+import presentationRoutes from './presentations';
+
+// One router per feature; each declares its full /api paths
+const router = Router();
+
+router.use(authRoutes);
+router.use(courseRoutes);
+router.use(documentRoutes);
+router.use(voiceRoutes);
+router.use(vocalRoutes);
+router.use(quizRoutes);
+router.use(flashcardRoutes);
+router.use(reviewRoutes);
+router.use(plannerRoutes);
+router.use(notificationRoutes);
+router.use(analyticsRoutes);
+router.use(learningPathRoutes);
+router.use(presentationRoutes);
+
+export default router;
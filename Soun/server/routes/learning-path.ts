@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireUserAccess, userIdFromBody, userIdFromParam } from '../authorization';
+
+const router = Router();
+
+// userId is read and checked by requireUserAccess
+const completeStepSchema = z.object({
+  stepId: z.string().min(1),
+  performance: z.enum(['excellent', 'good', 'struggling']),
+});
+
+// Adaptive Learning Path endpoints - UNIFIED endpoint to reduce API calls
+router.get('/api/learning-path/combined/:userId', requireUserAccess(userIdFromParam()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const { courseId } = req.query;
+
+    const { adaptiveLearningService } = await import('../services/adaptive-learning-service');
+
+    // Fetch both learning path and next step in parallel on the server side
+    const [learningPath, nextStep] = await Promise.all([
+      adaptiveLearningService.generateAdaptiveLearningPath(userId, courseId as string),
+      adaptiveLearningService.getNextRecommendedStep(userId, courseId as string)
+    ]);
+
+    res.json({
+      success: true,
+      learningPath,
+      nextStep,
+      hasRecommendation: !!nextStep
+    });
+  } catch (error) {
+    console.error('Error generating combined adaptive learning data:', error);
+    res.status(500).json({ error: 'Failed to generate adaptive learning data' });
+  }
+});
+
+// Individual endpoints for backwards compatibility (prefer using /combined endpoint)
+router.get('/api/learning-path/adaptive/:userId', requireUserAccess(userIdFromParam()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const { courseId } = req.query;
+
+    const { adaptiveLearningService } = await import('../services/adaptive-learning-service');
+    const learningPath = await adaptiveLearningService.generateAdaptiveLearningPath(
+      userId,
+      courseId as string
+    );
+
+    res.json({
+      success: true,
+      learningPath
+    });
+  } catch (error) {
+    console.error('Error generating adaptive learning path:', error);
+    res.status(500).json({ error: 'Failed to generate adaptive learning path' });
+  }
+});
+
+router.get('/api/learning-path/next-step/:userId', requireUserAccess(userIdFromParam()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const { context } = req.query;
+
+    const { adaptiveLearningService } = await import('../services/adaptive-learning-service');
+    const nextStep = await adaptiveLearningService.getNextRecommendedStep(
+      userId,
+      context as string
+    );
+
+    res.json({
+      success: true,
+      nextStep,
+      hasRecommendation: !!nextStep
+    });
+  } catch (error) {
+    console.error('Error getting next learning step:', error);
+    res.status(500).json({ error: 'Failed to get next learning step' });
+  }
+});
+
+router.post('/api/learning-path/complete-step', requireUserAccess(userIdFromBody(), 'write'), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const result = completeStepSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid input', details: result.error.issues });
+    }
+    const { stepId, performance } = result.data;
+
+    const { adaptiveLearningService } = await import('../services/adaptive-learning-service');
+    const updatedPath = await adaptiveLearningService.updateAdaptivePath(
+      userId,
+      stepId,
+      performance
+    );
+
+    res.json({
+      success: true,
+      updatedPath
+    });
+  } catch (error) {
+    console.error('Error updating adaptive learning path:', error);
+    res.status(500).json({ error: 'Failed to update learning path' });
+  }
+});
+
+export default router;
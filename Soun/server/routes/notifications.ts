@@ -0,0 +1,123 @@
+import { Router } from 'express';
+import { insertNotificationPreferencesSchema } from '../../shared/schema';
+import { z } from 'zod';
+import { notificationService } from '../services/notification-service';
+import { pushService } from '../services/push-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+// Notification routes - notifications themselves are generated by the scheduler in notification-service
+router.get("/api/notifications", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 50, 200) : undefined;
+    const items = await notificationService.getNotifications(res.locals.targetUserId, {
+      unreadOnly: req.query.unread === 'true',
+      limit
+    });
+    res.json(items);
+  } catch (error) {
+    console.error("Get notifications error:", error);
+    res.status(500).json({ error: "Failed to get notifications" });
+  }
+});
+
+router.post("/api/notifications/mark-all-read", requireAuth, async (req, res) => {
+  try {
+    const updated = await notificationService.markAllRead(req.session.userId!);
+    res.json({ success: true, updated });
+  } catch (error) {
+    console.error("Mark all notifications read error:", error);
+    res.status(500).json({ error: "Failed to mark notifications as read" });
+  }
+});
+
+router.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+  try {
+    const notification = await notificationService.markRead(req.session.userId!, parseInt(req.params.id));
+    if (!notification) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+    res.json(notification);
+  } catch (error) {
+    console.error("Mark notification read error:", error);
+    res.status(500).json({ error: "Failed to mark notification as read" });
+  }
+});
+
+// Web Push routes
+const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+router.get("/api/push/public-key", requireAuth, async (req, res) => {
+  const publicKey = pushService.getPublicKey();
+  if (!publicKey) {
+    return res.status(503).json({ error: "Push notifications are not configured" });
+  }
+  res.json({ publicKey });
+});
+
+router.post("/api/push/subscriptions", requireAuth, async (req, res) => {
+  try {
+    const result = pushSubscriptionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const subscription = await pushService.subscribe(req.session.userId!, result.data, req.get('user-agent'));
+    res.status(201).json({ id: subscription.id });
+  } catch (error) {
+    console.error("Save push subscription error:", error);
+    res.status(500).json({ error: "Failed to save push subscription" });
+  }
+});
+
+router.delete("/api/push/subscriptions", requireAuth, async (req, res) => {
+  try {
+    const result = pushSubscriptionSchema.pick({ endpoint: true }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const deleted = await pushService.unsubscribe(req.session.userId!, result.data.endpoint);
+    if (!deleted) {
+      return res.status(404).json({ error: "Push subscription not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete push subscription error:", error);
+    res.status(500).json({ error: "Failed to delete push subscription" });
+  }
+});
+
+router.get("/api/notification-preferences", requireAuth, async (req, res) => {
+  try {
+    const preferences = await pushService.getPreferences(req.session.userId!);
+    res.json(preferences);
+  } catch (error) {
+    console.error("Get notification preferences error:", error);
+    res.status(500).json({ error: "Failed to get notification preferences" });
+  }
+});
+
+router.put("/api/notification-preferences", requireAuth, async (req, res) => {
+  try {
+    const result = insertNotificationPreferencesSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const preferences = await pushService.updatePreferences(req.session.userId!, result.data);
+    res.json(preferences);
+  } catch (error) {
+    console.error("Update notification preferences error:", error);
+    res.status(500).json({ error: "Failed to update notification preferences" });
+  }
+});
+
+export default router;
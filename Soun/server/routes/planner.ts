@@ -0,0 +1,604 @@
+import { Router } from 'express';
+import { insertAssignmentSchema, insertStudySessionSchema, insertAssessmentSchema, insertDeadlineSchema, syllabusScheduleSchema } from '../../shared/schema';
+import { storage } from '../storage';
+import { z } from 'zod';
+import { plannerService, type AssessmentType } from '../services/planner-service';
+import { syllabusService } from '../services/syllabus-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+import { upload, saveCourseDocument } from './uploads';
+import { format } from 'date-fns';
+
+const router = Router();
+
+// Assignment routes
+const assignmentBodySchema = insertAssignmentSchema.omit({ userId: true });
+
+router.get("/api/assignments", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const assignments = await storage.getAssignments(res.locals.targetUserId);
+    res.json(assignments);
+  } catch (error) {
+    console.error("Get assignments error:", error);
+    res.status(500).json({ error: "Failed to get assignments" });
+  }
+});
+
+router.post("/api/assignments", requireAuth, async (req, res) => {
+  try {
+    const result = assignmentBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const assignment = await storage.createAssignment({ ...result.data, userId: req.session.userId! });
+    res.status(201).json(assignment);
+  } catch (error) {
+    console.error("Create assignment error:", error);
+    res.status(500).json({ error: "Failed to create assignment" });
+  }
+});
+
+router.patch("/api/assignments/:id", requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid assignment ID" });
+    }
+
+    const result = assignmentBodySchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const assignment = await storage.updateAssignment(id, {
+      ...result.data,
+      userId: req.session.userId!
+    });
+    res.json(assignment);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Assignment not found") {
+      return res.status(404).json({ error: "Assignment not found" });
+    }
+    console.error("Update assignment error:", error);
+    res.status(500).json({ error: "Failed to update assignment" });
+  }
+});
+
+// Study session routes
+const studySessionBodySchema = insertStudySessionSchema.omit({ userId: true, date: true }).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+router.get("/api/study-sessions", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const date = typeof req.query.date === 'string' ? req.query.date : format(new Date(), 'yyyy-MM-dd');
+    const sessions = await storage.getStudySessionsByDate(res.locals.targetUserId, date);
+    res.json(sessions);
+  } catch (error) {
+    console.error("Study sessions fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch study sessions" });
+  }
+});
+
+router.get("/api/study-sessions/today", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const sessions = await storage.getStudySessionsByDate(res.locals.targetUserId, format(new Date(), 'yyyy-MM-dd'));
+    res.json(sessions);
+  } catch (error) {
+    console.error("Study sessions fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch study sessions" });
+  }
+});
+
+router.post("/api/study-sessions", requireAuth, async (req, res) => {
+  try {
+    const result = studySessionBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const session = await storage.createStudySession({
+      ...result.data,
+      userId: req.session.userId!,
+      date: result.data.date || format(new Date(), 'yyyy-MM-dd')
+    });
+    res.status(201).json(session);
+  } catch (error) {
+    console.error("Study session creation error:", error);
+    res.status(500).json({ error: "Failed to create study session" });
+  }
+});
+
+router.post("/api/study-sessions/:id/complete", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const sessionId = parseInt(req.params.id);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ error: "Invalid study session ID" });
+    }
+
+    // Scoped lookup first so users can't complete each other's sessions
+    let session;
+    try {
+      session = await storage.getStudySession(userId, sessionId);
+    } catch {
+      return res.status(404).json({ error: "Study session not found" });
+    }
+
+    const completed = await storage.completeStudySession(sessionId);
+
+    // The planned time counts towards weekly progress unless the client reports the actual duration
+    if (!session.completed) {
+      const [startHours, startMinutes] = String(session.startTime).split(':').map(Number);
+      const [endHours, endMinutes] = String(session.endTime).split(':').map(Number);
+      const planned = (endHours * 60 + endMinutes) - (startHours * 60 + startMinutes);
+      const minutes = typeof req.body?.actualDuration === 'number' ? Math.round(req.body.actualDuration) : planned;
+
+      if (minutes > 0) {
+        await storage.addStudyProgress({
+          userId,
+          subject: session.subject,
+          date: session.date,
+          minutes
+        });
+      }
+    }
+
+    res.json(completed);
+  } catch (error) {
+    console.error("Study session completion error:", error);
+    res.status(500).json({ error: "Failed to complete study session" });
+  }
+});
+
+const studySummarySchema = z.object({
+  totalDuration: z.coerce.number().min(0),
+  studyTime: z.coerce.number().min(0),
+  completedSessions: z.coerce.number().int().min(0),
+  keyTopics: z.array(z.string()).default([]),
+  focusScore: z.coerce.number().min(0).max(100),
+});
+
+// Recommendations at the end of a focus timer run
+router.post("/api/study-sessions/summary", requireAuth, async (req, res) => {
+  try {
+    const result = studySummarySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { focusScore, completedSessions, studyTime } = result.data;
+    const recommendations: string[] = [];
+
+    if (focusScore < 70) {
+      recommendations.push("Try using the Pomodoro Technique with shorter study intervals");
+      recommendations.push("Consider eliminating distractions from your study environment");
+    }
+
+    if (completedSessions > 3) {
+      recommendations.push("Excellent focus! You completed multiple study sessions");
+      recommendations.push("Consider reviewing your notes to reinforce learning");
+    }
+
+    if (studyTime > 90) {
+      recommendations.push("Great stamina! Remember to take breaks to maintain effectiveness");
+    }
+
+    res.json({
+      message: "Study session summary generated",
+      summary: {
+        ...result.data,
+        recommendations,
+        createdAt: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error("Study session summary error:", error);
+    res.status(500).json({ error: "Failed to generate study session summary" });
+  }
+});
+
+router.get("/api/study-suggestions", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const suggestions = await plannerService.getStudySuggestions(res.locals.targetUserId);
+    res.json(suggestions);
+  } catch (error) {
+    console.error("Study suggestions error:", error);
+    res.status(500).json({ error: "Failed to get study suggestions" });
+  }
+});
+
+// Planner routes - exams, tests and deadlines
+const dateRangeQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  courseId: z.string().optional(),
+});
+
+const assessmentBodySchema = insertAssessmentSchema.omit({ userId: true, type: true });
+
+const assessmentGradeSchema = z.object({
+  score: z.coerce.number().min(0),
+  maxScore: z.coerce.number().positive(),
+  feedback: z.string().optional(),
+});
+
+const deadlineBodySchema = insertDeadlineSchema.omit({ userId: true });
+
+// Exams and tests share storage and differ only by type
+(['exam', 'test'] as AssessmentType[]).forEach(type => {
+  const basePath = `/api/${type}s`;
+  const label = type === 'exam' ? 'Exam' : 'Test';
+
+  router.get(basePath, requireUserAccess(userIdFromQuery()), async (req, res) => {
+    try {
+      const filter = dateRangeQuerySchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ error: "Invalid input", details: filter.error.issues });
+      }
+
+      const items = await plannerService.getAssessments(res.locals.targetUserId, type, filter.data);
+      res.json(items);
+    } catch (error) {
+      console.error(`Get ${type}s error:`, error);
+      res.status(500).json({ error: `Failed to get ${type}s` });
+    }
+  });
+
+  router.get(`${basePath}/:id`, requireUserAccess(userIdFromQuery()), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: `Invalid ${type} ID` });
+      }
+
+      const item = await plannerService.getAssessment(res.locals.targetUserId, type, id);
+      if (!item) {
+        return res.status(404).json({ error: `${label} not found` });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error(`Get ${type} error:`, error);
+      res.status(500).json({ error: `Failed to get ${type}` });
+    }
+  });
+
+  router.post(basePath, requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const result = assessmentBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+      }
+
+      const course = await plannerService.resolveCourse(userId, result.data.courseId, result.data.subject);
+      if (course === undefined) {
+        return res.status(404).json({ error: "Course not found or access denied" });
+      }
+
+      const item = await plannerService.createAssessment({
+        ...result.data,
+        userId,
+        type,
+        courseId: course ? course.courseId : null
+      });
+      res.status(201).json(item);
+    } catch (error) {
+      console.error(`Create ${type} error:`, error);
+      res.status(500).json({ error: `Failed to create ${type}` });
+    }
+  });
+
+  router.patch(`${basePath}/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: `Invalid ${type} ID` });
+      }
+
+      const userId = req.session.userId!;
+      const result = assessmentBodySchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+      }
+
+      if (result.data.courseId) {
+        const course = await plannerService.resolveCourse(userId, result.data.courseId, '');
+        if (!course) {
+          return res.status(404).json({ error: "Course not found or access denied" });
+        }
+      }
+
+      const item = await plannerService.updateAssessment(userId, type, id, result.data);
+      if (!item) {
+        return res.status(404).json({ error: `${label} not found` });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error(`Update ${type} error:`, error);
+      res.status(500).json({ error: `Failed to update ${type}` });
+    }
+  });
+
+  router.delete(`${basePath}/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: `Invalid ${type} ID` });
+      }
+
+      const deleted = await plannerService.deleteAssessment(req.session.userId!, type, id);
+      if (!deleted) {
+        return res.status(404).json({ error: `${label} not found` });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Delete ${type} error:`, error);
+      res.status(500).json({ error: `Failed to delete ${type}` });
+    }
+  });
+
+  // Recording the grade creates (or updates) the linked exam score
+  router.post(`${basePath}/:id/score`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: `Invalid ${type} ID` });
+      }
+
+      const result = assessmentGradeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+      }
+
+      const item = await plannerService.recordGrade(req.session.userId!, type, id, {
+        score: String(result.data.score),
+        maxScore: String(result.data.maxScore),
+        feedback: result.data.feedback
+      });
+      if (!item) {
+        return res.status(404).json({ error: `${label} not found` });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error(`Record ${type} score error:`, error);
+      res.status(500).json({ error: `Failed to record ${type} score` });
+    }
+  });
+});
+
+router.get("/api/deadlines", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const filter = dateRangeQuerySchema.safeParse(req.query);
+    if (!filter.success) {
+      return res.status(400).json({ error: "Invalid input", details: filter.error.issues });
+    }
+
+    const items = await plannerService.getDeadlines(res.locals.targetUserId, {
+      ...filter.data,
+      includeCompleted: req.query.includeCompleted === 'true'
+    });
+    res.json(items);
+  } catch (error) {
+    console.error("Get deadlines error:", error);
+    res.status(500).json({ error: "Failed to get deadlines" });
+  }
+});
+
+router.post("/api/deadlines", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = deadlineBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const course = await plannerService.resolveCourse(userId, result.data.courseId, result.data.subject);
+    if (course === undefined) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    const deadline = await plannerService.createDeadline({
+      ...result.data,
+      userId,
+      courseId: course ? course.courseId : null
+    });
+    res.status(201).json(deadline);
+  } catch (error) {
+    console.error("Create deadline error:", error);
+    res.status(500).json({ error: "Failed to create deadline" });
+  }
+});
+
+router.patch("/api/deadlines/:id", requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid deadline ID" });
+    }
+
+    const userId = req.session.userId!;
+    const result = deadlineBodySchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    if (result.data.courseId) {
+      const course = await plannerService.resolveCourse(userId, result.data.courseId, '');
+      if (!course) {
+        return res.status(404).json({ error: "Course not found or access denied" });
+      }
+    }
+
+    const deadline = await plannerService.updateDeadline(userId, id, result.data);
+    if (!deadline) {
+      return res.status(404).json({ error: "Deadline not found" });
+    }
+    res.json(deadline);
+  } catch (error) {
+    console.error("Update deadline error:", error);
+    res.status(500).json({ error: "Failed to update deadline" });
+  }
+});
+
+router.delete("/api/deadlines/:id", requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid deadline ID" });
+    }
+
+    const deleted = await plannerService.deleteDeadline(req.session.userId!, id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Deadline not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete deadline error:", error);
+    res.status(500).json({ error: "Failed to delete deadline" });
+  }
+});
+
+// Syllabus routes - upload builds a draft schedule, nothing is created until the student confirms it
+const syllabusUploadSchema = z.object({
+  courseId: z.string().min(1),
+  termStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const syllabusConfirmSchema = z.object({
+  schedule: syllabusScheduleSchema.optional(),
+  termStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  sessionStartTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  sessionMinutes: z.number().int().min(15).max(480).optional(),
+});
+
+router.post("/api/syllabus/upload", requireAuth, upload.single('file'), async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = syllabusUploadSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const course = await plannerService.resolveCourse(userId, result.data.courseId, '');
+    if (!course) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    const saved = await saveCourseDocument(userId, course, req.file, `${course.name} syllabus`, ['syllabus']);
+    if (!saved.document) {
+      return res.status(415).json({ error: saved.error });
+    }
+
+    const parsed = syllabusService.parse(syllabusService.textOf(saved.document), new Date(), result.data.termStart);
+    const draft = await syllabusService.createDraft(userId, course.courseId, saved.document.id, parsed);
+    res.status(201).json(draft);
+  } catch (error) {
+    console.error("Upload syllabus error:", error);
+    res.status(500).json({ error: "Failed to process syllabus" });
+  }
+});
+
+router.get("/api/syllabus/drafts", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+    const drafts = await syllabusService.getDrafts(res.locals.targetUserId, courseId);
+    res.json(drafts);
+  } catch (error) {
+    console.error("Get syllabus drafts error:", error);
+    res.status(500).json({ error: "Failed to get syllabus drafts" });
+  }
+});
+
+router.get("/api/syllabus/drafts/:id", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid syllabus draft ID" });
+    }
+
+    const draft = await syllabusService.getDraft(res.locals.targetUserId, id);
+    if (!draft) {
+      return res.status(404).json({ error: "Syllabus draft not found" });
+    }
+    res.json(draft);
+  } catch (error) {
+    console.error("Get syllabus draft error:", error);
+    res.status(500).json({ error: "Failed to get syllabus draft" });
+  }
+});
+
+router.patch("/api/syllabus/drafts/:id", requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid syllabus draft ID" });
+    }
+
+    const result = syllabusScheduleSchema.safeParse(req.body.schedule);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const draft = await syllabusService.updateDraft(req.session.userId!, id, result.data);
+    if (!draft) {
+      return res.status(404).json({ error: "Syllabus draft not found or already confirmed" });
+    }
+    res.json(draft);
+  } catch (error) {
+    console.error("Update syllabus draft error:", error);
+    res.status(500).json({ error: "Failed to update syllabus draft" });
+  }
+});
+
+router.post("/api/syllabus/drafts/:id/confirm", requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid syllabus draft ID" });
+    }
+
+    const userId = req.session.userId!;
+    const result = syllabusConfirmSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    let draft = await syllabusService.getDraft(userId, id);
+    if (!draft) {
+      return res.status(404).json({ error: "Syllabus draft not found" });
+    }
+    if (draft.status !== 'draft') {
+      return res.status(409).json({ error: "Syllabus draft already confirmed" });
+    }
+
+    const course = await plannerService.resolveCourse(userId, draft.courseId, '');
+    if (!course) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    // The student's last edits from the review screen win over the stored draft
+    if (result.data.schedule) {
+      draft = (await syllabusService.updateDraft(userId, draft.id, result.data.schedule)) || draft;
+    }
+
+    const confirmed = await syllabusService.confirmDraft(draft, course, {
+      termStart: result.data.termStart,
+      sessionStartTime: result.data.sessionStartTime,
+      sessionMinutes: result.data.sessionMinutes
+    });
+    if (!confirmed) {
+      return res.status(409).json({ error: "Syllabus draft already confirmed" });
+    }
+    res.json(confirmed);
+  } catch (error) {
+    console.error("Confirm syllabus draft error:", error);
+    res.status(500).json({ error: "Failed to confirm syllabus draft" });
+  }
+});
+
+export default router;
@@ -0,0 +1,223 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  insertPresentationSchema,
+  outlineSectionSchema
+} from '../../shared/schema';
+import { presentationService } from '../services/presentation-service';
+import { speechDeliveryService } from '../services/speech-delivery-service';
+import { audioAnalysisService, AudioDecodeError, type AudioLevels } from '../services/audio-analysis-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+import { jsonField, upload } from './uploads';
+
+const router = Router();
+
+// courseId is the course code from /courses/:courseId/presentation; absent for the course-less page
+const workspaceQuerySchema = z.object({
+  courseId: z.string().min(1).optional(),
+});
+
+const saveWorkspaceSchema = insertPresentationSchema.omit({ userId: true, courseId: true }).extend({
+  courseId: z.string().min(1).nullable().optional(),
+});
+
+// Practices arrive as multipart form fields next to the recording
+const savePracticeSchema = z.object({
+  duration: z.coerce.number().min(0).max(4 * 60 * 60),
+  transcript: z.string().max(100000).default(""),
+  segments: jsonField(z.array(z.object({
+    text: z.string(),
+    end: z.number().min(0),
+  })).max(5000)).optional(),
+  sectionMarks: jsonField(z.array(z.object({
+    sectionId: z.string().min(1),
+    start: z.number().min(0),
+  })).max(200)).optional(),
+});
+
+const generateQuestionsSchema = z.object({
+  title: z.string().min(1),
+  outline: z.array(outlineSectionSchema).min(1),
+  count: z.coerce.number().int().min(1).max(12).default(8),
+});
+
+const reviseTextSchema = z.object({
+  text: z.string().min(1).max(50000),
+});
+
+// Presentation workspace routes
+router.get("/api/presentations/workspace", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const result = workspaceQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const courseId = result.data.courseId || null;
+    if (courseId && !(await presentationService.isOwnCourse(userId, courseId))) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    const workspace = await presentationService.getWorkspace(userId, courseId);
+    res.json(workspace);
+  } catch (error) {
+    console.error("Get presentation error:", error);
+    res.status(500).json({ error: "Failed to get presentation" });
+  }
+});
+
+router.put("/api/presentations/workspace", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = saveWorkspaceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { courseId, ...data } = result.data;
+    if (courseId && !(await presentationService.isOwnCourse(userId, courseId))) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+
+    const presentation = await presentationService.save(userId, courseId || null, data);
+    res.json(presentation);
+  } catch (error) {
+    console.error("Save presentation error:", error);
+    res.status(500).json({ error: "Failed to save presentation" });
+  }
+});
+
+router.delete("/api/presentations/workspace", requireAuth, async (req, res) => {
+  try {
+    const result = workspaceQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const deleted = await presentationService.remove(req.session.userId!, result.data.courseId || null);
+    if (!deleted) {
+      return res.status(404).json({ error: "Presentation not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete presentation error:", error);
+    res.status(500).json({ error: "Failed to delete presentation" });
+  }
+});
+
+router.post("/api/presentations/questions/generate", requireAuth, async (req, res) => {
+  try {
+    const result = generateQuestionsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { title, outline, count } = result.data;
+    const questions = await presentationService.generateQuestions(title, outline, count);
+    res.json({ questions });
+  } catch (error) {
+    console.error("Presentation question generation error:", error);
+    res.status(500).json({ error: "Failed to generate questions" });
+  }
+});
+
+router.post("/api/presentations/revise", requireAuth, async (req, res) => {
+  try {
+    const result = reviseTextSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    res.json({ suggestions: presentationService.reviseText(result.data.text) });
+  } catch (error) {
+    console.error("Presentation revision error:", error);
+    res.status(500).json({ error: "Failed to analyze text" });
+  }
+});
+
+// Practice history routes
+/**
+ * Save a practice run with its delivery analysis. The optional audioFile (WAV, WebM or Ogg) adds
+ * pauses, volume and speech timing; it is analysed and discarded.
+ */
+router.post("/api/presentations/:id/practices", requireAuth, upload.single('audioFile'), async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid presentation ID" });
+    }
+    const result = savePracticeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const presentation = await presentationService.getOwned(userId, id);
+    if (!presentation) {
+      return res.status(404).json({ error: "Presentation not found" });
+    }
+
+    let audio: AudioLevels | null = null;
+    if (req.file) {
+      try {
+        audio = await audioAnalysisService.measure(req.file.buffer);
+      } catch (error) {
+        if (error instanceof AudioDecodeError) {
+          return res.status(415).json({ error: error.message });
+        }
+        throw error;
+      }
+    }
+
+    const { duration, segments, sectionMarks } = result.data;
+    const transcript = segments && segments.length > 0
+      ? segments.map(segment => segment.text.trim()).join(" ")
+      : result.data.transcript;
+    const report = speechDeliveryService.analyze({
+      duration,
+      transcript,
+      segments,
+      sectionMarks,
+      outline: presentation.outline,
+      audio,
+    });
+
+    const practice = await presentationService.addPractice(userId, presentation.id, {
+      duration: Math.round(report.analysis.durationSeconds),
+      transcript,
+      wordsPerMinute: report.wordsPerMinute,
+      paceStatus: report.paceStatus,
+      feedback: report.feedback,
+      analysis: report.analysis,
+    });
+    res.status(201).json(practice);
+  } catch (error) {
+    console.error("Save practice error:", error);
+    res.status(500).json({ error: "Failed to save practice recording" });
+  }
+});
+
+router.delete("/api/presentations/:id/practices/:practiceId", requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid presentation ID" });
+    }
+    const practiceId = parseInt(req.params.practiceId);
+    if (isNaN(practiceId)) {
+      return res.status(400).json({ error: "Invalid practice ID" });
+    }
+
+    const deleted = await presentationService.removePractice(req.session.userId!, id, practiceId);
+    if (!deleted) {
+      return res.status(404).json({ error: "Practice recording not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete practice error:", error);
+    res.status(500).json({ error: "Failed to delete practice recording" });
+  }
+});
+
+export default router;
@@ -0,0 +1,326 @@
+import { Router } from 'express';
+import { eq, and, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '../db';
+import { documents } from '../../shared/schema';
+import { quizGenerationService, type QuizQuestion } from '../services/quiz-generation-service';
+import { quizSessionService, type ClosedQuizSession } from '../services/quiz-session-service';
+import { spacedRepetitionService } from '../services/spaced-repetition-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+// Quizzes without a course (or a document to take it from) are filed under this ID
+const GENERAL_COURSE_ID = 'general';
+
+const evaluateQuizSchema = z.object({
+  // Required without a sessionId; with one, the stored questions are used instead
+  questions: z.array(z.any()).optional(),
+  userAnswers: z.array(z.object({
+    questionId: z.coerce.string(),
+    answer: z.string().default(''),
+    timeSpent: z.coerce.number().min(0).optional(), // seconds
+  })),
+  sessionId: z.coerce.number().int().optional(),
+  courseId: z.string().optional(),
+});
+
+const postExplanationQuizSchema = z.object({
+  topic: z.string().trim().min(1),
+  explanation: z.string().trim().min(1),
+  documentContext: z.string().optional(),
+  difficulty: z.enum(['adaptive', 'easy', 'medium', 'hard']).default('adaptive'),
+  documentId: z.coerce.number().int().positive().optional(),
+  courseId: z.string().optional(),
+});
+
+const interleavedQuizSchema = z.object({
+  subject: z.string().trim().min(1),
+  topics: z.array(z.string()),
+  approaches: z.array(z.string()),
+  targetCount: z.coerce.number().int().min(1).max(50).default(10),
+  documentId: z.coerce.number().int().positive().optional(),
+  courseId: z.string().optional(),
+});
+
+const quizHistorySchema = z.object({
+  courseId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * The course a quiz belongs to: the one given, else the course of the user's document
+ */
+async function resolveCourseId(userId: number, courseId?: unknown, documentId?: unknown): Promise<string> {
+  if (typeof courseId === 'string' && courseId) return courseId;
+
+  const id = Number(documentId);
+  if (Number.isInteger(id) && id > 0) {
+    const [document] = await db
+      .select({ courseId: documents.courseId })
+      .from(documents)
+      .where(and(eq(documents.id, id), eq(documents.userId, userId)));
+    if (document?.courseId) return document.courseId;
+  }
+  return GENERAL_COURSE_ID;
+}
+
+/**
+ * Save the questions and start a session. Without it the quiz can still be taken, just not
+ * recorded, so a storage failure doesn't fail generation.
+ */
+async function openQuizSession(userId: number, courseId: string, topics: string[], questions: QuizQuestion[]) {
+  try {
+    return await quizSessionService.open(userId, { courseId, topics, questions });
+  } catch (error) {
+    console.error("Quiz session open error:", error);
+    return { sessionId: null, questions };
+  }
+}
+
+const selfTestConfigSchema = z.object({
+  selectedTopics: z.array(z.string()).default([]),
+  difficulty: z.enum(['mixed', 'easy', 'medium', 'hard']).default('mixed'),
+  questionCount: z.coerce.number().int().min(1).max(50).default(10),
+  timeLimit: z.coerce.number().min(0).default(0),
+  includeVocalExplanations: z.boolean().default(false),
+  focusAreas: z.array(z.string()).default([]),
+  testMode: z.enum(['comprehensive', 'weak-areas', 'custom']).default('comprehensive'),
+});
+
+const generateSelfTestSchema = z.object({
+  config: selfTestConfigSchema,
+  // Only the IDs are used; content is read from the user's own documents
+  userDocuments: z.array(z.object({ id: z.coerce.number().int() }).passthrough()).default([]),
+  weakAreas: z.array(z.string()).default([]),
+  courseId: z.string().optional(),
+});
+
+const evaluateSelfTestSchema = z.object({
+  // Required without a sessionId; with one, the stored questions are used instead
+  questions: z.array(z.any()).optional(),
+  userAnswers: z.array(z.any()),
+  testConfig: selfTestConfigSchema.partial().optional(),
+  totalTime: z.coerce.number().min(0).default(0), // milliseconds
+  sessionId: z.coerce.number().int().optional(),
+});
+
+// Quiz routes
+router.post("/api/quiz/post-explanation", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = postExplanationQuizSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+    const { topic, explanation, documentContext, difficulty, documentId, courseId } = result.data;
+
+    const questions = await quizGenerationService.generatePostExplanationQuiz(
+      topic,
+      explanation,
+      documentContext,
+      difficulty
+    );
+
+    const quizCourseId = await resolveCourseId(userId, courseId, documentId);
+    const session = await openQuizSession(userId, quizCourseId, [topic], questions);
+    res.json({ questions: session.questions, sessionId: session.sessionId, courseId: quizCourseId });
+  } catch (error) {
+    console.error("Post-explanation quiz generation error:", error);
+    res.status(500).json({ error: "Failed to generate quiz" });
+  }
+});
+
+router.post("/api/quiz/evaluate", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = evaluateQuizSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { userAnswers, sessionId } = result.data;
+    let questions: QuizQuestion[] = result.data.questions || [];
+    let courseId = result.data.courseId;
+
+    const session = sessionId !== undefined
+      ? await quizSessionService.getOwnedSession(userId, sessionId)
+      : undefined;
+    if (sessionId !== undefined) {
+      if (!session) {
+        return res.status(404).json({ error: "Quiz session not found" });
+      }
+      if (session.status !== "in_progress") {
+        return res.status(409).json({ error: "Quiz session has already been submitted" });
+      }
+      // Grade against the stored questions, not whatever the client sends back
+      const storedQuestions = await quizSessionService.getSessionQuestions(session);
+      if (storedQuestions.length > 0) questions = storedQuestions;
+      courseId = session.courseId;
+    }
+
+    if (questions.length === 0) {
+      return res.status(400).json({ error: "Questions and user answers are required" });
+    }
+
+    const evaluation = await quizGenerationService.evaluateQuizAnswers(questions, userAnswers);
+
+    // Recording and review scheduling are best effort; the student still gets their results
+    if (session) {
+      let closed: ClosedQuizSession | null | undefined;
+      try {
+        closed = await quizSessionService.close(userId, session, questions, evaluation.results, {
+          timings: userAnswers,
+          conceptAssessments: evaluation.conceptAssessments,
+          feedback: evaluation.recommendations.join(' ') || undefined
+        });
+      } catch (error) {
+        console.error("Quiz session recording error:", error);
+      }
+      if (closed === null) {
+        return res.status(409).json({ error: "Quiz session has already been submitted" });
+      }
+    }
+
+    try {
+      await spacedRepetitionService.recordQuizResults(userId, courseId, questions, evaluation.results);
+    } catch (error) {
+      console.error("Quiz review scheduling error:", error);
+    }
+
+    res.json({ ...evaluation, sessionId: session?.id ?? null });
+  } catch (error) {
+    console.error("Quiz evaluation error:", error);
+    res.status(500).json({ error: "Failed to evaluate quiz" });
+  }
+});
+
+router.post("/api/quiz/generate-interleaved", requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = interleavedQuizSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+    const { subject, topics, approaches, targetCount, courseId, documentId } = result.data;
+
+    const questions = await quizGenerationService.generateInterleavedPracticeQuiz(
+      subject,
+      topics,
+      approaches,
+      targetCount
+    );
+
+    const quizCourseId = await resolveCourseId(userId, courseId, documentId);
+    const session = await openQuizSession(userId, quizCourseId, topics, questions);
+    res.json({ questions: session.questions, sessionId: session.sessionId, courseId: quizCourseId });
+  } catch (error) {
+    console.error("Interleaved practice quiz generation error:", error);
+    res.status(500).json({ error: "Failed to generate interleaved practice quiz" });
+  }
+});
+
+router.get("/api/quiz/sessions", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const result = quizHistorySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const sessions = await quizSessionService.getHistory(res.locals.targetUserId, result.data.courseId, result.data.limit);
+    res.json({ sessions });
+  } catch (error) {
+    console.error("Quiz history error:", error);
+    res.status(500).json({ error: "Failed to get quiz history" });
+  }
+});
+
+// Self-test routes
+router.post("/api/quiz/generate-self-test", requireAuth, async (req, res) => {
+  try {
+    const result = generateSelfTestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const userId = req.session.userId!;
+    const { config, userDocuments, weakAreas, courseId } = result.data;
+    const documentIds = userDocuments.map(doc => doc.id);
+    const studyMaterials = documentIds.length > 0
+      ? await db
+        .select({ id: documents.id, title: documents.title, content: documents.content })
+        .from(documents)
+        .where(and(eq(documents.userId, userId), inArray(documents.id, documentIds)))
+      : [];
+
+    const questions = await quizGenerationService.generateSelfTest(config, studyMaterials, weakAreas);
+
+    const quizCourseId = await resolveCourseId(userId, courseId, documentIds[0]);
+    const topics = config.testMode === 'weak-areas' ? weakAreas : config.selectedTopics;
+    const session = await openQuizSession(userId, quizCourseId, topics, questions);
+    res.json({ questions: session.questions, sessionId: session.sessionId, courseId: quizCourseId });
+  } catch (error) {
+    console.error("Self-test generation error:", error);
+    res.status(500).json({ error: "Failed to generate self-test" });
+  }
+});
+
+router.post("/api/quiz/evaluate-self-test", requireAuth, async (req, res) => {
+  try {
+    const result = evaluateSelfTestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const userId = req.session.userId!;
+    const { userAnswers, testConfig, totalTime, sessionId } = result.data;
+    let questions: QuizQuestion[] = result.data.questions || [];
+
+    const session = sessionId !== undefined
+      ? await quizSessionService.getOwnedSession(userId, sessionId)
+      : undefined;
+    if (sessionId !== undefined) {
+      if (!session) {
+        return res.status(404).json({ error: "Quiz session not found" });
+      }
+      if (session.status !== "in_progress") {
+        return res.status(409).json({ error: "Quiz session has already been submitted" });
+      }
+      // Grade against the stored questions, not whatever the client sends back
+      const storedQuestions = await quizSessionService.getSessionQuestions(session);
+      if (storedQuestions.length > 0) questions = storedQuestions;
+    }
+
+    if (questions.length === 0) {
+      return res.status(400).json({ error: "Questions and user answers are required" });
+    }
+
+    const evaluation = await quizGenerationService.evaluateSelfTest(questions, userAnswers, testConfig || {}, totalTime);
+
+    // Recording is best effort; the student still gets their results
+    if (session) {
+      let closed: ClosedQuizSession | null | undefined;
+      try {
+        closed = await quizSessionService.close(userId, session, questions, evaluation.results, {
+          // Self-test answers time each question in milliseconds
+          timings: userAnswers.map(answer => ({
+            questionId: String(answer?.questionId),
+            timeSpent: typeof answer?.timeSpent === 'number' ? answer.timeSpent / 1000 : undefined
+          }))
+        });
+      } catch (error) {
+        console.error("Self-test session recording error:", error);
+      }
+      if (closed === null) {
+        return res.status(409).json({ error: "Quiz session has already been submitted" });
+      }
+    }
+
+    res.json({ ...evaluation, sessionId: session?.id ?? null });
+  } catch (error) {
+    console.error("Self-test evaluation error:", error);
+    res.status(500).json({ error: "Failed to evaluate self-test" });
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { flashcardService } from '../services/flashcard-service';
+import { spacedRepetitionService, type ReviewGrade } from '../services/spaced-repetition-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+// Spaced repetition review queue
+router.get("/api/reviews/due", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+    const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 50, 200) : 50;
+
+    const [flashcards, quizItems] = await Promise.all([
+      flashcardService.getDueCards(userId, courseId, limit),
+      spacedRepetitionService.getDueQuizItems(userId, courseId, limit)
+    ]);
+
+    res.json({ flashcards, quizItems });
+  } catch (error) {
+    console.error("Due reviews fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch due reviews" });
+  }
+});
+
+router.get("/api/reviews/due-counts", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const counts = await spacedRepetitionService.getDueCounts(res.locals.targetUserId);
+    res.json(counts);
+  } catch (error) {
+    console.error("Due review counts error:", error);
+    res.status(500).json({ error: "Failed to fetch due review counts" });
+  }
+});
+
+const reviewGradeSchema = z.object({
+  grade: z.number().int().min(0).max(5),
+});
+
+router.post("/api/reviews/quiz-items/:id", requireAuth, async (req, res) => {
+  try {
+    const result = reviewGradeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const item = await spacedRepetitionService.reviewQuizItem(
+      req.session.userId!,
+      parseInt(req.params.id),
+      result.data.grade as ReviewGrade
+    );
+    if (!item) {
+      return res.status(404).json({ error: "Review item not found" });
+    }
+
+    res.json(item);
+  } catch (error) {
+    console.error("Quiz review grading error:", error);
+    res.status(500).json({ error: "Failed to record review" });
+  }
+});
+
+export default router;
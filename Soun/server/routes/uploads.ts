@@ -0,0 +1,250 @@
+import multer from 'multer';
+import { z } from 'zod';
+import path from 'path';
+import fs from 'fs/promises';
+import { fileTypeFromBuffer } from 'file-type';
+import * as CFB from 'cfb';
+import { db } from '../db';
+import { documents, type Course, type Document } from '../../shared/schema';
+import { documentAnalysisService } from '../services/document-analysis-service';
+import { documentIndexService } from '../services/document-index-service';
+import { courseDetectionService } from '../services/course-detection-service';
+
+// Configure multer for file uploads using memory storage
+// Files are validated via magic number inspection before being written to disk
+export const upload = multer({ 
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  }
+});
+
+// Multipart form fields are strings; lists and objects are sent JSON-encoded
+export const jsonField = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}, schema);
+
+// Secure file validation using magic number (file signature) inspection
+// This prevents attackers from uploading malicious files by forging MIME types/extensions
+export async function validateAndSaveFile(buffer: Buffer, originalName: string): Promise<{ 
+  filename: string; 
+  mimetype: string; 
+  isValid: boolean; 
+  error?: string;
+}> {
+  try {
+    // Step 1: Detect actual file type from magic numbers
+    const detectedType = await fileTypeFromBuffer(buffer);
+
+    // Step 2: Define strict allowlist of safe file types based on magic number detection
+    const allowedTypes = {
+      // Modern Office formats (ZIP-based, strongly validated by file-type library)
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { exts: ['.docx'], mime: 'docx' },
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation': { exts: ['.pptx'], mime: 'pptx' },
+      // PDF
+      'application/pdf': { exts: ['.pdf'], mime: 'pdf' },
+      // Images
+      'image/jpeg': { exts: ['.jpg', '.jpeg'], mime: 'jpeg' },
+      'image/png': { exts: ['.png'], mime: 'png' },
+      'image/gif': { exts: ['.gif'], mime: 'gif' },
+    };
+
+    // Step 3: Handle legacy Office formats (CFB/OLE containers)
+    // Detect CFB format by magic number
+    const isCFBFormat = buffer.length >= 8 && 
+      buffer[0] === 0xD0 && buffer[1] === 0xCF && 
+      buffer[2] === 0x11 && buffer[3] === 0xE0 &&
+      buffer[4] === 0xA1 && buffer[5] === 0xB1 &&
+      buffer[6] === 0xE1 && buffer[7] === 0xA1;
+
+    let validatedMime: string;
+    let validatedExt: string;
+
+    if (isCFBFormat) {
+      // Validate CFB structure and determine Office file type
+      try {
+        const cfb = CFB.read(buffer, { type: 'buffer' });
+        
+        // Check for PowerPoint streams
+        const hasPowerPointStream = cfb.FileIndex.some(entry => 
+          entry.name === 'PowerPoint Document' || 
+          entry.name === 'Current User' ||
+          entry.name.startsWith('Slide')
+        );
+        
+        // Check for Word streams
+        const hasWordStream = cfb.FileIndex.some(entry => 
+          entry.name === 'WordDocument' || 
+          entry.name === '1Table' ||
+          entry.name === '0Table'
+        );
+        
+        if (hasPowerPointStream) {
+          console.log('[UPLOAD] Accepted legacy PowerPoint file (.ppt)');
+          validatedMime = 'application/vnd.ms-powerpoint';
+          validatedExt = '.ppt';
+        } else if (hasWordStream) {
+          console.log('[UPLOAD] Accepted legacy Word file (.doc)');
+          validatedMime = 'application/msword';
+          validatedExt = '.doc';
+        } else {
+          // Unknown CFB file type
+          console.log('[UPLOAD] Rejected unknown CFB/OLE file');
+          return {
+            filename: '',
+            mimetype: '',
+            isValid: false,
+            error: 'This Office file format is not supported. Please upload DOC, DOCX, PPT, PPTX, or PDF files.'
+          };
+        }
+      } catch (error) {
+        console.error('[UPLOAD] CFB parsing failed:', error);
+        return {
+          filename: '',
+          mimetype: '',
+          isValid: false,
+          error: 'File validation failed. The file may be corrupted.'
+        };
+      }
+    } else if (detectedType && allowedTypes[detectedType.mime as keyof typeof allowedTypes]) {
+      // Modern format detected by file-type library
+      const typeInfo = allowedTypes[detectedType.mime as keyof typeof allowedTypes];
+      validatedMime = detectedType.mime;
+      validatedExt = typeInfo.exts[0];
+    } else if (buffer.length < 1000 && buffer.toString('utf8', 0, Math.min(1000, buffer.length)).match(/^[\x20-\x7E\s]*$/)) {
+      // Heuristic for plain text: small file with printable ASCII
+      validatedMime = 'text/plain';
+      validatedExt = '.txt';
+    } else {
+      // Unrecognized or unsafe file type
+      return {
+        filename: '',
+        mimetype: '',
+        isValid: false,
+        error: `File type not supported. Detected: ${detectedType?.mime || 'unknown'}. Please upload PDF, DOCX, PPTX, DOC, PPT, TXT, or images.`
+      };
+    }
+
+    // Step 4: Write validated file to disk with sanitized filename
+    const uploadDir = path.join(process.cwd(), 'server', 'uploads');
+    await fs.mkdir(uploadDir, { recursive: true });
+
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const basename = path.basename(originalName, path.extname(originalName))
+      .replace(/[^a-zA-Z0-9-_]/g, '_')  // Sanitize filename
+      .substring(0, 100);  // Limit length
+    const filename = `${basename}-${uniqueSuffix}${validatedExt}`;
+    const filepath = path.join(uploadDir, filename);
+
+    await fs.writeFile(filepath, buffer);
+
+    // Step 5: Log successful validation
+    console.log(`[UPLOAD] Validated and saved: ${filename} (${validatedMime})`);
+
+    return {
+      filename,
+      mimetype: validatedMime,
+      isValid: true
+    };
+
+  } catch (error) {
+    console.error('[UPLOAD] Validation error:', error);
+    return {
+      filename: '',
+      mimetype: '',
+      isValid: false,
+      error: 'File validation failed'
+    };
+  }
+}
+
+// Validate, extract, store and index an uploaded file as one of the course's documents.
+// Returns the validation error instead when the file is rejected.
+export async function saveCourseDocument(
+  userId: number,
+  course: Course,
+  file: Express.Multer.File,
+  title: string | undefined,
+  tags: string[]
+): Promise<{ document?: Document; error?: string }> {
+  // SECURITY: Validate file via magic number inspection before persisting
+  const validation = await validateAndSaveFile(file.buffer, file.originalname);
+
+  if (!validation.isValid) {
+    console.log(`[UPLOAD] Rejected file: ${file.originalname} - ${validation.error}`);
+    return { error: validation.error || "Unsupported file type" };
+  }
+
+  const uploadDir = path.join(process.cwd(), 'server', 'uploads');
+  const filePath = path.join(uploadDir, validation.filename);
+
+  // Extract content from validated file using the correct method
+  let extractedContent = "";
+  let extractedMetadata = null;
+
+  try {
+    // Use extractAndAnalyze which properly handles Buffer and file types
+    const analysisResult = await documentAnalysisService.extractAndAnalyze(
+      file.buffer,
+      validation.mimetype,
+      file.originalname,
+      course.name  // Pass course name as context
+    );
+
+    extractedContent = analysisResult.extractedContent || "";
+    // Page/slide structure sits next to the analysis so passages can be located later
+    extractedMetadata = JSON.stringify({
+      ...(analysisResult.analysis || {}),
+      ...(analysisResult.structure || {})
+    });
+  } catch (error) {
+    console.warn('Content extraction failed, saving with basic content:', error);
+    extractedContent = `Document: ${file.originalname}`;
+    extractedMetadata = JSON.stringify({
+      keyTopics: [course.name],
+      learningObjectives: [`Study material for ${course.name}`],
+      difficulty: 'intermediate',
+      estimatedStudyTime: 15,
+      concepts: [],
+      summary: `File uploaded: ${file.originalname}`,
+      questions: [],
+      prerequisites: [],
+      relatedTopics: [],
+      teachingPoints: []
+    });
+  }
+
+  // Create document record with validated file info
+  const documentData = {
+    userId,
+    courseId: course.courseId,
+    title: title || file.originalname,
+    filename: validation.filename,
+    fileType: validation.mimetype,
+    filePath,
+    content: extractedContent,
+    metadata: extractedMetadata,
+    uploadDate: new Date(),
+    tags
+  };
+
+  const [newDocument] = await db
+    .insert(documents)
+    .values(documentData)
+    .returning();
+  courseDetectionService.invalidate(userId);
+
+  // Index for search; a failure here is retried lazily on the next search
+  try {
+    await documentIndexService.indexDocument(newDocument);
+  } catch (error) {
+    console.error("Document indexing error:", error);
+  }
+
+  return { document: newDocument };
+}
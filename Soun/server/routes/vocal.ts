@@ -0,0 +1,178 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { voiceAnalyticsService } from '../services/voice-analytics-service';
+import { vocalAssessmentService, PASS_SCORE } from '../services/vocal-assessment-service';
+import { audioAnalysisService, AudioDecodeError, type AudioLevels } from '../services/audio-analysis-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+import { jsonField, upload } from './uploads';
+
+const router = Router();
+
+// Recordings arrive as multipart form fields next to the audio
+const segmentsField = jsonField(z.array(z.object({
+  text: z.string(),
+  end: z.number().min(0),
+})).max(500)).optional();
+
+const challengeAttemptSchema = z.object({
+  challengeId: z.string().min(1),
+  transcript: z.string().max(10000).default(""),
+  duration: z.coerce.number().min(0).max(600),
+  segments: segmentsField,
+});
+
+const vocalAssessmentSchema = z.object({
+  targetText: z.string().min(1).max(5000),
+  transcript: z.string().max(10000),
+  duration: z.coerce.number().min(0).max(600).optional(),
+  segments: segmentsField,
+  audioFeatures: jsonField(z.object({
+    pitch: z.number(),
+    speed: z.number(),
+    volume: z.number(),
+    pauses: z.number(),
+    duration: z.number().optional(),
+  })).optional(),
+});
+
+// courseId is the course code; without it the built-in drills are offered
+const adaptiveQuerySchema = z.object({
+  courseId: z.string().min(1).optional(),
+});
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+/**
+ * Loudness levels of the uploaded recording; null without one. Throws AudioDecodeError for
+ * files that aren't WAV, WebM or Ogg audio.
+ */
+async function measureUpload(file?: Express.Multer.File): Promise<AudioLevels | null> {
+  return file ? audioAnalysisService.measure(file.buffer) : null;
+}
+
+// Vocal challenge routes
+router.get("/api/vocal-challenges/adaptive/:difficulty", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const difficulty = parseInt(req.params.difficulty);
+    if (isNaN(difficulty) || difficulty < 1 || difficulty > 5) {
+      return res.status(400).json({ error: "Difficulty must be between 1 and 5" });
+    }
+
+    const result = adaptiveQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const recommendation = await vocalAssessmentService.recommend(res.locals.targetUserId, difficulty, result.data.courseId || null);
+    if (!recommendation) {
+      return res.status(404).json({ error: "Course not found or access denied" });
+    }
+    res.json(recommendation);
+  } catch (error) {
+    console.error("Adaptive challenges error:", error);
+    res.status(500).json({ error: "Failed to generate challenges" });
+  }
+});
+
+router.post("/api/vocal-challenges/attempt", requireAuth, upload.single('audioFile'), async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = challengeAttemptSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: "No audio file provided for the attempt" });
+    }
+
+    const { challengeId, transcript, duration, segments } = result.data;
+    const challenge = await vocalAssessmentService.findChallenge(userId, challengeId);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    const audio = await measureUpload(req.file);
+    const assessment = vocalAssessmentService.assess({
+      targetText: challenge.reference ?? challenge.text,
+      mode: challenge.mode,
+      transcript,
+      duration,
+      segments,
+      audio
+    });
+    const attempt = await vocalAssessmentService.recordAttempt(userId, assessment, duration, challenge);
+    const next = await vocalAssessmentService.recommend(userId, challenge.difficulty, challenge.source?.courseId ?? null);
+
+    res.json({
+      ...assessment,
+      attemptId: attempt.id,
+      challengeId,
+      passed: assessment.scores.overall >= PASS_SCORE,
+      nextChallengeId: next?.recommendedId ?? null,
+    });
+  } catch (error) {
+    if (error instanceof AudioDecodeError) {
+      return res.status(415).json({ error: error.message });
+    }
+    console.error("Challenge attempt error:", error);
+    res.status(500).json({ error: "Failed to process challenge attempt" });
+  }
+});
+
+router.get("/api/vocal-challenges/history", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const result = historyQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const attempts = await vocalAssessmentService.getHistory(res.locals.targetUserId, result.data.limit);
+    res.json({ attempts });
+  } catch (error) {
+    console.error("Vocal attempt history error:", error);
+    res.status(500).json({ error: "Failed to get attempt history" });
+  }
+});
+
+// Vocal assessment routes
+router.post("/api/vocal-assessment/analyze", requireAuth, upload.single('audioFile'), async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const result = vocalAssessmentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { targetText, transcript, segments, audioFeatures } = result.data;
+    const duration = result.data.duration ?? audioFeatures?.duration ?? 0;
+    const audio = await measureUpload(req.file);
+    const assessment = vocalAssessmentService.assess({ targetText, transcript, duration, segments, audio });
+    const attempt = await vocalAssessmentService.recordAttempt(userId, assessment, duration, null);
+
+    await voiceAnalyticsService.recordInteraction({
+      userId,
+      timestamp: new Date(),
+      command: 'vocal_assessment',
+      response: 'Assessment completed',
+      category: 'study_session',
+      duration,
+      audioFeatures,
+      outcomeMetrics: {
+        immediateUnderstanding: assessment.scores.overall / 20, // Convert to 1-5 scale
+        completionRate: 1.0
+      }
+    });
+
+    res.json({ ...assessment, attemptId: attempt.id });
+  } catch (error) {
+    if (error instanceof AudioDecodeError) {
+      return res.status(415).json({ error: error.message });
+    }
+    console.error("Vocal assessment error:", error);
+    res.status(500).json({ error: "Failed to analyze vocal performance" });
+  }
+});
+
+export default router;
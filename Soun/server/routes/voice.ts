@@ -0,0 +1,251 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { voiceAnalyticsService } from '../services/voice-analytics-service';
+import { voiceAssistantService } from '../services/voice-assistant-service';
+import { studyGuideService } from '../services/study-guide-service';
+import { requireAuth, requireUserAccess, userIdFromQuery } from '../authorization';
+
+const router = Router();
+
+const voiceCommandSchema = z.object({
+  command: z.string().trim().min(1),
+  courseId: z.string().nullish(),
+  context: z.unknown().optional(),
+  audioFeatures: z.object({
+    pitch: z.number(),
+    speed: z.number(),
+    volume: z.number(),
+    pauses: z.number(),
+  }).optional(),
+});
+
+// Voice processing routes - Clean and working version
+router.post("/api/voice/process", requireAuth, async (req, res) => {
+  try {
+    const result = voiceCommandSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+    const { command, courseId, context, audioFeatures } = result.data;
+
+    console.log(`Processing voice command: "${command}" with context:`, context);
+
+    const userId = req.session.userId!;
+    const startedAt = Date.now();
+    const request = { command, courseId, audioFeatures };
+    const plan = await voiceAssistantService.plan(userId, request);
+    const response = await voiceAssistantService.respond(plan);
+
+    const interactionId = plan.action !== 'navigate'
+      ? await voiceAssistantService.record(userId, request, plan, response, startedAt)
+      : null;
+
+    res.json({
+      response,
+      interactionId,
+      courseContext: plan.courseContext,
+      action: plan.action,
+      data: plan.kind === 'immediate' ? plan.data : null,
+      contextSwitch: plan.contextSwitch,
+      semanticContext: {
+        strugglingTopics: [],
+        recommendations: []
+      },
+      multiModal: null
+    });
+
+  } catch (error) {
+    console.error("Voice processing error:", error);
+    res.status(500).json({ error: "Failed to process voice command" });
+  }
+});
+
+/**
+ * Same as /api/voice/process, streamed as Server-Sent Events:
+ * "token" for each piece of text, "sentence" for each complete sentence, then "done" with the
+ * full reply. Closing the connection cancels generation.
+ */
+router.post("/api/voice/stream", requireAuth, async (req, res) => {
+  const result = voiceCommandSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+  }
+  const { command, courseId, audioFeatures } = result.data;
+
+  const userId = req.session.userId!;
+  const startedAt = Date.now();
+  const request = { command, courseId, audioFeatures };
+  const abort = new AbortController();
+  // The request's own close event fires once the body is read, so watch the response instead
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Stop nginx and similar proxies from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const plan = await voiceAssistantService.plan(userId, request);
+    const response = await voiceAssistantService.stream(plan, {
+      signal: abort.signal,
+      onToken: text => send('token', { text }),
+      onSentence: (text, index) => send('sentence', { text, index })
+    });
+
+    const interactionId = plan.action !== 'navigate'
+      ? await voiceAssistantService.record(userId, request, plan, response, startedAt)
+      : null;
+
+    send('done', {
+      response,
+      interactionId,
+      courseContext: plan.courseContext,
+      action: plan.action,
+      data: plan.kind === 'immediate' ? plan.data : null,
+      contextSwitch: plan.contextSwitch
+    });
+  } catch (error) {
+    if (abort.signal.aborted) {
+      console.log(`Voice stream cancelled by client: "${command}"`);
+    } else {
+      console.error("Voice stream error:", error);
+      send('error', { error: "Failed to process voice command" });
+    }
+  } finally {
+    if (!res.writableEnded) res.end();
+  }
+});
+
+const voiceStudyGuideSchema = z.object({
+  voiceCommand: z.string().trim().min(1),
+  courseContext: z.string().optional(),
+});
+
+// Study guide from a spoken request such as "make me a study guide for chapter 3"
+router.post("/api/voice/study-guide", requireAuth, async (req, res) => {
+  try {
+    const result = voiceStudyGuideSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const { voiceCommand, courseContext } = result.data;
+    const studyGuide = await studyGuideService.generateVoiceStudyGuide(req.session.userId!, voiceCommand, courseContext);
+
+    if (!studyGuide) {
+      return res.status(404).json({ error: "No relevant documents found for study guide generation" });
+    }
+
+    res.json({ message: "Study guide generated from voice command", studyGuide });
+  } catch (error) {
+    console.error("Voice study guide error:", error);
+    res.status(500).json({ error: "Failed to generate study guide from voice command" });
+  }
+});
+
+// Voice history route
+router.get("/api/voice/history", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const history = await storage.getVoiceCommandHistory(res.locals.targetUserId);
+    res.json(history.map(entry => ({
+      command: entry.command,
+      response: entry.response,
+      action: entry.category,
+      courseId: entry.courseId,
+      timestamp: entry.timestamp
+    })));
+  } catch (error) {
+    console.error("Voice history error:", error);
+    res.status(500).json({ error: "Failed to get voice history" });
+  }
+});
+
+// Voice analytics routes
+const ANALYTICS_TIMEFRAMES = ['day', 'week', 'month'] as const;
+
+router.get("/api/voice/analytics/insights", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const userId: number = res.locals.targetUserId;
+    const { timeframe, from, to } = req.query;
+
+    let range: 'day' | 'week' | 'month' | { from: Date; to: Date } = 'week';
+    if (typeof from === 'string') {
+      const fromDate = new Date(from);
+      const toDate = typeof to === 'string' ? new Date(to) : new Date();
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      range = { from: fromDate, to: toDate };
+    } else if (ANALYTICS_TIMEFRAMES.includes(timeframe as any)) {
+      range = timeframe as 'day' | 'week' | 'month';
+    }
+
+    const insights = await voiceAnalyticsService.generateAnalyticsInsights(userId, range);
+    res.json({ insights });
+  } catch (error) {
+    console.error("Voice analytics insights error:", error);
+    res.status(500).json({ error: "Failed to get voice analytics insights" });
+  }
+});
+
+router.get("/api/voice/analytics/dashboard", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const dashboard = await voiceAnalyticsService.getPerformanceDashboard(res.locals.targetUserId);
+    res.json(dashboard);
+  } catch (error) {
+    console.error("Voice analytics dashboard error:", error);
+    res.status(500).json({ error: "Failed to get voice analytics dashboard" });
+  }
+});
+
+const understandingFeedbackSchema = z.object({
+  understanding: z.number().int().min(1).max(5), // "How well did that answer land?", 1-5
+});
+
+// The learner's rating of a reply, which the dashboard's effectiveness score is built from
+router.post("/api/voice/interactions/:id/feedback", requireAuth, async (req, res) => {
+  try {
+    const result = understandingFeedbackSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid input", details: result.error.issues });
+    }
+
+    const recorded = await voiceAnalyticsService.trackRealTimeLearningEffectiveness(
+      req.session.userId!,
+      req.params.id,
+      'immediate_understanding',
+      result.data.understanding
+    );
+    if (!recorded) {
+      return res.status(404).json({ error: "Interaction not found" });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Voice feedback error:", error);
+    res.status(500).json({ error: "Failed to record feedback" });
+  }
+});
+
+router.get("/api/voice/analytics/recommendations", requireUserAccess(userIdFromQuery()), async (req, res) => {
+  try {
+    const recommendations = await voiceAnalyticsService.getOptimizationRecommendations(res.locals.targetUserId);
+    res.json(recommendations);
+  } catch (error) {
+    console.error("Voice analytics recommendations error:", error);
+    res.status(500).json({ error: "Failed to get voice analytics recommendations" });
+  }
+});
+
+export default router;
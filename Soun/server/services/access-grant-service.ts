@@ -0,0 +1,103 @@
+import { and, eq, or } from "drizzle-orm";
+import { db } from "../db";
+import { accessGrants, users, type AccessGrant } from "../../shared/schema";
+
+export type GrantRole = 'tutor' | 'teacher';
+export type Permission = 'read' | 'write';
+
+// Tutors can look; teachers can also record progress, e.g. mark a learning path step done
+const GRANT_PERMISSIONS: Record<GrantRole, Permission[]> = {
+  tutor: ['read'],
+  teacher: ['read', 'write'],
+};
+
+export interface GrantSummary {
+  id: number;
+  role: string;
+  createdAt: Date;
+  user: { id: number; username: string; firstName: string; lastName: string };
+}
+
+class AccessGrantService {
+  /**
+   * Whether a user may act on another user's data through a grant. Owning the data is
+   * checked by the caller; this only answers for other users.
+   */
+  async can(userId: number, ownerId: number, permission: Permission): Promise<boolean> {
+    const [grant] = await db
+      .select()
+      .from(accessGrants)
+      .where(and(eq(accessGrants.ownerId, ownerId), eq(accessGrants.granteeId, userId)));
+
+    if (!grant) return false;
+    const permissions = GRANT_PERMISSIONS[grant.role as GrantRole] || [];
+    return permissions.includes(permission);
+  }
+
+  /**
+   * Grants the user gave to others, and grants others gave to the user
+   */
+  async getGrants(userId: number): Promise<{ given: GrantSummary[]; received: GrantSummary[] }> {
+    const rows = await db
+      .select({
+        grant: accessGrants,
+        owner: { id: users.id, username: users.username, firstName: users.firstName, lastName: users.lastName },
+      })
+      .from(accessGrants)
+      .innerJoin(users, or(
+        and(eq(accessGrants.ownerId, userId), eq(users.id, accessGrants.granteeId)),
+        and(eq(accessGrants.granteeId, userId), eq(users.id, accessGrants.ownerId))
+      ))
+      .where(or(eq(accessGrants.ownerId, userId), eq(accessGrants.granteeId, userId)));
+
+    const toSummary = (row: typeof rows[number]): GrantSummary => ({
+      id: row.grant.id,
+      role: row.grant.role,
+      createdAt: row.grant.createdAt,
+      user: row.owner,
+    });
+
+    return {
+      given: rows.filter(row => row.grant.ownerId === userId).map(toSummary),
+      received: rows.filter(row => row.grant.granteeId === userId).map(toSummary),
+    };
+  }
+
+  /**
+   * Share the owner's data with another user, or change the role of an existing grant.
+   * Returns null when no user has that username.
+   */
+  async grant(ownerId: number, granteeUsername: string, role: GrantRole): Promise<AccessGrant | null> {
+    const [grantee] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, granteeUsername));
+    if (!grantee) return null;
+
+    const [saved] = await db
+      .insert(accessGrants)
+      .values({ ownerId, granteeId: grantee.id, role })
+      .onConflictDoUpdate({
+        target: [accessGrants.ownerId, accessGrants.granteeId],
+        set: { role }
+      })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Either side can end a grant: the owner to stop sharing, the grantee to step away
+   */
+  async revoke(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(accessGrants)
+      .where(and(
+        eq(accessGrants.id, id),
+        or(eq(accessGrants.ownerId, userId), eq(accessGrants.granteeId, userId))
+      ))
+      .returning({ id: accessGrants.id });
+    return !!deleted;
+  }
+}
+
+export const accessGrantService = new AccessGrantService();
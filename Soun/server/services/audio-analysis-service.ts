@@ -0,0 +1,455 @@
+import { OpusDecoder } from "opus-decoder";
+
+// Loudness is measured over frames this long
+const FRAME_SECONDS = 0.02;
+// Opus is decoded at the lowest rate that still covers speech; levels don't need more
+const OPUS_SAMPLE_RATE = 16000;
+const OPUS_BATCH_FRAMES = 500;
+// Silences shorter than this are gaps between words, not pauses
+const MIN_PAUSE_SECONDS = 0.3;
+// Speech must be at least this far above the noise floor
+const MIN_SPEECH_MARGIN_DB = 6;
+const SILENCE_DB = -100;
+
+// Matroska element ids the demuxer needs; masters are walked into, everything else is skipped
+const EBML_ID = {
+  segment: 0x18538067,
+  cluster: 0x1f43b675,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  blockGroup: 0xa0,
+  trackNumber: 0xd7,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  simpleBlock: 0xa3,
+  block: 0xa1,
+};
+const EBML_MASTERS = [EBML_ID.segment, EBML_ID.cluster, EBML_ID.tracks, EBML_ID.trackEntry, EBML_ID.blockGroup];
+
+export class AudioDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioDecodeError";
+  }
+}
+
+export interface AudioLevels {
+  duration: number; // seconds
+  frameSeconds: number;
+  levels: Float32Array; // RMS per frame, 0-1
+}
+
+export interface Pause {
+  start: number;
+  end: number;
+}
+
+export interface SpeechActivity {
+  voiced: boolean[]; // Per level frame
+  thresholdDb: number;
+  speechStart: number; // First and last speech, seconds; both 0 when nothing was said
+  speechEnd: number;
+  speakingSeconds: number;
+  pauses: Pause[]; // Silences between speech, MIN_PAUSE_SECONDS or longer
+}
+
+export interface VolumeStats {
+  averageDb: number; // While speaking, dBFS
+  peakDb: number;
+  variationDb: number; // Standard deviation while speaking; low means monotone loudness
+}
+
+interface OpusHead {
+  channels: number;
+  preSkip: number;
+  streamCount?: number;
+  coupledStreamCount?: number;
+  channelMappingTable?: number[];
+}
+
+/**
+ * Accumulates mono samples into per-frame RMS levels so whole recordings never sit in memory as PCM
+ */
+class LevelMeter {
+  private readonly frameSize: number;
+  private readonly levels: number[] = [];
+  private sum = 0;
+  private count = 0;
+  private total = 0;
+
+  constructor(private readonly sampleRate: number) {
+    this.frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  }
+
+  add(sample: number) {
+    this.sum += sample * sample;
+    this.total++;
+    if (++this.count === this.frameSize) this.flush();
+  }
+
+  addChannels(channelData: Float32Array[], length: number) {
+    const channels = channelData.length;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels; c++) sample += channelData[c][i];
+      this.add(sample / channels);
+    }
+  }
+
+  finish(): AudioLevels {
+    if (this.count > 0) this.flush();
+    return {
+      duration: this.total / this.sampleRate,
+      frameSeconds: this.frameSize / this.sampleRate,
+      levels: Float32Array.from(this.levels),
+    };
+  }
+
+  private flush() {
+    this.levels.push(Math.sqrt(this.sum / this.count));
+    this.sum = 0;
+    this.count = 0;
+  }
+}
+
+class AudioAnalysisService {
+  /**
+   * Loudness over time for a WAV, WebM or Ogg (Opus) recording.
+   * Throws AudioDecodeError for other formats or damaged files.
+   */
+  async measure(buffer: Buffer): Promise<AudioLevels> {
+    const magic = buffer.subarray(0, 4).toString("latin1");
+    if (magic === "RIFF" && buffer.subarray(8, 12).toString("latin1") === "WAVE") {
+      return this.measureWav(buffer);
+    }
+    if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) {
+      const { head, frames } = this.demuxWebm(buffer);
+      return this.measureOpus(head, frames);
+    }
+    if (magic === "OggS") {
+      const { head, frames } = this.demuxOgg(buffer);
+      return this.measureOpus(head, frames);
+    }
+    throw new AudioDecodeError("Unsupported audio format; upload WAV, WebM or Ogg audio");
+  }
+
+  /**
+   * Splits the recording into speech and silence. The threshold adapts to the recording: it sits
+   * between the noise floor and the speech level, so quiet microphones and noisy rooms both work.
+   */
+  detectSpeech(audio: AudioLevels): SpeechActivity {
+    const db = Array.from(audio.levels, toDb);
+    const sorted = db.slice().sort((a, b) => a - b);
+    const floor = percentile(sorted, 0.1);
+    const speech = percentile(sorted, 0.95);
+    const thresholdDb = Math.max(floor + MIN_SPEECH_MARGIN_DB, floor + (speech - floor) * 0.35);
+
+    const voiced = db.map(level => level > thresholdDb);
+    const minGap = Math.ceil(MIN_PAUSE_SECONDS / audio.frameSeconds);
+    const first = voiced.indexOf(true);
+    const last = voiced.lastIndexOf(true);
+
+    // Short gaps between words count as speech
+    const pauses: Pause[] = [];
+    let gapStart = -1;
+    for (let i = Math.max(first, 0); i <= last; i++) {
+      if (!voiced[i]) {
+        if (gapStart === -1) gapStart = i;
+        continue;
+      }
+      if (gapStart !== -1) {
+        if (i - gapStart < minGap) {
+          for (let j = gapStart; j < i; j++) voiced[j] = true;
+        } else {
+          pauses.push({ start: gapStart * audio.frameSeconds, end: i * audio.frameSeconds });
+        }
+        gapStart = -1;
+      }
+    }
+
+    const speakingFrames = voiced.filter(Boolean).length;
+    return {
+      voiced,
+      thresholdDb,
+      speechStart: first === -1 ? 0 : first * audio.frameSeconds,
+      speechEnd: last === -1 ? 0 : (last + 1) * audio.frameSeconds,
+      speakingSeconds: speakingFrames * audio.frameSeconds,
+      pauses,
+    };
+  }
+
+  /**
+   * Loudness of the frames above the speech threshold; null when no speech was detected
+   */
+  volumeStats(audio: AudioLevels, activity: SpeechActivity, from: number = 0, to: number = audio.duration): VolumeStats | null {
+    const db: number[] = [];
+    const last = Math.min(audio.levels.length, Math.ceil(to / audio.frameSeconds));
+    for (let i = Math.max(0, Math.floor(from / audio.frameSeconds)); i < last; i++) {
+      const level = toDb(audio.levels[i]);
+      if (level > activity.thresholdDb) db.push(level);
+    }
+    if (db.length === 0) return null;
+
+    const averageDb = db.reduce((sum, level) => sum + level, 0) / db.length;
+    const variance = db.reduce((sum, level) => sum + (level - averageDb) ** 2, 0) / db.length;
+    return {
+      averageDb: round(averageDb),
+      peakDb: round(db.reduce((max, level) => Math.max(max, level), SILENCE_DB)),
+      variationDb: round(Math.sqrt(variance)),
+    };
+  }
+
+  private measureWav(buffer: Buffer): AudioLevels {
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bits = 0;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.subarray(offset, offset + 4).toString("latin1");
+      const size = buffer.readUInt32LE(offset + 4);
+      const start = offset + 8;
+
+      if (id === "fmt " && start + 16 <= buffer.length) {
+        format = buffer.readUInt16LE(start);
+        channels = buffer.readUInt16LE(start + 2);
+        sampleRate = buffer.readUInt32LE(start + 4);
+        bits = buffer.readUInt16LE(start + 14);
+        // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of the sub-format GUID
+        if (format === 0xfffe && size >= 26) format = buffer.readUInt16LE(start + 24);
+      } else if (id === "data") {
+        if (!channels || !sampleRate) throw new AudioDecodeError("WAV file has no format chunk before its data");
+        // Streamed recordings may leave the size unset
+        const end = Math.min(buffer.length, size === 0 || size === 0xffffffff ? buffer.length : start + size);
+        return this.readPcm(buffer.subarray(start, end), format, channels, sampleRate, bits);
+      }
+      offset = start + size + (size % 2);
+    }
+    throw new AudioDecodeError("WAV file has no audio data");
+  }
+
+  private readPcm(data: Buffer, format: number, channels: number, sampleRate: number, bits: number): AudioLevels {
+    const bytes = bits / 8;
+    let read: (offset: number) => number;
+    if (format === 1 && bits === 8) read = offset => (data[offset] - 128) / 128;
+    else if (format === 1 && bits === 16) read = offset => data.readInt16LE(offset) / 32768;
+    else if (format === 1 && bits === 24) read = offset => data.readIntLE(offset, 3) / 8388608;
+    else if (format === 1 && bits === 32) read = offset => data.readInt32LE(offset) / 2147483648;
+    else if (format === 3 && bits === 32) read = offset => data.readFloatLE(offset);
+    else if (format === 3 && bits === 64) read = offset => data.readDoubleLE(offset);
+    else throw new AudioDecodeError(`Unsupported WAV encoding (format ${format}, ${bits}-bit)`);
+
+    const meter = new LevelMeter(sampleRate);
+    const blockAlign = bytes * channels;
+    for (let offset = 0; offset + blockAlign <= data.length; offset += blockAlign) {
+      let sample = 0;
+      for (let c = 0; c < channels; c++) sample += read(offset + c * bytes);
+      meter.add(sample / channels);
+    }
+    return meter.finish();
+  }
+
+  private async measureOpus(head: OpusHead, frames: Uint8Array[]): Promise<AudioLevels> {
+    const decoder = new OpusDecoder({ ...head, sampleRate: OPUS_SAMPLE_RATE });
+    await decoder.ready;
+    const meter = new LevelMeter(OPUS_SAMPLE_RATE);
+    try {
+      for (let i = 0; i < frames.length; i += OPUS_BATCH_FRAMES) {
+        const { channelData, samplesDecoded } = decoder.decodeFrames(frames.slice(i, i + OPUS_BATCH_FRAMES));
+        meter.addChannels(channelData, samplesDecoded);
+      }
+    } finally {
+      decoder.free();
+    }
+    return meter.finish();
+  }
+
+  /**
+   * Opus frames of the first Opus track. Master elements are read as a flat stream rather than by
+   * size, because browser recorders write clusters and segments with an unknown size.
+   */
+  private demuxWebm(buffer: Buffer): { head: OpusHead; frames: Uint8Array[] } {
+    const tracks: Array<{ number: number; codec: string; codecPrivate?: Buffer }> = [];
+    const blocks = new Map<number, Uint8Array[]>();
+    let offset = 0;
+
+    while (offset < buffer.length) {
+      const id = readVint(buffer, offset, true);
+      if (!id) break;
+      const size = readVint(buffer, offset + id.length, false);
+      if (!size) break;
+      const start = offset + id.length + size.length;
+
+      if (EBML_MASTERS.includes(id.value)) {
+        if (id.value === EBML_ID.trackEntry) tracks.push({ number: 0, codec: "" });
+        offset = start;
+        continue;
+      }
+      if (size.value === -1) throw new AudioDecodeError("WebM file has an element of unknown size");
+
+      const data = buffer.subarray(start, Math.min(buffer.length, start + size.value));
+      const track = tracks[tracks.length - 1];
+      if (id.value === EBML_ID.trackNumber && track) track.number = data.readUIntBE(0, Math.min(data.length, 6));
+      else if (id.value === EBML_ID.codecId && track) track.codec = data.toString("latin1").replace(/\0+$/, "");
+      else if (id.value === EBML_ID.codecPrivate && track) track.codecPrivate = data;
+      else if (id.value === EBML_ID.simpleBlock || id.value === EBML_ID.block) {
+        const block = readBlock(data);
+        if (block) {
+          const list = blocks.get(block.track) || [];
+          block.frames.forEach(frame => list.push(frame));
+          blocks.set(block.track, list);
+        }
+      }
+      offset = start + size.value;
+    }
+
+    const audio = tracks.find(track => track.codec === "A_OPUS");
+    if (!audio) {
+      throw new AudioDecodeError(tracks.length > 0
+        ? "Only Opus audio is supported in WebM recordings"
+        : "WebM file has no audio track");
+    }
+    return { head: parseOpusHead(audio.codecPrivate), frames: blocks.get(audio.number) || [] };
+  }
+
+  /**
+   * Opus packets of the first logical stream in an Ogg file
+   */
+  private demuxOgg(buffer: Buffer): { head: OpusHead; frames: Uint8Array[] } {
+    const packets: Buffer[] = [];
+    let pending: Buffer[] = [];
+    let serial: number | null = null;
+    let offset = 0;
+
+    while (offset + 27 <= buffer.length && buffer.subarray(offset, offset + 4).toString("latin1") === "OggS") {
+      const pageSerial = buffer.readUInt32LE(offset + 14);
+      const segments = buffer[offset + 26];
+      const table = buffer.subarray(offset + 27, offset + 27 + segments);
+      let position = offset + 27 + segments;
+      if (serial === null) serial = pageSerial;
+
+      for (let i = 0; i < table.length; i++) {
+        const segment = buffer.subarray(position, position + table[i]);
+        position += table[i];
+        if (pageSerial !== serial) continue;
+        pending.push(segment);
+        // A segment shorter than 255 bytes ends its packet
+        if (table[i] < 255) {
+          packets.push(Buffer.concat(pending));
+          pending = [];
+        }
+      }
+      offset = position;
+    }
+
+    if (packets.length === 0 || packets[0].subarray(0, 8).toString("latin1") !== "OpusHead") {
+      throw new AudioDecodeError("Only Opus audio is supported in Ogg recordings");
+    }
+    // The second packet holds the comment tags
+    return { head: parseOpusHead(packets[0]), frames: packets.slice(2) };
+  }
+}
+
+/**
+ * EBML variable-length integer. Ids keep their length marker; sizes drop it and report -1 when
+ * every value bit is set, which means "unknown size".
+ */
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  if (first === 0) return null;
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+}
+
+/**
+ * Track number and frames of a Matroska (Simple)Block, unpacking all three lacing schemes
+ */
+function readBlock(data: Buffer): { track: number; frames: Uint8Array[] } | null {
+  const track = readVint(data, 0, false);
+  if (!track || data.length < track.length + 3) return null;
+
+  const flags = data[track.length + 2];
+  let offset = track.length + 3;
+  const lacing = (flags >> 1) & 0x03;
+  if (lacing === 0) return { track: track.value, frames: [data.subarray(offset)] };
+
+  const count = data[offset++] + 1;
+  const sizes: number[] = [];
+  if (lacing === 1) {
+    // Xiph: each size is a run of 255s plus a final byte
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let byte: number;
+      do {
+        byte = data[offset++];
+        size += byte;
+      } while (byte === 255 && offset < data.length);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    // EBML: the first size, then signed differences
+    const first = readVint(data, offset, false);
+    if (!first) return null;
+    sizes.push(first.value);
+    offset += first.length;
+    for (let i = 1; i < count - 1; i++) {
+      const delta = readVint(data, offset, false);
+      if (!delta) return null;
+      sizes.push(sizes[i - 1] + delta.value - (Math.pow(2, 7 * delta.length - 1) - 1));
+      offset += delta.length;
+    }
+  } else {
+    const size = Math.floor((data.length - offset) / count);
+    for (let i = 0; i < count - 1; i++) sizes.push(size);
+  }
+
+  const frames: Uint8Array[] = [];
+  sizes.forEach(size => {
+    frames.push(data.subarray(offset, offset + size));
+    offset += size;
+  });
+  frames.push(data.subarray(offset));
+  return { track: track.value, frames };
+}
+
+function parseOpusHead(data: Buffer | undefined): OpusHead {
+  if (!data || data.length < 19 || data.subarray(0, 8).toString("latin1") !== "OpusHead") {
+    throw new AudioDecodeError("Opus stream has no valid header");
+  }
+  const channels = data[9];
+  const head: OpusHead = { channels, preSkip: data.readUInt16LE(10) };
+  // Mapping family 1+ lists how streams map onto channels
+  if (data[18] !== 0 && data.length >= 21 + channels) {
+    head.streamCount = data[19];
+    head.coupledStreamCount = data[20];
+    head.channelMappingTable = Array.from(data.subarray(21, 21 + channels));
+  }
+  return head;
+}
+
+function toDb(level: number): number {
+  return level > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(level)) : SILENCE_DB;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return SILENCE_DB;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export const audioAnalysisService = new AudioAnalysisService();
@@ -0,0 +1,213 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { courses, documents } from "../../shared/schema";
+
+// Profiles are rebuilt after this long, or right away when invalidate() is called
+const PROFILE_TTL_MS = 5 * 60 * 1000;
+// Below this the assistant stays in the current course rather than switching
+export const MIN_SWITCH_CONFIDENCE = 0.5;
+// Term matches alone never reach the certainty of saying the course code or name
+const MAX_TERM_CONFIDENCE = 0.85;
+const MAX_MATCHED_TERMS = 5;
+
+// How much a matching term counts, by where it appears in the course
+const TERM_WEIGHTS = {
+  name: 3,
+  keyTopic: 2,
+  title: 1.5,
+  description: 1
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'about', 'what', 'when', 'where', 'which', 'who', 'why', 'how',
+  'can', 'could', 'would', 'should', 'does', 'did', 'are', 'was', 'were', 'this', 'that', 'these',
+  'those', 'from', 'into', 'your', 'you', 'our', 'its', 'their', 'there', 'have', 'has', 'had',
+  'tell', 'explain', 'me', 'please', 'give', 'show', 'some', 'more', 'than', 'then', 'also',
+  'course', 'class', 'lecture', 'chapter', 'week', 'notes', 'slides', 'document', 'introduction',
+  'intro', 'part', 'study', 'help', 'need', 'want', 'know', 'like', 'just', 'one', 'two', 'new'
+]);
+
+export interface CourseDetection {
+  courseId: string;
+  courseName: string;
+  confidence: number; // 0.0 to 1.0
+  matchedTerms: string[];
+}
+
+/**
+ * The shape processAdvancedVoiceCommand and the clients expect when the assistant moves
+ * to another course because of what the user asked
+ */
+export interface ContextSwitch {
+  detectedCourse: string;
+  courseName: string;
+  switchedFrom: string | null;
+  confidence: number;
+  matchedTerms: string[];
+}
+
+interface CourseProfile {
+  courseId: string;
+  courseName: string;
+  namePhrase: string;
+  terms: Map<string, number>; // term -> weight
+}
+
+class CourseDetectionService {
+  private profiles = new Map<number, { builtAt: number; profiles: CourseProfile[] }>();
+
+  /**
+   * The user's course the command is most likely about, or null when nothing matches
+   */
+  async detect(userId: number, command: string): Promise<CourseDetection | null> {
+    const profiles = await this.getProfiles(userId);
+    if (profiles.length === 0) return null;
+
+    const text = command.toLowerCase();
+
+    // Saying the course code or full name is unambiguous
+    for (const profile of profiles) {
+      if (new RegExp(`\\b${escapeRegExp(profile.courseId.toLowerCase())}\\b`).test(text)) {
+        return { courseId: profile.courseId, courseName: profile.courseName, confidence: 0.95, matchedTerms: [profile.courseId] };
+      }
+    }
+    for (const profile of profiles) {
+      if (profile.namePhrase.length > 3 && text.includes(profile.namePhrase)) {
+        return { courseId: profile.courseId, courseName: profile.courseName, confidence: 0.9, matchedTerms: [profile.courseName] };
+      }
+    }
+
+    const commandTerms = Array.from(new Set(tokenize(text)));
+    if (commandTerms.length === 0) return null;
+
+    // A term found in several courses says little about which one is meant
+    const courseFrequency: Record<string, number> = {};
+    profiles.forEach(profile => {
+      commandTerms.forEach(term => {
+        if (profile.terms.has(term)) courseFrequency[term] = (courseFrequency[term] || 0) + 1;
+      });
+    });
+
+    const scored = profiles
+      .map(profile => {
+        const matched = commandTerms.filter(term => profile.terms.has(term));
+        const score = matched.reduce((sum, term) => sum + profile.terms.get(term)! / courseFrequency[term], 0);
+        matched.sort((a, b) => profile.terms.get(b)! - profile.terms.get(a)!);
+        return { profile, score, matched };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (scored.length === 0) return null;
+
+    const best = scored[0];
+    const runnerUp = scored.length > 1 ? scored[1].score : 0;
+    // Grows with the evidence and shrinks when another course is nearly as good a match
+    const strength = 1 - Math.exp(-best.score / 3);
+    const margin = (best.score - runnerUp) / best.score;
+    const confidence = Math.min(MAX_TERM_CONFIDENCE, strength * (0.5 + 0.5 * margin));
+
+    return {
+      courseId: best.profile.courseId,
+      courseName: best.profile.courseName,
+      confidence: Math.round(confidence * 100) / 100,
+      matchedTerms: best.matched.slice(0, MAX_MATCHED_TERMS)
+    };
+  }
+
+  /**
+   * Describe a detection as a context switch away from the course the user was in.
+   * Null when the detection is the current course or not confident enough to switch.
+   */
+  toContextSwitch(detection: CourseDetection | null, currentCourseId: string | null): ContextSwitch | null {
+    if (!detection || detection.courseId === currentCourseId || detection.confidence < MIN_SWITCH_CONFIDENCE) {
+      return null;
+    }
+    return {
+      detectedCourse: detection.courseId,
+      courseName: detection.courseName,
+      switchedFrom: currentCourseId,
+      confidence: detection.confidence,
+      matchedTerms: detection.matchedTerms
+    };
+  }
+
+  /**
+   * Forget a user's profiles after their courses or documents change
+   */
+  invalidate(userId: number): void {
+    this.profiles.delete(userId);
+  }
+
+  private async getProfiles(userId: number): Promise<CourseProfile[]> {
+    const cached = this.profiles.get(userId);
+    if (cached && Date.now() - cached.builtAt < PROFILE_TTL_MS) {
+      return cached.profiles;
+    }
+
+    const [userCourses, userDocuments] = await Promise.all([
+      db.select().from(courses).where(eq(courses.userId, userId)),
+      db
+        .select({ courseId: documents.courseId, title: documents.title, metadata: documents.metadata })
+        .from(documents)
+        .where(eq(documents.userId, userId))
+    ]);
+
+    const profiles = userCourses.map(course => {
+      const terms = new Map<string, number>();
+      const add = (text: string | null | undefined, weight: number) => {
+        tokenize((text || "").toLowerCase()).forEach(term => {
+          terms.set(term, Math.max(terms.get(term) || 0, weight));
+        });
+      };
+
+      add(course.name, TERM_WEIGHTS.name);
+      add(course.description, TERM_WEIGHTS.description);
+      userDocuments
+        .filter(doc => doc.courseId === course.courseId)
+        .forEach(doc => {
+          add(doc.title.replace(/\.[a-z0-9]+$/i, ""), TERM_WEIGHTS.title);
+          keyTermsOf(doc.metadata).forEach(term => add(term, TERM_WEIGHTS.keyTopic));
+        });
+
+      return {
+        courseId: course.courseId,
+        courseName: course.name,
+        namePhrase: course.name.toLowerCase().trim(),
+        terms
+      };
+    });
+
+    this.profiles.set(userId, { builtAt: Date.now(), profiles });
+    return profiles;
+  }
+}
+
+/**
+ * Key topics and concept names from a document's stored analysis
+ */
+function keyTermsOf(metadata: string | null): string[] {
+  if (!metadata) return [];
+  try {
+    const analysis = JSON.parse(metadata);
+    const topics: string[] = Array.isArray(analysis.keyTopics) ? analysis.keyTopics : [];
+    const concepts: string[] = Array.isArray(analysis.concepts)
+      ? analysis.concepts.map((concept: any) => concept?.concept).filter(Boolean)
+      : [];
+    return topics.concat(concepts).filter(term => typeof term === 'string');
+  } catch {
+    return [];
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter(term => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export const courseDetectionService = new CourseDetectionService();
@@ -1,7 +1,16 @@
-import OpenAI from 'openai';
 import { storage } from '../storage';
+import { documentIndexService, type ChunkHit } from './document-index-service';
+import type { Document } from '../../shared/schema';
+import { llm } from './llm-provider';
+
+const METHOD_LABELS: Record<ChunkHit['method'], string> = {
+  vector: 'Semantic',
+  keyword: 'Keyword',
+  hybrid: 'Semantic and keyword'
+};
 
 interface SearchResult {
+  chunkId: number;
   documentId: number;
   title: string;
   filename: string;
@@ -9,6 +18,26 @@ interface SearchResult {
   relevantContent: string;
   relevanceScore: number;
   summary: string;
+  startOffset: number; // character range of the passage inside the document content
+  endOffset: number;
+  page?: number;
+  slide?: number;
+  headingPath?: string[];
+}
+
+interface Citation {
+  marker: number; // the n in an inline [n] marker of the synthesized answer
+  chunkId: number;
+  documentId: number;
+  title: string;
+  filename: string;
+  courseId: string;
+  excerpt: string;
+  startOffset: number;
+  endOffset: number;
+  page?: number;
+  slide?: number;
+  headingPath?: string[];
 }
 
 interface CrossFileSearchResult {
@@ -16,19 +45,14 @@ interface CrossFileSearchResult {
   totalDocuments: number;
   relevantDocuments: SearchResult[];
   synthesizedAnswer: string;
+  citations: Citation[];
   sources: string[];
 }
 
-class CrossFileSearchService {
-  private openai: OpenAI;
-
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is required for cross-file search');
-    }
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
+// Matches [2] as well as grouped markers like [1, 3], with the whitespace before them
+const CITATION_MARKER = /(\s*)\[(\d+(?:\s*,\s*\d+)*)\]/g;
 
+class CrossFileSearchService {
   /**
    * Search across all user's documents for relevant information
    */
@@ -50,22 +74,24 @@ class CrossFileSearchService {
           totalDocuments: 0,
           relevantDocuments: [],
           synthesizedAnswer: "No documents found to search through.",
+          citations: [],
           sources: []
         };
       }
 
-      // Analyze each document for relevance to the query
-      const relevantDocuments = await this.findRelevantDocuments(documents, query, maxResults);
+      // Top-k retrieval over the indexed chunks of those documents
+      const relevantDocuments = await this.findRelevantChunks(documents, query, maxResults);
 
-      // Synthesize an answer from the most relevant documents
-      const synthesizedAnswer = await this.synthesizeAnswer(query, relevantDocuments);
+      // Synthesize an answer from the most relevant passages, citing them by number
+      const { answer, citations } = await this.synthesizeAnswer(query, relevantDocuments);
 
       return {
         query,
         totalDocuments: documents.length,
         relevantDocuments,
-        synthesizedAnswer,
-        sources: relevantDocuments.map(doc => `${doc.filename} (${doc.courseId})`)
+        synthesizedAnswer: answer,
+        citations,
+        sources: Array.from(new Set(citations.map(citation => `${citation.filename}${this.formatLocation(citation)} (${citation.courseId})`)))
       };
 
     } catch (error) {
@@ -75,6 +101,7 @@ class CrossFileSearchService {
         totalDocuments: 0,
         relevantDocuments: [],
         synthesizedAnswer: "Search temporarily unavailable. Please try again.",
+        citations: [],
         sources: []
       };
     }
@@ -86,7 +113,7 @@ class CrossFileSearchService {
   private async getAllUserDocuments(userId: number) {
     // Get all courses for the user first
     const courses = await storage.getCourses(userId);
-    const allDocuments = [];
+    const allDocuments: Document[] = [];
 
     for (const course of courses) {
       const courseDocuments = await storage.getDocumentsByCourse(userId, course.courseId);
@@ -97,101 +124,68 @@ class CrossFileSearchService {
   }
 
   /**
-   * Analyze documents for relevance to the search query
+   * Retrieve the passages that best match the query, one result per chunk
    */
-  private async findRelevantDocuments(
-    documents: any[], 
-    query: string, 
+  private async findRelevantChunks(
+    documents: Document[],
+    query: string,
     maxResults: number
   ): Promise<SearchResult[]> {
-    const relevantDocs: SearchResult[] = [];
-
-    for (const doc of documents) {
-      if (!doc.content) continue;
-
-      try {
-        // Use OpenAI to determine relevance and extract relevant content
-        const relevanceAnalysis = await this.analyzeDocumentRelevance(doc, query);
-        
-        if (relevanceAnalysis.relevanceScore > 0.3) { // Threshold for relevance
-          relevantDocs.push({
-            documentId: doc.id,
-            title: doc.title,
-            filename: doc.filename,
-            courseId: doc.courseId,
-            relevantContent: relevanceAnalysis.relevantContent,
-            relevanceScore: relevanceAnalysis.relevanceScore,
-            summary: relevanceAnalysis.summary
-          });
-        }
-      } catch (error) {
-        console.error(`Error analyzing document ${doc.id}:`, error);
-        // Fallback to simple text matching
-        if (this.simpleTextMatch(doc.content, query)) {
-          relevantDocs.push({
-            documentId: doc.id,
-            title: doc.title,
-            filename: doc.filename,
-            courseId: doc.courseId,
-            relevantContent: this.extractRelevantText(doc.content, query),
-            relevanceScore: 0.5,
-            summary: `Content from ${doc.filename}`
-          });
-        }
-      }
-    }
+    const hits = await documentIndexService.search(query, documents, maxResults);
+    const documentsById = new Map(documents.map(doc => [doc.id, doc] as [number, Document]));
 
-    // Sort by relevance score and return top results
-    return relevantDocs
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, maxResults);
+    return hits.map(hit => this.toSearchResult(hit, documentsById.get(hit.chunk.documentId)!));
+  }
+
+  private toSearchResult(hit: ChunkHit, document: Document): SearchResult {
+    const { chunk } = hit;
+    const result: SearchResult = {
+      chunkId: chunk.id,
+      documentId: chunk.documentId,
+      title: document.title,
+      filename: document.filename,
+      courseId: chunk.courseId,
+      relevantContent: chunk.content,
+      relevanceScore: Math.max(0, Math.min(1, hit.score)),
+      summary: '',
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      page: chunk.page ?? undefined,
+      slide: chunk.slide ?? undefined,
+      headingPath: chunk.headingPath && chunk.headingPath.length > 0 ? chunk.headingPath : undefined
+    };
+    result.summary = `${METHOD_LABELS[hit.method]} match in ${document.filename}${this.formatLocation(result)}`;
+    return result;
   }
 
   /**
-   * Use AI to analyze document relevance to the query
+   * Human-readable position of a passage, e.g. " (p. 3)" or " (slide 4)"
    */
-  private async analyzeDocumentRelevance(document: any, query: string) {
-    const prompt = `
-Analyze this document content for relevance to the query: "${query}"
-
-Document: ${document.filename}
-Course: ${document.courseId}
-Content: ${document.content.substring(0, 2000)}
-
-Please provide:
-1. Relevance score (0.0 to 1.0)
-2. Most relevant content excerpt (max 300 words)
-3. Brief summary of how this document relates to the query
-
-Format as JSON:
-{
-  "relevanceScore": 0.8,
-  "relevantContent": "specific relevant text...",
-  "summary": "explanation of relevance..."
-}
-`;
-
-    const response = await this.openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-      max_tokens: 500
-    });
-
-    return JSON.parse(response.choices[0].message.content || '{"relevanceScore": 0, "relevantContent": "", "summary": ""}');
+  private formatLocation(result: Pick<SearchResult, 'page' | 'slide' | 'headingPath'>): string {
+    if (result.page) return ` (p. ${result.page})`;
+    if (result.slide) return ` (slide ${result.slide})`;
+    if (result.headingPath) return ` (${result.headingPath.join(' > ')})`;
+    return '';
   }
 
   /**
-   * Synthesize a comprehensive answer from multiple relevant documents
+   * Synthesize a comprehensive answer from multiple relevant passages.
+   * Passage n is cited inline as [n]; citations only lists passages the answer actually refers to.
    */
-  private async synthesizeAnswer(query: string, relevantDocuments: SearchResult[]): Promise<string> {
+  private async synthesizeAnswer(query: string, relevantDocuments: SearchResult[]): Promise<{ answer: string; citations: Citation[] }> {
     if (relevantDocuments.length === 0) {
-      return "No relevant information found in the uploaded documents.";
+      return { answer: "No relevant information found in the uploaded documents.", citations: [] };
+    }
+
+    const citations = relevantDocuments.map((doc, index) => this.toCitation(doc, index + 1));
+
+    if (!llm.isLive) {
+      return { answer: this.summarizeExcerpts(relevantDocuments), citations: citations.slice(0, 3) };
     }
 
     try {
-      const documentSummaries = relevantDocuments.map(doc => 
-        `**${doc.filename}** (${doc.courseId}): ${doc.relevantContent}`
+      const documentSummaries = relevantDocuments.map((doc, index) => 
+        `[${index + 1}] **${doc.filename}${this.formatLocation(doc)}** (${doc.courseId}): ${doc.relevantContent}`
       ).join('\n\n');
 
       const prompt = `
@@ -202,73 +196,101 @@ ${documentSummaries}
 
 Please:
 1. Synthesize information from multiple sources when possible
-2. Clearly indicate which source(s) support each point
+2. Cite the passage(s) supporting each point inline with their number in square brackets, e.g. [1] or [2, 3]; only use the numbers listed above
 3. Highlight any contradictions or differences between sources
 4. Provide a clear, educational response
 5. If information is incomplete, mention what additional details might be helpful
 
 Answer:`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const answer = await llm.chat({
         messages: [{ role: "user", content: prompt }],
-        max_tokens: 800
+        maxTokens: 800
       });
+      if (!answer) {
+        return { answer: "Unable to synthesize answer from documents.", citations: [] };
+      }
 
-      return response.choices[0].message.content || "Unable to synthesize answer from documents.";
+      return this.resolveCitations(answer, citations);
 
     } catch (error) {
       console.error('Error synthesizing answer:', error);
-      // Fallback to simple concatenation
-      return relevantDocuments.map(doc => 
-        `From ${doc.filename}: ${doc.summary}`
-      ).join('\n\n');
+      return { answer: this.summarizeExcerpts(relevantDocuments), citations: citations.slice(0, 3) };
     }
   }
 
   /**
-   * Simple text matching fallback
+   * Drop markers that point at no passage and keep only the citations the answer uses
    */
-  private simpleTextMatch(content: string, query: string): boolean {
-    const queryWords = query.toLowerCase().split(' ').filter(word => word.length > 2);
-    const contentLower = content.toLowerCase();
-    
-    return queryWords.some(word => contentLower.includes(word));
+  private resolveCitations(answer: string, citations: Citation[]): { answer: string; citations: Citation[] } {
+    const used = new Set<number>();
+
+    const cleaned = answer.replace(CITATION_MARKER, (_match, space: string, numbers: string) => {
+      const valid = numbers
+        .split(',')
+        .map(n => parseInt(n.trim(), 10))
+        .filter(n => n >= 1 && n <= citations.length);
+      valid.forEach(n => used.add(n));
+      return valid.length > 0 ? `${space}[${valid.join(', ')}]` : '';
+    });
+
+    // An answer without any markers still came from these passages, so list them all
+    if (used.size === 0) {
+      return { answer: cleaned, citations };
+    }
+
+    return { answer: cleaned, citations: citations.filter(citation => used.has(citation.marker)) };
+  }
+
+  private toCitation(result: SearchResult, marker: number): Citation {
+    return {
+      marker,
+      chunkId: result.chunkId,
+      documentId: result.documentId,
+      title: result.title,
+      filename: result.filename,
+      courseId: result.courseId,
+      excerpt: result.relevantContent,
+      startOffset: result.startOffset,
+      endOffset: result.endOffset,
+      page: result.page,
+      slide: result.slide,
+      headingPath: result.headingPath
+    };
   }
 
   /**
-   * Extract relevant text around query matches
+   * Answer without a language model: the top passages, each with its source
    */
-  private extractRelevantText(content: string, query: string): string {
-    const queryWords = query.toLowerCase().split(' ');
-    const sentences = content.split(/[.!?]+/);
-    
-    const relevantSentences = sentences.filter(sentence => 
-      queryWords.some(word => sentence.toLowerCase().includes(word))
-    );
-
-    return relevantSentences.slice(0, 3).join('. ').substring(0, 300) + '...';
+  private summarizeExcerpts(relevantDocuments: SearchResult[]): string {
+    return relevantDocuments.slice(0, 3).map((doc, index) => {
+      const excerpt = doc.relevantContent.length > 300 ? doc.relevantContent.substring(0, 300) + '...' : doc.relevantContent;
+      return `From ${doc.filename}${this.formatLocation(doc)}: ${excerpt} [${index + 1}]`;
+    }).join('\n\n');
   }
 
   /**
-   * Find documents that reference specific topics across courses
+   * Find passages about a topic across courses, optionally skipping one course
    */
   async findTopicAcrossFiles(
     userId: number,
     topic: string,
-    excludeCourseId?: string
+    excludeCourseId?: string,
+    maxResults: number = 5
   ): Promise<SearchResult[]> {
-    const searchQuery = `information about ${topic}`;
-    const result = await this.searchAcrossFiles(userId, searchQuery);
-    
-    // Filter out excluded course if specified
-    if (excludeCourseId) {
-      result.relevantDocuments = result.relevantDocuments.filter(
-        doc => doc.courseId !== excludeCourseId
-      );
-    }
+    const documents = await this.getAllUserDocuments(userId);
 
-    return result.relevantDocuments;
+    // Filter out excluded course before retrieval so it doesn't take up result slots
+    const scope = excludeCourseId
+      ? documents.filter(doc => doc.courseId !== excludeCourseId)
+      : documents;
+
+    try {
+      return await this.findRelevantChunks(scope, topic, maxResults);
+    } catch (error) {
+      console.error('Topic search error:', error);
+      return [];
+    }
   }
 }
 
@@ -1,12 +1,5 @@
-import OpenAI from "openai";
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable must be set");
-}
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { documentExtractionService, type DocumentStructure, type ExtractionResult } from "./document-extraction-service";
+import { llm } from "./llm-provider";
 
 export interface DocumentAnalysis {
   summary: string;
@@ -70,8 +63,7 @@ export class DocumentAnalysisService {
 
       const prompt = this.buildAnalysisPrompt(analysisContent, filename, courseContext);
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const analysis = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -82,11 +74,8 @@ export class DocumentAnalysisService {
             content: prompt
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
-
-      const analysis = JSON.parse(response.choices[0].message.content || '{}');
       const formattedAnalysis = this.validateAndFormatAnalysis(analysis);
       
       // Add note about chunking if content was truncated
@@ -109,23 +98,43 @@ export class DocumentAnalysisService {
     fileType: string, 
     filename: string,
     courseContext?: string
-  ): Promise<{ extractedContent: string; analysis: DocumentAnalysis }> {
+  ): Promise<{ extractedContent: string; analysis: DocumentAnalysis; structure?: DocumentStructure }> {
     let extractedContent = '';
+    let structure: DocumentStructure | undefined;
 
     try {
       // Extract content based on file type
       switch (fileType) {
-        case 'application/pdf':
-          extractedContent = await this.extractFromPDF(fileBuffer);
+        case 'application/pdf': {
+          const pdf = await this.extractFromPDF(fileBuffer);
+          extractedContent = pdf.content;
+          structure = pdf.structure;
           break;
-        case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
-        case 'application/vnd.ms-powerpoint':
-          extractedContent = await this.extractFromPowerPoint(fileBuffer);
+        }
+        case 'application/vnd.openxmlformats-officedocument.presentationml.presentation': {
+          const presentation = await this.extractFromPowerPoint(fileBuffer);
+          extractedContent = presentation.content;
+          structure = presentation.structure;
           break;
-        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        case 'application/msword':
-          extractedContent = await this.extractFromWord(fileBuffer);
+        }
+        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+          const word = await this.extractFromWord(fileBuffer);
+          extractedContent = word.content;
+          structure = word.structure;
           break;
+        }
+        case 'application/vnd.ms-powerpoint': {
+          const presentation = await this.extractFromLegacyPowerPoint(fileBuffer);
+          extractedContent = presentation.content;
+          structure = presentation.structure;
+          break;
+        }
+        case 'application/msword': {
+          const word = await this.extractFromLegacyWord(fileBuffer);
+          extractedContent = word.content;
+          structure = word.structure;
+          break;
+        }
         case 'image/jpeg':
         case 'image/png':
         case 'image/gif':
@@ -168,6 +177,7 @@ export class DocumentAnalysisService {
       
       return { 
         extractedContent, 
+        structure,
         analysis: analysis || {
           keyTopics: [courseContext || 'uploaded-file'],
           learningObjectives: [`Study material for ${courseContext || 'course'}`],
@@ -212,8 +222,7 @@ export class DocumentAnalysisService {
     studentLevel: 'beginner' | 'intermediate' | 'advanced' = 'intermediate'
   ): Promise<string> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await llm.chat({
         messages: [
           {
             role: "system",
@@ -231,7 +240,7 @@ Provide a comprehensive explanation that helps students understand this topic th
         temperature: 0.4,
       });
 
-      return response.choices[0].message.content || '';
+      return response;
     } catch (error) {
       console.error('Teaching explanation error:', error);
       throw new Error('Failed to generate teaching explanation');
@@ -247,8 +256,7 @@ Provide a comprehensive explanation that helps students understand this topic th
     difficulty: 'mixed' | 'easy' | 'medium' | 'hard' = 'mixed'
   ): Promise<StudyQuestion[]> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -263,11 +271,8 @@ Content: ${documentContent}
 Return JSON with array of questions, each having: question, type, difficulty, topic, and answer fields.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.5,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
       return result.questions || [];
     } catch (error) {
       console.error('Question generation error:', error);
@@ -315,8 +320,7 @@ ${userProfile.interests ? `- Interests: ${userProfile.interests.join(', ')}` : '
 Please create examples that relate to their academic background and potential interests.`;
       }
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -354,11 +358,8 @@ Return JSON format:
 }`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.6,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"examples": []}');
       return {
         examples: result.examples || [],
         personalizedNote: result.personalizedNote
@@ -410,115 +411,83 @@ Return as JSON matching the DocumentAnalysis interface structure.`;
     };
   }
 
-  private async extractFromPDF(buffer: Buffer): Promise<string> {
+  private async extractFromPDF(buffer: Buffer): Promise<ExtractionResult> {
     try {
-      const text = buffer.toString('utf-8');
-      // Extract readable content by filtering out binary data and common PDF artifacts
-      let readable = text.replace(/[\x00-\x08\x0E-\x1F\x7F-\xFF]/g, ' ')
-                        .replace(/\s+/g, ' ')
-                        .replace(/\/[A-Za-z]+\s+/g, ' ') // Remove PDF commands
-                        .replace(/\d+\s+\d+\s+obj/g, ' ') // Remove PDF object markers
-                        .replace(/endobj/g, ' ')
-                        .replace(/stream\s+.*?\s+endstream/gs, ' ') // Remove stream data
-                        .trim();
-      
-      // If content is too long, focus on the most readable parts
-      if (readable.length > 50000) {
-        const sentences = readable.split(/[.!?]+/).filter(s => s.trim().length > 20);
-        readable = sentences.slice(0, 200).join('. ') + '.';
+      const result = await documentExtractionService.extractPdf(buffer);
+
+      // Scanned PDFs have pages but no text layer
+      if (result.content.trim().length === 0) {
+        return { content: "PDF content could not be extracted as text", structure: result.structure };
       }
-      
-      return readable.length > 50 ? readable : "PDF content could not be extracted as text";
+
+      return result;
     } catch (error) {
-      return "PDF processing failed - binary content detected";
+      console.error('PDF extraction error:', error);
+      return { content: "PDF processing failed - the file may be corrupted or encrypted" };
     }
   }
 
-  private async extractFromPowerPoint(buffer: Buffer): Promise<string> {
+  private async extractFromPowerPoint(buffer: Buffer): Promise<ExtractionResult> {
     try {
-      const content = buffer.toString('utf-8');
-      // Extract text patterns commonly found in PowerPoint XML
-      const textMatches = content.match(/<a:t[^>]*>([^<]+)<\/a:t>/g);
-      if (textMatches && textMatches.length > 0) {
-        let extractedText = textMatches
-          .map(match => match.replace(/<[^>]+>/g, '').trim())
-          .filter(text => text.length > 0)
-          .join(' ')
-          .replace(/\s+/g, ' ')
-          .trim();
-        
-        // If content is very long, limit it to prevent token issues
-        if (extractedText.length > 30000) {
-          extractedText = extractedText.substring(0, 30000) + '...';
-        }
-        
-        return extractedText || "PowerPoint slides processed but no readable text found";
+      const result = await documentExtractionService.extractPptx(buffer);
+      if (result.content.trim().length === 0) {
+        return { content: "PowerPoint slides processed but no readable text found", structure: result.structure };
       }
-      
-      // Try alternative PowerPoint text patterns
-      const altMatches = content.match(/<w:t[^>]*>([^<]+)<\/w:t>/g);
-      if (altMatches && altMatches.length > 0) {
-        const altText = altMatches
-          .map(match => match.replace(/<[^>]+>/g, '').trim())
-          .filter(text => text.length > 0)
-          .join(' ')
-          .trim();
-        return altText || "PowerPoint content structure not recognized";
+      return result;
+    } catch (error) {
+      console.error('PowerPoint extraction error:', error);
+      return { content: "PowerPoint processing failed" };
+    }
+  }
+
+  private async extractFromWord(buffer: Buffer): Promise<ExtractionResult> {
+    try {
+      const result = await documentExtractionService.extractDocx(buffer);
+      if (result.content.trim().length === 0) {
+        return { content: "Word document processed but no readable text found", structure: result.structure };
       }
-      
-      return "PowerPoint content structure not recognized";
+      return result;
+    } catch (error) {
+      console.error('Word extraction error:', error);
+      return { content: "Word document processing failed" };
+    }
+  }
+
+  private async extractFromLegacyPowerPoint(buffer: Buffer): Promise<ExtractionResult> {
+    try {
+      const result = await documentExtractionService.extractPpt(buffer);
+      if (result.content.trim().length === 0) {
+        return { content: "PowerPoint slides processed but no readable text found", structure: result.structure };
+      }
+      return result;
     } catch (error) {
-      return "PowerPoint processing failed";
+      console.error('Legacy PowerPoint extraction error:', error);
+      return { content: "PowerPoint processing failed" };
     }
   }
 
-  private async extractFromWord(buffer: Buffer): Promise<string> {
+  private async extractFromLegacyWord(buffer: Buffer): Promise<ExtractionResult> {
     try {
-      // Word documents are also ZIP archives with XML content
-      const content = buffer.toString('utf-8');
-      // Extract text from Word document XML structure
-      const textMatches = content.match(/<w:t[^>]*>([^<]+)<\/w:t>/g);
-      if (textMatches) {
-        const extractedText = textMatches
-          .map(match => match.replace(/<[^>]+>/g, ''))
-          .join(' ')
-          .trim();
-        return extractedText || "Word document processed but no readable text found";
+      const result = await documentExtractionService.extractDoc(buffer);
+      if (result.content.trim().length === 0) {
+        return { content: "Word document processed but no readable text found", structure: result.structure };
       }
-      return "Word document structure not recognized";
+      return result;
     } catch (error) {
-      return "Word document processing failed";
+      console.error('Legacy Word extraction error:', error);
+      return { content: "Word document processing failed" };
     }
   }
 
   private async extractFromImage(buffer: Buffer): Promise<string> {
     try {
-      // Use OpenAI Vision API for image content extraction
       const base64Image = buffer.toString('base64');
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Extract all text content from this image. If it contains educational material, describe the content, diagrams, formulas, or any visual elements that would be important for learning."
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 1000,
-      });
 
-      return response.choices[0].message.content || '';
+      return await llm.vision({
+        prompt: "Extract all text content from this image. If it contains educational material, describe the content, diagrams, formulas, or any visual elements that would be important for learning.",
+        imageUrl: `data:image/jpeg;base64,${base64Image}`,
+        maxTokens: 1000,
+      });
     } catch (error) {
       console.error('Image extraction error:', error);
       return "Could not extract content from image";
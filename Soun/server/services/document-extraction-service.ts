@@ -0,0 +1,967 @@
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import * as CFB from "cfb";
+import path from "path";
+
+export interface ExtractedPage {
+  pageNumber: number; // 1-based
+  text: string;
+  startOffset: number; // character offset of this page inside the joined content
+  endOffset: number;
+}
+
+export interface PdfStructure {
+  type: 'pdf';
+  pageCount: number;
+  pages: ExtractedPage[];
+}
+
+export interface ExtractedSlide {
+  slideNumber: number; // 1-based, in presentation order
+  title: string;
+  content: string; // body text without the title
+  bullets: string[];
+  notes?: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface PptxStructure {
+  type: 'pptx';
+  slideCount: number;
+  slides: ExtractedSlide[];
+}
+
+export interface ExtractedBlock {
+  kind: 'heading' | 'paragraph' | 'table';
+  text: string;
+  level?: number; // heading level, 1 = top
+  headingPath: string[]; // enclosing headings, outermost first
+  rows?: string[][]; // table cells
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface DocxStructure {
+  type: 'docx';
+  outline: { level: number; text: string; startOffset: number }[];
+  blocks: ExtractedBlock[];
+}
+
+export interface PptStructure {
+  type: 'ppt';
+  slideCount: number;
+  slides: ExtractedSlide[];
+}
+
+export interface DocStructure {
+  type: 'doc';
+  blocks: ExtractedBlock[];
+}
+
+export type DocumentStructure = PdfStructure | PptxStructure | DocxStructure | PptStructure | DocStructure;
+
+export interface ExtractionResult {
+  content: string;
+  structure?: DocumentStructure;
+}
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+interface PptRecord {
+  recVer: number;
+  recInstance: number;
+  recType: number;
+  offset: number; // start of the record header inside the stream
+  dataOffset: number;
+  length: number;
+}
+
+// Record types from the PowerPoint 97-2003 binary format [MS-PPT]
+const PPT_RECORD = {
+  document: 0x03E8,
+  slide: 0x03EE,
+  slideAtom: 0x03EF,
+  notes: 0x03F0,
+  slidePersistAtom: 0x03F3,
+  textHeaderAtom: 0x0F9F,
+  textCharsAtom: 0x0FA0,
+  textBytesAtom: 0x0FA8,
+  slideListWithText: 0x0FF0,
+  userEditAtom: 0x0FF5,
+  persistDirectoryAtom: 0x1772,
+};
+
+// TextHeaderAtom text types that hold slide titles
+const PPT_TITLE_TEXT_TYPES = [0, 6];
+const PPT_NOTES_TEXT_TYPE = 2;
+
+// Separator placed between pages, slides and blocks in the joined content
+const PAGE_SEPARATOR = '\n\n';
+
+// Items whose baselines differ by less than this fraction of the font size share a line
+const LINE_TOLERANCE = 0.5;
+
+export class DocumentExtractionService {
+  /**
+   * Extracts text from a PDF page by page, decoding compressed content streams
+   * and rebuilding lines in top-to-bottom, left-to-right reading order
+   */
+  async extractPdf(buffer: Buffer): Promise<ExtractionResult> {
+    const loadingTask = pdfjs.getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0,
+    });
+
+    const pdf = await loadingTask.promise;
+
+    try {
+      const pages: ExtractedPage[] = [];
+      let offset = 0;
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        const items = textContent.items.filter(
+          (item): item is TextItem => 'str' in item && item.str.length > 0
+        );
+        const text = this.buildPageText(items);
+        page.cleanup();
+
+        if (pages.length > 0) {
+          offset += PAGE_SEPARATOR.length;
+        }
+
+        pages.push({
+          pageNumber,
+          text,
+          startOffset: offset,
+          endOffset: offset + text.length,
+        });
+        offset += text.length;
+      }
+
+      return {
+        content: pages.map(page => page.text).join(PAGE_SEPARATOR),
+        structure: {
+          type: 'pdf',
+          pageCount: pdf.numPages,
+          pages,
+        },
+      };
+    } finally {
+      await loadingTask.destroy();
+    }
+  }
+
+  /**
+   * Unzips a PPTX package and reads slides in presentation order, including speaker notes
+   */
+  async extractPptx(buffer: Buffer): Promise<ExtractionResult> {
+    const zip = await JSZip.loadAsync(buffer);
+    const slidePaths = await this.getSlidePaths(zip);
+    const slides: ExtractedSlide[] = [];
+    const sections: string[] = [];
+    let offset = 0;
+
+    for (const slidePath of slidePaths) {
+      const slideXml = await zip.file(slidePath)?.async('string');
+      if (!slideXml) continue;
+
+      const { title, bullets } = this.readSlideShapes(parseXml(slideXml));
+      const notesPath = (await this.getRelationshipTargets(zip, slidePath))
+        .find(rel => rel.type.endsWith('/notesSlide'))?.target;
+      const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+      const notes = notesXml ? this.readNotes(parseXml(notesXml)) : '';
+
+      const slideNumber = slides.length + 1;
+      const lines = [`Slide ${slideNumber}${title ? `: ${title}` : ''}`, ...bullets];
+      if (notes) {
+        lines.push(`Speaker notes: ${notes}`);
+      }
+      const text = lines.join('\n');
+
+      if (sections.length > 0) {
+        offset += PAGE_SEPARATOR.length;
+      }
+
+      slides.push({
+        slideNumber,
+        title,
+        content: bullets.join('\n'),
+        bullets,
+        ...(notes ? { notes } : {}),
+        startOffset: offset,
+        endOffset: offset + text.length,
+      });
+      sections.push(text);
+      offset += text.length;
+    }
+
+    return {
+      content: sections.join(PAGE_SEPARATOR),
+      structure: {
+        type: 'pptx',
+        slideCount: slides.length,
+        slides,
+      },
+    };
+  }
+
+  /**
+   * Reads a DOCX with mammoth: the raw text becomes the content, and the HTML conversion gives
+   * the headings, paragraphs and tables, each located in that text
+   */
+  async extractDocx(buffer: Buffer): Promise<ExtractionResult> {
+    const [rawText, html] = await Promise.all([
+      mammoth.extractRawText({ buffer }),
+      mammoth.convertToHtml({ buffer }),
+    ]);
+    const content = rawText.value.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, PAGE_SEPARATOR).trim();
+
+    const blocks: ExtractedBlock[] = [];
+    const outline: DocxStructure['outline'] = [];
+    const headingPath: { level: number; text: string }[] = [];
+    let cursor = 0;
+
+    // mammoth's raw text has no table or list markup, so each block is found by its first piece of text
+    const pushBlock = (block: Omit<ExtractedBlock, 'startOffset' | 'endOffset'>, anchor: string) => {
+      const found = content.indexOf(anchor, cursor);
+      const startOffset = found >= 0 ? found : cursor;
+      if (found >= 0) cursor = found + anchor.length;
+      blocks.push({ ...block, startOffset, endOffset: startOffset });
+    };
+
+    for (const child of parseXml(`<body>${html.value}</body>`).children.flatMap(node => typeof node === 'string' ? [] : node.children)) {
+      if (typeof child === 'string') continue;
+
+      const heading = child.name.match(/^h([1-6])$/);
+      if (heading) {
+        const text = readHtmlText(child).replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+
+        const level = parseInt(heading[1]);
+        while (headingPath.length > 0 && headingPath[headingPath.length - 1].level >= level) {
+          headingPath.pop();
+        }
+        pushBlock({ kind: 'heading', text, level, headingPath: headingPath.map(h => h.text) }, text);
+        outline.push({ level, text, startOffset: blocks[blocks.length - 1].startOffset });
+        headingPath.push({ level, text });
+      } else if (child.name === 'table') {
+        const rows = findAll(child, 'tr').map(row =>
+          row.children
+            .filter((cell): cell is XmlElement => typeof cell !== 'string' && (cell.name === 'td' || cell.name === 'th'))
+            .map(cell => readHtmlText(cell).replace(/\s+/g, ' ').trim())
+        ).filter(row => row.some(cell => cell.length > 0));
+        if (rows.length === 0) continue;
+
+        pushBlock({
+          kind: 'table',
+          text: rows.map(row => row.join(' | ')).join('\n'),
+          rows,
+          headingPath: headingPath.map(h => h.text),
+        }, rows.flat().find(cell => cell.length > 0)!);
+      } else {
+        const text = readHtmlText(child).replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+        if (!text) continue;
+
+        pushBlock({ kind: 'paragraph', text, headingPath: headingPath.map(h => h.text) }, text.split('\n')[0]);
+      }
+    }
+
+    // Each block runs up to where the next one starts
+    blocks.forEach((block, i) => {
+      const next = i + 1 < blocks.length ? blocks[i + 1].startOffset : content.length;
+      block.endOffset = Math.max(block.startOffset, content.slice(0, next).trimEnd().length);
+    });
+
+    return {
+      content,
+      structure: {
+        type: 'docx',
+        outline,
+        blocks,
+      },
+    };
+  }
+
+  /**
+   * Reads slide text and speaker notes from a PowerPoint 97-2003 (.ppt) file
+   */
+  async extractPpt(buffer: Buffer): Promise<ExtractionResult> {
+    const container = CFB.read(buffer, { type: 'buffer' });
+    const stream = readCfbStream(container, 'PowerPoint Document');
+    if (!stream) {
+      throw new Error('PowerPoint Document stream missing');
+    }
+
+    const slideTexts = this.readPptSlides(stream, readCfbStream(container, 'Current User'));
+    const slides: ExtractedSlide[] = [];
+    const sections: string[] = [];
+    let offset = 0;
+
+    for (const slideText of slideTexts) {
+      const slideNumber = slides.length + 1;
+      const lines = [`Slide ${slideNumber}${slideText.title ? `: ${slideText.title}` : ''}`, ...slideText.bullets];
+      if (slideText.notes) {
+        lines.push(`Speaker notes: ${slideText.notes}`);
+      }
+      const text = lines.join('\n');
+
+      if (sections.length > 0) {
+        offset += PAGE_SEPARATOR.length;
+      }
+
+      slides.push({
+        slideNumber,
+        title: slideText.title,
+        content: slideText.bullets.join('\n'),
+        bullets: slideText.bullets,
+        ...(slideText.notes ? { notes: slideText.notes } : {}),
+        startOffset: offset,
+        endOffset: offset + text.length,
+      });
+      sections.push(text);
+      offset += text.length;
+    }
+
+    return {
+      content: sections.join(PAGE_SEPARATOR),
+      structure: {
+        type: 'ppt',
+        slideCount: slides.length,
+        slides,
+      },
+    };
+  }
+
+  /**
+   * Reads the main document text of a Word 97-2003 (.doc) file through its piece table
+   */
+  async extractDoc(buffer: Buffer): Promise<ExtractionResult> {
+    const container = CFB.read(buffer, { type: 'buffer' });
+    const wordDocument = readCfbStream(container, 'WordDocument');
+    if (!wordDocument || wordDocument.readUInt16LE(0) !== 0xA5EC) {
+      throw new Error('WordDocument stream missing or invalid');
+    }
+
+    const flags = wordDocument.readUInt16LE(0x0A);
+    if (flags & 0x0100) {
+      throw new Error('Encrypted Word documents are not supported');
+    }
+
+    // The FIB is a chain of variable-length arrays; walk it to reach ccpText and fcClx/lcbClx
+    const csw = wordDocument.readUInt16LE(32);
+    const fibRgLwOffset = 32 + 2 + csw * 2 + 2;
+    const cslw = wordDocument.readUInt16LE(fibRgLwOffset - 2);
+    const ccpText = wordDocument.readInt32LE(fibRgLwOffset + 3 * 4);
+    const fibRgFcLcbOffset = fibRgLwOffset + cslw * 4 + 2;
+    const fcClx = wordDocument.readUInt32LE(fibRgFcLcbOffset + 33 * 8);
+    const lcbClx = wordDocument.readUInt32LE(fibRgFcLcbOffset + 33 * 8 + 4);
+
+    const tableStream = readCfbStream(container, flags & 0x0200 ? '1Table' : '0Table');
+    if (!tableStream || lcbClx === 0) {
+      throw new Error('Word table stream missing');
+    }
+
+    const rawText = readWordPieceTable(wordDocument, tableStream.subarray(fcClx, fcClx + lcbClx), ccpText);
+    const paragraphs = cleanWordBinaryText(rawText)
+      .split('\n')
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph.length > 0);
+
+    const blocks: ExtractedBlock[] = [];
+    let offset = 0;
+    for (const text of paragraphs) {
+      if (blocks.length > 0) {
+        offset += PAGE_SEPARATOR.length;
+      }
+      blocks.push({
+        kind: 'paragraph',
+        text,
+        headingPath: [],
+        startOffset: offset,
+        endOffset: offset + text.length,
+      });
+      offset += text.length;
+    }
+
+    return {
+      content: paragraphs.join(PAGE_SEPARATOR),
+      structure: {
+        type: 'doc',
+        blocks,
+      },
+    };
+  }
+
+  /**
+   * Finds the page a character offset of the extracted content belongs to
+   */
+  findPageForOffset(structure: PdfStructure, offset: number): number | undefined {
+    const page = structure.pages.find(p => offset >= p.startOffset && offset <= p.endOffset);
+    return page?.pageNumber;
+  }
+
+  /**
+   * Groups positioned text items into lines and orders them for reading
+   */
+  private buildPageText(items: TextItem[]): string {
+    const lines: { y: number; size: number; runs: TextRun[] }[] = [];
+
+    for (const item of items) {
+      const run: TextRun = {
+        text: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        size: Math.abs(item.transform[3]) || item.height || 1,
+      };
+
+      const line = lines.find(l => Math.abs(l.y - run.y) < Math.max(l.size, run.size) * LINE_TOLERANCE);
+      if (line) {
+        line.runs.push(run);
+      } else {
+        lines.push({ y: run.y, size: run.size, runs: [run] });
+      }
+    }
+
+    // PDF coordinates grow upwards, so higher y comes first on the page
+    lines.sort((a, b) => b.y - a.y);
+
+    return lines
+      .map(line => {
+        let text = '';
+        let previousEnd: number | null = null;
+
+        for (const run of line.runs.sort((a, b) => a.x - b.x)) {
+          // Insert a space when there is a visible gap between consecutive runs
+          if (previousEnd !== null && !text.endsWith(' ') && !run.text.startsWith(' ') && run.x - previousEnd > 1) {
+            text += ' ';
+          }
+          text += run.text;
+          previousEnd = run.x + run.width;
+        }
+
+        return text.replace(/\s+/g, ' ').trim();
+      })
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+
+  /**
+   * Resolves slide part names in the order listed by presentation.xml
+   */
+  private async getSlidePaths(zip: JSZip): Promise<string[]> {
+    const presentationXml = await zip.file('ppt/presentation.xml')?.async('string');
+    if (presentationXml) {
+      const relationships = await this.getRelationshipTargets(zip, 'ppt/presentation.xml');
+      const ordered = findAll(parseXml(presentationXml), 'p:sldId')
+        .map(slideId => relationships.find(rel => rel.id === slideId.attributes['r:id'])?.target)
+        .filter((target): target is string => !!target && !!zip.file(target));
+      if (ordered.length > 0) {
+        return ordered;
+      }
+    }
+
+    // Fall back to numeric ordering of ppt/slides/slideN.xml
+    return Object.keys(zip.files)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => parseInt(a.match(/(\d+)\.xml$/)![1]) - parseInt(b.match(/(\d+)\.xml$/)![1]));
+  }
+
+  /**
+   * Reads the relationships of a package part, with targets resolved to absolute part names
+   */
+  private async getRelationshipTargets(zip: JSZip, partName: string): Promise<{ id: string; type: string; target: string }[]> {
+    const relsPath = path.posix.join(path.posix.dirname(partName), '_rels', `${path.posix.basename(partName)}.rels`);
+    const relsXml = await zip.file(relsPath)?.async('string');
+    if (!relsXml) return [];
+
+    return findAll(parseXml(relsXml), 'Relationship').map(rel => ({
+      id: rel.attributes['Id'],
+      type: rel.attributes['Type'] || '',
+      target: rel.attributes['Target']?.startsWith('/')
+        ? rel.attributes['Target'].slice(1)
+        : path.posix.normalize(path.posix.join(path.posix.dirname(partName), rel.attributes['Target'] || '')),
+    }));
+  }
+
+  /**
+   * Splits slide shapes into the title placeholder and body paragraphs
+   */
+  private readSlideShapes(slide: XmlElement): { title: string; bullets: string[] } {
+    let title = '';
+    const bullets: string[] = [];
+
+    for (const shape of findAll(slide, 'p:sp')) {
+      const placeholder = findFirst(shape, 'p:ph');
+      const placeholderType = placeholder?.attributes['type'];
+      const paragraphs = findAll(shape, 'a:p').map(readDrawingParagraph).filter(text => text.length > 0);
+
+      if (!title && (placeholderType === 'title' || placeholderType === 'ctrTitle')) {
+        title = paragraphs.join(' ');
+      } else if (placeholderType !== 'sldNum' && placeholderType !== 'dt' && placeholderType !== 'ftr') {
+        bullets.push(...paragraphs);
+      }
+    }
+
+    // Tables on slides are graphic frames rather than shapes
+    for (const frame of findAll(slide, 'p:graphicFrame')) {
+      for (const row of findAll(frame, 'a:tr')) {
+        const cells = findAll(row, 'a:tc').map(cell => findAll(cell, 'a:p').map(readDrawingParagraph).join(' ').trim());
+        if (cells.some(cell => cell.length > 0)) {
+          bullets.push(cells.join(' | '));
+        }
+      }
+    }
+
+    return { title, bullets };
+  }
+
+  /**
+   * Reads the speaker notes body, skipping the slide image and slide number placeholders
+   */
+  private readNotes(notes: XmlElement): string {
+    return findAll(notes, 'p:sp')
+      .filter(shape => {
+        const type = findFirst(shape, 'p:ph')?.attributes['type'];
+        return type === 'body' || type === undefined;
+      })
+      .flatMap(shape => findAll(shape, 'a:p').map(readDrawingParagraph))
+      .filter(text => text.length > 0)
+      .join('\n');
+  }
+
+  /**
+   * Collects per-slide text from the latest edit of a .ppt stream, falling back to a
+   * linear scan when the persist directory cannot be followed
+   */
+  private readPptSlides(stream: Buffer, currentUser?: Buffer): { title: string; bullets: string[]; notes: string }[] {
+    const persistDirectory = currentUser ? readPptPersistDirectory(stream, currentUser) : undefined;
+    const persistOffsets = persistDirectory?.offsets;
+    const documentOffset = persistDirectory && persistOffsets?.get(persistDirectory.documentPersistId);
+
+    let documentRecord: PptRecord | undefined;
+    if (documentOffset !== undefined) {
+      const record = readPptRecordHeader(stream, documentOffset);
+      if (record?.recType === PPT_RECORD.document) {
+        documentRecord = record;
+      }
+    }
+
+    // Without a persist directory, the first DocumentContainer in the stream is the best guess
+    const scope = documentRecord ?? readPptRecords(stream, 0, stream.length).find(r => r.recType === PPT_RECORD.document);
+    if (!scope) return [];
+
+    const slideLists = readPptRecords(stream, scope.dataOffset, scope.dataOffset + scope.length)
+      .filter(record => record.recType === PPT_RECORD.slideListWithText);
+    const slideList = slideLists.find(list => list.recInstance === 0);
+    const notesList = slideLists.find(list => list.recInstance === 2);
+    if (!slideList) return [];
+
+    // Notes are looked up by the NotesId stored in each slide's SlideAtom
+    const notesById = new Map<number, number>();
+    for (const entry of this.readPptSlideList(stream, notesList)) {
+      notesById.set(entry.slideId, entry.persistId);
+    }
+
+    return this.readPptSlideList(stream, slideList).map(entry => {
+      const texts = [...entry.texts];
+      let notes = '';
+
+      const slideOffset = persistOffsets?.get(entry.persistId);
+      const slideRecord = slideOffset !== undefined ? readPptRecordHeader(stream, slideOffset) : undefined;
+      if (slideRecord?.recType === PPT_RECORD.slide) {
+        // Text boxes that are not placeholders live in the slide drawing instead of the outline
+        texts.push(...collectPptTexts(stream, slideRecord));
+
+        const slideAtom = readPptRecords(stream, slideRecord.dataOffset, slideRecord.dataOffset + slideRecord.length, false)
+          .find(record => record.recType === PPT_RECORD.slideAtom);
+        const notesId = slideAtom ? stream.readUInt32LE(slideAtom.dataOffset + 16) : 0;
+        const notesOffset = notesId ? persistOffsets?.get(notesById.get(notesId) ?? -1) : undefined;
+        const notesRecord = notesOffset !== undefined ? readPptRecordHeader(stream, notesOffset) : undefined;
+        if (notesRecord?.recType === PPT_RECORD.notes) {
+          notes = collectPptTexts(stream, notesRecord)
+            .filter(text => text.textType === PPT_NOTES_TEXT_TYPE)
+            .map(text => text.text)
+            .join('\n');
+        }
+      }
+
+      const titleText = texts.find(text => PPT_TITLE_TEXT_TYPES.includes(text.textType));
+      return {
+        title: titleText?.text.replace(/\s+/g, ' ') || '',
+        bullets: texts
+          .filter(text => text !== titleText)
+          .flatMap(text => text.text.split('\n'))
+          .map(line => line.trim())
+          .filter(line => line.length > 0),
+        notes,
+      };
+    });
+  }
+
+  /**
+   * Groups the atoms of a SlideListWithTextContainer by the SlidePersistAtom that precedes them
+   */
+  private readPptSlideList(stream: Buffer, list?: PptRecord): { persistId: number; slideId: number; texts: PptText[] }[] {
+    if (!list) return [];
+
+    const entries: { persistId: number; slideId: number; texts: PptText[] }[] = [];
+    let textType = -1;
+
+    for (const record of readPptRecords(stream, list.dataOffset, list.dataOffset + list.length, false)) {
+      if (record.recType === PPT_RECORD.slidePersistAtom) {
+        entries.push({
+          persistId: stream.readUInt32LE(record.dataOffset),
+          slideId: stream.readUInt32LE(record.dataOffset + 12),
+          texts: [],
+        });
+        textType = -1;
+      } else if (record.recType === PPT_RECORD.textHeaderAtom) {
+        textType = stream.readUInt32LE(record.dataOffset);
+      } else if (entries.length > 0 && (record.recType === PPT_RECORD.textCharsAtom || record.recType === PPT_RECORD.textBytesAtom)) {
+        entries[entries.length - 1].texts.push({ textType, text: readPptText(stream, record) });
+      }
+    }
+
+    return entries;
+  }
+}
+
+export const documentExtractionService = new DocumentExtractionService();
+
+/**
+ * Minimal parser for the well-formed XML parts inside OOXML packages and mammoth's HTML
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, rawAttributes, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+    } else if (closingName) {
+      if (stack.length > 1) stack.pop();
+    } else if (openingName) {
+      const element: XmlElement = { name: openingName, attributes: {}, children: [] };
+      const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(rawAttributes || '')) !== null) {
+        element.attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      current.children.push(decodeXmlEntities(text));
+    }
+  }
+
+  return root;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+function findAll(element: XmlElement, name: string, deep: boolean = true): XmlElement[] {
+  const matches: XmlElement[] = [];
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name) {
+      matches.push(child);
+    } else if (deep) {
+      matches.push(...findAll(child, name, deep));
+    }
+  }
+  return matches;
+}
+
+function findFirst(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/**
+ * Concatenates the text runs of a DrawingML paragraph (slides and notes)
+ */
+function readDrawingParagraph(paragraph: XmlElement): string {
+  let text = '';
+  const visit = (element: XmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (child.name === 'a:t') {
+        text += child.children.filter((c): c is string => typeof c === 'string').join('');
+      } else if (child.name === 'a:br') {
+        text += ' ';
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(paragraph);
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Text of an element from mammoth's HTML, with line breaks kept and list items on their own lines
+ */
+function readHtmlText(element: XmlElement): string {
+  return element.children.map(child => {
+    if (typeof child === 'string') return child;
+    if (child.name === 'br') return '\n';
+    const text = readHtmlText(child);
+    return child.name === 'li' || child.name === 'p' ? `${text}\n` : text;
+  }).join('');
+}
+
+interface PptText {
+  textType: number;
+  text: string;
+}
+
+function readCfbStream(container: CFB.CFB$Container, name: string): Buffer | undefined {
+  const entry = container.FileIndex.find(e => e.name === name && e.type === 2);
+  return entry?.content ? Buffer.from(entry.content as Uint8Array) : undefined;
+}
+
+function readPptRecordHeader(stream: Buffer, offset: number): PptRecord | undefined {
+  if (offset < 0 || offset + 8 > stream.length) return undefined;
+
+  const verAndInstance = stream.readUInt16LE(offset);
+  const length = stream.readUInt32LE(offset + 4);
+  if (offset + 8 + length > stream.length) return undefined;
+
+  return {
+    recVer: verAndInstance & 0x0F,
+    recInstance: verAndInstance >> 4,
+    recType: stream.readUInt16LE(offset + 2),
+    offset,
+    dataOffset: offset + 8,
+    length,
+  };
+}
+
+/**
+ * Lists the records between two offsets, descending into containers when deep is set
+ */
+function readPptRecords(stream: Buffer, start: number, end: number, deep: boolean = true): PptRecord[] {
+  const records: PptRecord[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const record = readPptRecordHeader(stream, offset);
+    if (!record) break;
+
+    records.push(record);
+    if (deep && record.recVer === 0x0F) {
+      records.push(...readPptRecords(stream, record.dataOffset, record.dataOffset + record.length, deep));
+    }
+    offset = record.dataOffset + record.length;
+  }
+
+  return records;
+}
+
+/**
+ * Reads text atoms anywhere inside a container, tagged with the preceding TextHeaderAtom type
+ */
+function collectPptTexts(stream: Buffer, container: PptRecord): PptText[] {
+  const texts: PptText[] = [];
+  let textType = -1;
+
+  for (const record of readPptRecords(stream, container.dataOffset, container.dataOffset + container.length)) {
+    if (record.recType === PPT_RECORD.textHeaderAtom) {
+      textType = stream.readUInt32LE(record.dataOffset);
+    } else if (record.recType === PPT_RECORD.textCharsAtom || record.recType === PPT_RECORD.textBytesAtom) {
+      texts.push({ textType, text: readPptText(stream, record) });
+    }
+  }
+
+  return texts;
+}
+
+function readPptText(stream: Buffer, record: PptRecord): string {
+  const bytes = stream.subarray(record.dataOffset, record.dataOffset + record.length);
+  const text = record.recType === PPT_RECORD.textCharsAtom ? bytes.toString('utf16le') : bytes.toString('latin1');
+  // Paragraphs end with CR and vertical tabs are soft line breaks
+  return text.replace(/[\r\v]/g, '\n').replace(/[\x00-\x08\x0E-\x1F]/g, '').trim();
+}
+
+/**
+ * Follows the UserEditAtom chain from the Current User stream and merges every
+ * persist directory, keeping the most recent offset for each persist id
+ */
+function readPptPersistDirectory(stream: Buffer, currentUser: Buffer): { offsets: Map<number, number>; documentPersistId: number } | undefined {
+  if (currentUser.length < 20) return undefined;
+
+  const offsets = new Map<number, number>();
+  let editOffset = currentUser.readUInt32LE(16);
+  const visited = new Set<number>();
+  let documentPersistId: number | undefined;
+
+  while (!visited.has(editOffset)) {
+    visited.add(editOffset);
+    const userEdit = readPptRecordHeader(stream, editOffset);
+    if (userEdit?.recType !== PPT_RECORD.userEditAtom) break;
+
+    const lastEditOffset = stream.readUInt32LE(userEdit.dataOffset + 8);
+    const directoryOffset = stream.readUInt32LE(userEdit.dataOffset + 12);
+    documentPersistId ??= stream.readUInt32LE(userEdit.dataOffset + 16);
+
+    const directory = readPptRecordHeader(stream, directoryOffset);
+    if (directory?.recType === PPT_RECORD.persistDirectoryAtom) {
+      let position = directory.dataOffset;
+      const end = directory.dataOffset + directory.length;
+      while (position + 4 <= end) {
+        const entry = stream.readUInt32LE(position);
+        const persistId = entry & 0xFFFFF;
+        const count = entry >>> 20;
+        position += 4;
+        for (let i = 0; i < count && position + 4 <= end; i++, position += 4) {
+          // Earlier edits never override later ones
+          if (!offsets.has(persistId + i)) {
+            offsets.set(persistId + i, stream.readUInt32LE(position));
+          }
+        }
+      }
+    }
+
+    if (lastEditOffset === 0) break;
+    editOffset = lastEditOffset;
+  }
+
+  if (documentPersistId === undefined || offsets.size === 0) return undefined;
+  return { offsets, documentPersistId };
+}
+
+const windows1252 = new TextDecoder('windows-1252');
+
+/**
+ * Concatenates the pieces described by a Word CLX, limited to the first ccpText characters
+ */
+function readWordPieceTable(wordDocument: Buffer, clx: Buffer, ccpText: number): string {
+  let position = 0;
+
+  // Skip any Prc entries that precede the Pcdt
+  while (position < clx.length && clx[position] === 0x01) {
+    position += 3 + clx.readInt16LE(position + 1);
+  }
+  if (clx[position] !== 0x02) {
+    throw new Error('Word piece table not found');
+  }
+
+  const plcPcdLength = clx.readUInt32LE(position + 1);
+  const plcPcd = clx.subarray(position + 5, position + 5 + plcPcdLength);
+  const pieceCount = (plcPcdLength - 4) / 12;
+  let text = '';
+
+  for (let i = 0; i < pieceCount && text.length < ccpText; i++) {
+    const cpStart = plcPcd.readUInt32LE(i * 4);
+    const cpEnd = plcPcd.readUInt32LE((i + 1) * 4);
+    const fcValue = plcPcd.readUInt32LE((pieceCount + 1) * 4 + i * 8 + 2);
+    const compressed = (fcValue & 0x40000000) !== 0;
+    const fc = fcValue & 0x3FFFFFFF;
+    const length = Math.min(cpEnd - cpStart, ccpText - text.length);
+
+    if (compressed) {
+      const start = fc / 2;
+      text += windows1252.decode(wordDocument.subarray(start, start + length));
+    } else {
+      text += wordDocument.subarray(fc, fc + length * 2).toString('utf16le');
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Replaces Word control characters: keeps field results, drops field codes and
+ * turns cell marks into tabs and paragraph marks into newlines
+ */
+function cleanWordBinaryText(text: string): string {
+  let result = '';
+  const fieldStack: boolean[] = []; // true while inside the instruction part of a field
+
+  for (const char of text) {
+    if (char === '\x13') {
+      fieldStack.push(true);
+      continue;
+    }
+    if (char === '\x14') {
+      if (fieldStack.length > 0) fieldStack[fieldStack.length - 1] = false;
+      continue;
+    }
+    if (char === '\x15') {
+      fieldStack.pop();
+      continue;
+    }
+    if (fieldStack.some(inInstruction => inInstruction)) continue;
+
+    switch (char) {
+      case '\r':
+      case '\v':
+      case '\f':
+        result += '\n';
+        break;
+      case '\x07':
+        result += '\x07';
+        break;
+      case '\x1E':
+        result += '-';
+        break;
+      case '\x1F':
+        break;
+      default:
+        if (char >= ' ' || char === '\t') {
+          result += char;
+        }
+    }
+  }
+
+  // A cell mark followed by a row mark ends a table row; single cell marks separate cells
+  return result
+    .replace(/\x07\x07/g, '\n')
+    .replace(/\x07/g, '\t')
+    .replace(/\t+\n/g, '\n');
+}
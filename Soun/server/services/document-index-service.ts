@@ -0,0 +1,355 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { documentChunks, documents, type Document, type DocumentChunk, type InsertDocumentChunk } from "../../shared/schema";
+import type { DocumentStructure } from "./document-extraction-service";
+import { llm } from "./llm-provider";
+
+const CHUNK_SIZE = 1200; // characters
+const CHUNK_OVERLAP = 200;
+const MIN_VECTOR_SCORE = 0.2;
+// Each method's best chunks that go into the fused ranking
+const CANDIDATES_PER_METHOD = 50;
+// Reciprocal-rank fusion constant, standard value
+const RRF_K = 60;
+
+// BM25 tuning, standard values
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "what", "when", "where",
+  "which", "who", "why", "how", "will", "with", "about", "can", "do", "does", "i", "me", "my", "you"
+]);
+
+export interface ChunkLocation {
+  page?: number;
+  slide?: number;
+  headingPath?: string[];
+}
+
+export interface ChunkHit {
+  chunk: DocumentChunk;
+  score: number; // Fused rank score, 1.0 when first in every ranking that ran
+  method: 'vector' | 'keyword' | 'hybrid'; // Which rankings found the chunk
+}
+
+interface RankedChunk {
+  id: number;
+  score: number;
+}
+
+interface ChunkSpan {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+class DocumentIndexService {
+  /**
+   * Split a document into chunks, embed them when possible and replace its stored chunks
+   */
+  async indexDocument(document: Document): Promise<number> {
+    const spans = this.chunkContent(document.content || "");
+    const structure = this.parseStructure(document.metadata);
+    const embeddings = await this.embed(spans.map(span => span.content));
+
+    const rows: InsertDocumentChunk[] = spans.map((span, index) => {
+      const terms = this.countTerms(span.content);
+      const location = this.locate(structure, span.startOffset);
+      return {
+        documentId: document.id,
+        userId: document.userId,
+        courseId: document.courseId,
+        chunkIndex: index,
+        content: span.content,
+        startOffset: span.startOffset,
+        endOffset: span.endOffset,
+        page: location.page ?? null,
+        slide: location.slide ?? null,
+        headingPath: location.headingPath ?? null,
+        embedding: embeddings ? embeddings[index] : null,
+        embeddingModel: embeddings ? llm.embeddingModel : null,
+        terms: terms.counts,
+        termCount: terms.total,
+      };
+    });
+
+    // Marked indexed even without chunks, so documents with no text aren't retried on every search
+    await db.transaction(async (tx) => {
+      await tx.delete(documentChunks).where(eq(documentChunks.documentId, document.id));
+      if (rows.length > 0) {
+        await tx.insert(documentChunks).values(rows);
+      }
+      await tx.update(documents).set({ indexedAt: new Date() }).where(eq(documents.id, document.id));
+    });
+
+    return rows.length;
+  }
+
+  async removeDocument(documentId: number): Promise<void> {
+    await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+  }
+
+  /**
+   * Top-k retrieval over the chunks of the given documents. BM25 and, when the chunks have
+   * embeddings, cosine similarity each rank their best candidates; the two rankings are merged
+   * by reciprocal-rank fusion.
+   */
+  async search(query: string, scope: Document[], topK: number = 5): Promise<ChunkHit[]> {
+    const documentIds = scope.map(doc => doc.id);
+    if (documentIds.length === 0 || !query.trim()) return [];
+
+    // Documents uploaded before indexing existed (or whose indexing failed) are indexed on first search
+    for (const doc of scope.filter(doc => !doc.indexedAt)) {
+      try {
+        await this.indexDocument(doc);
+      } catch (error) {
+        console.error(`Error indexing document ${doc.id}:`, error);
+      }
+    }
+
+    const [keywordRanking, vectorRanking] = await Promise.all([
+      this.rankByKeywords(query, documentIds),
+      this.rankByVector(query, documentIds)
+    ]);
+    const rankings = [keywordRanking, vectorRanking].filter(ranking => ranking.length > 0);
+    if (rankings.length === 0) return [];
+
+    const fused = new Map<number, { score: number; keyword: boolean; vector: boolean }>();
+    const addRanking = (ranking: RankedChunk[], method: 'keyword' | 'vector') => {
+      ranking.forEach((candidate, rank) => {
+        const entry = fused.get(candidate.id) || { score: 0, keyword: false, vector: false };
+        entry.score += 1 / (RRF_K + rank + 1);
+        entry[method] = true;
+        fused.set(candidate.id, entry);
+      });
+    };
+    addRanking(keywordRanking, 'keyword');
+    addRanking(vectorRanking, 'vector');
+
+    const best = rankings.length / (RRF_K + 1);
+    const top = Array.from(fused.entries())
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, topK);
+    if (top.length === 0) return [];
+
+    const chunks = await db.select().from(documentChunks).where(inArray(documentChunks.id, top.map(([id]) => id)));
+    const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk] as [number, DocumentChunk]));
+
+    return top
+      .filter(([id]) => chunksById.has(id))
+      .map(([id, entry]) => ({
+        chunk: chunksById.get(id)!,
+        score: entry.score / best,
+        method: entry.keyword && entry.vector ? 'hybrid' as const : entry.vector ? 'vector' as const : 'keyword' as const
+      }));
+  }
+
+  /**
+   * Cut text into overlapping chunks, preferring paragraph then sentence boundaries
+   */
+  chunkContent(content: string): ChunkSpan[] {
+    const spans: ChunkSpan[] = [];
+    let start = this.skipWhitespace(content, 0);
+
+    while (start < content.length) {
+      let end = Math.min(start + CHUNK_SIZE, content.length);
+
+      if (end < content.length) {
+        const window = content.slice(start, end);
+        const minBreak = Math.floor(CHUNK_SIZE / 2);
+        const paragraphBreak = window.lastIndexOf("\n\n");
+        const sentenceBreak = Math.max(window.lastIndexOf(". "), window.lastIndexOf("? "), window.lastIndexOf("! "), window.lastIndexOf(".\n"));
+        const wordBreak = window.lastIndexOf(" ");
+
+        if (paragraphBreak >= minBreak) end = start + paragraphBreak;
+        else if (sentenceBreak >= minBreak) end = start + sentenceBreak + 1;
+        else if (wordBreak >= minBreak) end = start + wordBreak;
+      }
+
+      const raw = content.slice(start, end);
+      const text = raw.trim();
+      if (text) {
+        const leading = raw.length - raw.trimStart().length;
+        spans.push({ content: text, startOffset: start + leading, endOffset: start + leading + text.length });
+      }
+
+      if (end >= content.length) break;
+
+      // Step back for overlap, but start the next chunk on a word boundary and always make progress
+      let next = Math.max(end - CHUNK_OVERLAP, start + 1);
+      const boundary = content.indexOf(" ", next);
+      if (boundary !== -1 && boundary < end) next = boundary + 1;
+      start = this.skipWhitespace(content, next);
+    }
+
+    return spans;
+  }
+
+  /**
+   * Page, slide or heading trail for a character offset in documents.content
+   */
+  locate(structure: DocumentStructure | null, offset: number): ChunkLocation {
+    if (!structure) return {};
+
+    switch (structure.type) {
+      case 'pdf': {
+        const page = structure.pages.find(p => offset >= p.startOffset && offset < p.endOffset)
+          || structure.pages.filter(p => p.startOffset <= offset).pop();
+        return page ? { page: page.pageNumber } : {};
+      }
+      case 'pptx':
+      case 'ppt': {
+        const slide = structure.slides.filter(s => s.startOffset <= offset).pop();
+        return slide ? { slide: slide.slideNumber } : {};
+      }
+      case 'docx':
+      case 'doc': {
+        const block = structure.blocks.filter(b => b.startOffset <= offset).pop();
+        if (!block) return {};
+        const headingPath = block.kind === 'heading' ? [...block.headingPath, block.text] : block.headingPath;
+        return headingPath.length > 0 ? { headingPath } : {};
+      }
+    }
+  }
+
+  /**
+   * documents.metadata holds the analysis with the extraction structure merged in
+   */
+  private parseStructure(metadata: string | null): DocumentStructure | null {
+    if (!metadata) return null;
+    try {
+      const parsed = JSON.parse(metadata);
+      switch (parsed?.type) {
+        case 'pdf': return Array.isArray(parsed.pages) ? parsed : null;
+        case 'pptx':
+        case 'ppt': return Array.isArray(parsed.slides) ? parsed : null;
+        case 'docx':
+        case 'doc': return Array.isArray(parsed.blocks) ? parsed : null;
+        default: return null;
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns null when the request fails, so callers fall back to keywords
+   */
+  private async embed(texts: string[]): Promise<number[][] | null> {
+    if (texts.length === 0) return null;
+
+    try {
+      return await llm.embed(texts);
+    } catch (error) {
+      console.error("Error creating embeddings:", error);
+      return null;
+    }
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\u024f]+/)
+      .filter(token => token.length > 1 && !STOPWORDS.has(token));
+  }
+
+  private countTerms(text: string): { counts: Record<string, number>; total: number } {
+    const counts: Record<string, number> = {};
+    const tokens = this.tokenize(text);
+    for (const token of tokens) {
+      counts[token] = (counts[token] || 0) + 1;
+    }
+    return { counts, total: tokens.length };
+  }
+
+  /**
+   * BM25 over the chunks containing a query term. Collection statistics come from SQL, so only
+   * the matching chunks' term counts are loaded.
+   */
+  private async rankByKeywords(query: string, documentIds: number[]): Promise<RankedChunk[]> {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const inScope = inArray(documentChunks.documentId, documentIds);
+    const terms = sql`${documentChunks.terms}::jsonb`;
+    const [stats] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        averageLength: sql<number>`coalesce(avg(${documentChunks.termCount}), 0)::float`,
+        ...Object.fromEntries(queryTerms.map((term, i) => [`df${i}`, sql<number>`(count(*) filter (where ${terms} ? ${term}))::int`]))
+      })
+      .from(documentChunks)
+      .where(inScope);
+    if (!stats || stats.total === 0) return [];
+
+    const statsByKey = stats as unknown as Record<string, number>;
+    const averageLength = stats.averageLength || 1;
+    const idf: Record<string, number> = {};
+    queryTerms.forEach((term, i) => {
+      const df = statsByKey[`df${i}`];
+      idf[term] = Math.log(1 + (stats.total - df + 0.5) / (df + 0.5));
+    });
+
+    const matching = await db
+      .select({ id: documentChunks.id, terms: documentChunks.terms, termCount: documentChunks.termCount })
+      .from(documentChunks)
+      .where(and(inScope, sql`${terms} ?| ${`{${queryTerms.join(",")}}`}::text[]`));
+
+    return matching
+      .map(chunk => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = chunk.terms[term] || 0;
+          if (tf === 0) continue;
+          const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.termCount / averageLength));
+          score += idf[term] * (tf * (BM25_K1 + 1)) / norm;
+        }
+        return { id: chunk.id, score };
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, CANDIDATES_PER_METHOD);
+  }
+
+  /**
+   * Cosine similarity against the query embedding, computed in SQL over the stored arrays.
+   * Empty when the chunks have no embeddings from the current model.
+   */
+  private async rankByVector(query: string, documentIds: number[]): Promise<RankedChunk[]> {
+    const modelFilter = and(
+      inArray(documentChunks.documentId, documentIds),
+      eq(documentChunks.embeddingModel, llm.embeddingModel)
+    );
+    const [embedded] = await db.select({ id: documentChunks.id }).from(documentChunks).where(modelFilter).limit(1);
+    if (!embedded) return [];
+
+    const queryEmbedding = (await this.embed([query]))?.[0];
+    if (!queryEmbedding) return [];
+
+    const queryVector = `{${queryEmbedding.join(",")}}`;
+    const similarity = sql<number | null>`(
+      select sum(pair.c * pair.q) / nullif(sqrt(sum(pair.c * pair.c)) * sqrt(sum(pair.q * pair.q)), 0)
+      from unnest(${documentChunks.embedding}, ${queryVector}::real[]) as pair(c, q)
+    )`;
+
+    const ranked = await db
+      .select({ id: documentChunks.id, score: similarity.as("score") })
+      .from(documentChunks)
+      .where(and(modelFilter, sql`array_length(${documentChunks.embedding}, 1) = ${queryEmbedding.length}`))
+      .orderBy(sql`score desc nulls last`)
+      .limit(CANDIDATES_PER_METHOD);
+
+    return ranked
+      .map(candidate => ({ id: candidate.id, score: Number(candidate.score) || 0 }))
+      .filter(candidate => candidate.score >= MIN_VECTOR_SCORE);
+  }
+
+  private skipWhitespace(text: string, index: number): number {
+    while (index < text.length && /\s/.test(text[index])) index++;
+    return index;
+  }
+}
+
+export const documentIndexService = new DocumentIndexService();
@@ -1,20 +1,14 @@
 
-import OpenAI from "openai";
 import { db } from "../db";
-import { documents, courses } from "../../shared/schema";
-import { eq } from "drizzle-orm";
+import { documents, courses, flashcardDecks, flashcards as flashcardsTable, type FlashcardDeck, type FlashcardRecord, type InsertFlashcard, type InsertFlashcardDeck } from "../../shared/schema";
+import { eq, desc, sql, getTableColumns } from "drizzle-orm";
 import { and } from "drizzle-orm";
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable must be set");
-}
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { spacedRepetitionService, type ReviewGrade } from "./spaced-repetition-service";
+import { llm } from "./llm-provider";
 
 export interface Flashcard {
   id: string;
+  deckId?: number; // set when the card is saved in a deck
   front: string;
   back: string;
   difficulty: 'easy' | 'medium' | 'hard';
@@ -24,12 +18,24 @@ export interface Flashcard {
   correctCount: number;
   incorrectCount: number;
   masteryLevel: number; // 0-1 scale
+  // Spaced repetition state, only for saved cards
+  easeFactor?: number;
+  intervalDays?: number;
+  repetitions?: number;
+  dueAt?: Date;
+}
+
+export type NewFlashcard = Pick<InsertFlashcard, 'front' | 'back' | 'difficulty' | 'category' | 'source'>;
+
+export interface FlashcardDeckWithCards extends FlashcardDeck {
+  cards: Flashcard[];
 }
 
 export interface FlashcardSession {
   id: string;
   userId: number;
   courseId?: string;
+  deckId?: number;
   flashcards: Flashcard[];
   currentIndex: number;
   sessionStartTime: Date;
@@ -78,8 +84,7 @@ export class FlashcardService {
       const doc = document[0];
       const content = doc.content || '';
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -103,11 +108,8 @@ Guidelines:
 Return as JSON with flashcards array containing: front (question), back (answer), difficulty, category.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.4,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"flashcards": []}');
       return this.validateFlashcards(result.flashcards || [], doc.title);
     } catch (error) {
       console.error('Flashcard generation error:', error);
@@ -125,8 +127,7 @@ Return as JSON with flashcards array containing: front (question), back (answer)
   ): Promise<Flashcard[]> {
     try {
       // Parse the voice command to understand what flashcards to create
-      const parseResponse = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const parsedCommand = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -147,11 +148,8 @@ Extract:
 Return as JSON with parsed information.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
-
-      const parsedCommand = JSON.parse(parseResponse.choices[0].message.content || '{}');
       
       // Get relevant documents if course context is provided
       let documentContent = '';
@@ -171,8 +169,7 @@ Return as JSON with parsed information.`
       }
 
       // Generate flashcards based on parsed command
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -196,11 +193,8 @@ Create flashcards that:
 Return as JSON with flashcards array.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.5,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"flashcards": []}');
       return this.validateFlashcards(result.flashcards || [], parsedCommand.topics || 'Voice Generated');
     } catch (error) {
       console.error('Voice flashcard generation error:', error);
@@ -208,6 +202,173 @@ Return as JSON with flashcards array.`
     }
   }
 
+  /**
+   * List a user's decks with their card counts, most recently changed first
+   */
+  async getDecks(userId: number, courseId?: string): Promise<Array<FlashcardDeck & { cardCount: number }>> {
+    const conditions = [eq(flashcardDecks.userId, userId)];
+    if (courseId) {
+      conditions.push(eq(flashcardDecks.courseId, courseId));
+    }
+
+    return await db
+      .select({
+        ...getTableColumns(flashcardDecks),
+        cardCount: sql<number>`count(${flashcardsTable.id})::int`
+      })
+      .from(flashcardDecks)
+      .leftJoin(flashcardsTable, eq(flashcardsTable.deckId, flashcardDecks.id))
+      .where(and(...conditions))
+      .groupBy(flashcardDecks.id)
+      .orderBy(desc(flashcardDecks.updatedAt));
+  }
+
+  async getDeck(userId: number, deckId: number): Promise<FlashcardDeckWithCards | null> {
+    const [deck] = await db
+      .select()
+      .from(flashcardDecks)
+      .where(and(eq(flashcardDecks.id, deckId), eq(flashcardDecks.userId, userId)));
+
+    if (!deck) return null;
+
+    const cards = await db
+      .select()
+      .from(flashcardsTable)
+      .where(eq(flashcardsTable.deckId, deckId))
+      .orderBy(flashcardsTable.id);
+
+    return { ...deck, cards: cards.map(card => this.toFlashcard(card)) };
+  }
+
+  async createDeck(deck: InsertFlashcardDeck, cards: NewFlashcard[] = []): Promise<FlashcardDeckWithCards> {
+    const [created] = await db.insert(flashcardDecks).values(deck).returning();
+    const savedCards = await this.insertCards(created.userId, created.id, cards);
+    return { ...created, cards: savedCards };
+  }
+
+  /**
+   * Generate cards from a document and save them as a new deck in the document's course
+   */
+  async createDeckFromDocument(
+    userId: number,
+    documentId: number,
+    count: number = 10,
+    name?: string
+  ): Promise<FlashcardDeckWithCards> {
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
+
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+
+    const generated = await this.generateFlashcardsFromDocument(documentId, userId, count);
+
+    return this.createDeck(
+      { userId, courseId: doc.courseId, documentId, name: name || doc.title },
+      generated
+    );
+  }
+
+  async updateDeck(
+    userId: number,
+    deckId: number,
+    updates: Partial<Pick<InsertFlashcardDeck, 'name' | 'description' | 'courseId'>>
+  ): Promise<FlashcardDeck | null> {
+    const [updated] = await db
+      .update(flashcardDecks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(flashcardDecks.id, deckId), eq(flashcardDecks.userId, userId)))
+      .returning();
+
+    return updated || null;
+  }
+
+  async deleteDeck(userId: number, deckId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(flashcardDecks)
+      .where(and(eq(flashcardDecks.id, deckId), eq(flashcardDecks.userId, userId)))
+      .returning({ id: flashcardDecks.id });
+
+    if (!deleted) return false;
+
+    await db.delete(flashcardsTable).where(eq(flashcardsTable.deckId, deckId));
+    return true;
+  }
+
+  async addCards(userId: number, deckId: number, cards: NewFlashcard[]): Promise<Flashcard[] | null> {
+    const [deck] = await db
+      .update(flashcardDecks)
+      .set({ updatedAt: new Date() })
+      .where(and(eq(flashcardDecks.id, deckId), eq(flashcardDecks.userId, userId)))
+      .returning({ id: flashcardDecks.id });
+
+    if (!deck) return null;
+
+    return this.insertCards(userId, deckId, cards);
+  }
+
+  async updateCard(
+    userId: number,
+    cardId: number,
+    updates: Partial<NewFlashcard>
+  ): Promise<Flashcard | null> {
+    const [updated] = await db
+      .update(flashcardsTable)
+      .set(updates)
+      .where(and(eq(flashcardsTable.id, cardId), eq(flashcardsTable.userId, userId)))
+      .returning();
+
+    return updated ? this.toFlashcard(updated) : null;
+  }
+
+  async deleteCard(userId: number, cardId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(flashcardsTable)
+      .where(and(eq(flashcardsTable.id, cardId), eq(flashcardsTable.userId, userId)))
+      .returning({ id: flashcardsTable.id });
+
+    return !!deleted;
+  }
+
+  /**
+   * Start a voice session over a saved deck; answers update the stored cards
+   */
+  async startDeckSession(
+    userId: number,
+    deckId: number,
+    sessionType: 'practice' | 'review' | 'challenge' = 'practice'
+  ): Promise<{ sessionId: string; response: VoiceFlashcardResponse } | null> {
+    const deck = await this.getDeck(userId, deckId);
+    if (!deck || deck.cards.length === 0) {
+      return null;
+    }
+
+    return this.startVoiceSession(userId, deck.cards, sessionType, deck.courseId, deck.id);
+  }
+
+  /**
+   * Start a voice session over the saved cards due today, most overdue first
+   */
+  async startDueSession(
+    userId: number,
+    courseId?: string
+  ): Promise<{ sessionId: string; response: VoiceFlashcardResponse } | null> {
+    const due = await this.getDueCards(userId, courseId);
+    if (due.length === 0) {
+      return null;
+    }
+
+    return this.startVoiceSession(userId, due, 'review', courseId, undefined, false);
+  }
+
+  async getDueCards(userId: number, courseId?: string, limit?: number): Promise<Flashcard[]> {
+    const rows = await spacedRepetitionService.getDueFlashcards(userId, courseId, limit);
+    return rows.map(row => this.toFlashcard(row));
+  }
+
   /**
    * Start a voice flashcard session
    */
@@ -215,7 +376,9 @@ Return as JSON with flashcards array.`
     userId: number,
     flashcards: Flashcard[],
     sessionType: 'practice' | 'review' | 'challenge' = 'practice',
-    courseId?: string
+    courseId?: string,
+    deckId?: number,
+    shuffle: boolean = true
   ): Promise<{ sessionId: string; response: VoiceFlashcardResponse }> {
     const sessionId = `voice_session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -223,7 +386,8 @@ Return as JSON with flashcards array.`
       id: sessionId,
       userId,
       courseId,
-      flashcards: this.shuffleFlashcards(flashcards),
+      deckId,
+      flashcards: shuffle ? this.shuffleFlashcards(flashcards) : [...flashcards],
       currentIndex: 0,
       sessionStartTime: new Date(),
       correctAnswers: 0,
@@ -273,6 +437,8 @@ Return as JSON with flashcards array.`
     // Handle special commands
     const command = userAnswer.toLowerCase().trim();
     if (command === 'skip' || command === 'next' || command === 'pass') {
+      currentCard.lastReviewed = new Date();
+      await this.saveCardProgress(currentCard, 0);
       return this.skipCard(sessionId);
     }
     if (command === 'end session' || command === 'stop' || command === 'quit') {
@@ -356,7 +522,13 @@ Return as JSON with flashcards array.`
       }
     }
 
+    // Only the final outcome of a card is scheduled, not each retry
+    const grade = shouldProceed
+      ? spacedRepetitionService.gradeVoiceAnswer(evaluation.isCorrect, (currentCard as any).attemptCount)
+      : undefined;
+
     currentCard.lastReviewed = new Date();
+    await this.saveCardProgress(currentCard, grade);
 
     // Only proceed to next card if should proceed
     if (shouldProceed) {
@@ -415,6 +587,14 @@ Return as JSON with flashcards array.`
     }
   }
 
+  /**
+   * The user a voice session belongs to, null when the session doesn't exist (or has ended)
+   */
+  getSessionOwner(sessionId: string): number | null {
+    const session = this.activeSessions.get(sessionId);
+    return session ? session.userId : null;
+  }
+
   /**
    * Get next question in session
    */
@@ -454,8 +634,7 @@ Return as JSON with flashcards array.`
     missingElements?: string[];
   }> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -480,11 +659,8 @@ For missing elements, be specific about what concepts or details the student sho
 Return as JSON with: isCorrect (boolean), feedback (string), confidence (0-1), missingElements (array of strings).`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"isCorrect": false, "feedback": "Could not evaluate", "confidence": 0}');
       return {
         isCorrect: result.isCorrect || false,
         feedback: result.feedback || "Could not evaluate your answer.",
@@ -606,6 +782,80 @@ Return as JSON with: isCorrect (boolean), feedback (string), confidence (0-1), m
     };
   }
 
+  /**
+   * Write review counters back for cards that come from a saved deck,
+   * and reschedule the card when the answer was graded
+   */
+  private async saveCardProgress(card: Flashcard, grade?: ReviewGrade): Promise<void> {
+    if (!card.deckId) return;
+
+    if (grade !== undefined) {
+      const next = spacedRepetitionService.schedule({
+        easeFactor: card.easeFactor ?? 2.5,
+        intervalDays: card.intervalDays ?? 0,
+        repetitions: card.repetitions ?? 0
+      }, grade);
+      Object.assign(card, next);
+    }
+
+    try {
+      await db
+        .update(flashcardsTable)
+        .set({
+          correctCount: card.correctCount,
+          incorrectCount: card.incorrectCount,
+          masteryLevel: card.masteryLevel,
+          lastReviewed: card.lastReviewed,
+          easeFactor: card.easeFactor,
+          intervalDays: card.intervalDays,
+          repetitions: card.repetitions,
+          dueAt: card.dueAt
+        })
+        .where(eq(flashcardsTable.id, parseInt(card.id, 10)));
+    } catch (error) {
+      console.error('Flashcard progress save error:', error);
+    }
+  }
+
+  private async insertCards(userId: number, deckId: number, cards: NewFlashcard[]): Promise<Flashcard[]> {
+    if (cards.length === 0) return [];
+
+    const rows = await db
+      .insert(flashcardsTable)
+      .values(cards.map(card => ({
+        deckId,
+        userId,
+        front: card.front,
+        back: card.back,
+        difficulty: card.difficulty || 'medium',
+        category: card.category,
+        source: card.source || 'manual'
+      })))
+      .returning();
+
+    return rows.map(row => this.toFlashcard(row));
+  }
+
+  private toFlashcard(row: FlashcardRecord): Flashcard {
+    return {
+      id: String(row.id),
+      deckId: row.deckId,
+      front: row.front,
+      back: row.back,
+      difficulty: row.difficulty as Flashcard['difficulty'],
+      category: row.category || '',
+      source: row.source || undefined,
+      lastReviewed: row.lastReviewed || undefined,
+      correctCount: row.correctCount,
+      incorrectCount: row.incorrectCount,
+      masteryLevel: row.masteryLevel,
+      easeFactor: row.easeFactor,
+      intervalDays: row.intervalDays,
+      repetitions: row.repetitions,
+      dueAt: row.dueAt
+    };
+  }
+
   private shuffleFlashcards(flashcards: Flashcard[]): Flashcard[] {
     const shuffled = [...flashcards];
     for (let i = shuffled.length - 1; i > 0; i--) {
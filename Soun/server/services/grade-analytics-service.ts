@@ -0,0 +1,327 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../db";
+import {
+  gradeWeights,
+  type ExamScore,
+  type ExamScoreCategory,
+  type GradeWeights
+} from "../../shared/schema";
+
+const DAYS_PER_MONTH = 30;
+const RECENT_EXAMS = 3;
+
+export interface TrendPoint {
+  examId: number;
+  examName: string;
+  date: string;
+  category: ExamScoreCategory;
+  percentage: number;
+  fitted: number; // The trend line's value on this date
+}
+
+export interface CategoryGrade {
+  category: ExamScoreCategory;
+  weight: number | null; // Percent of the course grade; null without configured weights
+  averageScore: number | null; // Mean percentage, null until something is graded
+  count: number;
+}
+
+export interface CourseGradeAnalytics {
+  courseId: string;
+  courseName: string;
+  examCount: number;
+  averageScore: number; // Mean percentage across the course's scores
+  trend: {
+    points: TrendPoint[]; // Oldest first
+    slopePerMonth: number; // Percentage points gained per month by the least-squares fit
+    change: number; // Fitted gain from the first score to the latest
+    nextScore: number; // The fit's prediction for the next exam
+  };
+  weights: GradeWeights | null; // Null when every score counts equally
+  categories: CategoryGrade[];
+  currentGrade: number; // Weighted over the categories graded so far
+  projectedGrade: number; // With what's still to come scored at the trend's prediction
+  gradedWeight: number; // Percent of the course grade already earned
+}
+
+export interface ExamScoreAnalytics {
+  averageScore: number; // Mean percentage across all scores
+  totalExams: number;
+  improvement: number; // Fitted gain per course, averaged over courses by how many scores they have
+  coursePerformance: CourseGradeAnalytics[]; // Highest average first
+  recentExams: Array<{
+    id: number;
+    courseName: string;
+    examName: string;
+    score: string;
+    maxScore: string;
+    percentage: number;
+    date: string;
+  }>;
+}
+
+export interface RequiredScore {
+  courseId: string;
+  category: ExamScoreCategory;
+  targetGrade: number;
+  currentGrade: number;
+  projectedGrade: number;
+  requiredPercentage: number; // What the next score in the category must be
+  requiredScore: number | null; // The same in points, when maxScore is given
+  achievable: boolean; // Needs 100% or less
+  secured: boolean; // Reached even with a zero
+}
+
+class GradeAnalyticsService {
+  /**
+   * Percentage-normalized analytics for a set of scores. Each course gets a least-squares trend
+   * over time and a grade weighted by `weightsByCourse`; a course without weights counts every
+   * score equally.
+   */
+  summarize(scores: ExamScore[], weightsByCourse: Map<string, GradeWeights> = new Map()): ExamScoreAnalytics {
+    if (scores.length === 0) {
+      return { averageScore: 0, totalExams: 0, improvement: 0, coursePerformance: [], recentExams: [] };
+    }
+
+    const byCourse = new Map<string, ExamScore[]>();
+    scores.forEach(exam => {
+      const courseScores = byCourse.get(exam.courseId) || [];
+      courseScores.push(exam);
+      byCourse.set(exam.courseId, courseScores);
+    });
+
+    const coursePerformance = Array.from(byCourse.entries())
+      .map(([courseId, courseScores]) => this.analyzeCourse(courseId, courseScores, weightsByCourse.get(courseId) || null))
+      .sort((a, b) => b.averageScore - a.averageScore || a.courseName.localeCompare(b.courseName));
+
+    const trending = coursePerformance.filter(course => course.examCount > 1);
+    const trendingExams = trending.reduce((sum, course) => sum + course.examCount, 0);
+    const improvement = trendingExams > 0
+      ? trending.reduce((sum, course) => sum + course.trend.change * course.examCount, 0) / trendingExams
+      : 0;
+
+    const recentExams = [...scores]
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id)
+      .slice(0, RECENT_EXAMS)
+      .map(exam => ({
+        id: exam.id,
+        courseName: exam.courseName,
+        examName: exam.examName,
+        score: exam.score,
+        maxScore: exam.maxScore,
+        percentage: round(percentageOf(exam)),
+        date: exam.date
+      }));
+
+    return {
+      averageScore: round(mean(scores.map(percentageOf))),
+      totalExams: scores.length,
+      improvement: round(improvement),
+      coursePerformance,
+      recentExams
+    };
+  }
+
+  /**
+   * The score needed on the next exam in `category` for the course grade to reach `targetGrade`.
+   * Categories with nothing graded yet are assumed to come in at the trend's prediction; without
+   * weights the next exam simply joins the equally weighted average. Null when the course's
+   * weights give the category nothing.
+   */
+  requiredScore(
+    course: CourseGradeAnalytics,
+    category: ExamScoreCategory,
+    targetGrade: number,
+    maxScore?: number
+  ): RequiredScore | null {
+    const percentages = course.trend.points.filter(point => !course.weights || point.category === category);
+    const categorySum = percentages.reduce((sum, point) => sum + point.percentage, 0);
+    // Share of the course grade the next exam's category carries, and what the rest contributes
+    let share = 100;
+    let others = 0;
+
+    if (course.weights) {
+      const weight = course.weights[category];
+      if (!weight) return null;
+      const totalWeight = weightTotal(course.weights);
+      share = (weight / totalWeight) * 100;
+      others = course.categories
+        .filter(grade => grade.category !== category && grade.weight)
+        .reduce((sum, grade) => sum + (grade.weight! / totalWeight) * (grade.averageScore ?? course.trend.nextScore), 0);
+    }
+
+    // target = others + share * (categorySum + x) / (count + 1) / 100, solved for x
+    const required = ((targetGrade - others) * 100 / share) * (percentages.length + 1) - categorySum;
+
+    return {
+      courseId: course.courseId,
+      category,
+      targetGrade,
+      currentGrade: course.currentGrade,
+      projectedGrade: course.projectedGrade,
+      requiredPercentage: round(required),
+      requiredScore: maxScore ? round((required / 100) * maxScore) : null,
+      achievable: required <= 100,
+      secured: required <= 0
+    };
+  }
+
+  async getWeights(userId: number): Promise<Map<string, GradeWeights>> {
+    const rows = await db
+      .select({ courseId: gradeWeights.courseId, weights: gradeWeights.weights })
+      .from(gradeWeights)
+      .where(eq(gradeWeights.userId, userId));
+    return new Map(rows.map(row => [row.courseId, row.weights] as [string, GradeWeights]));
+  }
+
+  async setWeights(userId: number, courseId: string, weights: GradeWeights): Promise<GradeWeights> {
+    const [saved] = await db
+      .insert(gradeWeights)
+      .values({ userId, courseId, weights })
+      .onConflictDoUpdate({
+        target: [gradeWeights.userId, gradeWeights.courseId],
+        set: { weights, updatedAt: new Date() }
+      })
+      .returning();
+    return saved.weights;
+  }
+
+  /**
+   * Go back to counting every score in the course equally. False when nothing was configured.
+   */
+  async clearWeights(userId: number, courseId: string): Promise<boolean> {
+    const removed = await db
+      .delete(gradeWeights)
+      .where(and(eq(gradeWeights.userId, userId), eq(gradeWeights.courseId, courseId)))
+      .returning({ id: gradeWeights.id });
+    return removed.length > 0;
+  }
+
+  private analyzeCourse(courseId: string, scores: ExamScore[], weights: GradeWeights | null): CourseGradeAnalytics {
+    const ordered = [...scores].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+    const firstDay = dayNumber(ordered[0].date);
+    const days = ordered.map(exam => dayNumber(exam.date) - firstDay);
+    const percentages = ordered.map(percentageOf);
+    const { slope, intercept } = leastSquares(days, percentages);
+    const fit = (day: number) => intercept + slope * day;
+
+    // The next exam is expected after the usual gap between this course's exams
+    const lastDay = days[days.length - 1];
+    const nextDay = days.length > 1 ? lastDay + lastDay / (days.length - 1) : lastDay;
+    const nextScore = clampPercentage(fit(nextDay));
+
+    const categories = this.categoryGrades(ordered, weights);
+    let currentGrade: number;
+    let projectedGrade: number;
+    let gradedWeight: number;
+    if (weights) {
+      const totalWeight = weightTotal(weights);
+      const graded = categories.filter(grade => grade.weight && grade.averageScore !== null);
+      const earnedWeight = graded.reduce((sum, grade) => sum + grade.weight!, 0);
+      currentGrade = earnedWeight > 0
+        ? graded.reduce((sum, grade) => sum + grade.weight! * grade.averageScore!, 0) / earnedWeight
+        : 0;
+      projectedGrade = categories
+        .filter(grade => grade.weight)
+        .reduce((sum, grade) => sum + grade.weight! * (grade.averageScore ?? nextScore), 0) / totalWeight;
+      gradedWeight = (earnedWeight / totalWeight) * 100;
+    } else {
+      // Without a grading scheme, assume one exam (the final) is still to come
+      currentGrade = mean(percentages);
+      projectedGrade = (percentages.reduce((sum, value) => sum + value, 0) + nextScore) / (percentages.length + 1);
+      gradedWeight = (percentages.length / (percentages.length + 1)) * 100;
+    }
+
+    return {
+      courseId,
+      courseName: ordered[ordered.length - 1].courseName,
+      examCount: ordered.length,
+      averageScore: round(mean(percentages)),
+      trend: {
+        points: ordered.map((exam, i) => ({
+          examId: exam.id,
+          examName: exam.examName,
+          date: exam.date,
+          category: categoryOf(exam),
+          percentage: round(percentages[i]),
+          fitted: round(fit(days[i]))
+        })),
+        slopePerMonth: round(slope * DAYS_PER_MONTH),
+        change: round(slope * lastDay),
+        nextScore: round(nextScore)
+      },
+      weights,
+      categories,
+      currentGrade: round(currentGrade),
+      projectedGrade: round(projectedGrade),
+      gradedWeight: round(gradedWeight)
+    };
+  }
+
+  /**
+   * Average per category, including weighted categories with nothing graded yet
+   */
+  private categoryGrades(scores: ExamScore[], weights: GradeWeights | null): CategoryGrade[] {
+    const present = scores.map(categoryOf);
+    const weighted = weights ? (Object.keys(weights) as ExamScoreCategory[]).filter(category => weights[category]) : [];
+    const categories = weighted.concat(present.filter(category => !weighted.includes(category)))
+      .filter((category, i, all) => all.indexOf(category) === i);
+
+    return categories.map(category => {
+      const inCategory = scores.filter(exam => categoryOf(exam) === category).map(percentageOf);
+      return {
+        category,
+        weight: weights ? weights[category] ?? 0 : null,
+        averageScore: inCategory.length > 0 ? round(mean(inCategory)) : null,
+        count: inCategory.length
+      };
+    });
+  }
+}
+
+function percentageOf(exam: ExamScore): number {
+  const maxScore = Number(exam.maxScore);
+  return maxScore > 0 ? (Number(exam.score) / maxScore) * 100 : 0;
+}
+
+function categoryOf(exam: ExamScore): ExamScoreCategory {
+  return (exam.category || "exam") as ExamScoreCategory;
+}
+
+/**
+ * Least-squares line through the points; flat through the mean when x doesn't vary
+ */
+function leastSquares(xs: number[], ys: number[]): { slope: number; intercept: number } {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) * (x - meanX);
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+function weightTotal(weights: GradeWeights): number {
+  return Object.values(weights).reduce((sum: number, weight) => sum + (weight || 0), 0);
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 86400000);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function clampPercentage(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export const gradeAnalyticsService = new GradeAnalyticsService();
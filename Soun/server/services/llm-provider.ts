@@ -0,0 +1,285 @@
+import OpenAI from "openai";
+import { createHash } from "crypto";
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  model?: string; // Overrides the configured chat model
+  signal?: AbortSignal;
+}
+
+export interface VisionRequest {
+  prompt: string;
+  imageUrl: string; // http(s) or data: URL
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything the server needs from a language model. Services depend on this, never on a vendor SDK.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /** False for the offline stub, so callers with a hand-written fallback can prefer it */
+  readonly isLive: boolean;
+  /** Stored next to embeddings so vectors from different models are never compared */
+  readonly embeddingModel: string;
+  chat(request: ChatRequest): Promise<string>;
+  /**
+   * Chat with the reply streamed to onDelta as it is generated. Resolves with the full text;
+   * rejects when request.signal aborts.
+   */
+  chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<string>;
+  /** Chat in JSON mode, parsed. Throws LLMError when the model doesn't return a JSON object. */
+  chatJson<T = any>(request: ChatRequest): Promise<T>;
+  vision(request: VisionRequest): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class LLMError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  apiKey: string;
+  baseURL?: string; // e.g. http://localhost:11434/v1 for a local model server
+  chatModel: string;
+  visionModel: string;
+  embeddingModel: string;
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+const STUB_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Talks to OpenAI or any server that implements its chat completions and embeddings API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly isLive = true;
+  readonly embeddingModel: string;
+  private client: OpenAI;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    this.name = config.baseURL ? `openai-compatible (${config.baseURL})` : "openai";
+    this.embeddingModel = config.embeddingModel;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    return this.complete(request, false);
+  }
+
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<string> {
+    let text = "";
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: request.model || this.config.chatModel,
+        messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      }, { signal: request.signal });
+
+      // Iterated by hand: the compile target doesn't support for await
+      const iterator = stream[Symbol.asyncIterator]();
+      while (true) {
+        const { value: chunk, done } = await iterator.next();
+        if (done) break;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new LLMError("Chat stream failed", error);
+    }
+    return text;
+  }
+
+  async chatJson<T = any>(request: ChatRequest): Promise<T> {
+    const content = await this.complete(request, true);
+    return parseJsonObject<T>(content);
+  }
+
+  async vision(request: VisionRequest): Promise<string> {
+    return this.complete({
+      model: this.config.visionModel,
+      maxTokens: request.maxTokens,
+      signal: request.signal,
+      messages: [{
+        role: "user",
+        content: [
+          { type: "text", text: request.prompt },
+          { type: "image_url", image_url: { url: request.imageUrl } }
+        ]
+      }]
+    }, false);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    try {
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await this.client.embeddings.create({
+          model: this.embeddingModel,
+          input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        });
+        vectors.push(...response.data.map(item => item.embedding));
+      }
+    } catch (error) {
+      throw new LLMError("Embedding request failed", error);
+    }
+    return vectors;
+  }
+
+  private async complete(request: ChatRequest, json: boolean): Promise<string> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: request.model || this.config.chatModel,
+        messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(json ? { response_format: { type: "json_object" as const } } : {}),
+      }, { signal: request.signal });
+
+      return response.choices[0]?.message?.content || "";
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new LLMError("Chat completion failed", error);
+    }
+  }
+}
+
+/**
+ * Offline provider with no network access. The same input always gives the same output,
+ * so the server boots and can be exercised without a key.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = "stub";
+  readonly isLive = false;
+  readonly embeddingModel = `stub-hash-${STUB_EMBEDDING_DIMENSIONS}`;
+
+  async chat(request: ChatRequest): Promise<string> {
+    const question = lastUserText(request.messages).replace(/\s+/g, " ").trim();
+    const excerpt = question.length > 160 ? `${question.slice(0, 157)}...` : question;
+    return excerpt
+      ? `I'm running offline, so I can't give a full answer to "${excerpt}" right now.`
+      : "I'm running offline right now.";
+  }
+
+  /**
+   * Replays the chat reply word by word, so streaming clients behave as they would online
+   */
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<string> {
+    const text = await this.chat(request);
+    const words = text.match(/\S+\s*/g) || [];
+    for (const word of words) {
+      if (request.signal?.aborted) throw new LLMError("Chat stream aborted");
+      onDelta(word);
+    }
+    return text;
+  }
+
+  async chatJson<T = any>(_request: ChatRequest): Promise<T> {
+    // Callers treat missing fields as "nothing generated" and fall back to their defaults
+    return {} as T;
+  }
+
+  async vision(_request: VisionRequest): Promise<string> {
+    return "";
+  }
+
+  /**
+   * Feature-hashed bag of words: texts sharing words get similar vectors, which keeps
+   * vector search meaningful in tests
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(STUB_EMBEDDING_DIMENSIONS).fill(0);
+      const tokens = text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(token => token.length > 1);
+      for (const token of tokens) {
+        const digest = createHash("md5").update(token).digest();
+        const index = digest.readUInt16BE(0) % STUB_EMBEDDING_DIMENSIONS;
+        vector[index] += digest[2] & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return norm > 0 ? vector.map(value => value / norm) : vector;
+    });
+  }
+}
+
+/**
+ * Pick the provider from the environment:
+ * LLM_PROVIDER=openai|stub forces one; otherwise OPENAI_API_KEY or LLM_BASE_URL selects the
+ * OpenAI-compatible adapter and anything else runs on the offline stub.
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY;
+  const requested = (env.LLM_PROVIDER || "").toLowerCase();
+  const useRemote = requested ? requested !== "stub" : !!(apiKey || env.LLM_BASE_URL);
+
+  if (!useRemote) {
+    console.log("No LLM configured (set OPENAI_API_KEY or LLM_BASE_URL), using the offline stub provider");
+    return new StubProvider();
+  }
+
+  const chatModel = env.LLM_CHAT_MODEL || "gpt-4o";
+  return new OpenAICompatibleProvider({
+    // Local servers usually ignore the key but the client requires one
+    apiKey: apiKey || "not-needed",
+    baseURL: env.LLM_BASE_URL || undefined,
+    chatModel,
+    visionModel: env.LLM_VISION_MODEL || chatModel,
+    embeddingModel: env.LLM_EMBEDDING_MODEL || "text-embedding-3-small",
+  });
+}
+
+/**
+ * Models sometimes wrap JSON in a markdown fence even in JSON mode, local ones especially
+ */
+function parseJsonObject<T>(content: string): T {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const parsed = JSON.parse(trimmed || "{}");
+    if (parsed === null || typeof parsed !== "object") {
+      throw new Error("Not a JSON object");
+    }
+    return parsed as T;
+  } catch (error) {
+    throw new LLMError("Model returned invalid JSON", error);
+  }
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "user") continue;
+    if (typeof message.content === "string") return message.content;
+    return message.content
+      .map(part => part.type === "text" ? part.text : "")
+      .join(" ");
+  }
+  return "";
+}
+
+export const llm = createLLMProvider();
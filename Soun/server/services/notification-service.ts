@@ -0,0 +1,334 @@
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { addDays, addMinutes, differenceInCalendarDays, endOfDay, format, parse } from "date-fns";
+import { db } from "../db";
+import {
+  achievements,
+  assessments,
+  assignments,
+  courses,
+  deadlines,
+  flashcards,
+  notifications,
+  quizReviewItems,
+  studySessions,
+  type InsertNotification,
+  type Notification
+} from "../../shared/schema";
+import { spacedRepetitionService } from "./spaced-repetition-service";
+import { pushService } from "./push-service";
+
+export type NotificationType = 'session_reminder' | 'assignment_due' | 'achievement' | 'suggestion' | 'system';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+const SESSION_REMINDER_MINUTES = 30;
+// A second, high priority reminder goes out this close to the start
+const SESSION_URGENT_MINUTES = 10;
+const EXAM_SUGGESTION_DAYS = 3;
+// Achievements older than this are history, not news, when the scheduler first sees them
+const ACHIEVEMENT_LOOKBACK_DAYS = 2;
+const DEFAULT_LIMIT = 50;
+
+class NotificationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async getNotifications(userId: number, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (options.unreadOnly) conditions.push(eq(notifications.read, false));
+
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.timestamp))
+      .limit(options.limit || DEFAULT_LIMIT);
+  }
+
+  async markRead(userId: number, id: number): Promise<Notification | null> {
+    const [updated] = await db
+      .update(notifications)
+      .set({ read: true, readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated || null;
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ read: true, readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  /**
+   * Store a notification unless one with the same dedupe key already exists for the user.
+   * Returns null for duplicates so the scheduler can run as often as it likes.
+   */
+  async notify(notification: InsertNotification): Promise<Notification | null> {
+    const [created] = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+      .returning();
+
+    if (created && created.priority === 'high') {
+      // Push is a bonus on top of the notification center; a failed push must not lose the notification
+      pushService.sendNotification(created).catch(error => {
+        console.error("Push notification error:", error);
+      });
+    }
+
+    return created || null;
+  }
+
+  /**
+   * Run every generator once. Each one is independent, so one failing doesn't hold back the others.
+   */
+  async runScheduledChecks(now: Date = new Date()): Promise<Notification[]> {
+    const generators = [
+      () => this.generateSessionReminders(now),
+      () => this.generateAssignmentReminders(now),
+      () => this.generateAchievementNotifications(now),
+      () => this.generateSuggestions(now)
+    ];
+
+    const created: Notification[] = [];
+    for (const generate of generators) {
+      try {
+        created.push(...await generate());
+      } catch (error) {
+        console.error("Notification generation error:", error);
+      }
+    }
+    return created;
+  }
+
+  start(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      // Skip a tick rather than overlap when the database is slow
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.runScheduledChecks();
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(() => { tick(); }, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sessions starting within the next half hour, and again within ten minutes.
+   * Session times are wall-clock times in the server's timezone.
+   */
+  async generateSessionReminders(now: Date): Promise<Notification[]> {
+    const today = format(now, "yyyy-MM-dd");
+    const windowEnd = addMinutes(now, SESSION_REMINDER_MINUTES);
+    // Sessions just after midnight are picked up by tomorrow's check
+    const until = windowEnd.getDate() === now.getDate() ? format(windowEnd, "HH:mm:ss") : "23:59:59";
+
+    const upcoming = await db
+      .select()
+      .from(studySessions)
+      .where(and(
+        eq(studySessions.date, today),
+        eq(studySessions.completed, false),
+        gte(studySessions.startTime, format(now, "HH:mm:ss")),
+        lte(studySessions.startTime, until)
+      ));
+
+    return this.notifyAll(upcoming.map(session => {
+      const startsAt = parse(`${session.date} ${session.startTime}`, "yyyy-MM-dd HH:mm:ss", now);
+      const minutes = Math.max(1, Math.round((startsAt.getTime() - now.getTime()) / 60000));
+      const urgent = minutes <= SESSION_URGENT_MINUTES;
+      return {
+        userId: session.userId,
+        type: 'session_reminder' as const,
+        title: "Study Session Reminder",
+        message: `Your ${session.title} session starts in ${minutes} minute${minutes === 1 ? "" : "s"}`,
+        priority: urgent ? 'high' as const : 'medium' as const,
+        actionUrl: "/planner",
+        relatedId: `session-${session.id}`,
+        dedupeKey: `session:${session.id}:${session.date}:${urgent ? SESSION_URGENT_MINUTES : SESSION_REMINDER_MINUTES}`
+      };
+    }));
+  }
+
+  /**
+   * Assignments and planner deadlines due today or tomorrow
+   */
+  async generateAssignmentReminders(now: Date): Promise<Notification[]> {
+    const today = format(now, "yyyy-MM-dd");
+    const tomorrow = format(addDays(now, 1), "yyyy-MM-dd");
+
+    const [dueAssignments, dueDeadlines] = await Promise.all([
+      db
+        .select()
+        .from(assignments)
+        .where(and(
+          gte(assignments.dueDate, today),
+          lte(assignments.dueDate, tomorrow),
+          sql`coalesce(${assignments.progress}, 0) < 100`
+        )),
+      db
+        .select()
+        .from(deadlines)
+        .where(and(gte(deadlines.dueDate, today), lte(deadlines.dueDate, tomorrow), eq(deadlines.completed, false)))
+    ]);
+
+    const items: InsertNotification[] = [
+      ...dueAssignments.map(assignment => this.dueNotification(
+        assignment.userId, assignment.title, assignment.course, assignment.dueDate, today,
+        `assignment-${assignment.id}`, `assignment:${assignment.id}:${assignment.dueDate}`
+      )),
+      ...dueDeadlines.map(deadline => this.dueNotification(
+        deadline.userId, deadline.title, deadline.subject, deadline.dueDate, today,
+        `deadline-${deadline.id}`, `deadline:${deadline.id}:${deadline.dueDate}`
+      ))
+    ];
+
+    return this.notifyAll(items);
+  }
+
+  async generateAchievementNotifications(now: Date): Promise<Notification[]> {
+    const recent = await db
+      .select()
+      .from(achievements)
+      .where(gte(achievements.dateEarned, addDays(now, -ACHIEVEMENT_LOOKBACK_DAYS)));
+
+    return this.notifyAll(recent.map(achievement => ({
+      userId: achievement.userId,
+      type: 'achievement' as const,
+      title: "Achievement Unlocked",
+      message: `${achievement.title}: ${achievement.description}`,
+      priority: 'low' as const,
+      actionUrl: "/progress",
+      relatedId: `achievement-${achievement.id}`,
+      dedupeKey: `achievement:${achievement.id}`
+    })));
+  }
+
+  /**
+   * Study suggestions from the schedule: prepare for exams coming up, and clear today's review queue
+   */
+  async generateSuggestions(now: Date): Promise<Notification[]> {
+    const today = format(now, "yyyy-MM-dd");
+    const items: InsertNotification[] = [];
+
+    const upcomingExams = await db
+      .select({ assessment: assessments, courseName: courses.name })
+      .from(assessments)
+      .leftJoin(courses, and(eq(courses.courseId, assessments.courseId), eq(courses.userId, assessments.userId)))
+      .where(and(
+        gte(assessments.date, today),
+        lte(assessments.date, format(addDays(now, EXAM_SUGGESTION_DAYS), "yyyy-MM-dd"))
+      ));
+
+    upcomingExams.forEach(({ assessment, courseName }) => {
+      const days = differenceInCalendarDays(parse(assessment.date, "yyyy-MM-dd", now), now);
+      if (days < 1) return; // Exam day is too late for a study suggestion
+      const subject = courseName || assessment.subject;
+      const when = days === 1 ? "tomorrow" : `in ${days} days`;
+      items.push({
+        userId: assessment.userId,
+        type: 'suggestion',
+        title: `${assessment.type === 'test' ? "Test" : "Exam"} ${when}`,
+        message: `${assessment.title} is ${when}. We recommend reviewing ${subject} today.`,
+        priority: days === 1 ? 'high' : 'medium',
+        actionUrl: assessment.courseId ? `/courses/${assessment.courseId}/study` : "/planner",
+        relatedId: `${assessment.type}-${assessment.id}`,
+        // One reminder per day left, so "in 3 days" and "tomorrow" both arrive
+        dedupeKey: `assessment:${assessment.id}:${assessment.date}:${days}`
+      });
+    });
+
+    const until = endOfDay(now);
+    const [cardUsers, quizUsers] = await Promise.all([
+      db.selectDistinct({ userId: flashcards.userId }).from(flashcards).where(lte(flashcards.dueAt, until)),
+      db.selectDistinct({ userId: quizReviewItems.userId }).from(quizReviewItems).where(lte(quizReviewItems.dueAt, until))
+    ]);
+    const userIds = Array.from(new Set([...cardUsers, ...quizUsers].map(row => row.userId)));
+
+    const courseNames = await this.getCourseNames(userIds);
+    for (const userId of userIds) {
+      const counts = await spacedRepetitionService.getDueCounts(userId);
+      counts.forEach(count => {
+        const total = count.flashcards + count.quizItems;
+        if (total === 0) return;
+        const name = count.courseId ? courseNames[`${userId}:${count.courseId}`] || count.courseId : null;
+        items.push({
+          userId,
+          type: 'suggestion',
+          title: "Review Due",
+          message: `${total} item${total === 1 ? " is" : "s are"} due for review${name ? ` in ${name}` : ""}. A quick session keeps them fresh.`,
+          priority: 'low',
+          actionUrl: count.courseId ? `/courses/${count.courseId}/study` : "/",
+          relatedId: count.courseId ? `course-${count.courseId}` : null,
+          dedupeKey: `reviews:${count.courseId || "none"}:${today}`
+        });
+      });
+    }
+
+    return this.notifyAll(items);
+  }
+
+  private dueNotification(
+    userId: number,
+    title: string,
+    subject: string,
+    dueDate: string,
+    today: string,
+    relatedId: string,
+    dedupeKey: string
+  ): InsertNotification {
+    const dueToday = dueDate === today;
+    return {
+      userId,
+      type: 'assignment_due',
+      title: dueToday ? "Assignment Due Today" : "Assignment Due Soon",
+      message: `Your ${subject} assignment "${title}" is due ${dueToday ? "today" : "tomorrow"}`,
+      priority: dueToday ? 'high' : 'medium',
+      actionUrl: "/planner",
+      relatedId,
+      dedupeKey
+    };
+  }
+
+  private async notifyAll(items: InsertNotification[]): Promise<Notification[]> {
+    const created: Notification[] = [];
+    for (const item of items) {
+      const notification = await this.notify(item);
+      if (notification) created.push(notification);
+    }
+    return created;
+  }
+
+  private async getCourseNames(userIds: number[]): Promise<Record<string, string>> {
+    if (userIds.length === 0) return {};
+    const rows = await db
+      .select({ userId: courses.userId, courseId: courses.courseId, name: courses.name })
+      .from(courses)
+      .where(inArray(courses.userId, userIds));
+
+    const names: Record<string, string> = {};
+    rows.forEach(row => {
+      names[`${row.userId}:${row.courseId}`] = row.name;
+    });
+    return names;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -1,10 +1,4 @@
-import OpenAI from "openai";
-
-// Check if we have an API key
-const apiKey = process.env.OPENAI_API_KEY;
-
-// Initialize OpenAI client if API key is available
-const openai = apiKey ? new OpenAI({ apiKey }) : null;
+import { llm, type ChatMessage } from "./llm-provider";
 
 // Interface for emotion detection results
 export interface EmotionDetectionResult {
@@ -30,15 +24,14 @@ export interface AcousticAnalysisResult {
  */
 export async function processWithNLP(text: string): Promise<string> {
   try {
-    if (!openai) {
-      console.log("OpenAI API key not available. Using fallback NLP processing.");
+    if (!llm.isLive) {
+      console.log("No language model configured. Using fallback NLP processing.");
       return generateFallbackResponse(text);
     }
 
-    console.log("Processing with OpenAI NLP:", text);
+    console.log("Processing with NLP:", text);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const response = await llm.chat({
       messages: [
         {
           role: "system" as const, 
@@ -49,10 +42,10 @@ export async function processWithNLP(text: string): Promise<string> {
         },
         { role: "user" as const, content: text }
       ],
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    return response.choices[0].message.content || "I couldn't process that. Could you rephrase your request?";
+    return response || "I couldn't process that. Could you rephrase your request?";
   } catch (error) {
     console.error("Error processing with NLP:", error);
     return "I'm having trouble processing that right now. Please try again later.";
@@ -66,15 +59,14 @@ export async function processWithNLP(text: string): Promise<string> {
  */
 export async function detectEmotion(text: string): Promise<EmotionDetectionResult> {
   try {
-    if (!openai) {
-      console.log("OpenAI API key not available. Using fallback emotion detection.");
+    if (!llm.isLive) {
+      console.log("No language model configured. Using fallback emotion detection.");
       return generateFallbackEmotionAnalysis(text);
     }
 
-    console.log("Analyzing emotion with OpenAI:", text);
+    console.log("Analyzing emotion:", text);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    return await llm.chatJson({
       messages: [
         {
           role: "system" as const, 
@@ -82,11 +74,7 @@ export async function detectEmotion(text: string): Promise<EmotionDetectionResul
         },
         { role: "user" as const, content: text }
       ],
-      response_format: { type: "json_object" },
     });
-
-    const resultText = response.choices[0].message.content || "{}";
-    return JSON.parse(resultText);
   } catch (error) {
     console.error("Error detecting emotion:", error);
     return generateFallbackEmotionAnalysis(text);
@@ -102,15 +90,14 @@ export async function detectEmotion(text: string): Promise<EmotionDetectionResul
  */
 export async function analyzeAcoustics(audioDescription: string): Promise<AcousticAnalysisResult> {
   try {
-    if (!openai) {
-      console.log("OpenAI API key not available. Using fallback acoustic analysis.");
+    if (!llm.isLive) {
+      console.log("No language model configured. Using fallback acoustic analysis.");
       return generateFallbackAcousticAnalysis();
     }
 
-    console.log("Analyzing acoustics with OpenAI:", audioDescription);
+    console.log("Analyzing acoustics:", audioDescription);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    return await llm.chatJson({
       messages: [
         {
           role: "system" as const, 
@@ -118,11 +105,7 @@ export async function analyzeAcoustics(audioDescription: string): Promise<Acoust
         },
         { role: "user" as const, content: audioDescription }
       ],
-      response_format: { type: "json_object" },
     });
-
-    const resultText = response.choices[0].message.content || "{}";
-    return JSON.parse(resultText);
   } catch (error) {
     console.error("Error analyzing acoustics:", error);
     return generateFallbackAcousticAnalysis();
@@ -180,8 +163,8 @@ export async function processAdvancedVoiceCommand(
   }
 }> {
   try {
-    if (!openai) {
-      console.log("OpenAI API key not available. Using fallback advanced processing.");
+    if (!llm.isLive) {
+      console.log("No language model configured. Using fallback advanced processing.");
       return {
         response: generateFallbackResponse(text),
         category: determineFallbackCategory(text),
@@ -275,14 +258,14 @@ export async function processAdvancedVoiceCommand(
                    }
                  }`
       }
-    ] as OpenAI.Chat.ChatCompletionMessageParam[];
+    ] as ChatMessage[];
 
     // Add conversation history if available
     if (context?.previousInteractions && context.previousInteractions.length > 0) {
       // Add up to 5 previous interactions for context
       const recentInteractions = context.previousInteractions.slice(-10);
       
-      // Convert to proper OpenAI message format
+      // Convert to chat message format
       for (const interaction of recentInteractions) {
         if (interaction.role === 'user') {
           messages.push({
@@ -306,17 +289,10 @@ export async function processAdvancedVoiceCommand(
     // Add the current user query
     messages.push({ role: "user" as const, content: text });
 
-    console.log("Processing advanced voice command with OpenAI");
+    console.log(`Processing advanced voice command with ${llm.name}`);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages,
-      response_format: { type: "json_object" },
-    });
+    const result = await llm.chatJson({ messages });
 
-    const resultText = response.choices[0].message.content || "{}";
-    const result = JSON.parse(resultText);
-    
     // Enhance result with detected emotion
     result.emotionDetected = emotionDetected;
     
@@ -331,7 +307,7 @@ export async function processAdvancedVoiceCommand(
   }
 }
 
-// Fallback functions when OpenAI is not available
+// Fallback functions when no language model is available
 
 function generateFallbackResponse(text: string): string {
   const lowerText = text.toLowerCase();
@@ -469,7 +445,7 @@ function analyzeAudioEmotion(audioFeatures: {
   };
 }
 
-// Check if OpenAI is configured
+// Check if a live language model is configured (not the offline stub)
 export function isOpenAIConfigured(): boolean {
-  return !!openai;
+  return llm.isLive;
 }
\ No newline at end of file
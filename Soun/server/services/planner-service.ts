@@ -0,0 +1,357 @@
+import { and, asc, eq, gte, isNull, lt, lte } from "drizzle-orm";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { db } from "../db";
+import {
+  assessments,
+  courses,
+  deadlines,
+  examScores,
+  studyLevel,
+  type Assessment,
+  type Course,
+  type Deadline,
+  type ExamScore,
+  type InsertAssessment,
+  type InsertDeadline
+} from "../../shared/schema";
+
+export type AssessmentType = 'exam' | 'test';
+
+export interface DateRangeFilter {
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string;
+  courseId?: string;
+}
+
+export interface AssessmentWithScore extends Assessment {
+  score: ExamScore | null;
+}
+
+export interface AssessmentGrade {
+  score: string;
+  maxScore: string;
+  feedback?: string | null;
+}
+
+export type SuggestionPriority = 'low' | 'medium' | 'high';
+
+/**
+ * A study block the planner proposes; the student decides whether to schedule it
+ */
+export interface StudySuggestion {
+  id: string;
+  title: string;
+  subject: string;
+  duration: number; // minutes
+  priority: SuggestionPriority;
+  reason: string;
+  bestTimeOfDay: 'morning' | 'afternoon' | 'evening';
+  suggestedDate: string; // yyyy-MM-dd
+  topics: string[];
+  estimatedCompletionTime: number; // minutes
+}
+
+const SUGGESTION_HORIZON_DAYS = 14;
+const MAX_SUGGESTIONS = 8;
+// Topics below this mastery are worth a review block of their own
+const WEAK_TOPIC_MASTERY = 60;
+
+// Hardest work goes where attention is usually best
+const TIME_OF_DAY: Record<SuggestionPriority, StudySuggestion['bestTimeOfDay']> = {
+  high: 'morning',
+  medium: 'afternoon',
+  low: 'evening'
+};
+
+class PlannerService {
+  /**
+   * Exams or tests in a date range, soonest first, with their recorded grade if any
+   */
+  async getAssessments(userId: number, type: AssessmentType, filter: DateRangeFilter = {}): Promise<AssessmentWithScore[]> {
+    const conditions = [eq(assessments.userId, userId), eq(assessments.type, type)];
+    if (filter.from) conditions.push(gte(assessments.date, filter.from));
+    if (filter.to) conditions.push(lte(assessments.date, filter.to));
+    if (filter.courseId) conditions.push(eq(assessments.courseId, filter.courseId));
+
+    const rows = await db
+      .select({ assessment: assessments, score: examScores })
+      .from(assessments)
+      .leftJoin(examScores, eq(examScores.id, assessments.examScoreId))
+      .where(and(...conditions))
+      .orderBy(asc(assessments.date), asc(assessments.startTime));
+
+    return rows.map(row => ({ ...row.assessment, score: row.score }));
+  }
+
+  async getAssessment(userId: number, type: AssessmentType, id: number): Promise<AssessmentWithScore | null> {
+    const [row] = await db
+      .select({ assessment: assessments, score: examScores })
+      .from(assessments)
+      .leftJoin(examScores, eq(examScores.id, assessments.examScoreId))
+      .where(and(eq(assessments.id, id), eq(assessments.userId, userId), eq(assessments.type, type)));
+
+    return row ? { ...row.assessment, score: row.score } : null;
+  }
+
+  async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
+    const [created] = await db.insert(assessments).values(assessment).returning();
+    return created;
+  }
+
+  async updateAssessment(
+    userId: number,
+    type: AssessmentType,
+    id: number,
+    updates: Partial<Omit<InsertAssessment, 'userId' | 'type'>>
+  ): Promise<Assessment | null> {
+    const [updated] = await db
+      .update(assessments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(assessments.id, id), eq(assessments.userId, userId), eq(assessments.type, type)))
+      .returning();
+
+    return updated || null;
+  }
+
+  async deleteAssessment(userId: number, type: AssessmentType, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(assessments)
+      .where(and(eq(assessments.id, id), eq(assessments.userId, userId), eq(assessments.type, type)))
+      .returning({ id: assessments.id });
+
+    return !!deleted;
+  }
+
+  /**
+   * Record the grade for an exam or test as an exam score, or update the one already linked.
+   * The assessment row is locked while grading, so a double submit updates the score the first
+   * one created instead of adding a second.
+   */
+  async recordGrade(
+    userId: number,
+    type: AssessmentType,
+    id: number,
+    grade: AssessmentGrade
+  ): Promise<AssessmentWithScore | null> {
+    const assessment = await this.getAssessment(userId, type, id);
+    if (!assessment) return null;
+
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ examScoreId: assessments.examScoreId })
+        .from(assessments)
+        .where(and(eq(assessments.id, assessment.id), eq(assessments.userId, userId)))
+        .for("update");
+      if (!locked) return null;
+
+      let score: ExamScore | undefined;
+      if (locked.examScoreId) {
+        [score] = await tx
+          .update(examScores)
+          .set({
+            score: grade.score,
+            maxScore: grade.maxScore,
+            ...(grade.feedback !== undefined && { feedback: grade.feedback })
+          })
+          .where(and(eq(examScores.id, locked.examScoreId), eq(examScores.userId, userId)))
+          .returning();
+      }
+
+      // Not graded yet, or the linked score was deleted
+      if (!score) {
+        const course = assessment.courseId ? await this.getCourse(userId, assessment.courseId) : undefined;
+        [score] = await tx
+          .insert(examScores)
+          .values({
+            userId,
+            courseId: assessment.courseId || assessment.subject,
+            courseName: course?.name || assessment.subject,
+            examName: assessment.title,
+            score: grade.score,
+            maxScore: grade.maxScore,
+            date: assessment.date,
+            feedback: grade.feedback ?? null,
+            category: assessment.type
+          })
+          .returning();
+
+        await tx
+          .update(assessments)
+          .set({ examScoreId: score.id, updatedAt: new Date() })
+          .where(eq(assessments.id, assessment.id));
+      }
+
+      return { ...assessment, examScoreId: score.id, score };
+    });
+  }
+
+  async getDeadlines(
+    userId: number,
+    filter: DateRangeFilter & { includeCompleted?: boolean } = {}
+  ): Promise<Deadline[]> {
+    const conditions = [eq(deadlines.userId, userId)];
+    if (filter.from) conditions.push(gte(deadlines.dueDate, filter.from));
+    if (filter.to) conditions.push(lte(deadlines.dueDate, filter.to));
+    if (filter.courseId) conditions.push(eq(deadlines.courseId, filter.courseId));
+    if (!filter.includeCompleted) conditions.push(eq(deadlines.completed, false));
+
+    return await db
+      .select()
+      .from(deadlines)
+      .where(and(...conditions))
+      .orderBy(asc(deadlines.dueDate), asc(deadlines.dueTime));
+  }
+
+  async createDeadline(deadline: InsertDeadline): Promise<Deadline> {
+    const [created] = await db.insert(deadlines).values(deadline).returning();
+    return created;
+  }
+
+  async updateDeadline(
+    userId: number,
+    id: number,
+    updates: Partial<Omit<InsertDeadline, 'userId'>>
+  ): Promise<Deadline | null> {
+    const [updated] = await db
+      .update(deadlines)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(deadlines.id, id), eq(deadlines.userId, userId)))
+      .returning();
+
+    return updated || null;
+  }
+
+  async deleteDeadline(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(deadlines)
+      .where(and(eq(deadlines.id, id), eq(deadlines.userId, userId)))
+      .returning({ id: deadlines.id });
+
+    return !!deleted;
+  }
+
+  /**
+   * Study blocks for the next two weeks: preparation for ungraded exams and tests, work on open
+   * deadlines, and review of the weakest topics, most urgent first
+   */
+  async getStudySuggestions(userId: number, today: Date = new Date()): Promise<StudySuggestion[]> {
+    const from = format(today, 'yyyy-MM-dd');
+    const to = format(addDays(today, SUGGESTION_HORIZON_DAYS), 'yyyy-MM-dd');
+
+    const [upcoming, openDeadlines, levels] = await Promise.all([
+      db
+        .select()
+        .from(assessments)
+        .where(and(
+          eq(assessments.userId, userId),
+          isNull(assessments.examScoreId),
+          gte(assessments.date, from),
+          lte(assessments.date, to)
+        ))
+        .orderBy(asc(assessments.date)),
+      this.getDeadlines(userId, { from, to }),
+      db
+        .select()
+        .from(studyLevel)
+        .where(and(eq(studyLevel.userId, userId), lt(studyLevel.masteryLevel, WEAK_TOPIC_MASTERY)))
+        .orderBy(asc(studyLevel.masteryLevel))
+    ]);
+
+    const weakTopicsFor = (courseId: string | null) => levels
+      .filter(level => level.courseId === courseId)
+      .slice(0, 3)
+      .map(level => level.topic);
+    // Start preparing a few days ahead, or today when the date is already close
+    const startDate = (dueDate: string, leadDays: number) => {
+      const start = addDays(parseISO(dueDate), -leadDays);
+      return start < today ? from : format(start, 'yyyy-MM-dd');
+    };
+    const suggest = (suggestion: Omit<StudySuggestion, 'bestTimeOfDay' | 'estimatedCompletionTime'>): StudySuggestion => ({
+      ...suggestion,
+      bestTimeOfDay: TIME_OF_DAY[suggestion.priority],
+      estimatedCompletionTime: suggestion.duration
+    });
+
+    const suggestions: StudySuggestion[] = [];
+
+    upcoming.forEach(assessment => {
+      const daysLeft = differenceInCalendarDays(parseISO(assessment.date), today);
+      const topics = weakTopicsFor(assessment.courseId);
+      suggestions.push(suggest({
+        id: `${assessment.type}-${assessment.id}`,
+        title: `Prepare for ${assessment.title}`,
+        subject: assessment.subject,
+        duration: assessment.type === 'exam' ? 90 : 60,
+        priority: daysLeft <= 3 ? 'high' : daysLeft <= 7 ? 'medium' : 'low',
+        reason: daysLeft === 0
+          ? `Your ${assessment.type} is today`
+          : `Your ${assessment.type} is in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+        suggestedDate: startDate(assessment.date, 3),
+        topics: topics.length > 0 ? topics : [assessment.subject]
+      }));
+    });
+
+    openDeadlines.forEach(deadline => {
+      const daysLeft = differenceInCalendarDays(parseISO(deadline.dueDate), today);
+      suggestions.push(suggest({
+        id: `deadline-${deadline.id}`,
+        title: `Work on ${deadline.title}`,
+        subject: deadline.subject,
+        duration: 60,
+        priority: deadline.isPriority || daysLeft <= 2 ? 'high' : daysLeft <= 7 ? 'medium' : 'low',
+        reason: daysLeft === 0 ? 'Due today' : `Due in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+        suggestedDate: startDate(deadline.dueDate, 2),
+        topics: [deadline.subject]
+      }));
+    });
+
+    // Weak topics already covered by an exam block don't need their own
+    const covered = new Set(suggestions.reduce<string[]>((all, suggestion) => all.concat(suggestion.topics), []));
+    levels
+      .filter(level => !covered.has(level.topic))
+      .slice(0, 3)
+      .forEach(level => {
+        suggestions.push(suggest({
+          id: `topic-${level.id}`,
+          title: `Review ${level.topic}`,
+          subject: level.courseId,
+          duration: 30,
+          priority: 'medium',
+          reason: `Your mastery of ${level.topic} is ${level.masteryLevel}%`,
+          suggestedDate: from,
+          topics: [level.topic]
+        }));
+      });
+
+    const rank: Record<SuggestionPriority, number> = { high: 0, medium: 1, low: 2 };
+    return suggestions
+      .sort((a, b) => rank[a.priority] - rank[b.priority] || a.suggestedDate.localeCompare(b.suggestedDate))
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Course for an explicit course ID, or the course whose ID or name matches the free-text subject.
+   * Returns undefined for an explicit ID the user doesn't own, null when nothing matches the subject.
+   */
+  async resolveCourse(userId: number, courseId: string | null | undefined, subject: string): Promise<Course | null | undefined> {
+    if (courseId) {
+      return this.getCourse(userId, courseId);
+    }
+
+    const userCourses = await db.select().from(courses).where(eq(courses.userId, userId));
+    const normalized = subject.trim().toLowerCase();
+    return userCourses.find(course =>
+      course.courseId.toLowerCase() === normalized || course.name.toLowerCase() === normalized
+    ) || null;
+  }
+
+  private async getCourse(userId: number, courseId: string): Promise<Course | undefined> {
+    const [course] = await db
+      .select()
+      .from(courses)
+      .where(and(eq(courses.userId, userId), eq(courses.courseId, courseId)));
+    return course;
+  }
+}
+
+export const plannerService = new PlannerService();
@@ -0,0 +1,404 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import {
+  courses,
+  presentationPractices,
+  presentations,
+  type InsertPresentation,
+  type InsertPresentationPractice,
+  type OutlineSection,
+  type Presentation,
+  type PresentationPractice,
+  type PresentationQuestion,
+  type TextSuggestion
+} from "../../shared/schema";
+import { llm } from "./llm-provider";
+
+const MAX_PRACTICES = 20;
+const MAX_QUESTIONS = 12;
+// Sentences longer than this are offered a split at a clause boundary
+const LONG_SENTENCE_WORDS = 35;
+
+type WorkspaceData = Omit<InsertPresentation, 'userId' | 'courseId'>;
+type PracticeData = Omit<InsertPresentationPractice, 'userId' | 'presentationId'>;
+
+export interface PresentationWorkspace {
+  presentation: Presentation | null;
+  practices: PresentationPractice[];
+}
+
+interface RevisionRule {
+  pattern: RegExp;
+  type: TextSuggestion['type'];
+  replace: (match: string) => string;
+  explanation: string;
+}
+
+const WORDY_PHRASES: Record<string, string> = {
+  "in order to": "to",
+  "due to the fact that": "because",
+  "at this point in time": "now",
+  "a large number of": "many",
+  "in the event that": "if",
+  "for the purpose of": "for",
+  "has the ability to": "can",
+  "with regard to": "about",
+  "prior to": "before",
+  "in spite of the fact that": "although"
+};
+
+const CONTRACTIONS: Record<string, string> = {
+  "don't": "do not", "doesn't": "does not", "didn't": "did not", "can't": "cannot", "won't": "will not",
+  "isn't": "is not", "aren't": "are not", "wasn't": "was not", "weren't": "were not", "it's": "it is",
+  "we're": "we are", "they're": "they are", "i'm": "I am", "that's": "that is", "there's": "there is",
+  "shouldn't": "should not", "couldn't": "could not", "wouldn't": "would not", "let's": "let us"
+};
+
+const INFORMAL_WORDS: Record<string, string> = {
+  "a lot of": "many",
+  "lots of": "many",
+  "kind of": "somewhat",
+  "sort of": "somewhat",
+  "gonna": "going to",
+  "wanna": "want to",
+  "stuff": "material",
+  "pretty much": "largely"
+};
+
+const REVISION_RULES: RevisionRule[] = [
+  {
+    pattern: /\b(\w+)\s+\1\b/gi,
+    type: "grammar",
+    replace: match => match.split(/\s+/)[0],
+    explanation: "The same word appears twice in a row."
+  },
+  {
+    // "a" before a vowel sound; words starting with "u", "eu" and "one" often take "a"
+    pattern: /\ba\s+(?!u|eu|one)[aeio]\w*/gi,
+    type: "grammar",
+    replace: match => match.replace(/^(a)/i, letter => letter === "A" ? "An" : "an"),
+    explanation: "Use \"an\" before a word that starts with a vowel sound."
+  },
+  {
+    pattern: /(?<=^|\s)i(?=\s|[,.!?']|$)/g,
+    type: "grammar",
+    replace: () => "I",
+    explanation: "The pronoun \"I\" is always capitalized."
+  },
+  {
+    pattern: phrasePattern(Object.keys(WORDY_PHRASES)),
+    type: "conciseness",
+    replace: match => WORDY_PHRASES[normalizePhrase(match)],
+    explanation: "A shorter phrase says the same thing and is easier to follow when spoken."
+  },
+  {
+    pattern: /\b(?:very|really|basically|actually|literally|just)\s+/gi,
+    type: "clarity",
+    replace: () => "",
+    explanation: "Filler words weaken the statement; the sentence is stronger without them."
+  },
+  {
+    pattern: phrasePattern(Object.keys(CONTRACTIONS)),
+    type: "academic",
+    replace: match => CONTRACTIONS[normalizePhrase(match)],
+    explanation: "Academic presentations usually avoid contractions."
+  },
+  {
+    pattern: phrasePattern(Object.keys(INFORMAL_WORDS)),
+    type: "academic",
+    replace: match => INFORMAL_WORDS[normalizePhrase(match)],
+    explanation: "This is informal; a more precise word suits an academic audience."
+  }
+];
+
+class PresentationService {
+  /**
+   * The student's presentation for a course (or the course-less one) with its practice history
+   */
+  async getWorkspace(userId: number, courseId: string | null): Promise<PresentationWorkspace> {
+    const presentation = await this.find(userId, courseId);
+    if (!presentation) return { presentation: null, practices: [] };
+
+    const practices = await db
+      .select()
+      .from(presentationPractices)
+      .where(eq(presentationPractices.presentationId, presentation.id))
+      .orderBy(desc(presentationPractices.recordedAt))
+      .limit(MAX_PRACTICES);
+
+    return { presentation, practices };
+  }
+
+  /**
+   * Create or replace the presentation for a course
+   */
+  async save(userId: number, courseId: string | null, data: WorkspaceData): Promise<Presentation> {
+    const set = { ...data, updatedAt: new Date() };
+    // Each case matches one of the table's unique indexes
+    const [saved] = await db
+      .insert(presentations)
+      .values({ ...data, userId, courseId })
+      .onConflictDoUpdate(courseId
+        ? { target: [presentations.userId, presentations.courseId], set }
+        : { target: presentations.userId, targetWhere: isNull(presentations.courseId), set })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Delete the presentation and its practice history; false when there was nothing to delete
+   */
+  async remove(userId: number, courseId: string | null): Promise<boolean> {
+    const existing = await this.find(userId, courseId);
+    if (!existing) return false;
+
+    await db.delete(presentationPractices).where(eq(presentationPractices.presentationId, existing.id));
+    await db.delete(presentations).where(eq(presentations.id, existing.id));
+    return true;
+  }
+
+  async getOwned(userId: number, presentationId: number): Promise<Presentation | null> {
+    const [presentation] = await db
+      .select()
+      .from(presentations)
+      .where(and(eq(presentations.id, presentationId), eq(presentations.userId, userId)));
+    return presentation || null;
+  }
+
+  async addPractice(userId: number, presentationId: number, data: PracticeData): Promise<PresentationPractice> {
+    const [practice] = await db
+      .insert(presentationPractices)
+      .values({ ...data, userId, presentationId })
+      .returning();
+    return practice;
+  }
+
+  async removePractice(userId: number, presentationId: number, practiceId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(presentationPractices)
+      .where(and(
+        eq(presentationPractices.id, practiceId),
+        eq(presentationPractices.presentationId, presentationId),
+        eq(presentationPractices.userId, userId)
+      ))
+      .returning({ id: presentationPractices.id });
+    return deleted.length > 0;
+  }
+
+  async isOwnCourse(userId: number, courseId: string): Promise<boolean> {
+    const [course] = await db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(and(eq(courses.userId, userId), eq(courses.courseId, courseId)));
+    return !!course;
+  }
+
+  /**
+   * Questions an audience is likely to ask about the outline. Falls back to questions built
+   * from the section titles when the model is unavailable or returns nothing usable.
+   */
+  async generateQuestions(title: string, outline: OutlineSection[], count: number = 8): Promise<PresentationQuestion[]> {
+    const limit = Math.min(count, MAX_QUESTIONS);
+    const sections = outline.filter(section => section.title.trim() || section.content.trim());
+
+    try {
+      const result = await llm.chatJson({
+        messages: [
+          {
+            role: "system",
+            content: "You anticipate audience questions for student presentations. Return valid JSON."
+          },
+          {
+            role: "user",
+            content: `Presentation: ${title}
+
+Outline:
+${sections.map(section => `- ${section.title}: ${section.content || '(no notes yet)'}`).join('\n')}
+
+Write ${limit} questions the audience or instructor might ask, from basic clarifications to challenging critiques.
+Return JSON: {"questions": [{"text": string, "category": string (the outline section it is about), "difficulty": "basic" | "intermediate" | "advanced"}]}`
+          }
+        ],
+        temperature: 0.5,
+      });
+
+      const generated = Array.isArray(result?.questions) ? result.questions : [];
+      const questions = generated
+        .filter((q: any) => typeof q?.text === 'string' && q.text.trim())
+        .slice(0, limit)
+        .map((q: any, index: number) => this.toQuestion(
+          q.text.trim(),
+          typeof q.category === 'string' && q.category ? q.category : 'General',
+          ['basic', 'intermediate', 'advanced'].includes(q.difficulty) ? q.difficulty : 'intermediate',
+          index
+        ));
+      if (questions.length > 0) return questions;
+    } catch (error) {
+      console.error('Presentation question generation error:', error);
+    }
+
+    return this.templateQuestions(title, sections).slice(0, limit);
+  }
+
+  /**
+   * Rule-based suggestions for grammar, clarity, academic register and concision.
+   * Overlapping matches keep the one that starts first, so applying one never breaks another.
+   */
+  reviseText(text: string): TextSuggestion[] {
+    const found: TextSuggestion[] = [];
+
+    REVISION_RULES.forEach(rule => {
+      rule.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = rule.pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          rule.pattern.lastIndex++;
+          continue;
+        }
+        const original = match[0];
+        found.push({
+          id: `${rule.type}-${match.index}`,
+          original,
+          suggested: matchCase(original, rule.replace(original)),
+          type: rule.type,
+          explanation: rule.explanation,
+          startIndex: match.index,
+          endIndex: match.index + original.length,
+          applied: false
+        });
+      }
+    });
+
+    found.sort((a, b) => a.startIndex - b.startIndex || b.endIndex - a.endIndex);
+    const suggestions: TextSuggestion[] = [];
+    let coveredUntil = -1;
+    found.forEach(suggestion => {
+      if (suggestion.startIndex < coveredUntil || suggestion.suggested === suggestion.original) return;
+      suggestions.push(suggestion);
+      coveredUntil = suggestion.endIndex;
+    });
+
+    // A sentence split replaces the whole sentence, so it's only offered when nothing inside it is
+    this.longSentenceSuggestions(text).forEach(split => {
+      const overlaps = suggestions.some(s => s.startIndex < split.endIndex && s.endIndex > split.startIndex);
+      if (!overlaps) suggestions.push(split);
+    });
+    return suggestions.sort((a, b) => a.startIndex - b.startIndex);
+  }
+
+  private longSentenceSuggestions(text: string): TextSuggestion[] {
+    const suggestions: TextSuggestion[] = [];
+    const sentencePattern = /[^.!?\s][^.!?\n]*[.!?]?/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = sentencePattern.exec(text)) !== null) {
+      const sentence = match[0];
+      if (sentence.split(/\s+/).filter(Boolean).length <= LONG_SENTENCE_WORDS) continue;
+
+      // Split at the clause boundary closest to the middle
+      const boundaries: number[] = [];
+      const boundaryPattern = /(?:;\s+|,\s+(?:and|but|which|so)\s+)/g;
+      let boundary: RegExpExecArray | null;
+      while ((boundary = boundaryPattern.exec(sentence)) !== null) boundaries.push(boundary.index);
+      if (boundaries.length === 0) continue;
+
+      const middle = sentence.length / 2;
+      const at = boundaries.reduce((best, index) => Math.abs(index - middle) < Math.abs(best - middle) ? index : best);
+      const rest = sentence.slice(at).replace(/^(?:;\s+|,\s+(?:and|which|so)\s+|,\s+)/, "");
+      const suggested = `${sentence.slice(0, at).trimEnd()}. ${rest.charAt(0).toUpperCase()}${rest.slice(1)}`;
+
+      suggestions.push({
+        id: `clarity-${match.index}`,
+        original: sentence,
+        suggested,
+        type: "clarity",
+        explanation: `This sentence is over ${LONG_SENTENCE_WORDS} words; listeners follow shorter sentences more easily.`,
+        startIndex: match.index,
+        endIndex: match.index + sentence.length,
+        applied: false
+      });
+    }
+    return suggestions;
+  }
+
+  private templateQuestions(title: string, sections: OutlineSection[]): PresentationQuestion[] {
+    const questions: PresentationQuestion[] = [];
+    const add = (text: string, category: string, difficulty: PresentationQuestion['difficulty']) => {
+      questions.push(this.toQuestion(text, category, difficulty, questions.length));
+    };
+
+    add(`What made you choose "${title}" as your topic?`, 'General', 'basic');
+    sections.forEach(section => {
+      const name = section.title.trim() || 'this section';
+      add(`Could you summarize the key point of "${name}" in one sentence?`, name, 'basic');
+    });
+    sections.forEach(section => {
+      const name = section.title.trim() || 'this section';
+      add(`What evidence supports what you said in "${name}"?`, name, 'intermediate');
+    });
+    sections.forEach(section => {
+      const name = section.title.trim() || 'this section';
+      add(`What is the strongest counterargument to "${name}", and how would you respond?`, name, 'advanced');
+    });
+    add(`How would your conclusions change if your main assumption turned out to be wrong?`, 'General', 'advanced');
+
+    // Interleave difficulties so a short list still covers all three
+    const byDifficulty = ['basic', 'intermediate', 'advanced'].map(level => questions.filter(q => q.difficulty === level));
+    const interleaved: PresentationQuestion[] = [];
+    for (let i = 0; interleaved.length < questions.length; i++) {
+      byDifficulty.forEach(group => {
+        if (group[i]) interleaved.push(group[i]);
+      });
+    }
+    return interleaved;
+  }
+
+  private toQuestion(text: string, category: string, difficulty: PresentationQuestion['difficulty'], index: number): PresentationQuestion {
+    return {
+      id: `generated-${Date.now()}-${index}`,
+      text,
+      category,
+      difficulty,
+      preparedAnswer: '',
+      source: 'generated',
+      isFavorite: false
+    };
+  }
+
+  private async find(userId: number, courseId: string | null): Promise<Presentation | undefined> {
+    const [presentation] = await db
+      .select()
+      .from(presentations)
+      .where(and(
+        eq(presentations.userId, userId),
+        courseId ? eq(presentations.courseId, courseId) : isNull(presentations.courseId)
+      ))
+      .orderBy(desc(presentations.updatedAt))
+      .limit(1);
+    return presentation;
+  }
+}
+
+/**
+ * Whole-word, case-insensitive pattern for any of the phrases, longest first
+ */
+function phrasePattern(phrases: string[]): RegExp {
+  const alternatives = phrases
+    .slice()
+    .sort((a, b) => b.length - a.length)
+    .map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+"));
+  return new RegExp(`\\b(?:${alternatives.join("|")})\\b`, "gi");
+}
+
+function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ");
+}
+
+// Keep a capital at the start of the replaced text, e.g. at the start of a sentence
+function matchCase(original: string, replacement: string): string {
+  const first = original.charAt(0);
+  if (!replacement || first === first.toLowerCase()) return replacement;
+  return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+}
+
+export const presentationService = new PresentationService();
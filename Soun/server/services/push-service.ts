@@ -0,0 +1,181 @@
+import webpush from "web-push";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import {
+  notificationPreferences,
+  pushSubscriptions,
+  type InsertNotificationPreferences,
+  type Notification,
+  type NotificationPreferences,
+  type PushSubscription
+} from "../../shared/schema";
+
+// Push services drop a message they can't deliver within this many seconds
+const PUSH_TTL_SECONDS = 60 * 60;
+
+// Which settings toggle governs each notification type; system notifications always go out
+const CATEGORY_BY_TYPE: Record<string, keyof InsertNotificationPreferences | undefined> = {
+  session_reminder: 'studyReminders',
+  suggestion: 'studyReminders',
+  assignment_due: 'assignmentReminders',
+  achievement: 'achievements',
+};
+
+export interface BrowserSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+class PushService {
+  private publicKey: string | null;
+
+  constructor() {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    this.publicKey = null;
+
+    if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+      try {
+        webpush.setVapidDetails(VAPID_SUBJECT || "mailto:admin@localhost", VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+        this.publicKey = VAPID_PUBLIC_KEY;
+      } catch (error) {
+        console.error("Invalid VAPID configuration, Web Push disabled:", error);
+      }
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.publicKey !== null;
+  }
+
+  /**
+   * Key the browser needs to create a subscription, null when push isn't configured
+   */
+  getPublicKey(): string | null {
+    return this.publicKey;
+  }
+
+  /**
+   * Store a browser's subscription. Endpoints are unique per browser, so a browser that
+   * changes hands moves to the new user.
+   */
+  async subscribe(userId: number, subscription: BrowserSubscription, userAgent?: string): Promise<PushSubscription> {
+    const values = {
+      userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      userAgent: userAgent || null
+    };
+
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values(values)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { userId, p256dh: values.p256dh, auth: values.auth, userAgent: values.userAgent }
+      })
+      .returning();
+    return saved;
+  }
+
+  async unsubscribe(userId: number, endpoint: string): Promise<boolean> {
+    const [deleted] = await db
+      .delete(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.endpoint, endpoint)))
+      .returning({ id: pushSubscriptions.id });
+    return !!deleted;
+  }
+
+  /**
+   * The user's toggles, with everything on for users who never changed them
+   */
+  async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+
+    return preferences || {
+      id: 0,
+      userId,
+      enabled: true,
+      assignmentReminders: true,
+      studyReminders: true,
+      achievements: true,
+      progressReports: true,
+      updatedAt: new Date()
+    };
+  }
+
+  async updatePreferences(userId: number, updates: Partial<InsertNotificationPreferences>): Promise<NotificationPreferences> {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Push a notification to every browser the user subscribed, if their settings allow it.
+   * Only high priority notifications are pushed; the rest wait in the notification center.
+   * Returns how many browsers accepted the message.
+   */
+  async sendNotification(notification: Notification): Promise<number> {
+    if (!this.isConfigured() || notification.priority !== 'high') return 0;
+
+    const preferences = await this.getPreferences(notification.userId);
+    const category = CATEGORY_BY_TYPE[notification.type];
+    if (!preferences.enabled || (category && !preferences[category])) return 0;
+
+    const subscriptions = await db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, notification.userId));
+    if (subscriptions.length === 0) return 0;
+
+    const payload = JSON.stringify({
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.message,
+      url: notification.actionUrl || "/",
+      // Replaces an earlier push about the same thing, e.g. the 30 and 10 minute session reminders
+      tag: notification.relatedId || `notification-${notification.id}`
+    });
+
+    const delivered: number[] = [];
+    const expired: number[] = [];
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+          { TTL: PUSH_TTL_SECONDS, urgency: 'high' }
+        );
+        delivered.push(subscription.id);
+      } catch (error) {
+        // 404 and 410 mean the browser unsubscribed or the subscription expired
+        if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          expired.push(subscription.id);
+        } else {
+          console.error("Web Push delivery error:", error);
+        }
+      }
+    }
+
+    if (expired.length > 0) {
+      await db.delete(pushSubscriptions).where(inArray(pushSubscriptions.id, expired));
+    }
+    if (delivered.length > 0) {
+      await db.update(pushSubscriptions).set({ lastUsedAt: new Date() }).where(inArray(pushSubscriptions.id, delivered));
+    }
+
+    return delivered.length;
+  }
+}
+
+export const pushService = new PushService();
@@ -1,14 +1,6 @@
 
-import OpenAI from "openai";
 import { documentAnalysisService } from "./document-analysis-service";
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable must be set");
-}
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from "./llm-provider";
 
 export interface QuizQuestion {
   id: string;
@@ -56,8 +48,7 @@ export class QuizGenerationService {
         difficulty
       );
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -68,11 +59,8 @@ export class QuizGenerationService {
             content: prompt
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.4,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
       return this.validateQuestions(result.questions || []);
     } catch (error) {
       console.error('Quiz generation error:', error);
@@ -125,8 +113,7 @@ Question Distribution:
 
 ` : '';
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -152,11 +139,8 @@ ${isPracticeHeavy ? '5. For practice-heavy subjects: clearly indicate which appr
 Return as JSON with array of questions.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.5,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
       const questions = this.validateQuestions(result.questions || []);
       
       // If practice-heavy subject, ensure questions are properly interleaved
@@ -182,8 +166,7 @@ Return as JSON with array of questions.`
     try {
       const evaluationPrompt = this.buildEvaluationPrompt(questions, userAnswers);
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const evaluation = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -194,12 +177,9 @@ Return as JSON with array of questions.`
             content: evaluationPrompt
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
-
-      const evaluation = JSON.parse(response.choices[0].message.content || '{}');
-      return this.processEvaluation(evaluation, questions.length);
+      return this.processEvaluation(evaluation, questions, userAnswers);
     } catch (error) {
       console.error('Quiz evaluation error:', error);
       throw new Error('Failed to evaluate quiz answers');
@@ -291,6 +271,7 @@ Return as JSON with questions array.`;
     const questionAnswerPairs = questions.map(q => {
       const userAnswer = userAnswers.find(a => a.questionId === q.id)?.answer || "No answer provided";
       return {
+        questionId: q.id,
         question: q.question,
         type: q.type,
         correctAnswer: q.correctAnswer,
@@ -309,6 +290,8 @@ For each response:
 3. Assess concept mastery level (0-1) based on the response quality
 4. Identify specific strengths and weaknesses in understanding
 
+Return one entry in "results" per question with questionId, isCorrect, explanation and conceptMastery.
+
 Then provide:
 - Overall assessment of concept mastery by topic
 - Specific recommendations for improvement
@@ -326,8 +309,7 @@ Return as JSON with detailed evaluation results.`;
     const difficulty = type === 'remedial' ? 'easy' : 'hard';
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -347,11 +329,8 @@ ${type === 'remedial'
 Return as JSON with questions array.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.4,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
       return this.validateQuestions(result.questions || []);
     } catch (error) {
       console.error('Targeted question generation error:', error);
@@ -363,8 +342,7 @@ Return as JSON with questions array.`
     if (concepts.length === 0) return [];
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await llm.chat({
         messages: [
           {
             role: "system",
@@ -387,7 +365,7 @@ Keep explanations concise but thorough.`
         temperature: 0.4,
       });
 
-      const explanations = response.choices[0].message.content || '';
+      const explanations = response;
       return explanations.split('\n\n').filter(exp => exp.trim().length > 0);
     } catch (error) {
       console.error('Remedial explanation generation error:', error);
@@ -501,8 +479,7 @@ Keep explanations concise but thorough.`
         `Title: ${doc.title}\nContent: ${doc.content.substring(0, 1000)}...`
       ).join('\n\n');
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -550,11 +527,8 @@ Return as JSON with questions array. Each question should include:
 - Concept being tested for self-reflection purposes`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.6,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
       return this.validateQuestions(result.questions || []);
     } catch (error) {
       console.error('Self-test generation error:', error);
@@ -577,8 +551,7 @@ Return as JSON with questions array. Each question should include:
         return acc;
       }, {} as any);
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const evaluation = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -629,17 +602,22 @@ Return detailed evaluation including:
 - Specific topic mastery levels`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.4,
       });
-
-      const evaluation = JSON.parse(response.choices[0].message.content || '{}');
       
       // Calculate additional metrics
-      const correctAnswers = userAnswers.filter(answer => {
-        const question = questions.find(q => q.id === answer.questionId);
-        return question && this.isAnswerCorrect(question, answer.answer);
-      }).length;
+      const results: QuizResult[] = questions.map(question => {
+        const userAnswer = answerMap[question.id]?.answer || '';
+        const isCorrect = this.isAnswerCorrect(question, userAnswer);
+        return {
+          questionId: question.id,
+          userAnswer,
+          isCorrect,
+          explanation: question.explanation,
+          conceptMastery: isCorrect ? 1 : 0
+        };
+      });
+      const correctAnswers = results.filter(result => result.isCorrect).length;
 
       const averageConfidence = userAnswers
         .filter(a => a.confidence)
@@ -647,6 +625,7 @@ Return detailed evaluation including:
 
       return {
         ...evaluation,
+        results,
         correctAnswers,
         totalQuestions: questions.length,
         overallScore: correctAnswers / questions.length,
@@ -692,8 +671,7 @@ Return detailed evaluation including:
     targetCount: number = 8
   ): Promise<QuizQuestion[]> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -723,11 +701,8 @@ Ensure questions test approach discrimination, not just computational ability.
 Return as JSON with questions array.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.6,
       });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
       return this.validateQuestions(result.questions || []);
     } catch (error) {
       console.error('Interleaved practice quiz generation error:', error);
@@ -735,10 +710,52 @@ Return as JSON with questions array.`
     }
   }
 
-  private processEvaluation(evaluation: any, totalQuestions: number): any {
+  /**
+   * Questions the model skipped (or every question, when it returned nothing usable) are
+   * graded locally so each answer gets a result
+   */
+  private processEvaluation(
+    evaluation: any,
+    questions: QuizQuestion[],
+    userAnswers: { questionId: string; answer: string }[]
+  ): any {
+    const graded: any[] = Array.isArray(evaluation.results) ? evaluation.results : [];
+    let gradedLocally = 0;
+
+    const results: QuizResult[] = questions.map(question => {
+      const userAnswer = userAnswers.find(a => a.questionId === question.id)?.answer || '';
+      const result = graded.find(r => r && String(r.questionId) === question.id);
+      if (result && typeof result.isCorrect === 'boolean') {
+        return {
+          ...result,
+          questionId: question.id,
+          userAnswer,
+          isCorrect: result.isCorrect,
+          explanation: result.explanation || question.explanation,
+          conceptMastery: typeof result.conceptMastery === 'number' ? result.conceptMastery : (result.isCorrect ? 1 : 0)
+        };
+      }
+
+      gradedLocally++;
+      const isCorrect = this.isAnswerCorrect(question, userAnswer);
+      return {
+        questionId: question.id,
+        userAnswer,
+        isCorrect,
+        explanation: question.explanation,
+        conceptMastery: isCorrect ? 1 : 0
+      };
+    });
+
+    const correctShare = questions.length > 0
+      ? results.filter(r => r.isCorrect).length / questions.length
+      : 0;
+
     return {
-      results: evaluation.results || [],
-      overallScore: evaluation.overallScore || 0,
+      results,
+      overallScore: gradedLocally === 0 && typeof evaluation.overallScore === 'number' && evaluation.overallScore <= 1
+        ? evaluation.overallScore
+        : correctShare,
       conceptAssessments: evaluation.conceptAssessments || [],
       recommendations: evaluation.recommendations || []
     };
@@ -0,0 +1,215 @@
+import { and, eq, inArray, lt } from "drizzle-orm";
+import { db } from "../db";
+import { quizQuestions, quizSessions, type QuizSession } from "../../shared/schema";
+import { storage } from "../storage";
+import type { ConceptAssessment, QuizQuestion, QuizResult } from "./quiz-generation-service";
+
+// A session nobody submitted within this long is marked abandoned when the user starts another
+const STALE_SESSION_MS = 2 * 60 * 60 * 1000;
+// Weight of the newest session in a topic's mastery; the rest carries over from earlier sessions
+const SESSION_MASTERY_WEIGHT = 0.4;
+
+export interface OpenQuizOptions {
+  courseId: string;
+  topics: string[];
+  questions: QuizQuestion[];
+}
+
+export interface AnswerTiming {
+  questionId: string;
+  timeSpent?: number; // seconds
+}
+
+export interface ClosedQuizSession {
+  session: QuizSession;
+  attemptsRecorded: number;
+  topicsUpdated: string[];
+}
+
+class QuizSessionService {
+  /**
+   * Save generated questions to the question bank and start a session for them.
+   * The returned questions carry their bank IDs so answers can be matched on submit.
+   */
+  async open(userId: number, options: OpenQuizOptions): Promise<{ sessionId: number; questions: QuizQuestion[] }> {
+    const { courseId, topics, questions } = options;
+
+    await this.abandonStaleSessions(userId);
+
+    const saved: QuizQuestion[] = [];
+    for (const question of questions) {
+      const row = await storage.createQuizQuestion({
+        courseId,
+        topic: question.conceptTested,
+        difficulty: question.difficulty,
+        questionType: question.type,
+        question: question.question,
+        options: question.options || null,
+        correctAnswer: question.correctAnswer,
+        explanation: question.explanation,
+        tags: question.documentReference ? [question.documentReference] : null
+      });
+      saved.push({ ...question, id: String(row.id) });
+    }
+
+    const session = await storage.createQuizSession({
+      userId,
+      courseId,
+      topics,
+      questionIds: saved.map(question => Number(question.id)),
+      questionsCount: saved.length,
+      correctCount: 0,
+      score: 0,
+      startTime: new Date(),
+      status: "in_progress"
+    });
+
+    return { sessionId: session.id, questions: saved };
+  }
+
+  /**
+   * The user's session, or undefined when it doesn't exist or belongs to someone else
+   */
+  async getOwnedSession(userId: number, sessionId: number): Promise<QuizSession | undefined> {
+    const session = await storage.getQuizSessionById(sessionId);
+    return session && session.userId === userId ? session : undefined;
+  }
+
+  /**
+   * The session's questions as stored in the bank, in the order they were asked
+   */
+  async getSessionQuestions(session: QuizSession): Promise<QuizQuestion[]> {
+    const questionIds = session.questionIds || [];
+    if (questionIds.length === 0) return [];
+
+    const rows = await db.select().from(quizQuestions).where(inArray(quizQuestions.id, questionIds));
+    return questionIds
+      .map(id => rows.find(row => row.id === id))
+      .filter((row): row is NonNullable<typeof row> => !!row)
+      .map(row => ({
+        id: String(row.id),
+        question: row.question,
+        type: row.questionType as QuizQuestion['type'],
+        options: row.options || undefined,
+        correctAnswer: row.correctAnswer,
+        explanation: row.explanation || '',
+        difficulty: row.difficulty as QuizQuestion['difficulty'],
+        conceptTested: row.topic,
+        documentReference: row.tags?.[0]
+      }));
+  }
+
+  /**
+   * Record every answer as an attempt, complete the session and fold the results into the
+   * user's per-topic study level. Null when the session was already submitted; completing it
+   * is a conditional update, so a double submit can't record the answers twice.
+   */
+  async close(
+    userId: number,
+    session: QuizSession,
+    questions: QuizQuestion[],
+    results: QuizResult[],
+    evaluation: { timings?: AnswerTiming[]; conceptAssessments?: ConceptAssessment[]; feedback?: string } = {}
+  ): Promise<ClosedQuizSession | null> {
+    const [claimed] = await db
+      .update(quizSessions)
+      .set({ status: "completed", endTime: new Date() })
+      .where(and(eq(quizSessions.id, session.id), eq(quizSessions.status, "in_progress")))
+      .returning({ id: quizSessions.id });
+    if (!claimed) return null;
+
+    const timings = evaluation.timings || [];
+    const byTopic: Record<string, { attempted: number; correct: number }> = {};
+    let correctCount = 0;
+    let attemptsRecorded = 0;
+
+    for (const question of questions) {
+      const result = results.find(r => r.questionId === question.id);
+      if (!result) continue;
+
+      const timing = timings.find(t => t.questionId === question.id);
+      await storage.recordQuizAttempt({
+        userId,
+        courseId: session.courseId,
+        topic: question.conceptTested,
+        questionId: Number(question.id),
+        sessionId: session.id,
+        userAnswer: result.userAnswer || '',
+        isCorrect: result.isCorrect,
+        timeSpent: timing?.timeSpent !== undefined ? Math.round(timing.timeSpent) : null
+      });
+
+      attemptsRecorded++;
+      if (result.isCorrect) correctCount++;
+      const topic = byTopic[question.conceptTested] || (byTopic[question.conceptTested] = { attempted: 0, correct: 0 });
+      topic.attempted++;
+      if (result.isCorrect) topic.correct++;
+    }
+
+    const questionsCount = session.questionsCount || questions.length;
+    const updated = await storage.updateQuizSession(session.id, {
+      correctCount,
+      score: questionsCount > 0 ? Math.round((correctCount / questionsCount) * 100) : 0,
+      feedback: evaluation.feedback || null
+    });
+
+    const topicsUpdated = Object.keys(byTopic);
+    for (const topic of topicsUpdated) {
+      const assessment = (evaluation.conceptAssessments || []).find(
+        a => a.concept && a.concept.toLowerCase() === topic.toLowerCase()
+      );
+      await this.updateTopicLevel(userId, session.courseId, topic, byTopic[topic], assessment);
+    }
+
+    return { session: updated, attemptsRecorded, topicsUpdated };
+  }
+
+  /**
+   * Completed and abandoned sessions, newest first
+   */
+  async getHistory(userId: number, courseId?: string, limit: number = 20): Promise<QuizSession[]> {
+    const sessions = await storage.getQuizSessionsByUser(userId, courseId);
+    return sessions
+      .filter(session => session.status !== "in_progress")
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+      .slice(0, limit);
+  }
+
+  private async updateTopicLevel(
+    userId: number,
+    courseId: string,
+    topic: string,
+    counts: { attempted: number; correct: number },
+    assessment?: ConceptAssessment
+  ): Promise<void> {
+    const previous = await storage.getStudyLevelByTopic(userId, courseId, topic);
+    const sessionAccuracy = (counts.correct / counts.attempted) * 100;
+    const masteryLevel = previous
+      ? Math.round(previous.masteryLevel * (1 - SESSION_MASTERY_WEIGHT) + sessionAccuracy * SESSION_MASTERY_WEIGHT)
+      : Math.round(sessionAccuracy);
+
+    await storage.updateStudyLevel(userId, courseId, topic, {
+      masteryLevel,
+      questionsAttempted: (previous?.questionsAttempted || 0) + counts.attempted,
+      questionsCorrect: (previous?.questionsCorrect || 0) + counts.correct,
+      ...(assessment && {
+        strengths: assessment.strengths,
+        weaknesses: assessment.weaknesses,
+        recommendedActions: assessment.recommendedActions
+      })
+    });
+  }
+
+  private async abandonStaleSessions(userId: number): Promise<void> {
+    await db
+      .update(quizSessions)
+      .set({ status: "abandoned", endTime: new Date() })
+      .where(and(
+        eq(quizSessions.userId, userId),
+        eq(quizSessions.status, "in_progress"),
+        lt(quizSessions.startTime, new Date(Date.now() - STALE_SESSION_MS))
+      ));
+  }
+}
+
+export const quizSessionService = new QuizSessionService();
@@ -1,7 +1,13 @@
 
 import { db } from "../db";
-import { eq, and, desc, sql } from "drizzle-orm";
-import { users, courses, documents, studyLevel as studyLevels } from "../../shared/schema";
+import { eq, and, desc, sql, lt, isNull, inArray } from "drizzle-orm";
+import { users, courses, documents, studyLevel as studyLevels, semanticStruggles, conversationTurns, type SemanticStruggle } from "../../shared/schema";
+
+// Retention policy for persisted memory
+const CONVERSATION_RETENTION_DAYS = 30; // conversation turns older than this are deleted
+const RESOLVED_STRUGGLE_RETENTION_DAYS = 90; // resolved struggles are kept this long after resolution
+const STALE_STRUGGLE_RETENTION_DAYS = 365; // unresolved struggles not seen again within this window are dropped
+const CONTEXT_TURN_LIMIT = 20; // turns loaded into a conversation context
 
 // Types for semantic memory
 export interface SemanticMemoryEntry {
@@ -53,10 +59,6 @@ export interface ConversationContext {
 }
 
 class SemanticMemoryService {
-  private memoryStore = new Map<number, SemanticMemoryEntry[]>();
-  private conversationContexts = new Map<string, ConversationContext>();
-  private topicContexts = new Map<string, TopicContext>();
-
   /**
    * Record a struggle with a specific topic
    */
@@ -70,40 +72,40 @@ class SemanticMemoryService {
   ): Promise<void> {
     try {
       // Check if we already have this struggle recorded
-      const existingStruggles = this.memoryStore.get(userId) || [];
-      const existingStruggle = existingStruggles.find(s => 
-        s.topic.toLowerCase() === topic.toLowerCase() && 
-        s.courseId === courseId &&
-        s.struggleType === struggleType
-      );
+      const [existingStruggle] = await db
+        .select()
+        .from(semanticStruggles)
+        .where(and(
+          eq(semanticStruggles.userId, userId),
+          sql`lower(${semanticStruggles.topic}) = ${topic.toLowerCase()}`,
+          courseId ? eq(semanticStruggles.courseId, courseId) : isNull(semanticStruggles.courseId),
+          eq(semanticStruggles.struggleType, struggleType)
+        ))
+        .limit(1);
 
       if (existingStruggle) {
         // Update existing struggle
-        existingStruggle.lastEncountered = new Date();
-        existingStruggle.encounterCount += 1;
-        existingStruggle.severityLevel = Math.max(existingStruggle.severityLevel, severityLevel);
-        existingStruggle.contextData = { ...existingStruggle.contextData, ...contextData };
+        await db
+          .update(semanticStruggles)
+          .set({
+            lastEncountered: new Date(),
+            encounterCount: existingStruggle.encounterCount + 1,
+            severityLevel: Math.max(existingStruggle.severityLevel, severityLevel),
+            contextData: { ...existingStruggle.contextData, ...contextData }
+          })
+          .where(eq(semanticStruggles.id, existingStruggle.id));
       } else {
         // Create new struggle entry
-        const newStruggle: SemanticMemoryEntry = {
-          id: Date.now() + Math.random(),
+        await db.insert(semanticStruggles).values({
           userId,
           topic,
-          courseId: courseId || undefined,
+          courseId,
           struggleType,
           severityLevel,
-          contextData,
-          firstEncountered: new Date(),
-          lastEncountered: new Date(),
-          encounterCount: 1,
-          resolved: false
-        };
-
-        existingStruggles.push(newStruggle);
+          contextData
+        });
       }
 
-      this.memoryStore.set(userId, existingStruggles);
-
       // Also update database study levels to reflect struggles
       await this.updateStudyLevel(userId, topic, courseId, false, severityLevel);
 
@@ -123,37 +125,33 @@ class SemanticMemoryService {
     contextData: any = {}
   ): Promise<void> {
     try {
-      // Update topic context
-      const topicKey = `${userId}-${courseId}-${topic}`.toLowerCase();
-      const topicContext = this.topicContexts.get(topicKey) || {
-        topic,
-        courseId: courseId || undefined,
-        relatedConcepts: [],
-        difficultyLevel: 3,
-        userProficiency: 3,
-        lastStudied: new Date(),
-        strugglesHistory: [],
-        successfulInteractions: 0
-      };
-
-      topicContext.successfulInteractions += 1;
-      topicContext.lastStudied = new Date();
-      topicContext.userProficiency = Math.min(5, topicContext.userProficiency + 0.2);
-
-      this.topicContexts.set(topicKey, topicContext);
-
       // Check if this resolves any existing struggles
-      const userStruggles = this.memoryStore.get(userId) || [];
-      const relatedStruggles = userStruggles.filter(s => 
-        s.topic.toLowerCase().includes(topic.toLowerCase()) || 
-        topic.toLowerCase().includes(s.topic.toLowerCase())
-      );
+      const openStruggles = await db
+        .select()
+        .from(semanticStruggles)
+        .where(and(
+          eq(semanticStruggles.userId, userId),
+          eq(semanticStruggles.resolved, false)
+        ));
 
-      for (const struggle of relatedStruggles) {
-        if (!struggle.resolved && struggle.encounterCount >= 2) {
-          struggle.resolved = true;
-          struggle.resolutionNotes = `Resolved through successful interaction on ${new Date().toISOString()}`;
-        }
+      const resolvedIds = openStruggles
+        .filter(s => 
+          (s.topic.toLowerCase().includes(topic.toLowerCase()) || 
+          topic.toLowerCase().includes(s.topic.toLowerCase())) &&
+          s.encounterCount >= 2
+        )
+        .map(s => s.id);
+
+      if (resolvedIds.length > 0) {
+        const now = new Date();
+        await db
+          .update(semanticStruggles)
+          .set({
+            resolved: true,
+            resolvedAt: now,
+            resolutionNotes: `Resolved through successful interaction on ${now.toISOString()}`
+          })
+          .where(inArray(semanticStruggles.id, resolvedIds));
       }
 
       // Update database study levels
@@ -169,45 +167,79 @@ class SemanticMemoryService {
    * Get user's struggling topics
    */
   async getStrugglingTopics(userId: number, courseId?: string): Promise<SemanticMemoryEntry[]> {
-    const userStruggles = this.memoryStore.get(userId) || [];
-    
-    let filteredStruggles = userStruggles.filter(s => !s.resolved);
-    
-    if (courseId) {
-      filteredStruggles = filteredStruggles.filter(s => s.courseId === courseId);
-    }
-
-    // Sort by severity and recency
-    return filteredStruggles.sort((a, b) => {
-      if (a.severityLevel !== b.severityLevel) {
-        return b.severityLevel - a.severityLevel; // Higher severity first
+    try {
+      const conditions = [
+        eq(semanticStruggles.userId, userId),
+        eq(semanticStruggles.resolved, false)
+      ];
+      if (courseId) {
+        conditions.push(eq(semanticStruggles.courseId, courseId));
       }
-      return b.lastEncountered.getTime() - a.lastEncountered.getTime(); // More recent first
-    });
+
+      // Sort by severity and recency
+      const struggles = await db
+        .select()
+        .from(semanticStruggles)
+        .where(and(...conditions))
+        .orderBy(desc(semanticStruggles.severityLevel), desc(semanticStruggles.lastEncountered));
+
+      return struggles.map(s => this.toMemoryEntry(s));
+    } catch (error) {
+      console.error('Error fetching struggling topics:', error);
+      return [];
+    }
   }
 
   /**
-   * Get conversation context for personalized responses
+   * Get conversation context for personalized responses, rebuilt from the stored turns of the session
    */
   async getConversationContext(userId: number, sessionId: string): Promise<ConversationContext> {
-    const contextKey = `${userId}-${sessionId}`;
-    
-    if (!this.conversationContexts.has(contextKey)) {
-      const strugglingTopics = await this.getStrugglingTopics(userId);
-      
-      const newContext: ConversationContext = {
-        userId,
-        sessionId,
-        topics: [],
-        strugglingTopics: strugglingTopics.map(s => s.topic),
-        masteredTopics: await this.getMasteredTopics(userId),
-        conversationFlow: []
-      };
-      
-      this.conversationContexts.set(contextKey, newContext);
+    const strugglingTopics = await this.getStrugglingTopics(userId);
+    const masteredTopics = await this.getMasteredTopics(userId);
+
+    let turns: (typeof conversationTurns.$inferSelect)[] = [];
+    try {
+      turns = await db
+        .select()
+        .from(conversationTurns)
+        .where(and(
+          eq(conversationTurns.userId, userId),
+          eq(conversationTurns.sessionId, sessionId)
+        ))
+        .orderBy(desc(conversationTurns.createdAt), desc(conversationTurns.id))
+        .limit(CONTEXT_TURN_LIMIT);
+    } catch (error) {
+      console.error('Error fetching conversation turns:', error);
+    }
+
+    // Oldest first, as the conversation happened
+    turns.reverse();
+
+    const topics: string[] = [];
+    const sessionStruggles: string[] = strugglingTopics.map(s => s.topic);
+    for (const turn of turns) {
+      for (const topic of turn.topicsDiscussed || []) {
+        if (!topics.includes(topic)) topics.push(topic);
+      }
+      for (const struggle of turn.strugglesDetected || []) {
+        if (!sessionStruggles.includes(struggle)) sessionStruggles.push(struggle);
+      }
     }
 
-    return this.conversationContexts.get(contextKey)!;
+    return {
+      userId,
+      sessionId,
+      topics,
+      strugglingTopics: sessionStruggles,
+      masteredTopics,
+      conversationFlow: turns.map(turn => ({
+        userMessage: turn.userMessage,
+        assistantResponse: turn.assistantResponse,
+        timestamp: turn.createdAt,
+        topicsDiscussed: turn.topicsDiscussed || [],
+        strugglesDetected: turn.strugglesDetected || []
+      }))
+    };
   }
 
   /**
@@ -221,30 +253,21 @@ class SemanticMemoryService {
     topicsDiscussed: string[],
     strugglesDetected: string[] = []
   ): Promise<void> {
-    const context = await this.getConversationContext(userId, sessionId);
-    
-    // Add to conversation flow
-    context.conversationFlow.push({
-      userMessage,
-      assistantResponse,
-      timestamp: new Date(),
-      topicsDiscussed,
-      strugglesDetected
-    });
-
-    // Update topics list
-    for (const topic of topicsDiscussed) {
-      if (!context.topics.includes(topic)) {
-        context.topics.push(topic);
-      }
+    try {
+      await db.insert(conversationTurns).values({
+        userId,
+        sessionId,
+        userMessage,
+        assistantResponse,
+        topicsDiscussed,
+        strugglesDetected
+      });
+    } catch (error) {
+      console.error('Error saving conversation turn:', error);
     }
 
     // Record new struggles
     for (const struggle of strugglesDetected) {
-      if (!context.strugglingTopics.includes(struggle)) {
-        context.strugglingTopics.push(struggle);
-      }
-      
       await this.recordStruggle(
         userId,
         struggle,
@@ -258,13 +281,6 @@ class SemanticMemoryService {
         }
       );
     }
-
-    // Keep only last 20 interactions to prevent memory bloat
-    if (context.conversationFlow.length > 20) {
-      context.conversationFlow = context.conversationFlow.slice(-20);
-    }
-
-    this.conversationContexts.set(`${userId}-${sessionId}`, context);
   }
 
   /**
@@ -486,24 +502,61 @@ class SemanticMemoryService {
   }
 
   /**
-   * Clear old conversation contexts to manage memory
+   * Retention policy: drop old conversation turns, long-resolved struggles and struggles that never came back
    */
-  cleanupOldContexts(): void {
-    const now = Date.now();
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-
-    for (const [key, context] of this.conversationContexts.entries()) {
-      const lastInteraction = context.conversationFlow[context.conversationFlow.length - 1];
-      if (lastInteraction && (now - lastInteraction.timestamp.getTime()) > maxAge) {
-        this.conversationContexts.delete(key);
-      }
-    }
+  async cleanupOldContexts(): Promise<{ turns: number; struggles: number }> {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const deletedTurns = await db
+      .delete(conversationTurns)
+      .where(lt(conversationTurns.createdAt, daysAgo(CONVERSATION_RETENTION_DAYS)))
+      .returning({ id: conversationTurns.id });
+
+    const deletedResolved = await db
+      .delete(semanticStruggles)
+      .where(and(
+        eq(semanticStruggles.resolved, true),
+        lt(semanticStruggles.resolvedAt, daysAgo(RESOLVED_STRUGGLE_RETENTION_DAYS))
+      ))
+      .returning({ id: semanticStruggles.id });
+
+    const deletedStale = await db
+      .delete(semanticStruggles)
+      .where(and(
+        eq(semanticStruggles.resolved, false),
+        lt(semanticStruggles.lastEncountered, daysAgo(STALE_STRUGGLE_RETENTION_DAYS))
+      ))
+      .returning({ id: semanticStruggles.id });
+
+    return {
+      turns: deletedTurns.length,
+      struggles: deletedResolved.length + deletedStale.length
+    };
+  }
+
+  private toMemoryEntry(row: SemanticStruggle): SemanticMemoryEntry {
+    return {
+      id: row.id,
+      userId: row.userId,
+      topic: row.topic,
+      courseId: row.courseId || undefined,
+      struggleType: row.struggleType as SemanticMemoryEntry['struggleType'],
+      severityLevel: row.severityLevel as SemanticMemoryEntry['severityLevel'],
+      contextData: row.contextData as SemanticMemoryEntry['contextData'],
+      firstEncountered: row.firstEncountered,
+      lastEncountered: row.lastEncountered,
+      encounterCount: row.encounterCount,
+      resolved: row.resolved,
+      resolutionNotes: row.resolutionNotes || undefined
+    };
   }
 }
 
 export const semanticMemoryService = new SemanticMemoryService();
 
-// Cleanup old contexts every hour
+// Apply the retention policy every hour
 setInterval(() => {
-  semanticMemoryService.cleanupOldContexts();
+  semanticMemoryService.cleanupOldContexts().catch(error => {
+    console.error('Semantic memory cleanup error:', error);
+  });
 }, 60 * 60 * 1000);
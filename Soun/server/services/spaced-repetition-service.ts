@@ -0,0 +1,243 @@
+import { and, asc, eq, lte, sql } from "drizzle-orm";
+import { endOfDay } from "date-fns";
+import { db } from "../db";
+import {
+  flashcardDecks,
+  flashcards,
+  quizReviewItems,
+  type FlashcardRecord,
+  type QuizReviewItem
+} from "../../shared/schema";
+import type { QuizQuestion, QuizResult } from "./quiz-generation-service";
+
+// SM-2 constants (Wozniak, 1990)
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_GRADE = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 0 = no answer, 1-2 = wrong, 3 = correct with serious difficulty, 4 = correct after hesitation, 5 = perfect recall
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  dueAt: Date;
+}
+
+export interface DueCourseCount {
+  courseId: string | null;
+  flashcards: number;
+  quizItems: number;
+}
+
+class SpacedRepetitionService {
+  /**
+   * SM-2: failed recalls restart the card tomorrow, passes grow the interval by the ease factor
+   */
+  schedule(state: ReviewState, grade: ReviewGrade, now: Date = new Date()): ScheduledReview {
+    const easeFactor = Math.max(
+      MIN_EASE,
+      state.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+    );
+
+    let repetitions: number;
+    let intervalDays: number;
+    if (grade < PASSING_GRADE) {
+      repetitions = 0;
+      intervalDays = 1;
+    } else {
+      repetitions = state.repetitions + 1;
+      if (repetitions === 1) intervalDays = 1;
+      else if (repetitions === 2) intervalDays = 6;
+      else intervalDays = Math.round(Math.max(1, state.intervalDays) * state.easeFactor);
+    }
+
+    return {
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      intervalDays,
+      repetitions,
+      dueAt: new Date(now.getTime() + intervalDays * DAY_MS)
+    };
+  }
+
+  /**
+   * Grade a finished voice flashcard: fewer attempts means stronger recall
+   */
+  gradeVoiceAnswer(isCorrect: boolean, attemptCount: number): ReviewGrade {
+    if (!isCorrect) return 1;
+    if (attemptCount <= 1) return 5;
+    if (attemptCount === 2) return 4;
+    return 3;
+  }
+
+  gradeQuizResult(result: Pick<QuizResult, 'isCorrect' | 'conceptMastery'>): ReviewGrade {
+    if (result.isCorrect) {
+      return result.conceptMastery >= 0.9 ? 5 : 4;
+    }
+    return result.conceptMastery >= 0.5 ? 2 : 1;
+  }
+
+  /**
+   * Saved flashcards due by the end of today, most overdue first
+   */
+  async getDueFlashcards(userId: number, courseId?: string, limit: number = 50): Promise<FlashcardRecord[]> {
+    const conditions = [eq(flashcards.userId, userId), lte(flashcards.dueAt, endOfDay(new Date()))];
+    if (courseId) {
+      conditions.push(eq(flashcardDecks.courseId, courseId));
+    }
+
+    const rows = await db
+      .select({ card: flashcards })
+      .from(flashcards)
+      .innerJoin(flashcardDecks, eq(flashcardDecks.id, flashcards.deckId))
+      .where(and(...conditions))
+      .orderBy(asc(flashcards.dueAt))
+      .limit(limit);
+
+    return rows.map(row => row.card);
+  }
+
+  async getDueQuizItems(userId: number, courseId?: string, limit: number = 50): Promise<QuizReviewItem[]> {
+    const conditions = [eq(quizReviewItems.userId, userId), lte(quizReviewItems.dueAt, endOfDay(new Date()))];
+    if (courseId) {
+      conditions.push(eq(quizReviewItems.courseId, courseId));
+    }
+
+    return await db
+      .select()
+      .from(quizReviewItems)
+      .where(and(...conditions))
+      .orderBy(asc(quizReviewItems.dueAt))
+      .limit(limit);
+  }
+
+  /**
+   * How many flashcards and quiz items are due today in each course
+   */
+  async getDueCounts(userId: number): Promise<DueCourseCount[]> {
+    const until = endOfDay(new Date());
+
+    const [cardCounts, quizCounts] = await Promise.all([
+      db
+        .select({ courseId: flashcardDecks.courseId, count: sql<number>`count(*)::int` })
+        .from(flashcards)
+        .innerJoin(flashcardDecks, eq(flashcardDecks.id, flashcards.deckId))
+        .where(and(eq(flashcards.userId, userId), lte(flashcards.dueAt, until)))
+        .groupBy(flashcardDecks.courseId),
+      db
+        .select({ courseId: quizReviewItems.courseId, count: sql<number>`count(*)::int` })
+        .from(quizReviewItems)
+        .where(and(eq(quizReviewItems.userId, userId), lte(quizReviewItems.dueAt, until)))
+        .groupBy(quizReviewItems.courseId)
+    ]);
+
+    const byCourse = new Map<string | null, DueCourseCount>();
+    cardCounts.forEach(row => {
+      byCourse.set(row.courseId, { courseId: row.courseId, flashcards: row.count, quizItems: 0 });
+    });
+    quizCounts.forEach(row => {
+      const entry = byCourse.get(row.courseId) || { courseId: row.courseId, flashcards: 0, quizItems: 0 };
+      entry.quizItems = row.count;
+      byCourse.set(row.courseId, entry);
+    });
+
+    return Array.from(byCourse.values());
+  }
+
+  /**
+   * Schedule evaluated quiz answers. Missed questions start being tracked; questions
+   * already being tracked are rescheduled whether or not they were answered correctly.
+   */
+  async recordQuizResults(
+    userId: number,
+    courseId: string | undefined,
+    questions: QuizQuestion[],
+    results: QuizResult[]
+  ): Promise<number> {
+    let scheduled = 0;
+
+    for (const result of results) {
+      const question = questions.find(q => q.id === result.questionId);
+      if (!question) continue;
+
+      const questionKey = this.questionKey(question.question);
+      const grade = this.gradeQuizResult(result);
+
+      const [existing] = await db
+        .select()
+        .from(quizReviewItems)
+        .where(and(eq(quizReviewItems.userId, userId), eq(quizReviewItems.questionKey, questionKey)));
+
+      if (existing) {
+        await this.applyQuizGrade(existing, grade);
+        scheduled++;
+        continue;
+      }
+
+      if (result.isCorrect) continue;
+
+      const next = this.schedule({ easeFactor: INITIAL_EASE, intervalDays: 0, repetitions: 0 }, grade);
+      await db.insert(quizReviewItems).values({
+        userId,
+        courseId: courseId || null,
+        questionKey,
+        question: {
+          question: question.question,
+          type: question.type,
+          options: question.options,
+          correctAnswer: question.correctAnswer,
+          explanation: question.explanation,
+          difficulty: question.difficulty,
+          conceptTested: question.conceptTested
+        },
+        ...next,
+        lapses: 1,
+        lastGrade: grade,
+        lastReviewed: new Date()
+      });
+      scheduled++;
+    }
+
+    return scheduled;
+  }
+
+  async reviewQuizItem(userId: number, itemId: number, grade: ReviewGrade): Promise<QuizReviewItem | null> {
+    const [item] = await db
+      .select()
+      .from(quizReviewItems)
+      .where(and(eq(quizReviewItems.id, itemId), eq(quizReviewItems.userId, userId)));
+
+    if (!item) return null;
+
+    return this.applyQuizGrade(item, grade);
+  }
+
+  private async applyQuizGrade(item: QuizReviewItem, grade: ReviewGrade): Promise<QuizReviewItem> {
+    const next = this.schedule(item, grade);
+    const [updated] = await db
+      .update(quizReviewItems)
+      .set({
+        ...next,
+        lapses: grade < PASSING_GRADE ? item.lapses + 1 : item.lapses,
+        lastGrade: grade,
+        lastReviewed: new Date()
+      })
+      .where(eq(quizReviewItems.id, item.id))
+      .returning();
+
+    return updated;
+  }
+
+  private questionKey(question: string): string {
+    return question.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, " ").trim();
+  }
+}
+
+export const spacedRepetitionService = new SpacedRepetitionService();
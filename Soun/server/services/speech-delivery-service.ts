@@ -0,0 +1,467 @@
+import type {
+  DeliveryAnalysis,
+  DeliveryTimelinePoint,
+  OutlineSection,
+  SectionTiming
+} from "../../shared/schema";
+import { audioAnalysisService, type AudioLevels, type SpeechActivity } from "./audio-analysis-service";
+
+// Comfortable presentation pace in words per minute
+export const SLOW_WPM = 110;
+export const FAST_WPM = 160;
+// The timeline is split into windows of about this length
+const WINDOW_SECONDS = 15;
+const LONG_PAUSE_SECONDS = 2.5;
+// Filler rate worth pointing out
+const FILLERS_PER_MINUTE = 3;
+// Running this far over or under the whole plan is worth pointing out
+const TIMING_TOLERANCE = 0.1;
+// A section within this share of its plan, or SECTION_TOLERANCE_SECONDS, is on time
+const SECTION_TOLERANCE = 0.2;
+const SECTION_TOLERANCE_SECONDS = 15;
+// Matched outline vocabulary needed before sections are inferred from the transcript
+const MIN_SECTION_EVIDENCE = 2;
+
+const FILLER_WORDS = ["um", "umm", "uh", "uhm", "er", "erm", "ah", "hmm", "like", "basically", "actually", "literally"];
+const FILLER_PHRASES = ["you know", "i mean", "kind of", "sort of"];
+// "I like", "looks like", "a kind of" and so on are meant, not fillers
+const LIKE_NOT_FILLER_AFTER = ["i", "you", "we", "they", "he", "she", "would", "to", "not", "look", "looks", "looked", "seem", "seems", "feel", "feels", "felt", "sound", "sounds", "something", "much", "more"];
+const KIND_NOT_FILLER_AFTER = ["a", "the", "this", "that", "what", "which", "any", "one", "some", "every", "same"];
+
+const STOPWORDS = new Set([
+  "about", "after", "also", "because", "been", "before", "being", "between", "both", "could", "does", "each",
+  "from", "have", "here", "into", "just", "like", "many", "more", "most", "much", "only", "other", "over",
+  "section", "should", "some", "such", "than", "that", "their", "them", "then", "there", "these", "they",
+  "this", "those", "through", "very", "what", "when", "where", "which", "while", "will", "with", "would", "your"
+]);
+
+export type PaceStatus = 'slow' | 'good' | 'fast';
+
+/** A finished phrase from speech recognition and when it ended, seconds into the recording */
+export interface TranscriptSegment {
+  text: string;
+  end: number;
+}
+
+/** The student moved on to this section at `start` seconds */
+export interface SectionMark {
+  sectionId: string;
+  start: number;
+}
+
+export interface DeliveryInput {
+  duration: number; // seconds, as timed by the recorder
+  transcript: string;
+  segments?: TranscriptSegment[];
+  sectionMarks?: SectionMark[];
+  outline: OutlineSection[];
+  audio?: AudioLevels | null;
+}
+
+export interface DeliveryReport {
+  wordsPerMinute: number;
+  paceStatus: PaceStatus | null;
+  feedback: { plannedMinutes: number; differenceSeconds: number; tips: string[] };
+  analysis: DeliveryAnalysis;
+}
+
+interface SpokenWord {
+  text: string;
+  time: number;
+}
+
+class SpeechDeliveryService {
+  /**
+   * Pace, fillers, pauses and section timing for a practice run. Word times are estimated by
+   * spreading each recognized phrase over the speech the audio shows before it ended; without
+   * audio, over the time since the previous phrase.
+   */
+  analyze(input: DeliveryInput): DeliveryReport {
+    const audio = input.audio && input.audio.levels.length > 0 ? input.audio : null;
+    const activity = audio ? audioAnalysisService.detectSpeech(audio) : null;
+    const duration = audio ? audio.duration : input.duration;
+
+    const words = this.placeWords(input, duration, audio, activity);
+    const hasSpeech = activity !== null && activity.speechEnd > activity.speechStart;
+    const talkStart = hasSpeech ? activity!.speechStart : 0;
+    const talkEnd = hasSpeech ? activity!.speechEnd : duration;
+    const talkSeconds = Math.max(talkEnd - talkStart, 1);
+
+    const wordsPerMinute = Math.round((words.length / talkSeconds) * 60);
+    const paceStatus = words.length > 0 ? paceOf(wordsPerMinute) : null;
+    const fillers = findFillers(words);
+
+    const sectionMarks = (input.sectionMarks || []).filter(mark => input.outline.some(s => s.id === mark.sectionId));
+    const sectionSource = sectionMarks.length > 0 ? 'marked' : 'transcript';
+    const bounds = sectionMarks.length > 0
+      ? this.boundsFromMarks(sectionMarks, talkEnd)
+      : this.boundsFromTranscript(words, input.outline, talkStart, talkEnd);
+    const sections = bounds ? this.sectionTimings(input.outline, bounds, words) : [];
+
+    const pauses = activity ? {
+      count: activity.pauses.length,
+      totalSeconds: round(activity.pauses.reduce((sum, p) => sum + p.end - p.start, 0)),
+      longest: round(activity.pauses.reduce((max, p) => Math.max(max, p.end - p.start), 0)),
+      long: activity.pauses
+        .filter(p => p.end - p.start >= LONG_PAUSE_SECONDS)
+        .map(p => ({ start: round(p.start), end: round(p.end) })),
+    } : null;
+
+    const minutes = talkSeconds / 60;
+    const counts: Record<string, number> = {};
+    fillers.forEach(filler => { counts[filler.text] = (counts[filler.text] || 0) + 1; });
+
+    const analysis: DeliveryAnalysis = {
+      durationSeconds: round(duration),
+      speakingSeconds: activity ? round(activity.speakingSeconds) : null,
+      wordCount: words.length,
+      wordsPerMinute,
+      fillers: {
+        total: fillers.length,
+        perMinute: round(fillers.length / minutes),
+        counts,
+      },
+      pauses,
+      sectionSource: bounds ? sectionSource : null,
+      sections,
+      timeline: this.timeline(duration, words, fillers, sections, audio, activity),
+    };
+
+    const plannedMinutes = input.outline.reduce((sum, section) => sum + section.time, 0);
+    const differenceSeconds = Math.round(duration - plannedMinutes * 60);
+    return {
+      wordsPerMinute,
+      paceStatus,
+      feedback: { plannedMinutes, differenceSeconds, tips: this.tips(analysis, plannedMinutes, differenceSeconds) },
+      analysis,
+    };
+  }
+
+  private placeWords(
+    input: DeliveryInput,
+    duration: number,
+    audio: AudioLevels | null,
+    activity: SpeechActivity | null
+  ): SpokenWord[] {
+    const segments = input.segments && input.segments.length > 0
+      ? input.segments.slice().sort((a, b) => a.end - b.end)
+      : [{ text: input.transcript, end: activity && activity.speechEnd > 0 ? activity.speechEnd : duration }];
+
+    const words: SpokenWord[] = [];
+    let previousEnd = 0;
+    segments.forEach(segment => {
+      const tokens = tokenize(segment.text);
+      const end = Math.max(previousEnd, Math.min(segment.end, duration));
+      spreadOver(tokens.length, previousEnd, end, audio, activity).forEach((time, i) => {
+        words.push({ text: tokens[i], time });
+      });
+      previousEnd = end;
+    });
+    return words;
+  }
+
+  /**
+   * Each marked section runs until the next one starts; a section marked twice keeps its first mark
+   */
+  private boundsFromMarks(marks: SectionMark[], talkEnd: number): Map<string, [number, number]> {
+    const firstMarks: SectionMark[] = [];
+    marks.slice().sort((a, b) => a.start - b.start).forEach(mark => {
+      if (!firstMarks.some(m => m.sectionId === mark.sectionId)) firstMarks.push(mark);
+    });
+
+    const bounds = new Map<string, [number, number]>();
+    firstMarks.forEach((mark, i) => {
+      const start = Math.max(0, mark.start);
+      const end = i + 1 < firstMarks.length ? firstMarks[i + 1].start : talkEnd;
+      bounds.set(mark.sectionId, [start, Math.max(start, end)]);
+    });
+    return bounds;
+  }
+
+  /**
+   * Splits the transcript into outline sections, in order, so that each section's words match its
+   * title and notes as well as possible. Words shared by several sections count for less.
+   * Null when the transcript says too little of the outline to tell.
+   */
+  private boundsFromTranscript(
+    words: SpokenWord[],
+    outline: OutlineSection[],
+    talkStart: number,
+    talkEnd: number
+  ): Map<string, [number, number]> | null {
+    if (words.length === 0 || outline.length === 0) return null;
+    if (outline.length === 1) return new Map<string, [number, number]>([[outline[0].id, [talkStart, talkEnd]]]);
+
+    const vocabularies = outline.map(section => new Set(
+      tokenize(`${section.title} ${section.content}`)
+        .filter(word => word.length >= 4 && !STOPWORDS.has(word))
+        .map(stem)
+    ));
+    const spread = new Map<string, number>();
+    vocabularies.forEach(vocabulary => vocabulary.forEach(word => spread.set(word, (spread.get(word) || 0) + 1)));
+    const weight = (word: string, section: number) => {
+      const stemmed = stem(word);
+      return vocabularies[section].has(stemmed) ? 1 / spread.get(stemmed)! : 0;
+    };
+
+    // best[j]: best score with the current word in section j; sections only move forward
+    const sectionCount = outline.length;
+    const from: Int16Array[] = [];
+    let best = outline.map((_, j) => weight(words[0].text, j));
+    for (let i = 1; i < words.length; i++) {
+      const next: number[] = [];
+      const previous = new Int16Array(sectionCount);
+      let runningMax = -1;
+      let runningAt = 0;
+      for (let j = 0; j < sectionCount; j++) {
+        // Ties keep the earlier section, so a boundary lands on the first word that matches the next one
+        if (best[j] > runningMax) {
+          runningMax = best[j];
+          runningAt = j;
+        }
+        next.push(runningMax + weight(words[i].text, j));
+        previous[j] = runningAt;
+      }
+      from.push(previous);
+      best = next;
+    }
+
+    let section = 0;
+    best.forEach((score, j) => { if (score > best[section]) section = j; });
+    if (best[section] < MIN_SECTION_EVIDENCE) return null;
+
+    const assigned: number[] = new Array(words.length);
+    for (let i = words.length - 1; i >= 0; i--) {
+      assigned[i] = section;
+      if (i > 0) section = from[i - 1][section];
+    }
+
+    const bounds = new Map<string, [number, number]>();
+    const starts: Array<{ section: number; start: number }> = [];
+    assigned.forEach((j, i) => {
+      if (starts.length === 0 || starts[starts.length - 1].section !== j) {
+        starts.push({ section: j, start: starts.length === 0 ? talkStart : words[i].time });
+      }
+    });
+    starts.forEach((entry, i) => {
+      const end = i + 1 < starts.length ? starts[i + 1].start : talkEnd;
+      bounds.set(outline[entry.section].id, [entry.start, Math.max(entry.start, end)]);
+    });
+    return bounds;
+  }
+
+  private sectionTimings(outline: OutlineSection[], bounds: Map<string, [number, number]>, words: SpokenWord[]): SectionTiming[] {
+    return outline.map(section => {
+      const plannedSeconds = section.time * 60;
+      const span = bounds.get(section.id);
+      if (!span) {
+        return {
+          sectionId: section.id, title: section.title, plannedSeconds, actualSeconds: 0,
+          start: null, end: null, wordsPerMinute: null, status: 'missed' as const
+        };
+      }
+
+      const [start, end] = span;
+      const actualSeconds = end - start;
+      const spoken = words.filter(word => word.time >= start && word.time < end).length;
+      const tolerance = Math.max(plannedSeconds * SECTION_TOLERANCE, SECTION_TOLERANCE_SECONDS);
+      const difference = actualSeconds - plannedSeconds;
+      return {
+        sectionId: section.id,
+        title: section.title,
+        plannedSeconds,
+        actualSeconds: round(actualSeconds),
+        start: round(start),
+        end: round(end),
+        wordsPerMinute: actualSeconds > 0 ? Math.round((spoken / actualSeconds) * 60) : null,
+        status: difference > tolerance ? 'over' as const : difference < -tolerance ? 'under' as const : 'on_time' as const,
+      };
+    });
+  }
+
+  private timeline(
+    duration: number,
+    words: SpokenWord[],
+    fillers: SpokenWord[],
+    sections: SectionTiming[],
+    audio: AudioLevels | null,
+    activity: SpeechActivity | null
+  ): DeliveryTimelinePoint[] {
+    if (duration <= 0) return [];
+    const count = Math.max(1, Math.round(duration / WINDOW_SECONDS));
+    const length = duration / count;
+    const points: DeliveryTimelinePoint[] = [];
+
+    for (let w = 0; w < count; w++) {
+      const start = w * length;
+      const end = w === count - 1 ? duration : start + length;
+      const inWindow = (word: SpokenWord) => word.time >= start && (word.time < end || (w === count - 1 && word.time <= end));
+      const spoken = words.filter(inWindow).length;
+      const wordsPerMinute = Math.round((spoken / (end - start)) * 60);
+      const middle = (start + end) / 2;
+      const section = sections.find(s => s.start !== null && s.end !== null && middle >= s.start && middle < s.end);
+
+      let volumeDb: number | null = null;
+      let speakingRatio: number | null = null;
+      if (audio && activity) {
+        const first = Math.floor(start / audio.frameSeconds);
+        const last = Math.min(activity.voiced.length, Math.ceil(end / audio.frameSeconds));
+        const voiced = activity.voiced.slice(first, last).filter(Boolean).length;
+        speakingRatio = last > first ? round(voiced / (last - first)) : 0;
+        const volume = audioAnalysisService.volumeStats(audio, activity, start, end);
+        volumeDb = volume ? volume.averageDb : null;
+      }
+
+      points.push({
+        start: round(start),
+        end: round(end),
+        wordsPerMinute,
+        pace: spoken > 0 ? paceOf(wordsPerMinute) : null,
+        fillerCount: fillers.filter(inWindow).length,
+        volumeDb,
+        speakingRatio,
+        sectionId: section ? section.sectionId : null,
+      });
+    }
+    return points;
+  }
+
+  private tips(analysis: DeliveryAnalysis, plannedMinutes: number, differenceSeconds: number): string[] {
+    const tips: string[] = [];
+    const { wordsPerMinute } = analysis;
+
+    if (analysis.wordCount === 0) {
+      tips.push("No speech was transcribed; check your microphone and speak clearly.");
+    } else if (wordsPerMinute < SLOW_WPM) {
+      tips.push(`At ${wordsPerMinute} words per minute you may lose the audience's attention; aim for ${SLOW_WPM}-${FAST_WPM}.`);
+    } else if (wordsPerMinute > FAST_WPM) {
+      tips.push(`At ${wordsPerMinute} words per minute listeners may struggle to follow; slow down and pause between points.`);
+    } else {
+      tips.push("Your pace is comfortable for listeners.");
+    }
+
+    // Point at the stretch where the student rushed most, when the overall pace hides it
+    const fastest = analysis.timeline.reduce<DeliveryTimelinePoint | null>(
+      (top, point) => point.pace === 'fast' && (!top || point.wordsPerMinute > top.wordsPerMinute) ? point : top,
+      null
+    );
+    if (fastest && wordsPerMinute <= FAST_WPM) {
+      tips.push(`You sped up to ${fastest.wordsPerMinute} words per minute around ${formatDuration(fastest.start)}.`);
+    }
+
+    if (analysis.fillers.perMinute > FILLERS_PER_MINUTE) {
+      const common = Object.entries(analysis.fillers.counts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([filler]) => `"${filler}"`);
+      tips.push(`You used ${analysis.fillers.perMinute} filler words a minute, mostly ${common.join(", ")}; a short silent pause works better.`);
+    }
+
+    if (analysis.pauses && analysis.pauses.long.length > 0) {
+      const longest = analysis.pauses.long.reduce((top, p) => p.end - p.start > top.end - top.start ? p : top);
+      tips.push(analysis.pauses.long.length === 1
+        ? `You paused for ${Math.round(longest.end - longest.start)} seconds at ${formatDuration(longest.start)}.`
+        : `You had ${analysis.pauses.long.length} long pauses; the longest was ${Math.round(longest.end - longest.start)} seconds at ${formatDuration(longest.start)}.`);
+    }
+
+    analysis.sections.forEach(section => {
+      const name = section.title.trim() || "A section";
+      if (section.status === 'over') {
+        tips.push(`"${name}" ran ${formatDuration(section.actualSeconds - section.plannedSeconds)} over its planned ${section.plannedSeconds / 60} min.`);
+      } else if (section.status === 'under') {
+        tips.push(`"${name}" was ${formatDuration(section.plannedSeconds - section.actualSeconds)} shorter than planned.`);
+      } else if (section.status === 'missed' && analysis.sectionSource === 'marked') {
+        tips.push(`You skipped "${name}".`);
+      }
+    });
+
+    const plannedSeconds = plannedMinutes * 60;
+    if (plannedSeconds > 0 && Math.abs(differenceSeconds) > plannedSeconds * TIMING_TOLERANCE) {
+      tips.push(differenceSeconds > 0
+        ? `You ran ${formatDuration(differenceSeconds)} over your planned ${plannedMinutes} minutes.`
+        : `You finished ${formatDuration(-differenceSeconds)} early; there's room to expand your main points.`);
+    }
+    return tips;
+  }
+}
+
+export function paceOf(wordsPerMinute: number): PaceStatus {
+  if (wordsPerMinute < SLOW_WPM) return 'slow';
+  if (wordsPerMinute > FAST_WPM) return 'fast';
+  return 'good';
+}
+
+/**
+ * Times for `count` words said between `start` and `end`: evenly through the speech the audio
+ * detected there, or evenly through the span when there is none
+ */
+function spreadOver(
+  count: number,
+  start: number,
+  end: number,
+  audio: AudioLevels | null,
+  activity: SpeechActivity | null
+): number[] {
+  if (count === 0) return [];
+  const voicedFrames: number[] = [];
+  if (audio && activity) {
+    const last = Math.min(activity.voiced.length, Math.ceil(end / audio.frameSeconds));
+    for (let f = Math.floor(start / audio.frameSeconds); f < last; f++) {
+      if (activity.voiced[f]) voicedFrames.push(f);
+    }
+  }
+
+  const times: number[] = [];
+  for (let k = 0; k < count; k++) {
+    const position = (k + 0.5) / count;
+    times.push(voicedFrames.length > 0
+      ? (voicedFrames[Math.floor(position * voicedFrames.length)] + 0.5) * audio!.frameSeconds
+      : start + (end - start) * position);
+  }
+  return times;
+}
+
+function findFillers(words: SpokenWord[]): SpokenWord[] {
+  const fillers: SpokenWord[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const previous = i > 0 ? words[i - 1].text : "";
+    const pair = i + 1 < words.length ? `${words[i].text} ${words[i + 1].text}` : "";
+
+    if (FILLER_PHRASES.includes(pair)) {
+      const isMeant = (words[i].text === "kind" || words[i].text === "sort") && KIND_NOT_FILLER_AFTER.includes(previous);
+      if (!isMeant) {
+        fillers.push({ text: pair, time: words[i].time });
+        i++;
+      }
+      continue;
+    }
+    if (FILLER_WORDS.includes(words[i].text)) {
+      if (words[i].text === "like" && LIKE_NOT_FILLER_AFTER.includes(previous)) continue;
+      fillers.push(words[i]);
+    }
+  }
+  return fillers;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [];
+}
+
+// Enough to match "cells" with "cell" and "dividing" with "divide"
+function stem(word: string): string {
+  const base = word.replace(/'s$/, "");
+  return base.length > 5 ? base.replace(/(?:ing|ed|es|e|s)$/, "") : base.replace(/s$/, "");
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export const speechDeliveryService = new SpeechDeliveryService();
@@ -1,16 +1,8 @@
 
-import OpenAI from "openai";
 import { db } from "../db";
 import { documents, courses } from "../../shared/schema";
-import { eq, and } from "drizzle-orm";
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable must be set");
-}
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { eq, and, inArray } from "drizzle-orm";
+import { llm } from "./llm-provider";
 
 export interface StudyGuide {
   id: string;
@@ -106,7 +98,7 @@ export class StudyGuideService {
         .from(documents)
         .where(and(
           eq(documents.userId, userId),
-          documents.id.in(documentIds)
+          inArray(documents.id, documentIds)
         ));
 
       if (documentsData.length === 0) {
@@ -119,8 +111,7 @@ export class StudyGuideService {
         .join('\n\n---\n\n');
 
       // Generate study guide using AI
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const aiResponse = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -143,11 +134,8 @@ Generate a study guide with:
 Format as JSON with the StudyGuide interface structure.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
-
-      const aiResponse = JSON.parse(response.choices[0].message.content || '{}');
       
       // Create study guide object
       const studyGuide: StudyGuide = {
@@ -184,8 +172,7 @@ Format as JSON with the StudyGuide interface structure.`
   ): Promise<DocumentAnnotation> {
     try {
       // Convert voice note to structured annotation using AI
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await llm.chat({
         messages: [
           {
             role: "system",
@@ -204,7 +191,7 @@ Create a clear, concise annotation that captures the key points and intent. If i
         temperature: 0.3,
       });
 
-      const processedContent = response.choices[0].message.content || voiceNote;
+      const processedContent = response || voiceNote;
 
       const annotation: DocumentAnnotation = {
         id: `ann-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -264,8 +251,7 @@ Create a clear, concise annotation that captures the key points and intent. If i
       }
 
       // Generate summary using AI
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const aiResponse = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -288,11 +274,8 @@ Structure the summary with:
 Return as JSON with the DocumentSummary structure.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
-
-      const aiResponse = JSON.parse(response.choices[0].message.content || '{}');
       
       const summary: DocumentSummary = {
         documentId,
@@ -325,8 +308,7 @@ Return as JSON with the DocumentSummary structure.`
   ): Promise<StudyGuide | null> {
     try {
       // Parse voice command to understand what documents to include
-      const parseResponse = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const parsedCommand = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -348,12 +330,9 @@ Determine:
 Return as JSON with parsed information.`
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3,
       });
 
-      const parsedCommand = JSON.parse(parseResponse.choices[0].message.content || '{}');
-
       // Get relevant documents based on parsed command
       let relevantDocs = [];
       if (courseContext) {
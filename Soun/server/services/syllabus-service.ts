@@ -0,0 +1,518 @@
+import { and, desc, eq } from "drizzle-orm";
+import { addDays, addMinutes, format, isValid, parse } from "date-fns";
+import { db } from "../db";
+import {
+  assessments,
+  assignments,
+  studySessions,
+  syllabusDrafts,
+  type Course,
+  type Document,
+  type SyllabusDraft,
+  type SyllabusSchedule
+} from "../../shared/schema";
+
+type SyllabusWeek = SyllabusSchedule['weeks'][number];
+type SyllabusExam = SyllabusSchedule['exams'][number];
+
+export interface ParsedSyllabus {
+  schedule: SyllabusSchedule;
+  warnings: string[];
+}
+
+export interface ConfirmOptions {
+  termStart?: string; // yyyy-MM-dd, used for weeks the syllabus gave no date for
+  sessionStartTime?: string; // HH:mm
+  sessionMinutes?: number;
+}
+
+export interface ConfirmResult {
+  draft: SyllabusDraft;
+  created: { assignments: number; exams: number; studySessions: number };
+  skipped: string[];
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+const MONTH_PATTERN = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+// Matched in this order; each entry says where the year, month and day groups are
+const DATE_FORMS: { pattern: RegExp; year: number; month: number; day: number }[] = [
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/i, year: 1, month: 2, day: 3 },
+  { pattern: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, "i"), year: 3, month: 1, day: 2 },
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?\\b`, "i"), year: 3, month: 2, day: 1 },
+  { pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/, year: 3, month: 1, day: 2 },
+];
+
+const WEEKDAY_PATTERN = /\b(mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(day|nesday|rsday|urday)?\b\.?,?/gi;
+const TIME_PATTERN = /\b(\d{1,2}):(\d{2})\s*([ap])?\.?m?\.?(?![a-z])|\b(\d{1,2})\s*([ap])\.?m\.?(?![a-z])/gi;
+// "2-4 pm", "10:30 to 12 am": the start may omit both minutes and am/pm
+const TIME_RANGE_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?\s*(?:-|–|—|to)\s*(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?![a-z])/i;
+const WEEK_PATTERN = /^\s*(?:week|wk)\.?\s*(\d{1,2})\b[\s:.)\-–—]*(.*)$/i;
+const READING_PATTERN = /\b(readings?|read|ch(?:apters?|s?\.)\s*\d|pp?\.\s*\d|pages?\s+\d)/i;
+const EXAM_PATTERN = /\b(mid-?term|final\s+exam(?:ination)?|final(?!\s+(?:project|paper|essay|report|presentation))|exam(?:ination)?|test|quiz)\b/i;
+const TEST_PATTERN = /\b(test|quiz)\b/i;
+const ASSIGNMENT_PATTERN = /\b(assignments?|homework|hw\s*\d*|problem\s+sets?|psets?|projects?|papers?|essays?|reports?|labs?|presentations?)\b/i;
+const DUE_PATTERN = /\bdue\b/i;
+const BULLET_PATTERN = /^\s*(?:[-*•▪◦]|\d+[.)])\s+/;
+// Headings that end the weekly schedule, so policy text isn't read as topics
+const SECTION_PATTERN = /^\s*(grading|grades|evaluation|assessments?|important\s+dates|key\s+dates|attendance|polic(?:y|ies)|office\s+hours|academic\s+integrity|accommodations?|required\s+(?:texts?|materials)|textbooks?|course\s+description|learning\s+outcomes)\b/i;
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_TOPICS_PER_WEEK = 6;
+const DEFAULT_EXAM_MINUTES = 120;
+const DEFAULT_EXAM_START = "09:00";
+const DEFAULT_SESSION_START = "18:00";
+const DEFAULT_SESSION_MINUTES = 90;
+// A yearless date this far before the previous one is taken to be in the next year (fall terms run into January)
+const YEAR_ROLLOVER_DAYS = 150;
+
+class SyllabusService {
+  /**
+   * Read weekly topics, readings, exam dates and assignment deadlines out of the syllabus text.
+   * Works line by line; docx tables arrive as "cell | cell" rows (see `textOf`), which covers the
+   * common schedule table.
+   */
+  parse(content: string, referenceDate: Date = new Date(), termStart?: string): ParsedSyllabus {
+    const warnings: string[] = [];
+    const weeks: SyllabusWeek[] = [];
+    const exams: SyllabusExam[] = [];
+    const assignmentItems: SyllabusSchedule['assignments'] = [];
+
+    const yearMatch = content.match(/\b(20\d{2})\b/);
+    const dates = { year: yearMatch ? parseInt(yearMatch[1], 10) : referenceDate.getFullYear(), last: null as Date | null };
+
+    let current: SyllabusWeek | null = null;
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+    for (const line of lines) {
+      if (SECTION_PATTERN.test(line) && !WEEK_PATTERN.test(line)) {
+        current = null;
+        continue;
+      }
+
+      const cells = line.split(/\s*\|\s*|\t+/).map(cell => cell.trim()).filter(cell => cell.length > 0);
+      const weekMatch = line.match(WEEK_PATTERN);
+      const date = this.findDate(line, dates);
+
+      if (weekMatch) {
+        const number = parseInt(weekMatch[1], 10);
+        current = weeks.find(week => week.week === number) || null;
+        if (!current) {
+          current = { week: number, startDate: null, topics: [], readings: [] };
+          weeks.push(current);
+        }
+        if (date && !current.startDate) current.startDate = date;
+
+        // The header itself may carry the topic ("Week 3: Recursion") or a whole table row
+        const rest = cells.length > 1 ? cells.slice(1) : [weekMatch[2]];
+        for (const cell of rest) {
+          // A cell holding the week's own date isn't a date for what's in it
+          const cellDate = this.findDate(cell, dates);
+          this.classifyLine(cell, current, cellDate !== current.startDate ? cellDate : null, date || current.startDate, exams, assignmentItems);
+        }
+        continue;
+      }
+
+      if (current) {
+        this.classifyLine(line, current, date, current.startDate, exams, assignmentItems);
+      } else if (date) {
+        // Outside the weekly schedule only dated exams and deadlines are worth keeping, e.g. an "Important dates" list
+        this.classifyEvent(line, date, exams, assignmentItems);
+      }
+    }
+
+    this.fillWeekDates(weeks, termStart, warnings);
+    weeks.sort((a, b) => a.week - b.week);
+
+    if (weeks.length === 0) {
+      warnings.push("No weekly schedule was found. Add the weeks you want study sessions for before confirming.");
+    }
+    const undated = exams.filter(exam => !exam.date).length + assignmentItems.filter(item => !item.dueDate).length;
+    if (undated > 0) {
+      warnings.push(`${undated} exam or assignment date${undated === 1 ? "" : "s"} could not be read and will be skipped unless you add them.`);
+    }
+
+    return {
+      schedule: {
+        weeks,
+        exams: this.dedupe(exams, exam => `${exam.title.toLowerCase()}|${exam.date}`),
+        assignments: this.dedupe(assignmentItems, item => `${item.title.toLowerCase()}|${item.dueDate}`)
+      },
+      warnings
+    };
+  }
+
+  /**
+   * The document's text for `parse`. A docx's tables come back from its stored structure as
+   * "cell | cell" rows, since the extracted content lists every cell on its own line.
+   */
+  textOf(document: Document): string {
+    try {
+      const structure = document.metadata ? JSON.parse(document.metadata) : null;
+      if (structure?.type === 'docx' && Array.isArray(structure.blocks)) {
+        return structure.blocks.map((block: { text: string }) => block.text).join('\n');
+      }
+    } catch {
+      // Unreadable metadata: fall back to the content
+    }
+    return document.content || "";
+  }
+
+  async createDraft(userId: number, courseId: string, documentId: number | null, parsed: ParsedSyllabus): Promise<SyllabusDraft> {
+    const [draft] = await db
+      .insert(syllabusDrafts)
+      .values({ userId, courseId, documentId, schedule: parsed.schedule, warnings: parsed.warnings })
+      .returning();
+    return draft;
+  }
+
+  async getDraft(userId: number, id: number): Promise<SyllabusDraft | null> {
+    const [draft] = await db
+      .select()
+      .from(syllabusDrafts)
+      .where(and(eq(syllabusDrafts.id, id), eq(syllabusDrafts.userId, userId)));
+    return draft || null;
+  }
+
+  async getDrafts(userId: number, courseId?: string): Promise<SyllabusDraft[]> {
+    const conditions = [eq(syllabusDrafts.userId, userId)];
+    if (courseId) conditions.push(eq(syllabusDrafts.courseId, courseId));
+
+    return await db
+      .select()
+      .from(syllabusDrafts)
+      .where(and(...conditions))
+      .orderBy(desc(syllabusDrafts.createdAt));
+  }
+
+  /**
+   * Save the student's edits to a draft that hasn't been confirmed yet
+   */
+  async updateDraft(userId: number, id: number, schedule: SyllabusSchedule): Promise<SyllabusDraft | null> {
+    const [updated] = await db
+      .update(syllabusDrafts)
+      .set({ schedule })
+      .where(and(eq(syllabusDrafts.id, id), eq(syllabusDrafts.userId, userId), eq(syllabusDrafts.status, "draft")))
+      .returning();
+    return updated || null;
+  }
+
+  /**
+   * Turn a reviewed draft into assignments, exams and one study session per week.
+   * Items without a date are skipped and reported back rather than guessed. Runs in one
+   * transaction that claims the draft first, so a repeated confirm creates nothing and
+   * returns null.
+   */
+  async confirmDraft(draft: SyllabusDraft, course: Course, options: ConfirmOptions = {}): Promise<ConfirmResult | null> {
+    const schedule = draft.schedule;
+    const skipped: string[] = [];
+    const weeks = schedule.weeks.map(week => ({ ...week }));
+    this.fillWeekDates(weeks, options.termStart, []);
+
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(syllabusDrafts)
+        .set({ status: "confirmed", confirmedAt: new Date() })
+        .where(and(eq(syllabusDrafts.id, draft.id), eq(syllabusDrafts.status, "draft")))
+        .returning({ id: syllabusDrafts.id });
+      if (!claimed) return null;
+
+      const assignmentIds: number[] = [];
+      for (const item of schedule.assignments) {
+        if (!item.dueDate) {
+          skipped.push(`Assignment "${item.title}" has no due date`);
+          continue;
+        }
+        const [created] = await tx
+          .insert(assignments)
+          .values({ userId: draft.userId, title: item.title, course: course.name, dueDate: item.dueDate, progress: 0 })
+          .returning({ id: assignments.id });
+        assignmentIds.push(created.id);
+      }
+
+      const assessmentIds: number[] = [];
+      for (const exam of schedule.exams) {
+        if (!exam.date) {
+          skipped.push(`${exam.type === "test" ? "Test" : "Exam"} "${exam.title}" has no date`);
+          continue;
+        }
+        const startTime = exam.startTime || DEFAULT_EXAM_START;
+        const [created] = await tx
+          .insert(assessments)
+          .values({
+            userId: draft.userId,
+            courseId: course.courseId,
+            type: exam.type,
+            title: exam.title,
+            subject: course.name,
+            date: exam.date,
+            startTime,
+            endTime: exam.endTime || this.addToTime(startTime, DEFAULT_EXAM_MINUTES),
+            location: exam.location,
+            notes: exam.startTime ? null : "Time not listed in the syllabus"
+          })
+          .returning({ id: assessments.id });
+        assessmentIds.push(created.id);
+      }
+
+      const sessionStart = options.sessionStartTime || DEFAULT_SESSION_START;
+      const sessionEnd = this.addToTime(sessionStart, options.sessionMinutes || DEFAULT_SESSION_MINUTES);
+      const studySessionIds: number[] = [];
+      for (const week of weeks) {
+        if (!week.startDate) {
+          skipped.push(`Week ${week.week} has no date`);
+          continue;
+        }
+        if (week.topics.length === 0 && week.readings.length === 0) continue;
+
+        const [created] = await tx
+          .insert(studySessions)
+          .values({
+            userId: draft.userId,
+            title: week.topics.length > 0 ? `Week ${week.week}: ${week.topics.join(", ")}`.slice(0, MAX_TITLE_LENGTH) : `Week ${week.week} readings`,
+            subject: course.name,
+            date: week.startDate,
+            startTime: sessionStart,
+            endTime: sessionEnd,
+            notes: week.readings.length > 0 ? `Readings: ${week.readings.join("; ")}` : null,
+            isPriority: false
+          })
+          .returning({ id: studySessions.id });
+        studySessionIds.push(created.id);
+      }
+
+      const [confirmed] = await tx
+        .update(syllabusDrafts)
+        .set({ createdItems: { assignmentIds, assessmentIds, studySessionIds } })
+        .where(eq(syllabusDrafts.id, draft.id))
+        .returning();
+
+      return {
+        draft: confirmed,
+        created: { assignments: assignmentIds.length, exams: assessmentIds.length, studySessions: studySessionIds.length },
+        skipped
+      };
+    });
+  }
+
+  /**
+   * One line inside a week: a reading, an exam, a deadline, or otherwise a topic. `lineDate` is
+   * a date written on the line itself; without one, work counts as a deadline only when it says
+   * "due", and exams fall on `weekDate`.
+   */
+  private classifyLine(
+    line: string,
+    week: SyllabusWeek,
+    lineDate: string | null,
+    weekDate: string | null,
+    exams: SyllabusExam[],
+    assignmentItems: SyllabusSchedule['assignments']
+  ): void {
+    if (this.classifyEvent(line, lineDate || weekDate, exams, assignmentItems, !lineDate)) return;
+
+    const text = this.cleanText(line);
+    if (!text || this.isDateOnly(line)) return;
+
+    if (READING_PATTERN.test(line)) {
+      week.readings.push(text.replace(/^(?:required\s+)?readings?\s*:\s*/i, ""));
+      return;
+    }
+
+    // Long prose under a week header is description, not a topic
+    if (week.topics.length < MAX_TOPICS_PER_WEEK && (text.length <= 80 || BULLET_PATTERN.test(line))) {
+      week.topics.push(text.slice(0, MAX_TITLE_LENGTH));
+    }
+  }
+
+  private classifyEvent(
+    line: string,
+    date: string | null,
+    exams: SyllabusExam[],
+    assignmentItems: SyllabusSchedule['assignments'],
+    requireDue: boolean = false
+  ): boolean {
+    const isDue = DUE_PATTERN.test(line);
+    const examMatch = line.match(EXAM_PATTERN);
+
+    if (examMatch && !isDue) {
+      const times = this.findTimes(line);
+      const location = this.findLocation(line);
+      // Details usually follow the name: "Midterm Exam (Oct 8, 2-4 pm in Room 101)"
+      let title = this.cleanText(line.split("(")[0]) || this.cleanText(line);
+      if (location) {
+        title = title.replace(/\s*\b(?:in|room|location:?)\s+.*$/i, "").trim();
+      }
+      exams.push({
+        title: title.slice(0, MAX_TITLE_LENGTH) || this.capitalize(examMatch[1]),
+        type: TEST_PATTERN.test(examMatch[1]) ? "test" : "exam",
+        date,
+        startTime: times[0] || null,
+        endTime: times[1] || null,
+        location
+      });
+      return true;
+    }
+
+    // Inside the weekly schedule "Lab 3" is an activity; work is a deadline when it's due or has its own date
+    if (isDue || (!requireDue && date && ASSIGNMENT_PATTERN.test(line))) {
+      const title = this.cleanText(line).replace(/\s*\bdue\b.*$/i, "").trim();
+      assignmentItems.push({ title: (title || "Assignment").slice(0, MAX_TITLE_LENGTH), dueDate: date });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * First date on the line as yyyy-MM-dd, inferring the year for dates written without one
+   */
+  private findDate(line: string, state: { year: number; last: Date | null }): string | null {
+    for (const form of DATE_FORMS) {
+      const match = line.match(form.pattern);
+      if (!match) continue;
+
+      const monthText = match[form.month];
+      const month = /^\d+$/.test(monthText) ? parseInt(monthText, 10) - 1 : MONTHS[monthText.slice(0, 3).toLowerCase()];
+      const day = parseInt(match[form.day], 10);
+      const explicitYear = match[form.year] ? parseInt(match[form.year], 10) : null;
+      if (month === undefined || month < 0 || month > 11 || day < 1 || day > 31) continue;
+
+      let year = explicitYear !== null ? (explicitYear < 100 ? 2000 + explicitYear : explicitYear) : state.year;
+      let candidate = new Date(year, month, day);
+      if (explicitYear === null && state.last && candidate.getTime() < addDays(state.last, -YEAR_ROLLOVER_DAYS).getTime()) {
+        year += 1;
+        candidate = new Date(year, month, day);
+      }
+      if (candidate.getMonth() !== month) continue; // e.g. Feb 30
+
+      state.year = year;
+      state.last = candidate;
+      return format(candidate, "yyyy-MM-dd");
+    }
+    return null;
+  }
+
+  /**
+   * Times on the line as HH:mm; "2-4 pm" style ranges share the trailing am/pm
+   */
+  private findTimes(line: string): string[] {
+    const found: { hours: number; minutes: number; meridiem: string | null }[] = [];
+    const range = line.match(TIME_RANGE_PATTERN);
+    if (range) {
+      found.push(
+        { hours: parseInt(range[1], 10), minutes: range[2] ? parseInt(range[2], 10) : 0, meridiem: range[3] ? range[3].toLowerCase() : null },
+        { hours: parseInt(range[4], 10), minutes: range[5] ? parseInt(range[5], 10) : 0, meridiem: range[6].toLowerCase() }
+      );
+    } else {
+      const pattern = new RegExp(TIME_PATTERN.source, "gi");
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(line)) !== null && found.length < 2) {
+        if (match[1] !== undefined) {
+          found.push({ hours: parseInt(match[1], 10), minutes: parseInt(match[2], 10), meridiem: match[3] ? match[3].toLowerCase() : null });
+        } else {
+          found.push({ hours: parseInt(match[4], 10), minutes: 0, meridiem: match[5].toLowerCase() });
+        }
+      }
+    }
+
+    // The start shares the end's am/pm unless that would put it after the end ("11-1 pm" starts at 11 am)
+    if (found.length === 2 && !found[0].meridiem && found[1].meridiem) {
+      const startHour = found[0].hours % 12;
+      const endHour = found[1].hours % 12;
+      found[0].meridiem = startHour <= endHour ? found[1].meridiem : found[1].meridiem === "p" ? "a" : "p";
+    }
+
+    return found
+      .filter(time => time.hours <= 23 && time.minutes <= 59)
+      .map(time => {
+        let hours = time.hours;
+        if (time.meridiem === "p" && hours < 12) hours += 12;
+        if (time.meridiem === "a" && hours === 12) hours = 0;
+        return `${String(hours).padStart(2, "0")}:${String(time.minutes).padStart(2, "0")}`;
+      });
+  }
+
+  private findLocation(line: string): string | null {
+    const match = line.match(/\b(?:in|room|location:?)\s+((?:room\s+)?[A-Z0-9][\w-]*(?:\s+\d+[A-Z]?)?)/);
+    return match ? match[1].trim() : null;
+  }
+
+  /**
+   * Weeks without a date are placed relative to a dated week, or to the term start
+   */
+  private fillWeekDates(weeks: SyllabusWeek[], termStart: string | undefined, warnings: string[]): void {
+    const anchor = weeks.find(week => week.startDate);
+    let base: Date | null = null;
+    if (anchor?.startDate) {
+      base = addDays(this.parseDate(anchor.startDate)!, -(anchor.week - 1) * 7);
+    } else if (termStart) {
+      base = this.parseDate(termStart);
+    }
+
+    if (!base) {
+      if (weeks.length > 0) {
+        warnings.push("The weekly schedule has no dates. Set the term start date before confirming.");
+      }
+      return;
+    }
+
+    weeks.forEach(week => {
+      if (!week.startDate) {
+        week.startDate = format(addDays(base!, (week.week - 1) * 7), "yyyy-MM-dd");
+      }
+    });
+  }
+
+  private cleanText(line: string): string {
+    let text = line.replace(WEEK_PATTERN, "$2").replace(BULLET_PATTERN, "");
+    DATE_FORMS.forEach(form => {
+      text = text.replace(new RegExp(form.pattern.source, "gi"), " ");
+    });
+    return text
+      .replace(new RegExp(TIME_RANGE_PATTERN.source, "gi"), " ")
+      .replace(new RegExp(TIME_PATTERN.source, "gi"), " ")
+      .replace(WEEKDAY_PATTERN, " ")
+      .replace(/\s*\|\s*/g, " - ")
+      .replace(/(?:\s*[,;\-–—]\s*){2,}/g, " - ")
+      .replace(/\(\s*[,;\-–—]?\s*\)|\[\s*\]/g, " ")
+      .replace(/\s+/g, " ")
+      .replace(/^[\s:,;.\-–—]+|[\s:,;\-–—(]+$/g, "")
+      .replace(/\s+(?:on|at|by|from)$/i, "")
+      .trim();
+  }
+
+  private isDateOnly(line: string): boolean {
+    return this.cleanText(line).replace(/[^a-z0-9]/gi, "").length === 0;
+  }
+
+  private parseDate(value: string): Date | null {
+    const parsed = parse(value, "yyyy-MM-dd", new Date());
+    return isValid(parsed) ? parsed : null;
+  }
+
+  private addToTime(time: string, minutes: number): string {
+    const start = parse(time.slice(0, 5), "HH:mm", new Date(2000, 0, 1));
+    const end = addMinutes(start, minutes);
+    // Keep sessions from wrapping past midnight
+    return end.getDate() !== start.getDate() ? "23:59" : format(end, "HH:mm");
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  }
+
+  private dedupe<T>(items: T[], key: (item: T) => string): T[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      const k = key(item);
+      if (seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+  }
+}
+
+export const syllabusService = new SyllabusService();
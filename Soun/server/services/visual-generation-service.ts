@@ -1,9 +1,5 @@
 
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from "./llm-provider";
 
 export interface VisualAid {
   type: 'diagram' | 'chart' | 'flowchart' | 'mindmap' | 'illustration';
@@ -40,8 +36,8 @@ class VisualGenerationService {
     complexity: 'simple' | 'intermediate' | 'advanced' = 'intermediate'
   ): Promise<VisualAid | null> {
     try {
-      if (!openai) {
-        console.log("OpenAI API key not available for visual generation");
+      if (!llm.isLive) {
+        console.log("No language model available for visual generation");
         return null;
       }
 
@@ -80,8 +76,7 @@ Return a JSON object with:
   ]
 }`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "system",
@@ -92,11 +87,8 @@ Return a JSON object with:
             content: prompt
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 2000
+        maxTokens: 2000
       });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
       return result as VisualAid;
 
     } catch (error) {
@@ -180,19 +172,15 @@ Return a JSON array of objects with:
   "suggestedType": "best visual type for this concept"
 }`;
 
-      const response_ai = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llm.chatJson({
         messages: [
           {
             role: "user",
             content: prompt
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 500
+        maxTokens: 500
       });
-
-      const result = JSON.parse(response_ai.choices[0].message.content || '{"concepts": []}');
       return result.concepts || [];
 
     } catch (error) {
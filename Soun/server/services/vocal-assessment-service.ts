@@ -0,0 +1,768 @@
+import { and, desc, eq, isNotNull, sql } from "drizzle-orm";
+import { db } from "../db";
+import { courses, documents, vocalAttempts, type VocalAttempt } from "../../shared/schema";
+import { audioAnalysisService, type AudioLevels, type VolumeStats } from "./audio-analysis-service";
+import { FAST_WPM, SLOW_WPM } from "./speech-delivery-service";
+import type { DocumentAnalysis } from "./document-analysis-service";
+
+// Share of the overall score each component carries; missing components are left out
+const SCORE_WEIGHTS = { accuracy: 0.5, fluency: 0.2, pace: 0.2, volume: 0.1 };
+// A misread word this similar to the target (by spelling) counts as half an error
+const NEAR_MISS_SIMILARITY = 0.75;
+// Points lost per word per minute outside the comfortable pace
+const PACE_PENALTY_PER_WPM = 2;
+// Fewer words than this are too short to judge pace from
+const MIN_PACE_WORDS = 8;
+// Silences this long mid-read count against fluency unless the text has a break there
+const LONG_PAUSE_SECONDS = 1;
+// An explanation may stop to think once per this many seconds without losing fluency
+const THINKING_PAUSE_SECONDS = 10;
+// Share of a reference answer's key words an explanation needs for full accuracy
+const COVERAGE_TARGET = 0.6;
+// Speech quieter than this on average is hard to hear; peaks at CLIPPING_DB distort
+const QUIET_DB = -30;
+const CLIPPING_DB = -1;
+// A component below this is a weakness to practise
+const WEAKNESS_SCORE = 70;
+export const PASS_SCORE = 70;
+// A challenge passed this well is mastered and offered last
+const MASTERY_SCORE = 85;
+// Recent attempts that make up the student's weakness profile
+const PROFILE_ATTEMPTS = 10;
+const HISTORY_LIMIT = 50;
+// Challenges offered at once; mastered ones only fill the list when too few remain
+const CHALLENGES_PER_ROUND = 6;
+// Longest key term, in words, offered for pronunciation
+const MAX_TERM_WORDS = 6;
+
+const FILLER_WORDS = ["um", "umm", "uh", "uhm", "er", "erm", "ah", "hmm"];
+
+// Words that carry no meaning of their own when checking what an explanation covered
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'about', 'what', 'when', 'where', 'which', 'who', 'why', 'how',
+  'are', 'was', 'were', 'this', 'that', 'these', 'those', 'from', 'into', 'its', 'their', 'there',
+  'have', 'has', 'had', 'been', 'being', 'can', 'could', 'would', 'should', 'will', 'may', 'might',
+  'not', 'but', 'than', 'then', 'also', 'such', 'each', 'other', 'some', 'any', 'all', 'more',
+  'most', 'very', 'used', 'use', 'uses', 'using', 'like', 'one', 'two', 'way', 'ways', 'example',
+  'examples', 'often', 'usually', 'called', 'known', 'refers', 'means', 'between', 'within', 'they',
+  'them', 'you', 'your', 'our', 'his', 'her', 'she', 'him', 'only', 'both', 'does', 'did', 'out'
+]);
+
+export type VocalWeakness = 'accuracy' | 'pace_slow' | 'pace_fast' | 'fluency' | 'volume';
+// Built-in read-aloud drills, then challenges made from a course's documents
+export type ChallengeType =
+  'pronunciation' | 'pacing' | 'fluency' | 'projection' | 'term' | 'definition' | 'teach_back';
+// Read the text exactly, or explain it in your own words
+export type ChallengeMode = 'read' | 'explain';
+
+export interface VocalChallenge {
+  id: string;
+  type: ChallengeType;
+  mode: ChallengeMode;
+  difficulty: number; // 1-5
+  title: string;
+  text: string; // What to read, or the prompt to answer
+  focus: string; // What to pay attention to while speaking
+  reference?: string; // For explain challenges, what a good answer covers
+  source?: { courseId: string; documentId: number; documentTitle: string };
+}
+
+// The reference answer stays on the server until the attempt is scored
+export interface RankedChallenge extends Omit<VocalChallenge, 'reference'> {
+  attempts: number;
+  bestScore: number | null;
+  mastered: boolean;
+}
+
+export interface ChallengeRecommendation {
+  challenges: RankedChallenge[]; // Best next challenge first
+  recommendedId: string | null;
+  weaknesses: VocalWeakness[]; // Weakest first, from recent attempts
+  courseId: string | null;
+  source: 'course' | 'built_in'; // Built-in drills when the course has nothing at this level
+}
+
+export interface AlignedWord {
+  op: 'match' | 'substitution' | 'deletion' | 'insertion';
+  expected: string | null;
+  spoken: string | null;
+}
+
+export interface VocalAssessmentInput {
+  targetText: string; // The text to read, or the reference answer in explain mode
+  mode?: ChallengeMode; // Defaults to read
+  transcript: string;
+  duration: number; // seconds, as timed by the recorder
+  segments?: Array<{ text: string; end: number }>; // Recognized phrases and when they ended
+  audio?: AudioLevels | null;
+}
+
+export interface VocalScores {
+  accuracy: number;
+  pace: number | null;
+  fluency: number;
+  volume: number | null;
+  overall: number;
+}
+
+export interface VocalAssessment {
+  mode: ChallengeMode;
+  targetText: string;
+  transcript: string;
+  alignment: AlignedWord[]; // In explain mode, the reference's key words, covered or missed
+  errors: { substitutions: number; deletions: number; insertions: number; wordErrorRate: number };
+  wordsPerMinute: number | null;
+  speakingSeconds: number;
+  pauses: { long: number; expected: number; fillers: number; repeats: number };
+  volume: VolumeStats | null;
+  scores: VocalScores;
+  weaknesses: VocalWeakness[];
+  missedWords: string[];
+  feedback: string[];
+}
+
+const TYPE_TITLES: Record<ChallengeType, string> = {
+  pronunciation: "Clear Pronunciation",
+  pacing: "Steady Pace",
+  fluency: "Smooth Delivery",
+  projection: "Project Your Voice",
+  term: "Pronounce a Key Term",
+  definition: "Explain a Definition",
+  teach_back: "Teach It Back"
+};
+
+const TYPE_FOCUS: Record<ChallengeType, string> = {
+  pronunciation: "Say every word exactly as written.",
+  pacing: `Keep between ${SLOW_WPM} and ${FAST_WPM} words per minute from start to finish.`,
+  fluency: "Pause at the punctuation, nowhere else, and avoid fillers like \"um\".",
+  projection: "Speak up as if to the back of the room, without shouting.",
+  term: "Say the term clearly, giving every syllable its full weight.",
+  definition: "Explain it in your own words and cover the key ideas of the definition.",
+  teach_back: "Explain it as if to a classmate who missed the lecture, with an example."
+};
+
+// Which kinds of challenge train each weakness
+const WEAKNESS_PRACTICE: Record<VocalWeakness, ChallengeType[]> = {
+  accuracy: ['pronunciation', 'term'],
+  pace_slow: ['pacing', 'definition'],
+  pace_fast: ['pacing', 'definition'],
+  fluency: ['fluency', 'teach_back'],
+  volume: ['projection']
+};
+
+const BUILT_IN_TEXTS: Record<'pronunciation' | 'pacing' | 'fluency' | 'projection', string[]> = {
+  pronunciation: [
+    "Red lorry, yellow lorry.",
+    "She sells seashells by the seashore.",
+    "Peter Piper picked a peck of pickled peppers.",
+    "The sixth sick sheikh's sixth sheep's sick.",
+    "Specific Pacific statistics show the thermodynamic equilibrium is particularly improbable."
+  ],
+  pacing: [
+    "Take a deep breath and read this sentence at a calm and steady pace.",
+    "Good presenters slow down for important ideas and give each point a moment to land before moving on.",
+    "When you explain a process, describe one step at a time. Say what happens, why it happens, and what comes next, without rushing the transitions.",
+    "Photosynthesis turns light energy into chemical energy. In the light reactions, water is split and oxygen is released; in the Calvin cycle, carbon dioxide is fixed into sugars that the plant uses to grow.",
+    "A hypothesis is only useful if it can be tested. Researchers design experiments that could prove it wrong, measure the outcome carefully, and report the results even when they contradict what everyone expected to find."
+  ],
+  fluency: [
+    "First, read the question. Then, answer it.",
+    "If the data is clear, the conclusion follows; if not, we test again.",
+    "Supply rises, prices fall, and demand, at least in theory, catches up.",
+    "The results, although preliminary, suggest three things: the effect is real, it is small, and it fades over time.",
+    "Before we conclude, consider the alternatives: the sample was small, the measurements, while careful, were indirect, and the control group, unfortunately, was not randomized."
+  ],
+  projection: [
+    "Good morning, everyone.",
+    "Today I will explain three key ideas.",
+    "Thank you for listening. I am happy to take your questions.",
+    "This is the most important point of my talk, so I want everyone to hear it clearly.",
+    "Even at the back of a large lecture hall, every listener should hear each word of this sentence without straining."
+  ]
+};
+
+const BUILT_IN_CHALLENGES: VocalChallenge[] = (Object.keys(BUILT_IN_TEXTS) as Array<keyof typeof BUILT_IN_TEXTS>).flatMap(type =>
+  BUILT_IN_TEXTS[type].map((text, index): VocalChallenge => ({
+    id: `${type}-${index + 1}`,
+    type,
+    mode: 'read',
+    difficulty: index + 1,
+    title: TYPE_TITLES[type],
+    text,
+    focus: TYPE_FOCUS[type]
+  }))
+);
+
+class VocalAssessmentService {
+  /**
+   * Scores a read-aloud of `targetText`, or in explain mode an answer in the student's own words
+   * with `targetText` as the reference. The same transcript, timing and audio always give the
+   * same scores: accuracy from a word alignment (or how many of the reference's key words were
+   * said), pace from the speaking time, fluency from long pauses, fillers and repeats, and volume
+   * from the recording's speech level.
+   */
+  assess(input: VocalAssessmentInput): VocalAssessment {
+    const mode = input.mode ?? 'read';
+    const spoken = tokenize(input.transcript);
+    const words = mode === 'explain' ? scoreCoverage(input.targetText, spoken) : scoreReading(input.targetText, spoken);
+    const { alignment, accuracy, substitutions, deletions, insertions, fillers, repeats, missedWords } = words;
+
+    // Speaking time: the speech the audio found, else until the last recognized phrase ended
+    const activity = input.audio && input.audio.levels.length > 0 ? audioAnalysisService.detectSpeech(input.audio) : null;
+    const lastSegmentEnd = input.segments && input.segments.length > 0
+      ? Math.max(...input.segments.map(segment => segment.end))
+      : 0;
+    const speakingSeconds = activity && activity.speechEnd > activity.speechStart
+      ? activity.speechEnd - activity.speechStart
+      : lastSegmentEnd > 0 ? Math.min(lastSegmentEnd, input.duration || lastSegmentEnd) : input.duration;
+
+    const wordsPerMinute = spoken.length > 0 && speakingSeconds > 0 ? Math.round((spoken.length / speakingSeconds) * 60) : null;
+    const paceWords = mode === 'explain' ? spoken.length : tokenize(input.targetText).length;
+    const pace = wordsPerMinute === null || paceWords < MIN_PACE_WORDS
+      ? null
+      : clampScore(100 - PACE_PENALTY_PER_WPM * Math.max(0, SLOW_WPM - wordsPerMinute, wordsPerMinute - FAST_WPM));
+
+    // Breaks the text itself calls for: clause and sentence punctuation between words. An
+    // explanation has no text, so it gets time to think instead.
+    const expectedPauses = mode === 'explain'
+      ? Math.floor(speakingSeconds / THINKING_PAUSE_SECONDS)
+      : (input.targetText.trim().replace(/[.!?;:,]+["')\]]*$/, "").match(/[.!?;:,](?=\s)/g) || []).length;
+    const longPauses = activity ? activity.pauses.filter(p => p.end - p.start >= LONG_PAUSE_SECONDS).length : 0;
+    const fluency = spoken.length === 0
+      ? 0
+      : clampScore(100 - 15 * Math.max(0, longPauses - expectedPauses) - 10 * fillers - 5 * repeats);
+
+    const volumeStats = input.audio && activity ? audioAnalysisService.volumeStats(input.audio, activity) : null;
+    const volume = volumeStats
+      ? clampScore(100 - 5 * Math.max(0, QUIET_DB - volumeStats.averageDb) - (volumeStats.peakDb >= CLIPPING_DB ? 20 : 0))
+      : null;
+
+    const components: Array<[number | null, number]> = [
+      [accuracy, SCORE_WEIGHTS.accuracy],
+      [fluency, SCORE_WEIGHTS.fluency],
+      [pace, SCORE_WEIGHTS.pace],
+      [volume, SCORE_WEIGHTS.volume]
+    ];
+    const weighed = components.filter(([score]) => score !== null) as Array<[number, number]>;
+    const totalWeight = weighed.reduce((sum, [, weight]) => sum + weight, 0);
+    const overall = Math.round(weighed.reduce((sum, [score, weight]) => sum + score * weight, 0) / totalWeight);
+
+    const scores: VocalScores = { accuracy, pace, fluency, volume, overall };
+    const weaknesses = this.weaknessesOf(scores, wordsPerMinute);
+
+    const assessment: Omit<VocalAssessment, 'feedback'> = {
+      mode,
+      targetText: input.targetText,
+      transcript: input.transcript,
+      alignment,
+      errors: {
+        substitutions,
+        deletions,
+        insertions,
+        wordErrorRate: words.expectedCount > 0
+          ? Math.round(((substitutions + deletions + insertions) / words.expectedCount) * 100) / 100
+          : 0
+      },
+      wordsPerMinute,
+      speakingSeconds: Math.round(speakingSeconds * 10) / 10,
+      pauses: { long: longPauses, expected: expectedPauses, fillers, repeats },
+      volume: volumeStats,
+      scores,
+      weaknesses,
+      missedWords
+    };
+    return { ...assessment, feedback: this.feedback(assessment, spoken.length) };
+  }
+
+  async recordAttempt(
+    userId: number,
+    assessment: VocalAssessment,
+    durationSeconds: number,
+    challenge: VocalChallenge | null
+  ): Promise<VocalAttempt> {
+    const [attempt] = await db
+      .insert(vocalAttempts)
+      .values({
+        userId,
+        challengeId: challenge?.id ?? null,
+        challengeType: challenge?.type ?? null,
+        difficulty: challenge?.difficulty ?? null,
+        targetText: assessment.targetText,
+        transcript: assessment.transcript,
+        durationSeconds,
+        wordsPerMinute: assessment.wordsPerMinute,
+        overallScore: assessment.scores.overall,
+        accuracyScore: assessment.scores.accuracy,
+        paceScore: assessment.scores.pace,
+        fluencyScore: assessment.scores.fluency,
+        volumeScore: assessment.scores.volume,
+        weaknesses: assessment.weaknesses,
+        missedWords: assessment.missedWords.slice(0, 20)
+      })
+      .returning();
+    return attempt;
+  }
+
+  async getHistory(userId: number, limit: number = HISTORY_LIMIT): Promise<VocalAttempt[]> {
+    return db
+      .select()
+      .from(vocalAttempts)
+      .where(eq(vocalAttempts.userId, userId))
+      .orderBy(desc(vocalAttempts.createdAt))
+      .limit(Math.min(limit, HISTORY_LIMIT));
+  }
+
+  /**
+   * A built-in challenge, or one made from a document the student uploaded
+   */
+  async findChallenge(userId: number, challengeId: string): Promise<VocalChallenge | null> {
+    const fromDocument = challengeId.match(/^doc(\d+)-/);
+    if (!fromDocument) {
+      return BUILT_IN_CHALLENGES.find(challenge => challenge.id === challengeId) || null;
+    }
+
+    const [doc] = await db
+      .select({ id: documents.id, courseId: documents.courseId, title: documents.title, metadata: documents.metadata })
+      .from(documents)
+      .where(and(eq(documents.id, Number(fromDocument[1])), eq(documents.userId, userId)));
+    return doc ? documentChallenges(doc).find(challenge => challenge.id === challengeId) || null : null;
+  }
+
+  /**
+   * Challenges at a difficulty, ordered for practice: unmastered before mastered, then those that
+   * train the student's weakest skill, then the least tried. With a course, the bank comes from
+   * the course's documents, falling back to the built-in drills when none are at this level.
+   * Null when the course isn't the student's.
+   */
+  async recommend(userId: number, difficulty: number, courseId: string | null = null): Promise<ChallengeRecommendation | null> {
+    if (courseId) {
+      const [course] = await db
+        .select({ id: courses.id })
+        .from(courses)
+        .where(and(eq(courses.userId, userId), eq(courses.courseId, courseId)));
+      if (!course) return null;
+    }
+
+    const [history, stats, courseBank] = await Promise.all([
+      this.getHistory(userId, PROFILE_ATTEMPTS),
+      this.challengeStats(userId),
+      courseId ? this.courseChallenges(userId, courseId) : Promise.resolve([])
+    ]);
+    const weaknesses = this.profile(history);
+    const practiceOrder: ChallengeType[] = [];
+    weaknesses.forEach(weakness => {
+      WEAKNESS_PRACTICE[weakness].forEach(type => {
+        if (!practiceOrder.includes(type)) practiceOrder.push(type);
+      });
+    });
+    const rankOf = (type: ChallengeType) => {
+      const rank = practiceOrder.indexOf(type);
+      return rank === -1 ? practiceOrder.length : rank;
+    };
+
+    const fromCourse = courseBank.filter(challenge => challenge.difficulty === difficulty);
+    const bank = fromCourse.length > 0
+      ? fromCourse
+      : BUILT_IN_CHALLENGES.filter(challenge => challenge.difficulty === difficulty);
+
+    const challenges: RankedChallenge[] = bank
+      .map(({ reference, ...challenge }) => {
+        const stat = stats.get(challenge.id);
+        const bestScore = stat ? stat.bestScore : null;
+        return { ...challenge, attempts: stat ? stat.attempts : 0, bestScore, mastered: bestScore !== null && bestScore >= MASTERY_SCORE };
+      })
+      .sort((a, b) =>
+        Number(a.mastered) - Number(b.mastered) ||
+        rankOf(a.type) - rankOf(b.type) ||
+        a.attempts - b.attempts ||
+        a.id.localeCompare(b.id)
+      )
+      .slice(0, CHALLENGES_PER_ROUND);
+
+    return {
+      challenges,
+      recommendedId: challenges.length > 0 ? challenges[0].id : null,
+      weaknesses,
+      courseId,
+      source: fromCourse.length > 0 ? 'course' : 'built_in'
+    };
+  }
+
+  private async courseChallenges(userId: number, courseId: string): Promise<VocalChallenge[]> {
+    const courseDocuments = await db
+      .select({ id: documents.id, courseId: documents.courseId, title: documents.title, metadata: documents.metadata })
+      .from(documents)
+      .where(and(eq(documents.userId, userId), eq(documents.courseId, courseId)));
+    return courseDocuments.flatMap(documentChallenges);
+  }
+
+  /**
+   * Attempts and best overall score for every challenge the student has tried
+   */
+  private async challengeStats(userId: number): Promise<Map<string, { attempts: number; bestScore: number }>> {
+    const rows = await db
+      .select({
+        challengeId: vocalAttempts.challengeId,
+        attempts: sql<number>`count(*)::int`,
+        bestScore: sql<number>`max(${vocalAttempts.overallScore})::int`
+      })
+      .from(vocalAttempts)
+      .where(and(eq(vocalAttempts.userId, userId), isNotNull(vocalAttempts.challengeId)))
+      .groupBy(vocalAttempts.challengeId);
+
+    const stats = new Map<string, { attempts: number; bestScore: number }>();
+    rows.forEach(row => stats.set(row.challengeId!, { attempts: row.attempts, bestScore: row.bestScore }));
+    return stats;
+  }
+
+  /**
+   * Weaknesses across recent attempts, weakest first: a component is weak when its average is
+   * below WEAKNESS_SCORE. Pace is weak in whichever direction the student misses it more often.
+   */
+  private profile(attempts: VocalAttempt[]): VocalWeakness[] {
+    const average = (values: Array<number | null>) => {
+      const present = values.filter((value): value is number => value !== null);
+      return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+    };
+    const slow = attempts.filter(attempt => attempt.weaknesses?.includes('pace_slow')).length;
+    const fast = attempts.filter(attempt => attempt.weaknesses?.includes('pace_fast')).length;
+
+    const components: Array<[VocalWeakness, number | null]> = [
+      ['accuracy', average(attempts.map(attempt => attempt.accuracyScore))],
+      [fast > slow ? 'pace_fast' : 'pace_slow', average(attempts.map(attempt => attempt.paceScore))],
+      ['fluency', average(attempts.map(attempt => attempt.fluencyScore))],
+      ['volume', average(attempts.map(attempt => attempt.volumeScore))]
+    ];
+    return components
+      .filter(([, score]) => score !== null && score < WEAKNESS_SCORE)
+      .sort((a, b) => a[1]! - b[1]!)
+      .map(([weakness]) => weakness);
+  }
+
+  private weaknessesOf(scores: VocalScores, wordsPerMinute: number | null): VocalWeakness[] {
+    const found: Array<[VocalWeakness, number]> = [];
+    if (scores.accuracy < WEAKNESS_SCORE) found.push(['accuracy', scores.accuracy]);
+    if (scores.pace !== null && scores.pace < WEAKNESS_SCORE) {
+      found.push([wordsPerMinute !== null && wordsPerMinute > FAST_WPM ? 'pace_fast' : 'pace_slow', scores.pace]);
+    }
+    if (scores.fluency < WEAKNESS_SCORE) found.push(['fluency', scores.fluency]);
+    if (scores.volume !== null && scores.volume < WEAKNESS_SCORE) found.push(['volume', scores.volume]);
+    return found.sort((a, b) => a[1] - b[1]).map(([weakness]) => weakness);
+  }
+
+  private feedback(assessment: Omit<VocalAssessment, 'feedback'>, spokenCount: number): string[] {
+    const explaining = assessment.mode === 'explain';
+    if (spokenCount === 0) {
+      return [`No speech was transcribed; check your microphone and ${explaining ? "answer" : "read the text"} aloud.`];
+    }
+
+    const { wordsPerMinute, missedWords, pauses, volume, errors, scores } = assessment;
+    const feedback: string[] = [];
+    const extraWords = errors.insertions - pauses.fillers - pauses.repeats;
+    if (explaining && scores.accuracy < 100) {
+      feedback.push(`Your explanation didn't mention: ${missedWords.slice(0, 5).map(word => `"${word}"`).join(", ")}.`);
+    } else if (explaining) {
+      feedback.push("You covered the key ideas.");
+    } else if (missedWords.length > 0) {
+      feedback.push(`Practise these words: ${missedWords.slice(0, 5).map(word => `"${word}"`).join(", ")}.`);
+    } else if (extraWords > 0) {
+      feedback.push(`You added ${extraWords} word(s) that aren't in the text; read exactly what is written.`);
+    } else {
+      feedback.push("You read the text accurately.");
+    }
+    const spoke = explaining ? "spoke" : "read";
+    if (scores.pace !== null && wordsPerMinute !== null && wordsPerMinute < SLOW_WPM) {
+      feedback.push(`At ${wordsPerMinute} words per minute you ${spoke} slowly; aim for ${SLOW_WPM}-${FAST_WPM}.`);
+    } else if (scores.pace !== null && wordsPerMinute !== null && wordsPerMinute > FAST_WPM) {
+      feedback.push(`At ${wordsPerMinute} words per minute you ${spoke} quickly; slow down so each word is clear.`);
+    }
+    if (pauses.long > pauses.expected) {
+      feedback.push(explaining
+        ? `You paused for a second or more ${pauses.long} time(s); plan your next point while you finish the current one.`
+        : `You paused for a second or more ${pauses.long} time(s) where the text has ${pauses.expected} break(s).`);
+    }
+    if (pauses.fillers > 0) {
+      feedback.push(`You used ${pauses.fillers} filler word(s); pause silently instead.`);
+    }
+    if (pauses.repeats > 0) {
+      feedback.push(`You repeated ${pauses.repeats} word(s); keep going after a slip rather than restarting.`);
+    }
+    if (volume && volume.averageDb < QUIET_DB) {
+      feedback.push("Your voice was quiet; speak up or move closer to the microphone.");
+    } else if (volume && volume.peakDb >= CLIPPING_DB) {
+      feedback.push("Parts of the recording distorted; move a little further from the microphone.");
+    }
+    return feedback;
+  }
+}
+
+interface WordScore {
+  alignment: AlignedWord[];
+  accuracy: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  fillers: number;
+  repeats: number;
+  missedWords: string[];
+  expectedCount: number; // Words the accuracy is measured against
+}
+
+/**
+ * Accuracy of a read-aloud from the word alignment. Fillers ("um") and repeated words are
+ * fluency problems, not misreadings, so they don't count against it.
+ */
+function scoreReading(targetText: string, spoken: string[]): WordScore {
+  const expected = tokenize(targetText);
+  const alignment = alignWords(expected, spoken);
+
+  const fillers = alignment.filter(word => word.op === 'insertion' && FILLER_WORDS.includes(word.spoken!)).length;
+  const repeats = alignment.filter((word, i) => {
+    if (word.op !== 'insertion' || FILLER_WORDS.includes(word.spoken!)) return false;
+    const previous = alignment.slice(0, i).reverse().find(w => w.spoken !== null);
+    const next = alignment.slice(i + 1).find(w => w.spoken !== null);
+    return previous?.spoken === word.spoken || next?.spoken === word.spoken;
+  }).length;
+
+  let substitutions = 0;
+  let deletions = 0;
+  let errorWeight = 0;
+  const missedWords: string[] = [];
+  alignment.forEach(word => {
+    if (word.op === 'substitution') {
+      substitutions++;
+      errorWeight += similarity(word.expected!, word.spoken!) >= NEAR_MISS_SIMILARITY ? 0.5 : 1;
+    } else if (word.op === 'deletion') {
+      deletions++;
+      errorWeight++;
+    }
+    if ((word.op === 'substitution' || word.op === 'deletion') && !missedWords.includes(word.expected!)) {
+      missedWords.push(word.expected!);
+    }
+  });
+  const insertions = alignment.filter(word => word.op === 'insertion').length;
+  errorWeight += insertions - fillers - repeats;
+  const accuracy = expected.length > 0 ? clampScore(100 * (1 - errorWeight / expected.length)) : 0;
+
+  return { alignment, accuracy, substitutions, deletions, insertions, fillers, repeats, missedWords, expectedCount: expected.length };
+}
+
+/**
+ * Accuracy of an explanation from how many of the reference's key words it used, in any order
+ * and allowing other forms of the word ("photosynthetic" for "photosynthesis"). Covering
+ * COVERAGE_TARGET of them is full marks, since a good answer needn't repeat the reference.
+ */
+function scoreCoverage(reference: string, spoken: string[]): WordScore {
+  const keywords = keywordsOf(reference);
+  const content = spoken.filter(word => !FILLER_WORDS.includes(word));
+  const alignment: AlignedWord[] = keywords.map(keyword => {
+    const heard = content.find(word => sameWord(keyword, word));
+    return heard
+      ? { op: 'match', expected: keyword, spoken: heard }
+      : { op: 'deletion', expected: keyword, spoken: null };
+  });
+  const missedWords = alignment.filter(word => word.op === 'deletion').map(word => word.expected!);
+  const covered = keywords.length - missedWords.length;
+  const accuracy = keywords.length > 0
+    ? clampScore((100 * covered) / (keywords.length * COVERAGE_TARGET))
+    : content.length > 0 ? 100 : 0;
+
+  return {
+    alignment,
+    accuracy,
+    substitutions: 0,
+    deletions: missedWords.length,
+    insertions: 0,
+    fillers: spoken.length - content.length,
+    repeats: content.filter((word, i) => i > 0 && word === content[i - 1]).length,
+    missedWords,
+    expectedCount: keywords.length
+  };
+}
+
+/**
+ * Pronunciation, definition and teach-it-back challenges from a document's stored analysis.
+ * Ids carry the document and the item's position in the analysis, which doesn't change after
+ * upload, so attempts keep counting toward the same challenge.
+ */
+function documentChallenges(doc: { id: number; courseId: string; title: string; metadata: string | null }): VocalChallenge[] {
+  let analysis: Partial<DocumentAnalysis>;
+  try {
+    analysis = doc.metadata ? JSON.parse(doc.metadata) : {};
+  } catch {
+    return [];
+  }
+
+  const source = { courseId: doc.courseId, documentId: doc.id, documentTitle: doc.title };
+  const challenge = (type: ChallengeType, index: number, text: string, difficulty: number, reference?: string): VocalChallenge => ({
+    id: `doc${doc.id}-${type}-${index + 1}`,
+    type,
+    mode: reference === undefined ? 'read' : 'explain',
+    difficulty,
+    title: TYPE_TITLES[type],
+    text,
+    focus: TYPE_FOCUS[type],
+    reference,
+    source
+  });
+
+  const concepts = (Array.isArray(analysis.concepts) ? analysis.concepts : [])
+    .filter(concept => typeof concept?.concept === 'string' && concept.concept.trim());
+  const topics = (Array.isArray(analysis.keyTopics) ? analysis.keyTopics : [])
+    .filter((topic): topic is string => typeof topic === 'string');
+  const terms: string[] = [];
+  concepts.map(concept => concept.concept.trim()).concat(topics.map(topic => topic.trim())).forEach(term => {
+    const length = tokenize(term).length;
+    if (length > 0 && length <= MAX_TERM_WORDS && !terms.some(known => known.toLowerCase() === term.toLowerCase())) {
+      terms.push(term);
+    }
+  });
+
+  const definitions = concepts.filter(concept => typeof concept.definition === 'string' && keywordsOf(concept.definition).length >= 3);
+  const teachingPoints = (Array.isArray(analysis.teachingPoints) ? analysis.teachingPoints : [])
+    .filter(point => typeof point?.point === 'string' && typeof point.explanation === 'string' && point.explanation.trim());
+
+  return [
+    ...terms.map((term, i) => challenge('term', i, term, termDifficulty(term))),
+    ...definitions.map((concept, i) =>
+      challenge('definition', i, `Explain what "${concept.concept.trim()}" means.`, answerDifficulty(concept.definition, 1), concept.definition.trim())
+    ),
+    ...teachingPoints.map((point, i) => {
+      const examples = Array.isArray(point.examples) ? point.examples.filter(example => typeof example === 'string') : [];
+      const reference = [point.explanation.trim(), ...examples].join(" ");
+      return challenge('teach_back', i, `Teach it back: ${point.point.trim()}`, answerDifficulty(reference, 2), reference);
+    })
+  ];
+}
+
+/**
+ * Longer terms are harder to say: 1 for two syllables or fewer, up to 5 for seven or more
+ */
+function termDifficulty(term: string): number {
+  const syllables = tokenize(term).reduce((sum, word) => sum + countSyllables(word), 0);
+  if (syllables <= 2) return 1;
+  if (syllables === 3) return 2;
+  if (syllables === 4) return 3;
+  return syllables <= 6 ? 4 : 5;
+}
+
+/**
+ * More key ideas to cover make an explanation harder, from 1 for five or fewer up to 5
+ */
+function answerDifficulty(reference: string, minimum: number): number {
+  const ideas = keywordsOf(reference).length;
+  const level = ideas <= 5 ? 1 : ideas <= 10 ? 2 : ideas <= 16 ? 3 : ideas <= 24 ? 4 : 5;
+  return Math.max(minimum, level);
+}
+
+function countSyllables(word: string): number {
+  const groups = (word.match(/[aeiouy]+/g) || []).length;
+  const silentE = groups > 1 && /[^l]e$/.test(word) ? 1 : 0;
+  return Math.max(1, groups - silentE);
+}
+
+/**
+ * The distinct words of a text that carry its meaning, in order
+ */
+function keywordsOf(text: string): string[] {
+  const keywords: string[] = [];
+  tokenize(text).forEach(word => {
+    if (word.length > 2 && !STOP_WORDS.has(word) && !keywords.includes(word)) keywords.push(word);
+  });
+  return keywords;
+}
+
+/**
+ * Same word or another form of it: spelled almost alike, or sharing all but a short ending
+ */
+function sameWord(a: string, b: string): boolean {
+  if (a === b || similarity(a, b) >= NEAR_MISS_SIMILARITY) return true;
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return prefix >= Math.max(4, Math.min(a.length, b.length) - 3);
+}
+
+/**
+ * Minimum-cost alignment of the spoken words against the target. Misreading a word costs less
+ * the closer it is to the target, so "sell" lines up with "sells"; a word the recognizer split
+ * or joined ("sea shells" for "seashells") is a match. Ties prefer a match or substitution over
+ * a deletion, and a deletion over an insertion, so results are stable.
+ */
+function alignWords(expected: string[], spoken: string[]): AlignedWord[] {
+  const rows = expected.length + 1;
+  const cols = spoken.length + 1;
+  const substitution = (i: number, j: number) =>
+    expected[i] === spoken[j] ? 0 : 1 - 0.5 * similarity(expected[i], spoken[j]);
+  const joinsSpoken = (i: number, j: number) => i >= 1 && j >= 2 && expected[i - 1] === spoken[j - 2] + spoken[j - 1];
+  const joinsExpected = (i: number, j: number) => i >= 2 && j >= 1 && expected[i - 2] + expected[i - 1] === spoken[j - 1];
+
+  const cost: number[][] = [];
+  for (let i = 0; i < rows; i++) {
+    cost.push(new Array(cols).fill(0));
+    cost[i][0] = i;
+  }
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      let best = Math.min(cost[i - 1][j - 1] + substitution(i - 1, j - 1), cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+      if (joinsSpoken(i, j)) best = Math.min(best, cost[i - 1][j - 2]);
+      if (joinsExpected(i, j)) best = Math.min(best, cost[i - 2][j - 1]);
+      cost[i][j] = best;
+    }
+  }
+
+  const same = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+  const aligned: AlignedWord[] = [];
+  let i = expected.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && same(cost[i][j], cost[i - 1][j - 1] + substitution(i - 1, j - 1))) {
+      aligned.push({ op: expected[i - 1] === spoken[j - 1] ? 'match' : 'substitution', expected: expected[i - 1], spoken: spoken[j - 1] });
+      i--;
+      j--;
+    } else if (joinsSpoken(i, j) && same(cost[i][j], cost[i - 1][j - 2])) {
+      aligned.push({ op: 'match', expected: expected[i - 1], spoken: `${spoken[j - 2]} ${spoken[j - 1]}` });
+      i--;
+      j -= 2;
+    } else if (joinsExpected(i, j) && same(cost[i][j], cost[i - 2][j - 1])) {
+      aligned.push({ op: 'match', expected: `${expected[i - 2]} ${expected[i - 1]}`, spoken: spoken[j - 1] });
+      i -= 2;
+      j--;
+    } else if (i > 0 && same(cost[i][j], cost[i - 1][j] + 1)) {
+      aligned.push({ op: 'deletion', expected: expected[i - 1], spoken: null });
+      i--;
+    } else {
+      aligned.push({ op: 'insertion', expected: null, spoken: spoken[j - 1] });
+      j--;
+    }
+  }
+  return aligned.reverse();
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z0-9]+(?:'[a-z]+)*/g) || [];
+}
+
+/**
+ * Spelling similarity, 0-1, from the character edit distance
+ */
+function similarity(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(above + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length, 1);
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+export const vocalAssessmentService = new VocalAssessmentService();
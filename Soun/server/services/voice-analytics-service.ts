@@ -1,7 +1,7 @@
 
 import { db } from "../db";
-import { eq, and, desc, sql, gte, between } from "drizzle-orm";
-import { users, courses, documents, studyLevel as studyLevels } from "../../shared/schema";
+import { eq, and, desc, asc, sql, gte, between, inArray } from "drizzle-orm";
+import { users, courses, documents, studyLevel as studyLevels, voiceInteractions, voiceLearningOutcomes, type VoiceInteractionRecord, type VoiceLearningOutcomeRecord } from "../../shared/schema";
 
 export interface VoiceInteraction {
   id: string;
@@ -35,6 +35,7 @@ export interface VoiceInteraction {
     retentionScore?: number; // calculated later
     engagementLevel?: number; // 1-5 scale
     completionRate?: number; // 0-1
+    followUpQuestions?: number;
   };
 }
 
@@ -51,6 +52,13 @@ export interface LearningOutcome {
   retentionAfter7d?: number;
 }
 
+export type AnalyticsTimeframe = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
 export interface AnalyticsInsight {
   type: 'interaction_pattern' | 'optimal_timing' | 'effective_features' | 'learning_velocity';
   title: string;
@@ -60,24 +68,37 @@ export interface AnalyticsInsight {
   recommendations: string[];
 }
 
-class VoiceAnalyticsService {
-  private interactions = new Map<number, VoiceInteraction[]>();
-  private learningOutcomes = new Map<number, LearningOutcome[]>();
+const CATEGORIES = ['explanation', 'navigation', 'quiz', 'study_session', 'flashcard'];
+const DAY_MS = 24 * 60 * 60 * 1000;
 
+class VoiceAnalyticsService {
   /**
    * Record a voice interaction with detailed metadata
    */
   async recordInteraction(interaction: Omit<VoiceInteraction, 'id'>): Promise<string> {
-    const interactionId = `voice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const fullInteraction: VoiceInteraction = {
-      ...interaction,
-      id: interactionId
-    };
+    const [row] = await db
+      .insert(voiceInteractions)
+      .values({
+        userId: interaction.userId,
+        timestamp: interaction.timestamp,
+        command: interaction.command,
+        response: interaction.response,
+        category: interaction.category,
+        courseContext: interaction.courseContext,
+        duration: interaction.duration,
+        audioFeatures: interaction.audioFeatures,
+        emotionDetected: interaction.emotionDetected,
+        contextData: interaction.contextData,
+        immediateUnderstanding: interaction.outcomeMetrics?.immediateUnderstanding,
+        retentionScore: interaction.outcomeMetrics?.retentionScore,
+        engagementLevel: interaction.outcomeMetrics?.engagementLevel,
+        completionRate: interaction.outcomeMetrics?.completionRate,
+        followUpQuestions: interaction.outcomeMetrics?.followUpQuestions
+      })
+      .returning();
 
-    // Store in memory (in production, this would go to a database)
-    const userInteractions = this.interactions.get(interaction.userId) || [];
-    userInteractions.push(fullInteraction);
-    this.interactions.set(interaction.userId, userInteractions);
+    const interactionId = String(row.id);
+    const fullInteraction = this.toInteraction(row);
 
     // Analyze immediate patterns
     await this.analyzeImmediatePatterns(interaction.userId, fullInteraction);
@@ -90,9 +111,18 @@ class VoiceAnalyticsService {
    * Record learning outcome after a voice interaction
    */
   async recordLearningOutcome(outcome: LearningOutcome): Promise<void> {
-    const userOutcomes = this.learningOutcomes.get(outcome.userId) || [];
-    userOutcomes.push(outcome);
-    this.learningOutcomes.set(outcome.userId, userOutcomes);
+    await db.insert(voiceLearningOutcomes).values({
+      userId: outcome.userId,
+      topic: outcome.topic,
+      courseId: outcome.courseId,
+      preInteractionMastery: outcome.preInteractionMastery,
+      postInteractionMastery: outcome.postInteractionMastery,
+      improvementScore: outcome.improvementScore,
+      interactionIds: outcome.interactionIds,
+      timestamp: outcome.timestamp,
+      retentionAfter24h: outcome.retentionAfter24h,
+      retentionAfter7d: outcome.retentionAfter7d
+    });
 
     // Update related interactions with outcome data
     await this.updateInteractionOutcomes(outcome);
@@ -103,10 +133,10 @@ class VoiceAnalyticsService {
   /**
    * Generate comprehensive analytics insights
    */
-  async generateAnalyticsInsights(userId: number, timeframe: 'day' | 'week' | 'month' = 'week'): Promise<AnalyticsInsight[]> {
+  async generateAnalyticsInsights(userId: number, timeframe: AnalyticsTimeframe | DateRange = 'week'): Promise<AnalyticsInsight[]> {
     const insights: AnalyticsInsight[] = [];
-    const userInteractions = this.getUserInteractions(userId, timeframe);
-    const userOutcomes = this.getUserOutcomes(userId, timeframe);
+    const userInteractions = await this.getUserInteractions(userId, timeframe);
+    const userOutcomes = await this.getUserOutcomes(userId, timeframe);
 
     // 1. Interaction Pattern Analysis
     const patternInsights = await this.analyzeInteractionPatterns(userInteractions);
@@ -339,7 +369,7 @@ class VoiceAnalyticsService {
     featureAdjustments: any;
   }> {
     const insights = await this.generateAnalyticsInsights(userId, 'month');
-    const userInteractions = this.getUserInteractions(userId, 'month');
+    const userInteractions = await this.getUserInteractions(userId, 'month');
     
     // Analyze most effective interaction types
     const effectiveCategories = this.getMostEffectiveCategories(userInteractions);
@@ -364,44 +394,40 @@ class VoiceAnalyticsService {
   }
 
   /**
-   * Track real-time learning effectiveness
+   * Track real-time learning effectiveness. False when the interaction isn't one of the user's.
    */
   async trackRealTimeLearningEffectiveness(
     userId: number,
     interactionId: string,
     feedbackType: 'immediate_understanding' | 'follow_up_question' | 'quiz_performance' | 'retention_check',
     score: number
-  ): Promise<void> {
-    const userInteractions = this.interactions.get(userId) || [];
-    const interaction = userInteractions.find(i => i.id === interactionId);
+  ): Promise<boolean> {
+    const id = parseInt(interactionId, 10);
+    if (isNaN(id)) return false;
 
-    if (interaction) {
-      if (!interaction.outcomeMetrics) {
-        interaction.outcomeMetrics = {};
-      }
-
-      switch (feedbackType) {
-        case 'immediate_understanding':
-          interaction.outcomeMetrics.immediateUnderstanding = score;
-          break;
-        case 'follow_up_question':
-          interaction.outcomeMetrics.followUpQuestions = (interaction.outcomeMetrics.followUpQuestions || 0) + 1;
-          break;
-        case 'quiz_performance':
-          interaction.outcomeMetrics.retentionScore = score;
-          break;
-        case 'retention_check':
-          interaction.outcomeMetrics.engagementLevel = score;
-          break;
-      }
+    const where = and(eq(voiceInteractions.id, id), eq(voiceInteractions.userId, userId));
+    let updated: { id: number }[] = [];
 
-      // Update the stored interaction
-      const index = userInteractions.findIndex(i => i.id === interactionId);
-      if (index !== -1) {
-        userInteractions[index] = interaction;
-        this.interactions.set(userId, userInteractions);
-      }
+    switch (feedbackType) {
+      case 'immediate_understanding':
+        updated = await db.update(voiceInteractions).set({ immediateUnderstanding: score }).where(where).returning({ id: voiceInteractions.id });
+        break;
+      case 'follow_up_question':
+        updated = await db
+          .update(voiceInteractions)
+          .set({ followUpQuestions: sql`coalesce(${voiceInteractions.followUpQuestions}, 0) + 1` })
+          .where(where)
+          .returning({ id: voiceInteractions.id });
+        break;
+      case 'quiz_performance':
+        updated = await db.update(voiceInteractions).set({ retentionScore: score }).where(where).returning({ id: voiceInteractions.id });
+        break;
+      case 'retention_check':
+        updated = await db.update(voiceInteractions).set({ engagementLevel: score }).where(where).returning({ id: voiceInteractions.id });
+        break;
     }
+
+    return updated.length > 0;
   }
 
   /**
@@ -424,26 +450,92 @@ class VoiceAnalyticsService {
     };
     recommendations: string[];
   }> {
-    const userInteractions = this.getUserInteractions(userId, 'month');
-    const userOutcomes = this.getUserOutcomes(userId, 'month');
+    const { from, to } = this.resolveRange('month');
+    const inRange = and(
+      eq(voiceInteractions.userId, userId),
+      between(voiceInteractions.timestamp, from, to)
+    );
+    const understanding = voiceInteractions.immediateUnderstanding;
+
+    // Overall effectiveness and engagement in one pass
+    const [totals] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        avgUnderstanding: sql<number | null>`avg(${understanding}) filter (where ${understanding} > 0)`,
+        avgDuration: sql<number | null>`avg(${voiceInteractions.duration})`,
+        firstTimestamp: sql<Date | null>`min(${voiceInteractions.timestamp})`,
+        completed: sql<number>`(count(*) filter (where ${voiceInteractions.completionRate} > 0.8))::int`
+      })
+      .from(voiceInteractions)
+      .where(inRange);
 
-    // Calculate overall effectiveness
-    const overallEffectiveness = this.calculateOverallEffectiveness(userInteractions, userOutcomes);
+    const overallEffectiveness = totals.avgUnderstanding ? Number(totals.avgUnderstanding) / 5 * 100 : 0;
 
-    // Calculate category performance
-    const categoryPerformance = await this.calculateCategoryPerformance(userInteractions, userOutcomes);
+    // Per category, splitting each category's interactions into an older and a recent half for the trend
+    const ranked = db
+      .select({
+        category: voiceInteractions.category,
+        understanding: understanding,
+        half: sql<number>`ntile(2) over (partition by ${voiceInteractions.category} order by ${voiceInteractions.timestamp})`.as('half')
+      })
+      .from(voiceInteractions)
+      .where(and(inRange, inArray(voiceInteractions.category, CATEGORIES)))
+      .as('ranked');
+
+    const categoryRows = await db
+      .select({
+        category: ranked.category,
+        volume: sql<number>`count(*)::int`,
+        effectiveness: sql<number | null>`avg(${ranked.understanding}) filter (where ${ranked.understanding} > 0)`,
+        olderAvg: sql<number | null>`avg(${ranked.understanding}) filter (where ${ranked.half} = 1 and ${ranked.understanding} > 0)`,
+        recentAvg: sql<number | null>`avg(${ranked.understanding}) filter (where ${ranked.half} = 2 and ${ranked.understanding} > 0)`
+      })
+      .from(ranked)
+      .groupBy(ranked.category);
 
-    // Calculate learning velocity
-    const learningVelocity = this.calculateLearningVelocity(userOutcomes);
+    const categoryPerformance = CATEGORIES.map(category => {
+      const row = categoryRows.find(r => r.category === category);
+      return {
+        category,
+        effectiveness: row?.effectiveness ? Number(row.effectiveness) : 0,
+        volume: row?.volume || 0,
+        trend: row ? this.compareHalves(row.volume, Number(row.olderAvg || 0), Number(row.recentAvg || 0)) : 'stable' as const
+      };
+    });
 
-    // Calculate retention rate
-    const retentionRate = this.calculateRetentionRate(userOutcomes);
+    const [outcomeTotals] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        totalImprovement: sql<number | null>`sum(${voiceLearningOutcomes.improvementScore})`,
+        firstTimestamp: sql<Date | null>`min(${voiceLearningOutcomes.timestamp})`,
+        retentionRate: sql<number | null>`avg(${voiceLearningOutcomes.retentionAfter24h})`
+      })
+      .from(voiceLearningOutcomes)
+      .where(and(
+        eq(voiceLearningOutcomes.userId, userId),
+        between(voiceLearningOutcomes.timestamp, from, to)
+      ));
+
+    // Improvement per week since the first outcome in the window
+    let learningVelocity = 0;
+    if (outcomeTotals.count >= 2 && outcomeTotals.firstTimestamp) {
+      const weeks = Math.max(1, (Date.now() - new Date(outcomeTotals.firstTimestamp).getTime()) / (7 * DAY_MS));
+      learningVelocity = Number(outcomeTotals.totalImprovement || 0) / weeks;
+    }
 
-    // Calculate engagement metrics
-    const engagementMetrics = this.calculateEngagementMetrics(userInteractions);
+    const retentionRate = outcomeTotals.retentionRate ? Number(outcomeTotals.retentionRate) : 0;
+
+    const daySpan = totals.firstTimestamp
+      ? Math.max(1, (Date.now() - new Date(totals.firstTimestamp).getTime()) / DAY_MS)
+      : 1;
+    const engagementMetrics = {
+      averageSessionLength: totals.avgDuration ? Number(totals.avgDuration) : 0,
+      interactionsPerDay: totals.count / daySpan,
+      completionRate: totals.count > 0 ? totals.completed / totals.count : 0
+    };
 
     // Generate recommendations
-    const recommendations = await this.generateDashboardRecommendations(userId, categoryPerformance, engagementMetrics);
+    const recommendations = await this.generateDashboardRecommendations(userId, [...categoryPerformance], engagementMetrics);
 
     return {
       overallEffectiveness,
@@ -455,33 +547,93 @@ class VoiceAnalyticsService {
     };
   }
 
-  // Helper methods
-  private getUserInteractions(userId: number, timeframe: string): VoiceInteraction[] {
-    const userInteractions = this.interactions.get(userId) || [];
-    const cutoffDate = this.getTimeframeCutoff(timeframe);
-    return userInteractions.filter(i => i.timestamp >= cutoffDate);
+  /**
+   * Interactions in a timeframe or explicit date range, oldest first
+   */
+  async getUserInteractions(userId: number, timeframe: AnalyticsTimeframe | DateRange): Promise<VoiceInteraction[]> {
+    const { from, to } = this.resolveRange(timeframe);
+    const rows = await db
+      .select()
+      .from(voiceInteractions)
+      .where(and(
+        eq(voiceInteractions.userId, userId),
+        between(voiceInteractions.timestamp, from, to)
+      ))
+      .orderBy(asc(voiceInteractions.timestamp));
+
+    return rows.map(row => this.toInteraction(row));
   }
 
-  private getUserOutcomes(userId: number, timeframe: string): LearningOutcome[] {
-    const userOutcomes = this.learningOutcomes.get(userId) || [];
-    const cutoffDate = this.getTimeframeCutoff(timeframe);
-    return userOutcomes.filter(o => o.timestamp >= cutoffDate);
+  /**
+   * Learning outcomes in a timeframe or explicit date range, oldest first
+   */
+  async getUserOutcomes(userId: number, timeframe: AnalyticsTimeframe | DateRange): Promise<LearningOutcome[]> {
+    const { from, to } = this.resolveRange(timeframe);
+    const rows = await db
+      .select()
+      .from(voiceLearningOutcomes)
+      .where(and(
+        eq(voiceLearningOutcomes.userId, userId),
+        between(voiceLearningOutcomes.timestamp, from, to)
+      ))
+      .orderBy(asc(voiceLearningOutcomes.timestamp));
+
+    return rows.map(row => this.toOutcome(row));
   }
 
-  private getTimeframeCutoff(timeframe: string): Date {
+  private resolveRange(timeframe: AnalyticsTimeframe | DateRange): DateRange {
+    if (typeof timeframe !== 'string') return timeframe;
+
     const now = new Date();
     switch (timeframe) {
       case 'day':
-        return new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      case 'week':
-        return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+        return { from: new Date(now.getTime() - DAY_MS), to: now };
       case 'month':
-        return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+        return { from: new Date(now.getTime() - 30 * DAY_MS), to: now };
+      case 'week':
       default:
-        return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+        return { from: new Date(now.getTime() - 7 * DAY_MS), to: now };
     }
   }
 
+  private toInteraction(row: VoiceInteractionRecord): VoiceInteraction {
+    return {
+      id: String(row.id),
+      userId: row.userId,
+      timestamp: row.timestamp,
+      command: row.command,
+      response: row.response,
+      category: row.category as VoiceInteraction['category'],
+      courseContext: row.courseContext || undefined,
+      duration: row.duration,
+      audioFeatures: (row.audioFeatures || undefined) as VoiceInteraction['audioFeatures'],
+      emotionDetected: (row.emotionDetected || undefined) as VoiceInteraction['emotionDetected'],
+      contextData: row.contextData || undefined,
+      outcomeMetrics: {
+        immediateUnderstanding: row.immediateUnderstanding ?? undefined,
+        retentionScore: row.retentionScore ?? undefined,
+        engagementLevel: row.engagementLevel ?? undefined,
+        completionRate: row.completionRate ?? undefined,
+        followUpQuestions: row.followUpQuestions ?? undefined
+      }
+    };
+  }
+
+  private toOutcome(row: VoiceLearningOutcomeRecord): LearningOutcome {
+    return {
+      userId: row.userId,
+      topic: row.topic,
+      courseId: row.courseId || undefined,
+      preInteractionMastery: row.preInteractionMastery,
+      postInteractionMastery: row.postInteractionMastery,
+      improvementScore: row.improvementScore,
+      interactionIds: row.interactionIds,
+      timestamp: row.timestamp,
+      retentionAfter24h: row.retentionAfter24h ?? undefined,
+      retentionAfter7d: row.retentionAfter7d ?? undefined
+    };
+  }
+
   private async analyzeInteractionPatterns(interactions: VoiceInteraction[]): Promise<AnalyticsInsight[]> {
     const insights: AnalyticsInsight[] = [];
 
@@ -635,72 +787,6 @@ class VoiceAnalyticsService {
     };
   }
 
-  private calculateOverallEffectiveness(interactions: VoiceInteraction[], outcomes: LearningOutcome[]): number {
-    if (interactions.length === 0) return 0;
-    
-    const totalOutcomes = interactions
-      .map(i => i.outcomeMetrics?.immediateUnderstanding || 0)
-      .filter(o => o > 0);
-    
-    return totalOutcomes.length > 0 
-      ? totalOutcomes.reduce((a, b) => a + b, 0) / totalOutcomes.length / 5 * 100
-      : 0;
-  }
-
-  private async calculateCategoryPerformance(interactions: VoiceInteraction[], outcomes: LearningOutcome[]): Promise<any[]> {
-    const categories = ['explanation', 'navigation', 'quiz', 'study_session', 'flashcard'];
-    
-    return categories.map(category => {
-      const categoryInteractions = interactions.filter(i => i.category === category);
-      const effectiveness = this.calculateCategoryEffectiveness(categoryInteractions);
-      
-      return {
-        category,
-        effectiveness,
-        volume: categoryInteractions.length,
-        trend: this.calculateCategoryTrend(categoryInteractions)
-      };
-    });
-  }
-
-  private calculateLearningVelocity(outcomes: LearningOutcome[]): number {
-    if (outcomes.length < 2) return 0;
-    
-    const totalImprovement = outcomes.reduce((sum, o) => sum + o.improvementScore, 0);
-    const timeSpan = Math.max(1, (new Date().getTime() - outcomes[0].timestamp.getTime()) / (7 * 24 * 60 * 60 * 1000)); // weeks
-    
-    return totalImprovement / timeSpan;
-  }
-
-  private calculateRetentionRate(outcomes: LearningOutcome[]): number {
-    const withRetentionData = outcomes.filter(o => o.retentionAfter24h !== undefined);
-    
-    if (withRetentionData.length === 0) return 0;
-    
-    return withRetentionData.reduce((sum, o) => sum + (o.retentionAfter24h || 0), 0) / withRetentionData.length;
-  }
-
-  private calculateEngagementMetrics(interactions: VoiceInteraction[]): any {
-    if (interactions.length === 0) {
-      return {
-        averageSessionLength: 0,
-        interactionsPerDay: 0,
-        completionRate: 0
-      };
-    }
-    
-    const avgSessionLength = interactions.reduce((sum, i) => sum + i.duration, 0) / interactions.length;
-    const daySpan = Math.max(1, (new Date().getTime() - interactions[0].timestamp.getTime()) / (24 * 60 * 60 * 1000));
-    const interactionsPerDay = interactions.length / daySpan;
-    const completionRate = interactions.filter(i => (i.outcomeMetrics?.completionRate || 0) > 0.8).length / interactions.length;
-    
-    return {
-      averageSessionLength,
-      interactionsPerDay,
-      completionRate
-    };
-  }
-
   // Additional helper methods
   private calculateCategoryEffectiveness(interactions: VoiceInteraction[]): number {
     if (interactions.length === 0) return 0;
@@ -720,14 +806,8 @@ class VoiceAnalyticsService {
     return outcomes.length > 0 ? outcomes.reduce((a, b) => a + b, 0) / outcomes.length : 0;
   }
 
-  private calculateCategoryTrend(interactions: VoiceInteraction[]): 'improving' | 'stable' | 'declining' {
-    if (interactions.length < 4) return 'stable';
-    
-    const recent = interactions.slice(-Math.floor(interactions.length / 2));
-    const older = interactions.slice(0, Math.floor(interactions.length / 2));
-    
-    const recentAvg = this.calculateAverageOutcome(recent);
-    const olderAvg = this.calculateAverageOutcome(older);
+  private compareHalves(volume: number, olderAvg: number, recentAvg: number): 'improving' | 'stable' | 'declining' {
+    if (volume < 4) return 'stable';
     
     if (recentAvg > olderAvg + 0.2) return 'improving';
     if (recentAvg < olderAvg - 0.2) return 'declining';
@@ -753,7 +833,7 @@ class VoiceAnalyticsService {
 
   private async analyzeImmediatePatterns(userId: number, interaction: VoiceInteraction): Promise<void> {
     // Immediate pattern analysis for real-time optimization
-    const recentInteractions = this.getUserInteractions(userId, 'day');
+    const recentInteractions = await this.getUserInteractions(userId, 'day');
     
     if (recentInteractions.length > 5) {
       const pattern = this.detectImmediatePattern(recentInteractions);
@@ -780,19 +860,17 @@ class VoiceAnalyticsService {
   }
 
   private async updateInteractionOutcomes(outcome: LearningOutcome): Promise<void> {
-    const userId = outcome.userId;
-    const userInteractions = this.interactions.get(userId) || [];
-    
+    const ids = outcome.interactionIds.map(id => parseInt(id, 10)).filter(id => !isNaN(id));
+    if (ids.length === 0) return;
+
     // Update related interactions with outcome data
-    for (const interactionId of outcome.interactionIds) {
-      const interaction = userInteractions.find(i => i.id === interactionId);
-      if (interaction) {
-        if (!interaction.outcomeMetrics) {
-          interaction.outcomeMetrics = {};
-        }
-        interaction.outcomeMetrics.retentionScore = outcome.improvementScore;
-      }
-    }
+    await db
+      .update(voiceInteractions)
+      .set({ retentionScore: outcome.improvementScore })
+      .where(and(
+        eq(voiceInteractions.userId, outcome.userId),
+        inArray(voiceInteractions.id, ids)
+      ));
   }
 
   private getMostEffectiveCategories(interactions: VoiceInteraction[]): string[] {
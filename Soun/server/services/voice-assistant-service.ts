@@ -0,0 +1,272 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../db";
+import { documents } from "../../shared/schema";
+import { storage } from "../storage";
+import { llm, type ChatMessage } from "./llm-provider";
+import { voiceAnalyticsService, type VoiceInteraction } from "./voice-analytics-service";
+import { courseDetectionService, type ContextSwitch } from "./course-detection-service";
+
+const NAVIGATION_COMMANDS: Record<string, RegExp> = {
+  'dashboard': /(?:go to|open|show|navigate to)?\s*(?:dashboard|home)/i,
+  'courses': /(?:go to|open|show|navigate to)?\s*(?:courses?|my courses?)/i,
+  'voice': /(?:go to|open|show|navigate to)?\s*(?:voice|voice assistant|voice page)/i,
+  'progress': /(?:go to|open|show|navigate to)?\s*(?:progress|my progress|analytics)/i,
+  'planner': /(?:go to|open|show|navigate to)?\s*(?:planner|study planner|schedule)/i,
+};
+
+const ASSISTANT_INSTRUCTIONS = `Instructions:
+- Give SHORT, focused answers (2-3 sentences maximum)
+- Use simple, clear language for easy understanding
+- Ask follow-up questions to keep the conversation interactive
+- Break complex concepts into bite-sized pieces
+- Be encouraging but brief`;
+
+const GENERAL_ERROR = "I'm having trouble processing your request right now. Please try again.";
+
+// Sentence end followed by whitespace; the lookbehind keeps "e.g." and "Dr." from splitting
+const SENTENCE_BOUNDARY = /(?<!\b(?:e\.g|i\.e|etc|vs|Dr|Mr|Mrs|Ms|St|No))([.!?]+["')\]]*)\s+/g;
+
+export interface VoiceRequest {
+  command: string;
+  courseId?: string | null; // The course the user is in, e.g. from the page they're on
+  audioFeatures?: VoiceInteraction['audioFeatures'];
+}
+
+/**
+ * What the assistant will do with a command: answer right away (navigation, missing
+ * documents, errors) or send a prompt to the language model
+ */
+export type VoicePlan = {
+  action: string;
+  courseContext: string | null;
+  detectedCourseId: string | null;
+  contextSwitch: ContextSwitch | null;
+} & (
+  | { kind: 'immediate'; response: string; data: any }
+  | { kind: 'chat'; messages: ChatMessage[]; fallback: string }
+);
+
+export interface VoiceStreamHandlers {
+  onToken?: (text: string) => void;
+  /** Called once per complete sentence, so speech can start before the reply is finished */
+  onSentence?: (text: string, index: number) => void;
+  signal?: AbortSignal;
+}
+
+class VoiceAssistantService {
+  /**
+   * Work out how to answer a command, loading the detected course's documents as context
+   */
+  async plan(userId: number, request: VoiceRequest): Promise<VoicePlan> {
+    const { command } = request;
+
+    for (const page of Object.keys(NAVIGATION_COMMANDS)) {
+      if (NAVIGATION_COMMANDS[page].test(command.toLowerCase())) {
+        return {
+          kind: 'immediate',
+          response: `Navigating to ${page} page...`,
+          action: 'navigate',
+          data: { page },
+          courseContext: null,
+          detectedCourseId: null,
+          contextSwitch: null
+        };
+      }
+    }
+
+    const currentCourseId = request.courseId || null;
+    const contextSwitch = await this.detectContextSwitch(userId, command, currentCourseId);
+    const detectedCourseId = contextSwitch ? contextSwitch.detectedCourse : currentCourseId;
+    if (!detectedCourseId) {
+      return {
+        kind: 'chat',
+        messages: [
+          { role: "system", content: `You are a concise study assistant.\n\n${ASSISTANT_INSTRUCTIONS}` },
+          { role: "user", content: command }
+        ],
+        fallback: GENERAL_ERROR,
+        action: 'explain',
+        courseContext: null,
+        detectedCourseId: null,
+        contextSwitch: null
+      };
+    }
+
+    try {
+      // Query course documents for context - MUST filter by user to prevent cross-user access
+      const courseDocuments = await db
+        .select()
+        .from(documents)
+        .where(and(
+          eq(documents.userId, userId),
+          eq(documents.courseId, detectedCourseId)
+        ))
+        .limit(10); // Limit results for performance
+
+      if (courseDocuments.length === 0) {
+        return {
+          kind: 'immediate',
+          response: `I don't have any documents for course "${detectedCourseId}" yet. Try uploading some course materials first.`,
+          action: 'explain',
+          data: null,
+          courseContext: null,
+          detectedCourseId,
+          contextSwitch
+        };
+      }
+
+      const courseContext = `Course: ${detectedCourseId}`;
+      const documentContent = courseDocuments.map(doc => doc.content).join('\n\n');
+      return {
+        kind: 'chat',
+        messages: [
+          {
+            role: "system",
+            content: `You are a concise study assistant. You have access to course materials from ${courseContext}.\n\nAvailable Content:\n${documentContent}\n\n${ASSISTANT_INSTRUCTIONS}`
+          },
+          { role: "user", content: command }
+        ],
+        fallback: `I found your course materials for ${detectedCourseId}, but I'm having trouble processing your request right now. Please try again.`,
+        action: 'explain',
+        courseContext,
+        detectedCourseId,
+        contextSwitch
+      };
+    } catch (error) {
+      console.error('Course-specific processing error:', error);
+      return {
+        kind: 'immediate',
+        response: "I'm having trouble accessing your course materials right now. Please try again.",
+        action: 'explain',
+        data: null,
+        courseContext: null,
+        detectedCourseId,
+        contextSwitch
+      };
+    }
+  }
+
+  /**
+   * Full reply in one piece; model errors become the plan's fallback message
+   */
+  async respond(plan: VoicePlan): Promise<string> {
+    if (plan.kind === 'immediate') return plan.response;
+
+    try {
+      return await llm.chat({ messages: plan.messages, temperature: 0.7, maxTokens: 1000 });
+    } catch (error) {
+      console.error('Voice chat error:', error);
+      return plan.fallback;
+    }
+  }
+
+  /**
+   * Reply streamed token by token and sentence by sentence. Rejects when the signal aborts;
+   * other model errors are delivered as the fallback message.
+   */
+  async stream(plan: VoicePlan, handlers: VoiceStreamHandlers): Promise<string> {
+    let buffer = "";
+    let sentenceCount = 0;
+    const emitSentence = (text: string) => {
+      const sentence = text.trim();
+      if (sentence && handlers.onSentence) handlers.onSentence(sentence, sentenceCount++);
+    };
+    const onDelta = (delta: string) => {
+      if (handlers.onToken) handlers.onToken(delta);
+      buffer += delta;
+      const { sentences, rest } = this.splitSentences(buffer);
+      sentences.forEach(emitSentence);
+      buffer = rest;
+    };
+
+    let response: string;
+    if (plan.kind === 'immediate') {
+      response = plan.response;
+      onDelta(response);
+    } else {
+      try {
+        response = await llm.chatStream(
+          { messages: plan.messages, temperature: 0.7, maxTokens: 1000, signal: handlers.signal },
+          onDelta
+        );
+      } catch (error) {
+        if (handlers.signal?.aborted) throw error;
+        console.error('Voice stream error:', error);
+        // Whatever was already streamed stays said; finish with the fallback
+        buffer = "";
+        response = plan.fallback;
+        onDelta(response);
+      }
+    }
+
+    emitSentence(buffer);
+    return response;
+  }
+
+  /**
+   * Save the exchange to history and analytics. Both are best effort; a failed write must not lose the answer.
+   * Returns the analytics interaction id the client sends understanding feedback against, or null.
+   */
+  async record(userId: number, request: VoiceRequest, plan: VoicePlan, response: string, startedAt: number): Promise<string | null> {
+    try {
+      await storage.saveVoiceCommand({
+        userId,
+        courseId: plan.detectedCourseId || null,
+        command: request.command,
+        timestamp: new Date(),
+        response,
+        category: plan.action
+      });
+    } catch (error) {
+      console.error('Voice command history error:', error);
+    }
+
+    try {
+      return await voiceAnalyticsService.recordInteraction({
+        userId,
+        timestamp: new Date(),
+        command: request.command,
+        response,
+        category: plan.detectedCourseId ? 'document_query' : 'explanation',
+        courseContext: plan.detectedCourseId || undefined,
+        duration: (Date.now() - startedAt) / 1000,
+        audioFeatures: request.audioFeatures
+      });
+    } catch (error) {
+      console.error('Voice analytics recording error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Split off the complete sentences at the start of a partial reply
+   */
+  splitSentences(text: string): { sentences: string[]; rest: string } {
+    const sentences: string[] = [];
+    let start = 0;
+    let match: RegExpExecArray | null;
+    SENTENCE_BOUNDARY.lastIndex = 0;
+    while ((match = SENTENCE_BOUNDARY.exec(text)) !== null) {
+      const end = match.index + match[1].length;
+      sentences.push(text.slice(start, end));
+      start = SENTENCE_BOUNDARY.lastIndex;
+    }
+    return { sentences, rest: text.slice(start) };
+  }
+
+  /**
+   * Which of the user's courses the command is about, when that isn't the course they're in.
+   * Detection is a bonus: if it fails the command is answered in the current context.
+   */
+  private async detectContextSwitch(userId: number, command: string, currentCourseId: string | null): Promise<ContextSwitch | null> {
+    try {
+      const detection = await courseDetectionService.detect(userId, command);
+      return courseDetectionService.toContextSwitch(detection, currentCourseId);
+    } catch (error) {
+      console.error('Course detection error:', error);
+      return null;
+    }
+  }
+}
+
+export const voiceAssistantService = new VoiceAssistantService();
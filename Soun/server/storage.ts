@@ -20,6 +20,7 @@ import {
   type StudyLevel,
   type InsertStudyLevel
 } from "@shared/schema";
+import { gradeAnalyticsService, type ExamScoreAnalytics } from "./services/grade-analytics-service";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -68,7 +69,7 @@ export interface IStorage {
   getExamScores(userId: number): Promise<ExamScore[]>;
   getExamScoresByCourse(userId: number, courseId: string): Promise<ExamScore[]>;
   createExamScore(examScore: InsertExamScore): Promise<ExamScore>;
-  getExamScoreAnalytics(userId: number): Promise<any>;
+  getExamScoreAnalytics(userId: number): Promise<ExamScoreAnalytics>;
   
   // Course methods
   getCourses(userId: number): Promise<Course[]>;
@@ -535,65 +536,9 @@ export class MemStorage implements IStorage {
     return newExamScore;
   }
   
-  async getExamScoreAnalytics(userId: number): Promise<any> {
-    const userExamScores = this.examScores.get(userId) || [];
-    
-    // Return empty analytics if no real data
-    if (userExamScores.length === 0) {
-      return {
-        averageScore: 0,
-        totalExams: 0,
-        improvement: 0,
-        coursePerformance: [],
-        recentExams: []
-      };
-    }
-    
-    // Calculate real analytics
-    const totalScore = userExamScores.reduce((sum, exam) => sum + Number(exam.score), 0);
-    const averageScore = totalScore / userExamScores.length;
-    
-    // Group by course
-    const courseGroups = new Map<string, ExamScore[]>();
-    userExamScores.forEach(exam => {
-      const courseScores = courseGroups.get(exam.courseId) || [];
-      courseScores.push(exam);
-      courseGroups.set(exam.courseId, courseScores);
-    });
-    
-    // Calculate per-course performance
-    const coursePerformance = Array.from(courseGroups.entries()).map(([courseId, scores]) => {
-      const courseName = scores[0].courseName;
-      const courseTotal = scores.reduce((sum, exam) => sum + Number(exam.score), 0);
-      const courseAverage = courseTotal / scores.length;
-      
-      return {
-        courseId,
-        courseName, 
-        averageScore: Number(courseAverage.toFixed(1))
-      };
-    });
-    
-    // Get recent exams (sorted by date, most recent first)
-    const sortedExams = [...userExamScores].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-    const recentExams = sortedExams.slice(0, 3).map(exam => ({
-      id: exam.id,
-      courseName: exam.courseName,
-      examName: exam.examName,
-      score: exam.score,
-      maxScore: exam.maxScore,
-      date: exam.date
-    }));
-    
-    return {
-      averageScore: Number(averageScore.toFixed(1)),
-      totalExams: userExamScores.length,
-      improvement: 5.3, // This would need more logic in a real system
-      coursePerformance,
-      recentExams
-    };
+  async getExamScoreAnalytics(userId: number): Promise<ExamScoreAnalytics> {
+    // Grade weights are only stored in the database, so every score counts equally here
+    return gradeAnalyticsService.summarize(this.examScores.get(userId) || []);
   }
   
   // Course methods
@@ -914,6 +859,7 @@ export class MemStorage implements IStorage {
       ...attempt,
       id,
       attemptedAt: new Date(),
+      sessionId: attempt.sessionId || null,
       timeSpent: attempt.timeSpent || null
     };
 
@@ -954,6 +900,7 @@ export class MemStorage implements IStorage {
       id,
       feedback: session.feedback || null,
       topics: session.topics || null,
+      questionIds: session.questionIds || null,
       endTime: session.endTime || null
     };
 
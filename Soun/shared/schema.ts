@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, date, time, timestamp, decimal, json, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, time, timestamp, decimal, json, varchar, real, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { isNull } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -105,6 +106,8 @@ export const achievements = pgTable("achievements", {
   title: text("title").notNull(),
   description: text("description").notNull(),
   icon: text("icon").notNull(),
+  iconColor: text("icon_color").default("text-primary").notNull(),
+  bgColor: text("bg_color").default("bg-primary-100").notNull(),
   dateEarned: timestamp("date_earned").notNull(),
 });
 
@@ -113,6 +116,8 @@ export const insertAchievementSchema = createInsertSchema(achievements).pick({
   title: true,
   description: true,
   icon: true,
+  iconColor: true,
+  bgColor: true,
   dateEarned: true,
 });
 
@@ -141,6 +146,24 @@ export const insertVoiceCommandSchema = createInsertSchema(voiceCommands).pick({
   category: true,
 });
 
+// Voice Profiles - speaker identification features, one per user
+export const voiceProfiles = pgTable("voice_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  voiceId: text("voice_id"),
+  voiceFeatures: json("voice_features").$type<Record<string, any>>(),
+  confidence: real("confidence").default(0.8).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertVoiceProfileSchema = createInsertSchema(voiceProfiles).pick({
+  userId: true,
+  voiceId: true,
+  voiceFeatures: true,
+  confidence: true,
+});
+
 // Exam Scores - NEW
 export const examScores = pgTable("exam_scores", {
   id: serial("id").primaryKey(),
@@ -152,9 +175,15 @@ export const examScores = pgTable("exam_scores", {
   maxScore: decimal("max_score").notNull(),
   date: date("date").notNull(),
   feedback: text("feedback"),
+  category: text("category").default("exam").notNull(), // Which grade weight the score counts toward
 });
 
-export const insertExamScoreSchema = createInsertSchema(examScores).pick({
+export const examScoreCategories = ["assignment", "quiz", "test", "midterm", "exam", "final", "project"] as const;
+export type ExamScoreCategory = typeof examScoreCategories[number];
+
+export const insertExamScoreSchema = createInsertSchema(examScores, {
+  category: z.enum(examScoreCategories).optional(),
+}).pick({
   userId: true,
   courseId: true,
   courseName: true,
@@ -163,6 +192,7 @@ export const insertExamScoreSchema = createInsertSchema(examScores).pick({
   maxScore: true,
   date: true,
   feedback: true,
+  category: true,
 });
 
 // Courses - NEW
@@ -212,12 +242,163 @@ export type Achievement = typeof achievements.$inferSelect;
 export type InsertVoiceCommand = z.infer<typeof insertVoiceCommandSchema>;
 export type VoiceCommand = typeof voiceCommands.$inferSelect;
 
+export type InsertVoiceProfile = z.infer<typeof insertVoiceProfileSchema>;
+export type VoiceProfile = typeof voiceProfiles.$inferSelect;
+
 export type InsertExamScore = z.infer<typeof insertExamScoreSchema>;
 export type ExamScore = typeof examScores.$inferSelect;
 
+// Grade Weights - how much each category of score counts toward a course grade, in percent
+export type GradeWeights = Partial<Record<ExamScoreCategory, number>>;
+
+export const gradeWeights = pgTable("grade_weights", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id").notNull(),
+  weights: json("weights").$type<GradeWeights>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("grade_weights_user_course_idx").on(table.userId, table.courseId),
+]);
+
+export type GradeWeight = typeof gradeWeights.$inferSelect;
+
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
 export type Course = typeof courses.$inferSelect;
 
+// Assessments - scheduled exams and tests on the planner
+export const assessments = pgTable("assessments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id"), // Matched from the subject when not given explicitly
+  type: text("type").notNull(), // exam, test
+  title: text("title").notNull(),
+  subject: text("subject").notNull(),
+  date: date("date").notNull(),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time").notNull(),
+  location: text("location"),
+  notes: text("notes"),
+  examScoreId: integer("exam_score_id"), // Set once the grade is recorded
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("assessments_user_date_idx").on(table.userId, table.date),
+]);
+
+export const insertAssessmentSchema = createInsertSchema(assessments, {
+  type: z.enum(["exam", "test"]),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  startTime: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Time must be HH:MM"),
+  endTime: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Time must be HH:MM"),
+}).pick({
+  userId: true,
+  courseId: true,
+  type: true,
+  title: true,
+  subject: true,
+  date: true,
+  startTime: true,
+  endTime: true,
+  location: true,
+  notes: true,
+});
+
+export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
+export type Assessment = typeof assessments.$inferSelect;
+
+// Deadlines - due dates for course work on the planner
+export const deadlines = pgTable("deadlines", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id"),
+  title: text("title").notNull(),
+  subject: text("subject").notNull(),
+  dueDate: date("due_date").notNull(),
+  dueTime: time("due_time").notNull(),
+  description: text("description"),
+  isPriority: boolean("is_priority").default(false).notNull(),
+  completed: boolean("completed").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("deadlines_user_due_idx").on(table.userId, table.dueDate),
+]);
+
+export const insertDeadlineSchema = createInsertSchema(deadlines, {
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  dueTime: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Time must be HH:MM"),
+}).pick({
+  userId: true,
+  courseId: true,
+  title: true,
+  subject: true,
+  dueDate: true,
+  dueTime: true,
+  description: true,
+  isPriority: true,
+  completed: true,
+});
+
+export type InsertDeadline = z.infer<typeof insertDeadlineSchema>;
+export type Deadline = typeof deadlines.$inferSelect;
+
+// Syllabus drafts - schedule parsed from an uploaded syllabus, reviewed by the student before anything is created
+const draftDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable();
+const draftTime = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Time must be HH:MM").nullable();
+
+export const syllabusScheduleSchema = z.object({
+  weeks: z.array(z.object({
+    week: z.number().int().min(1),
+    startDate: draftDate,
+    topics: z.array(z.string()),
+    readings: z.array(z.string()),
+  })),
+  exams: z.array(z.object({
+    title: z.string().min(1),
+    type: z.enum(["exam", "test"]),
+    date: draftDate,
+    startTime: draftTime,
+    endTime: draftTime,
+    location: z.string().nullable(),
+  })),
+  assignments: z.array(z.object({
+    title: z.string().min(1),
+    dueDate: draftDate,
+  })),
+});
+
+export type SyllabusSchedule = z.infer<typeof syllabusScheduleSchema>;
+
+export const syllabusDrafts = pgTable("syllabus_drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id").notNull(),
+  documentId: integer("document_id"), // The syllabus as stored with the course documents
+  schedule: json("schedule").$type<SyllabusSchedule>().notNull(),
+  warnings: json("warnings").$type<string[]>().notNull(),
+  status: text("status").default("draft").notNull(), // draft, confirmed
+  createdItems: json("created_items").$type<{ assignmentIds: number[]; assessmentIds: number[]; studySessionIds: number[] }>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  confirmedAt: timestamp("confirmed_at"),
+}, (table) => [
+  index("syllabus_drafts_user_course_idx").on(table.userId, table.courseId),
+]);
+
+export const insertSyllabusDraftSchema = createInsertSchema(syllabusDrafts, {
+  schedule: syllabusScheduleSchema,
+  warnings: z.array(z.string()),
+}).pick({
+  userId: true,
+  courseId: true,
+  documentId: true,
+  schedule: true,
+  warnings: true,
+});
+
+export type InsertSyllabusDraft = z.infer<typeof insertSyllabusDraftSchema>;
+export type SyllabusDraft = typeof syllabusDrafts.$inferSelect;
+
 // Documents - NEW
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
@@ -231,6 +412,7 @@ export const documents = pgTable("documents", {
   metadata: text("metadata"), // Structured data (JSON string) for special file types
   uploadDate: timestamp("upload_date").notNull(),
   tags: text("tags").array(),
+  indexedAt: timestamp("indexed_at"), // Set once chunked for search, even when there was no text to chunk
 });
 
 export const insertDocumentSchema = createInsertSchema(documents).pick({
@@ -249,6 +431,49 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
+// Document Chunks - retrieval index used by cross-file search
+export const documentChunks = pgTable("document_chunks", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id").notNull(),
+  chunkIndex: integer("chunk_index").notNull(), // position of the chunk inside its document
+  content: text("content").notNull(),
+  startOffset: integer("start_offset").notNull(), // character range inside documents.content
+  endOffset: integer("end_offset").notNull(),
+  page: integer("page"), // PDF page the chunk starts on
+  slide: integer("slide"), // Slide the chunk starts on
+  headingPath: text("heading_path").array(), // Enclosing Word headings, outermost first
+  embedding: real("embedding").array(), // Null when no embedding provider is configured
+  embeddingModel: text("embedding_model"),
+  terms: json("terms").$type<Record<string, number>>().notNull(), // Term frequencies for keyword (BM25) search
+  termCount: integer("term_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("document_chunks_document_idx").on(table.documentId),
+  index("document_chunks_user_course_idx").on(table.userId, table.courseId),
+]);
+
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks).pick({
+  documentId: true,
+  userId: true,
+  courseId: true,
+  chunkIndex: true,
+  content: true,
+  startOffset: true,
+  endOffset: true,
+  page: true,
+  slide: true,
+  headingPath: true,
+  embedding: true,
+  embeddingModel: true,
+  terms: true,
+  termCount: true,
+});
+
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+
 // Quiz Questions - NEW
 export const quizQuestions = pgTable("quiz_questions", {
   id: serial("id").primaryKey(),
@@ -283,17 +508,22 @@ export const quizAttempts = pgTable("quiz_attempts", {
   courseId: text("course_id").notNull(),
   topic: text("topic").notNull(),
   questionId: integer("question_id").notNull(),
+  sessionId: integer("session_id"), // The quiz session the answer was given in
   userAnswer: text("user_answer").notNull(),
   isCorrect: boolean("is_correct").notNull(),
   attemptedAt: timestamp("attempted_at").defaultNow(),
   timeSpent: integer("time_spent"), // time spent on this question in seconds
-});
+}, (table) => [
+  index("quiz_attempts_user_course_idx").on(table.userId, table.courseId),
+  index("quiz_attempts_session_idx").on(table.sessionId),
+]);
 
 export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).pick({
   userId: true,
   courseId: true,
   topic: true,
   questionId: true,
+  sessionId: true,
   userAnswer: true,
   isCorrect: true,
   timeSpent: true,
@@ -312,7 +542,9 @@ export const studyLevel = pgTable("study_level", {
   strengths: text("strengths").array(), // topics/concepts the student is strong in
   weaknesses: text("weaknesses").array(), // topics/concepts the student needs improvement in
   recommendedActions: text("recommended_actions").array(), // suggested study actions
-});
+}, (table) => [
+  uniqueIndex("study_level_user_course_topic_idx").on(table.userId, table.courseId, table.topic),
+]);
 
 export const insertStudyLevelSchema = createInsertSchema(studyLevel).pick({
   userId: true,
@@ -332,6 +564,7 @@ export const quizSessions = pgTable("quiz_sessions", {
   userId: integer("user_id").notNull(),
   courseId: text("course_id").notNull(),
   topics: text("topics").array(),
+  questionIds: integer("question_ids").array(), // Question bank IDs, in the order they were asked
   questionsCount: integer("questions_count").notNull(),
   correctCount: integer("correct_count").notNull(),
   score: integer("score").notNull(), // Percentage score
@@ -339,12 +572,15 @@ export const quizSessions = pgTable("quiz_sessions", {
   endTime: timestamp("end_time"),
   status: text("status").notNull(), // in_progress, completed, abandoned
   feedback: text("feedback"), // Overall feedback for the quiz session
-});
+}, (table) => [
+  index("quiz_sessions_user_start_idx").on(table.userId, table.startTime),
+]);
 
 export const insertQuizSessionSchema = createInsertSchema(quizSessions).pick({
   userId: true,
   courseId: true,
   topics: true,
+  questionIds: true,
   questionsCount: true,
   correctCount: true,
   score: true,
@@ -382,3 +618,547 @@ export const schoolDirectory = pgTable("school_directory", {
   lastVerified: timestamp("last_verified"),
   dataSource: text("data_source").notNull(),
 });
+
+// Semantic Memory - topics a student struggled with, kept across restarts
+export const semanticStruggles = pgTable("semantic_struggles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  topic: text("topic").notNull(),
+  courseId: text("course_id"),
+  struggleType: text("struggle_type").notNull(), // understanding, retention, application, concept_connection
+  severityLevel: integer("severity_level").notNull(), // 1 = minor struggle, 5 = major struggle
+  contextData: json("context_data").$type<Record<string, any>>().notNull(),
+  firstEncountered: timestamp("first_encountered").defaultNow().notNull(),
+  lastEncountered: timestamp("last_encountered").defaultNow().notNull(),
+  encounterCount: integer("encounter_count").default(1).notNull(),
+  resolved: boolean("resolved").default(false).notNull(),
+  resolutionNotes: text("resolution_notes"),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  index("semantic_struggles_user_idx").on(table.userId),
+]);
+
+export const insertSemanticStruggleSchema = createInsertSchema(semanticStruggles).pick({
+  userId: true,
+  topic: true,
+  courseId: true,
+  struggleType: true,
+  severityLevel: true,
+  contextData: true,
+});
+
+export type InsertSemanticStruggle = z.infer<typeof insertSemanticStruggleSchema>;
+export type SemanticStruggle = typeof semanticStruggles.$inferSelect;
+
+// Conversation Turns - assistant exchanges grouped by session
+export const conversationTurns = pgTable("conversation_turns", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  sessionId: text("session_id").notNull(),
+  userMessage: text("user_message").notNull(),
+  assistantResponse: text("assistant_response").notNull(),
+  topicsDiscussed: text("topics_discussed").array(),
+  strugglesDetected: text("struggles_detected").array(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("conversation_turns_session_idx").on(table.userId, table.sessionId),
+  index("conversation_turns_created_idx").on(table.createdAt),
+]);
+
+export const insertConversationTurnSchema = createInsertSchema(conversationTurns).pick({
+  userId: true,
+  sessionId: true,
+  userMessage: true,
+  assistantResponse: true,
+  topicsDiscussed: true,
+  strugglesDetected: true,
+});
+
+export type InsertConversationTurn = z.infer<typeof insertConversationTurnSchema>;
+export type ConversationTurn = typeof conversationTurns.$inferSelect;
+
+// Voice Interactions - analytics record of each assistant exchange
+export const voiceInteractions = pgTable("voice_interactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  command: text("command").notNull(),
+  response: text("response").notNull(),
+  category: text("category").notNull(), // explanation, navigation, quiz, study_session, flashcard, document_query, other
+  courseContext: text("course_context"),
+  duration: real("duration").notNull(), // in seconds
+  audioFeatures: json("audio_features").$type<Record<string, number>>(),
+  emotionDetected: json("emotion_detected").$type<Record<string, any>>(),
+  contextData: json("context_data").$type<Record<string, any>>(),
+  // Outcome metrics are columns rather than JSON so the dashboard can aggregate them in SQL
+  immediateUnderstanding: real("immediate_understanding"), // 1-5 scale
+  retentionScore: real("retention_score"),
+  engagementLevel: real("engagement_level"), // 1-5 scale
+  completionRate: real("completion_rate"), // 0-1
+  followUpQuestions: integer("follow_up_questions"),
+}, (table) => [
+  index("voice_interactions_user_time_idx").on(table.userId, table.timestamp),
+]);
+
+export const insertVoiceInteractionSchema = createInsertSchema(voiceInteractions).pick({
+  userId: true,
+  timestamp: true,
+  command: true,
+  response: true,
+  category: true,
+  courseContext: true,
+  duration: true,
+  audioFeatures: true,
+  emotionDetected: true,
+  contextData: true,
+  immediateUnderstanding: true,
+  retentionScore: true,
+  engagementLevel: true,
+  completionRate: true,
+  followUpQuestions: true,
+});
+
+export type InsertVoiceInteraction = z.infer<typeof insertVoiceInteractionSchema>;
+export type VoiceInteractionRecord = typeof voiceInteractions.$inferSelect;
+
+// Voice Learning Outcomes - mastery change attributed to voice interactions
+export const voiceLearningOutcomes = pgTable("voice_learning_outcomes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  topic: text("topic").notNull(),
+  courseId: text("course_id"),
+  preInteractionMastery: real("pre_interaction_mastery").notNull(),
+  postInteractionMastery: real("post_interaction_mastery").notNull(),
+  improvementScore: real("improvement_score").notNull(),
+  interactionIds: text("interaction_ids").array().notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  retentionAfter24h: real("retention_after_24h"),
+  retentionAfter7d: real("retention_after_7d"),
+}, (table) => [
+  index("voice_learning_outcomes_user_time_idx").on(table.userId, table.timestamp),
+]);
+
+export const insertVoiceLearningOutcomeSchema = createInsertSchema(voiceLearningOutcomes).pick({
+  userId: true,
+  topic: true,
+  courseId: true,
+  preInteractionMastery: true,
+  postInteractionMastery: true,
+  improvementScore: true,
+  interactionIds: true,
+  timestamp: true,
+  retentionAfter24h: true,
+  retentionAfter7d: true,
+});
+
+export type InsertVoiceLearningOutcome = z.infer<typeof insertVoiceLearningOutcomeSchema>;
+export type VoiceLearningOutcomeRecord = typeof voiceLearningOutcomes.$inferSelect;
+
+// Flashcard Decks - saved sets of cards a student builds up over a course
+export const flashcardDecks = pgTable("flashcard_decks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id").notNull(),
+  documentId: integer("document_id"), // Source document the cards were generated from, if any
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("flashcard_decks_user_course_idx").on(table.userId, table.courseId),
+]);
+
+export const insertFlashcardDeckSchema = createInsertSchema(flashcardDecks).pick({
+  userId: true,
+  courseId: true,
+  documentId: true,
+  name: true,
+  description: true,
+});
+
+export type InsertFlashcardDeck = z.infer<typeof insertFlashcardDeckSchema>;
+export type FlashcardDeck = typeof flashcardDecks.$inferSelect;
+
+// Flashcards - individual cards with their review history
+export const flashcards = pgTable("flashcards", {
+  id: serial("id").primaryKey(),
+  deckId: integer("deck_id").notNull(),
+  userId: integer("user_id").notNull(),
+  front: text("front").notNull(),
+  back: text("back").notNull(),
+  difficulty: text("difficulty").default("medium").notNull(), // easy, medium, hard
+  category: text("category"),
+  source: text("source"), // Document title or "manual"
+  correctCount: integer("correct_count").default(0).notNull(),
+  incorrectCount: integer("incorrect_count").default(0).notNull(),
+  masteryLevel: real("mastery_level").default(0).notNull(), // 0-1 scale
+  lastReviewed: timestamp("last_reviewed"),
+  // SM-2 scheduling state
+  easeFactor: real("ease_factor").default(2.5).notNull(),
+  intervalDays: integer("interval_days").default(0).notNull(),
+  repetitions: integer("repetitions").default(0).notNull(),
+  dueAt: timestamp("due_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("flashcards_deck_idx").on(table.deckId),
+  index("flashcards_user_due_idx").on(table.userId, table.dueAt),
+]);
+
+export const insertFlashcardSchema = createInsertSchema(flashcards, {
+  difficulty: z.enum(["easy", "medium", "hard"]),
+}).pick({
+  deckId: true,
+  userId: true,
+  front: true,
+  back: true,
+  difficulty: true,
+  category: true,
+  source: true,
+});
+
+export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
+export type FlashcardRecord = typeof flashcards.$inferSelect;
+
+// Quiz Review Items - missed quiz questions scheduled to resurface with spaced repetition
+export const quizReviewItems = pgTable("quiz_review_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id"),
+  questionId: integer("question_id"), // quiz_questions row, when the question came from the bank
+  questionKey: text("question_key").notNull(), // Normalised question text, so regenerated questions match
+  question: json("question").$type<{
+    question: string;
+    type: string;
+    options?: string[];
+    correctAnswer: string;
+    explanation?: string;
+    difficulty?: string;
+    conceptTested?: string;
+  }>().notNull(),
+  easeFactor: real("ease_factor").default(2.5).notNull(),
+  intervalDays: integer("interval_days").default(0).notNull(),
+  repetitions: integer("repetitions").default(0).notNull(),
+  lapses: integer("lapses").default(0).notNull(),
+  lastGrade: integer("last_grade"), // 0-5
+  lastReviewed: timestamp("last_reviewed"),
+  dueAt: timestamp("due_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("quiz_review_items_user_key_idx").on(table.userId, table.questionKey),
+  index("quiz_review_items_user_due_idx").on(table.userId, table.dueAt),
+]);
+
+export const insertQuizReviewItemSchema = createInsertSchema(quizReviewItems).pick({
+  userId: true,
+  courseId: true,
+  questionId: true,
+  questionKey: true,
+  question: true,
+});
+
+export type InsertQuizReviewItem = z.infer<typeof insertQuizReviewItemSchema>;
+export type QuizReviewItem = typeof quizReviewItems.$inferSelect;
+
+// Notifications - reminders and updates generated on the server, shown in the notification center
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // session_reminder, assignment_due, achievement, suggestion, system
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  priority: text("priority").default("medium").notNull(), // low, medium, high
+  read: boolean("read").default(false).notNull(),
+  actionUrl: text("action_url"),
+  relatedId: text("related_id"),
+  dedupeKey: text("dedupe_key").notNull(), // What the notification is about, so the scheduler never sends it twice
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+}, (table) => [
+  uniqueIndex("notifications_user_dedupe_idx").on(table.userId, table.dedupeKey),
+  index("notifications_user_timestamp_idx").on(table.userId, table.timestamp),
+]);
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(["session_reminder", "assignment_due", "achievement", "suggestion", "system"]),
+  priority: z.enum(["low", "medium", "high"]),
+}).pick({
+  userId: true,
+  type: true,
+  title: true,
+  message: true,
+  priority: true,
+  actionUrl: true,
+  relatedId: true,
+  dedupeKey: true,
+});
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Push Subscriptions - Web Push endpoints registered by a user's browsers
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => [
+  index("push_subscriptions_user_idx").on(table.userId),
+]);
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).pick({
+  userId: true,
+  endpoint: true,
+  p256dh: true,
+  auth: true,
+  userAgent: true,
+});
+
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+
+// Notification Preferences - the toggles on the settings page, one row per user
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  enabled: boolean("enabled").default(true).notNull(),
+  assignmentReminders: boolean("assignment_reminders").default(true).notNull(),
+  studyReminders: boolean("study_reminders").default(true).notNull(), // Session reminders and study suggestions
+  achievements: boolean("achievements").default(true).notNull(),
+  progressReports: boolean("progress_reports").default(true).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).pick({
+  enabled: true,
+  assignmentReminders: true,
+  studyReminders: true,
+  achievements: true,
+  progressReports: true,
+});
+
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
+// Access Grants - a student lets a tutor or teacher see their data on routes that take a userId
+export const accessGrants = pgTable("access_grants", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull(), // The student whose data is shared
+  granteeId: integer("grantee_id").notNull(),
+  role: text("role").notNull(), // tutor, teacher
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("access_grants_owner_grantee_idx").on(table.ownerId, table.granteeId),
+  index("access_grants_grantee_idx").on(table.granteeId),
+]);
+
+export const insertAccessGrantSchema = createInsertSchema(accessGrants, {
+  role: z.enum(["tutor", "teacher"]),
+}).pick({
+  ownerId: true,
+  granteeId: true,
+  role: true,
+});
+
+export type InsertAccessGrant = z.infer<typeof insertAccessGrantSchema>;
+export type AccessGrant = typeof accessGrants.$inferSelect;
+
+// Presentations - a student's talk outline, full text, text revisions and prepared Q&A, one per course
+export const outlineSectionSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  content: z.string(),
+  time: z.number().min(0), // Planned minutes
+  suggestions: z.array(z.string()),
+});
+
+export const presentationQuestionSchema = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  category: z.string(),
+  difficulty: z.enum(["basic", "intermediate", "advanced"]),
+  preparedAnswer: z.string(),
+  source: z.enum(["generated", "manual"]),
+  isFavorite: z.boolean(),
+});
+
+export const textSuggestionSchema = z.object({
+  id: z.string().min(1),
+  original: z.string(),
+  suggested: z.string(),
+  type: z.enum(["grammar", "clarity", "academic", "conciseness"]),
+  explanation: z.string(),
+  startIndex: z.number().int().min(0),
+  endIndex: z.number().int().min(0),
+  applied: z.boolean(),
+});
+
+// Speech delivery analysis of a practice run; times are seconds from the start of the recording
+export const deliveryTimelinePointSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  wordsPerMinute: z.number(),
+  pace: z.enum(["slow", "good", "fast"]).nullable(), // null when nothing was said in the window
+  fillerCount: z.number().int(),
+  volumeDb: z.number().nullable(), // Average level while speaking, dBFS; null without audio
+  speakingRatio: z.number().nullable(), // Share of the window with speech; null without audio
+  sectionId: z.string().nullable(),
+});
+
+export const sectionTimingSchema = z.object({
+  sectionId: z.string(),
+  title: z.string(),
+  plannedSeconds: z.number(),
+  actualSeconds: z.number(),
+  start: z.number().nullable(),
+  end: z.number().nullable(),
+  wordsPerMinute: z.number().nullable(),
+  status: z.enum(["under", "on_time", "over", "missed"]),
+});
+
+export const deliveryAnalysisSchema = z.object({
+  durationSeconds: z.number(),
+  speakingSeconds: z.number().nullable(), // Time with speech; null without audio
+  wordCount: z.number().int(),
+  wordsPerMinute: z.number().int(),
+  fillers: z.object({
+    total: z.number().int(),
+    perMinute: z.number(),
+    counts: z.record(z.number().int()),
+  }),
+  pauses: z.object({
+    count: z.number().int(),
+    totalSeconds: z.number(),
+    longest: z.number(),
+    long: z.array(z.object({ start: z.number(), end: z.number() })),
+  }).nullable(), // null without audio
+  sectionSource: z.enum(["marked", "transcript"]).nullable(), // How section boundaries were found
+  sections: z.array(sectionTimingSchema),
+  timeline: z.array(deliveryTimelinePointSchema),
+});
+
+export type OutlineSection = z.infer<typeof outlineSectionSchema>;
+export type PresentationQuestion = z.infer<typeof presentationQuestionSchema>;
+export type TextSuggestion = z.infer<typeof textSuggestionSchema>;
+export type DeliveryTimelinePoint = z.infer<typeof deliveryTimelinePointSchema>;
+export type SectionTiming = z.infer<typeof sectionTimingSchema>;
+export type DeliveryAnalysis = z.infer<typeof deliveryAnalysisSchema>;
+
+export const presentations = pgTable("presentations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  courseId: text("course_id"), // Null for the presentation page opened outside a course
+  title: text("title").default("My Presentation").notNull(),
+  outline: json("outline").$type<OutlineSection[]>().notNull(),
+  fullText: text("full_text").default("").notNull(),
+  textSuggestions: json("text_suggestions").$type<TextSuggestion[]>().notNull(),
+  questions: json("questions").$type<PresentationQuestion[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("presentations_user_course_idx").on(table.userId, table.courseId),
+  // Postgres treats nulls as distinct in a unique index, so the presentation outside a course needs its own
+  uniqueIndex("presentations_user_no_course_idx").on(table.userId).where(isNull(table.courseId)),
+]);
+
+export const insertPresentationSchema = createInsertSchema(presentations, {
+  title: z.string().min(1).max(200),
+  outline: z.array(outlineSectionSchema),
+  textSuggestions: z.array(textSuggestionSchema),
+  questions: z.array(presentationQuestionSchema),
+}).pick({
+  userId: true,
+  courseId: true,
+  title: true,
+  outline: true,
+  fullText: true,
+  textSuggestions: true,
+  questions: true,
+});
+
+export type InsertPresentation = z.infer<typeof insertPresentationSchema>;
+export type Presentation = typeof presentations.$inferSelect;
+
+// Presentation Practices - one row per recorded run-through; uploaded audio is analysed, not stored
+export const presentationPractices = pgTable("presentation_practices", {
+  id: serial("id").primaryKey(),
+  presentationId: integer("presentation_id").notNull(),
+  userId: integer("user_id").notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  duration: integer("duration").notNull(), // seconds
+  transcript: text("transcript").default("").notNull(),
+  wordsPerMinute: integer("words_per_minute"),
+  paceStatus: text("pace_status"), // slow, good, fast
+  feedback: json("feedback").$type<Record<string, any>>(),
+  analysis: json("analysis").$type<DeliveryAnalysis>(),
+}, (table) => [
+  index("presentation_practices_presentation_idx").on(table.presentationId, table.recordedAt),
+]);
+
+export const insertPresentationPracticeSchema = createInsertSchema(presentationPractices, {
+  duration: z.number().int().min(0),
+  paceStatus: z.enum(["slow", "good", "fast"]).nullable().optional(),
+  feedback: z.record(z.any()).nullable().optional(),
+  analysis: deliveryAnalysisSchema.nullable().optional(),
+}).pick({
+  presentationId: true,
+  userId: true,
+  duration: true,
+  transcript: true,
+  wordsPerMinute: true,
+  paceStatus: true,
+  feedback: true,
+  analysis: true,
+});
+
+export type InsertPresentationPractice = z.infer<typeof insertPresentationPracticeSchema>;
+export type PresentationPractice = typeof presentationPractices.$inferSelect;
+
+// Vocal Attempts - one scored read-aloud, from a vocal challenge or the free assessment tool
+export const vocalAttempts = pgTable("vocal_attempts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  challengeId: text("challenge_id"), // Null for the free assessment tool
+  challengeType: text("challenge_type"), // pronunciation, pacing, fluency, projection, term, definition, teach_back
+  difficulty: integer("difficulty"), // 1-5
+  targetText: text("target_text").notNull(), // For explain challenges, the reference answer
+  transcript: text("transcript").default("").notNull(),
+  durationSeconds: real("duration_seconds").notNull(),
+  wordsPerMinute: integer("words_per_minute"),
+  // Score breakdown, 0-100; pace needs transcribed words and volume needs audio
+  overallScore: integer("overall_score").notNull(),
+  accuracyScore: integer("accuracy_score").notNull(),
+  paceScore: integer("pace_score"),
+  fluencyScore: integer("fluency_score").notNull(),
+  volumeScore: integer("volume_score"),
+  weaknesses: text("weaknesses").array(), // accuracy, pace_slow, pace_fast, fluency, volume
+  missedWords: text("missed_words").array(), // Target words left out or misread
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("vocal_attempts_user_created_idx").on(table.userId, table.createdAt),
+  index("vocal_attempts_user_challenge_idx").on(table.userId, table.challengeId),
+]);
+
+export const insertVocalAttemptSchema = createInsertSchema(vocalAttempts).pick({
+  userId: true,
+  challengeId: true,
+  challengeType: true,
+  difficulty: true,
+  targetText: true,
+  transcript: true,
+  durationSeconds: true,
+  wordsPerMinute: true,
+  overallScore: true,
+  accuracyScore: true,
+  paceScore: true,
+  fluencyScore: true,
+  volumeScore: true,
+  weaknesses: true,
+  missedWords: true,
+});
+
+export type InsertVocalAttempt = z.infer<typeof insertVocalAttemptSchema>;
+export type VocalAttempt = typeof vocalAttempts.$inferSelect;